@@ -0,0 +1,208 @@
+/**
+ * Generates src/data/texasCountyPaths.ts and src/data/texasCountyAdjacency.ts from public/texas-map.svg
+ *
+ * The Inkscape export only uses relative "m" commands (implicit relative line-tos),
+ * so bounding boxes are computed by walking the path points.
+ *
+ * Land areas are not derived from the outlines: the map projection and water inside
+ * county lines skew them badly. They come from Census ALAND in src/data/texasCountyLandAreas.ts.
+ *
+ * Neighbouring counties are found from shared boundaries: two outlines are adjacent
+ * when each has at least two points on the other's boundary, so counties that only
+ * touch at a corner are not neighbours.
+ *
+ * Usage: npm run generate:county-paths
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const rootDir = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const svgPath = resolve(rootDir, 'public/texas-map.svg');
+const outputPath = resolve(rootDir, 'src/data/texasCountyPaths.ts');
+const adjacencyOutputPath = resolve(rootDir, 'src/data/texasCountyAdjacency.ts');
+
+/**
+ * Distance in SVG user units under which points of two outlines count as the same boundary point
+ */
+const SHARED_POINT_TOLERANCE = 0.005;
+
+/**
+ * Rounds a coordinate for the generated file
+ * @param value - Coordinate
+ * @returns Value rounded to three decimals
+ */
+const round = (value) => Math.round(value * 1000) / 1000;
+
+/**
+ * Splits a path made of relative "m" commands into polygons of absolute points
+ * @param d - Path data
+ * @returns One array of points per subpath
+ */
+const getPathPolygons = (d) => {
+  const tokens = d.match(/[a-zA-Z]|-?\d*\.?\d+(?:e-?\d+)?/g) ?? [];
+  const polygons = [];
+  let x = 0;
+  let y = 0;
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (/[a-zA-Z]/.test(token)) {
+      if (token !== 'm') {
+        throw new Error(`Unsupported path command "${token}"`);
+      }
+      polygons.push([]);
+      continue;
+    }
+
+    x += Number(token);
+    y += Number(tokens[++index]);
+    polygons[polygons.length - 1].push({ x, y });
+  }
+
+  return polygons;
+};
+
+/**
+ * Computes the bounding box of a set of polygons
+ * @param polygons - Polygons of absolute points
+ * @returns Bounding box in SVG user units
+ */
+const getPolygonsBBox = (polygons) => {
+  const points = polygons.flat();
+  const minX = Math.min(...points.map(({ x }) => x));
+  const minY = Math.min(...points.map(({ y }) => y));
+  const maxX = Math.max(...points.map(({ x }) => x));
+  const maxY = Math.max(...points.map(({ y }) => y));
+
+  return {
+    x: round(minX),
+    y: round(minY),
+    width: round(maxX - minX),
+    height: round(maxY - minY)
+  };
+};
+
+/**
+ * Finds the neighbouring counties of every county from shared boundary points
+ * @param counties - Counties with their polygons
+ * @returns Sorted neighbour names keyed by county name
+ */
+const getCountyAdjacency = (counties) => {
+  const getCell = ({ x, y }) => [Math.round(x / SHARED_POINT_TOLERANCE), Math.round(y / SHARED_POINT_TOLERANCE)];
+
+  // Counties with a point in each grid cell
+  const grid = new Map();
+  counties.forEach(({ polygons }, countyIndex) => {
+    polygons.flat().forEach((point) => {
+      const cellKey = getCell(point).join(',');
+      if (!grid.has(cellKey)) grid.set(cellKey, new Set());
+      grid.get(cellKey).add(countyIndex);
+    });
+  });
+
+  // sharedPointCounts[a].get(b): points of county a lying on county b's boundary
+  const sharedPointCounts = counties.map(({ polygons }, countyIndex) => {
+    const counts = new Map();
+    polygons.flat().forEach((point) => {
+      const [cellX, cellY] = getCell(point);
+      const nearbyCounties = new Set();
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          grid.get(`${cellX + dx},${cellY + dy}`)?.forEach((otherIndex) => nearbyCounties.add(otherIndex));
+        }
+      }
+      nearbyCounties.delete(countyIndex);
+      nearbyCounties.forEach((otherIndex) => counts.set(otherIndex, (counts.get(otherIndex) ?? 0) + 1));
+    });
+    return counts;
+  });
+
+  return Object.fromEntries(counties.map(({ name }, countyIndex) => [
+    name,
+    [...sharedPointCounts[countyIndex].keys()]
+      .filter((otherIndex) => sharedPointCounts[countyIndex].get(otherIndex) >= 2 && (sharedPointCounts[otherIndex].get(countyIndex) ?? 0) >= 2)
+      .map((otherIndex) => counties[otherIndex].name)
+      .sort()
+  ]));
+};
+
+/**
+ * Quotes a county name for the generated files
+ * @param name - County name
+ * @returns Single-quoted string literal
+ */
+const quote = (name) => `'${name.replace(/'/g, "\\'")}'`;
+
+const svg = readFileSync(svgPath, 'utf8');
+
+const viewBoxMatch = svg.match(/viewBox="([^"]+)"/);
+if (!viewBoxMatch) {
+  throw new Error('SVG has no viewBox');
+}
+const [viewBoxX, viewBoxY, viewBoxWidth, viewBoxHeight] = viewBoxMatch[1].split(/\s+/).map(Number);
+
+const counties = [...svg.matchAll(/<path([\s\S]*?)\/>/g)].map(([, attributes]) => {
+  const name = attributes.match(/\sid="([^"]+)"/)?.[1];
+  const d = attributes.match(/\sd="([^"]+)"/)?.[1];
+  if (!name || !d) {
+    throw new Error('County path is missing its id or d attribute');
+  }
+  const polygons = getPathPolygons(d);
+  return { name, d: d.replace(/\s+/g, ' ').trim(), polygons, bbox: getPolygonsBBox(polygons) };
+});
+
+const lines = [
+  '/**',
+  ' * Texas county path data',
+  ' * ',
+  ' * Generated from public/texas-map.svg by scripts/generate-county-paths.mjs - do not edit by hand',
+  ' */',
+  '',
+  "import { CountyPath, MapViewBox } from '@/types';",
+  '',
+  '/**',
+  ' * View box of the Texas map in SVG user units',
+  ' */',
+  `export const TEXAS_MAP_VIEWBOX: MapViewBox = { x: ${viewBoxX}, y: ${viewBoxY}, width: ${viewBoxWidth}, height: ${viewBoxHeight} };`,
+  '',
+  '/**',
+  ' * County outlines in drawing order',
+  ' */',
+  'export const TEXAS_COUNTY_PATHS: CountyPath[] = [',
+  counties.map(({ name, d, bbox }) => [
+    '  {',
+    `    name: ${quote(name)},`,
+    `    bbox: { x: ${bbox.x}, y: ${bbox.y}, width: ${bbox.width}, height: ${bbox.height} },`,
+    `    d: '${d}'`,
+    '  }'
+  ].join('\n')).join(',\n'),
+  '];',
+  ''
+];
+
+writeFileSync(outputPath, lines.join('\n'));
+console.log(`Wrote ${counties.length} county paths to ${outputPath}`);
+
+const adjacency = getCountyAdjacency(counties);
+const adjacencyLines = [
+  '/**',
+  ' * Texas county adjacency',
+  ' * ',
+  ' * Generated from public/texas-map.svg by scripts/generate-county-paths.mjs - do not edit by hand',
+  ' */',
+  '',
+  '/**',
+  ' * Neighbouring counties of each county, keyed by county name',
+  ' * Counties are neighbours when their outlines share a boundary, not just a corner',
+  ' */',
+  'export const TEXAS_COUNTY_ADJACENCY: Record<string, string[]> = {',
+  Object.keys(adjacency).sort().map((name) => `  ${quote(name)}: [${adjacency[name].map(quote).join(', ')}]`).join(',\n'),
+  '};',
+  ''
+];
+
+writeFileSync(adjacencyOutputPath, adjacencyLines.join('\n'));
+const edgeCount = Object.values(adjacency).reduce((total, neighbours) => total + neighbours.length, 0) / 2;
+console.log(`Wrote ${edgeCount} county adjacencies to ${adjacencyOutputPath}`);
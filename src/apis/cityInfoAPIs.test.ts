@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { CityDataParseError, CITY_DATA_URL, getCityInfo, getCountyCitiesQuery, processCountyCities } from "@/apis/cityInfoAPIs";
+
+/**
+ * Build a city dataset response
+ * @param fields - Fields of each record
+ * @returns Records search response
+ */
+const buildResponse = (...fields: Record<string, unknown>[]) => ({
+    records: fields.map(recordFields => ({ fields: recordFields }))
+});
+
+describe("getCityInfo", () => {
+    it("builds the records search URL for a county", () => {
+        const url = getCityInfo(getCountyCitiesQuery('Travis County'));
+        const [path, query] = url.split('?');
+        const params = new URLSearchParams(query);
+
+        expect(path).toBe(CITY_DATA_URL);
+        expect(params.get('q')).toBe('');
+        expect(params.get('facet')).toBe('county');
+        expect(params.get('refine.county')).toBe('Travis');
+        expect(Number(params.get('rows'))).toBeGreaterThan(0);
+    });
+});
+
+describe("processCountyCities", () => {
+    it("keeps the county's cities, largest first", () => {
+        const cities = processCountyCities(buildResponse(
+            { name: 'Pflugerville', county: 'Travis', population: '65191', land_area: '22.9' },
+            { name: 'Round Rock', county: 'Williamson', population: 119468, land_area: 37.6 },
+            { name: 'Austin', county: 'Travis County', population: 961855, land_area: 319.9 }
+        ), 'travis');
+
+        expect(cities.map(({ name }) => name)).toEqual(['Austin', 'Pflugerville']);
+        expect(cities[0]).toEqual({
+            name: 'Austin',
+            county: 'Travis',
+            population: 961855,
+            area: 319.9,
+            populationDensity: 961855 / 319.9
+        });
+    });
+
+    it("leaves the area and density of cities without a land area not available", () => {
+        const [city] = processCountyCities(buildResponse(
+            { name: 'Lago Vista', county: 'Travis', population: 7428, land_area: 0 }
+        ), 'Travis');
+
+        expect(city.area).toBeNull();
+        expect(city.populationDensity).toBeNull();
+    });
+
+    it("skips records without a name or population", () => {
+        const cities = processCountyCities(buildResponse(
+            { name: 'Austin', county: 'Travis', population: 961855 },
+            { name: '', county: 'Travis', population: 100 },
+            { county: 'Travis', population: 100 },
+            { name: 'Manor', county: 'Travis', population: 'unknown' },
+            { name: 'Bee Cave', county: 'Travis', population: -1 },
+            { name: 'Sunset Valley' }
+        ), 'Travis');
+
+        expect(cities.map(({ name }) => name)).toEqual(['Austin']);
+    });
+
+    it("rejects a response without a records list", () => {
+        expect(() => processCountyCities(null, 'Travis')).toThrow(CityDataParseError);
+        expect(() => processCountyCities({ records: 'none' }, 'Travis')).toThrow(CityDataParseError);
+    });
+});
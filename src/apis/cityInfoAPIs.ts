@@ -0,0 +1,112 @@
+import { CityDataResponse, CityInfo, GetCityInfoData } from "@/types";
+import { extractCountyName, normalizeCountyName } from "@/utils/countyUtils";
+
+/**
+ * City dataset endpoint, in the OpenDataSoft records search format
+ * Set NEXT_PUBLIC_CITY_DATA_URL to use a live dataset; the default is the snapshot bundled in public/data
+ */
+export const CITY_DATA_URL = process.env.NEXT_PUBLIC_CITY_DATA_URL || '/data/texas-cities.json';
+
+/**
+ * Dataset id sent with every query (NEXT_PUBLIC_CITY_DATASET)
+ */
+export const CITY_DATASET = process.env.NEXT_PUBLIC_CITY_DATASET || 'texas-cities';
+
+/**
+ * Dataset field holding the county name of each city
+ */
+const CITY_COUNTY_FIELD = 'county';
+
+/**
+ * Most cities listed for one county (Harris and Dallas counties have about 35)
+ */
+const MAX_COUNTY_CITIES = 100;
+
+/**
+ * Error raised when a city dataset response does not have the expected shape
+ */
+export class CityDataParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CityDataParseError';
+    }
+}
+
+/**
+ * Get the city dataset URL for a query
+ * @param params - Query text, row limit, facet field, dataset and optional facet value
+ * @returns Records search URL (e.g., "/data/texas-cities.json?dataset=texas-cities&q=&rows=100&facet=county&refine.county=Travis")
+ */
+export function getCityInfo({ cityName, rows, facet, dataset, refine }: GetCityInfoData): string {
+    const query = new URLSearchParams({ dataset, q: cityName, rows: String(rows), facet });
+    if (refine) {
+        query.set(`refine.${facet}`, refine);
+    }
+    return `${CITY_DATA_URL}${CITY_DATA_URL.includes('?') ? '&' : '?'}${query.toString()}`;
+}
+
+/**
+ * Get the city dataset query for every city in a county
+ * @param countyName - Name of the county (e.g., "Travis")
+ * @returns Query parameters for getCityInfo
+ */
+export function getCountyCitiesQuery(countyName: string): GetCityInfoData {
+    return {
+        cityName: '',
+        rows: MAX_COUNTY_CITIES,
+        facet: CITY_COUNTY_FIELD,
+        dataset: CITY_DATASET,
+        refine: extractCountyName(countyName)
+    };
+}
+
+/**
+ * Read a non-negative number from a record field
+ * @param value - Field value (number or numeric string)
+ * @returns Number, or null if missing or invalid
+ */
+const parseCityNumber = (value: unknown): number | null => {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) && number >= 0 ? number : null;
+};
+
+/**
+ * Process a city dataset response into the cities of one county
+ * Records of other counties are dropped, so an endpoint that ignores the refine
+ * parameter (such as a static fixture) returns the same list
+ * Records without a name or population are skipped rather than failing the whole list
+ * @param data - Raw records search response
+ * @param countyName - Name of the county (e.g., "Travis")
+ * @returns Cities sorted by population, largest first
+ * @throws CityDataParseError if the response has no records list
+ */
+export function processCountyCities(data: unknown, countyName: string): CityInfo[] {
+    const response = data as CityDataResponse | null;
+    if (!response || !Array.isArray(response.records)) {
+        throw new CityDataParseError('City data response has no records list');
+    }
+
+    const normalizedCounty = normalizeCountyName(extractCountyName(countyName));
+
+    return response.records
+        .filter(({ fields }) => (
+            typeof fields?.[CITY_COUNTY_FIELD] === 'string' &&
+            normalizeCountyName(extractCountyName(fields[CITY_COUNTY_FIELD] as string)) === normalizedCounty
+        ))
+        .flatMap(({ fields }): CityInfo[] => {
+            const population = parseCityNumber(fields.population);
+            if (typeof fields.name !== 'string' || fields.name.trim() === '' || population === null) {
+                return [];
+            }
+
+            const area = parseCityNumber(fields.land_area);
+            return [{
+                name: fields.name,
+                county: extractCountyName(fields[CITY_COUNTY_FIELD] as string),
+                population,
+                area: area && area > 0 ? area : null,
+                populationDensity: area && area > 0 ? population / area : null
+            }];
+        })
+        .sort((a, b) => b.population - a.population);
+}
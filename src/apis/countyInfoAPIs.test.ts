@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { CensusParseError, getCountyFips, getCountyNameByFips, parseTexasCountyFips, processCensusData, processStatewideCensusData } from "@/apis/countyInfoAPIs";
+import { CENSUS_HEADER, buildCensusRow } from "@/test/countyFixtures";
+import { COMMUTE_BUCKETS } from "@/utils/metricRegistry";
+
+describe("processCensusData", () => {
+    it("reads values by header name, not position", () => {
+        const county = processCensusData([CENSUS_HEADER, buildCensusRow('453', { B01001_001E: '1290188', B01001_001M: '-555555555' })]);
+
+        expect(county.name).toBe('County 453, Texas');
+        expect(county.countyCode).toBe('453');
+        expect(county.population).toBe(1290188);
+        expect(county.medianHouseholdIncome).toBe(100);
+        expect(county.commuteDistribution).toEqual(COMMUTE_BUCKETS.map(() => 100));
+    });
+
+    it("treats annotation sentinels and nulls as not available", () => {
+        const county = processCensusData([CENSUS_HEADER, buildCensusRow('453', {
+            B19013_001E: '-666666666',
+            B25077_001E: null,
+            B08303_002E: '-999999999'
+        })]);
+
+        expect(county.medianHouseholdIncome).toBeNull();
+        expect(county.medianHomeValue).toBeNull();
+        expect(county.marginsOfError.medianHouseholdIncome).toBeUndefined();
+        expect(county.commuteDistribution).toBeNull();
+    });
+
+    it("tells controlled margins apart from unavailable ones", () => {
+        const county = processCensusData([CENSUS_HEADER, buildCensusRow('453', {
+            B01001_001M: '-555555555',
+            B19013_001M: '-222222222',
+            B25077_001M: '2500'
+        })]);
+
+        expect(county.marginsOfError.population).toBeNull();
+        expect('medianHouseholdIncome' in county.marginsOfError).toBe(false);
+        expect(county.marginsOfError.medianHomeValue).toBe(2500);
+    });
+
+    it("resolves the bundled and derived metrics of the county", () => {
+        const county = processCensusData([CENSUS_HEADER, buildCensusRow('453', {
+            B15003_001E: '200',
+            B15003_022E: '50',
+            B08303_001E: '0'
+        })]);
+
+        expect(county.landArea).toBeGreaterThan(0);
+        expect(county.bachelorsShare).toBe(25);
+        expect(county.meanTravelTime).toBeNull();
+    });
+
+    it("rejects malformed responses", () => {
+        expect(() => processCensusData([CENSUS_HEADER])).toThrow(CensusParseError);
+        expect(() => processCensusData([CENSUS_HEADER.slice(1), buildCensusRow('453').slice(1)])).toThrow(/missing columns: state/);
+        expect(() => processCensusData([CENSUS_HEADER, buildCensusRow('453').slice(1)])).toThrow(/has \d+ values/);
+        expect(() => processCensusData([CENSUS_HEADER, buildCensusRow('453', { B01001_001E: 'n/a' })])).toThrow(/not a number/);
+        expect(() => processCensusData([CENSUS_HEADER, buildCensusRow('999')])).toThrow(/Texas county/);
+        expect(() => processCensusData([CENSUS_HEADER, buildCensusRow('453'), buildCensusRow('201')])).toThrow(/Expected one county/);
+    });
+});
+
+describe("processStatewideCensusData", () => {
+    it("keys the counties by 5-digit FIPS code", () => {
+        const counties = processStatewideCensusData([CENSUS_HEADER, buildCensusRow('453'), buildCensusRow('201')]);
+
+        expect(Object.keys(counties).sort()).toEqual(['48201', '48453']);
+        expect(counties['48201'].countyCode).toBe('201');
+    });
+});
+
+describe("county FIPS lookups", () => {
+    it("maps names and FIPS codes both ways", () => {
+        expect(getCountyFips('la salle')).toBe('283');
+        expect(getCountyNameByFips('283')).toBe('La Salle');
+        expect(getCountyNameByFips('48453')).toBe('Travis');
+    });
+
+    it("only accepts 5-digit Texas county FIPS codes", () => {
+        expect(parseTexasCountyFips('48453')).toBe('453');
+        expect(parseTexasCountyFips('06037')).toBeNull();
+        expect(parseTexasCountyFips('48999')).toBeNull();
+        expect(parseTexasCountyFips('453')).toBeNull();
+    });
+});
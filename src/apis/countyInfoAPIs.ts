@@ -1,4 +1,63 @@
-import { CountyInfo, GetCountyInfoData } from "@/types";
+import { AcsVintage, CensusResponse, CountyInfo, CountyMarginsOfError, GetCountyInfoData, MetricKey } from "@/types";
+import { DEFAULT_ACS_VINTAGE, getAcsVintageQuery } from "@/utils/acsVintage";
+import { COMMUTE_BUCKETS, getCensusMetrics, resolveMetrics } from "@/utils/metricRegistry";
+
+/**
+ * Texas state FIPS code
+ */
+const TEXAS_STATE_FIPS = '48';
+
+/**
+ * Get the Census ACS endpoint for a vintage
+ * @param vintage - ACS vintage (year and dataset)
+ * @returns Census API base URL (e.g., "https://api.census.gov/data/2022/acs/acs5")
+ */
+const getCensusAcsUrl = ({ year, dataset }: AcsVintage): string => {
+    return `https://api.census.gov/data/${year}/acs/${dataset}`;
+};
+
+/**
+ * Census estimate variables (without the E/M suffix) of the registry's census metrics
+ * Each is requested as an estimate (…E) and a 90% margin of error (…M)
+ */
+const ESTIMATE_VARIABLES = getCensusMetrics();
+
+/**
+ * Travel time to work buckets (B08303_002E-B08303_013E), in COMMUTE_BUCKETS order
+ */
+const COMMUTE_BUCKET_VARIABLES = COMMUTE_BUCKETS.map(({ code }) => `${code}E`);
+
+/**
+ * Requested variables: NAME, every estimate, every margin of error, then the commute buckets
+ * Responses are parsed by matching the header row, so the order is only cosmetic
+ */
+const CENSUS_VARIABLES = [
+    'NAME',
+    ...ESTIMATE_VARIABLES.map(({ code }) => `${code}E`),
+    ...ESTIMATE_VARIABLES.map(({ code }) => `${code}M`),
+    ...COMMUTE_BUCKET_VARIABLES
+].join(',');
+
+/**
+ * Columns every response must contain: the requested variables plus the geography columns
+ */
+const REQUIRED_COLUMNS = [...CENSUS_VARIABLES.split(','), 'state', 'county'];
+
+/**
+ * Margin of error annotation for estimates that are controlled and have no sampling error
+ * Other annotations (e.g. -222222222: too few sample observations) mean the margin is not available
+ */
+const CONTROLLED_MARGIN_ANNOTATION = -555555555;
+
+/**
+ * Error raised when a Census response does not have the expected shape
+ */
+export class CensusParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CensusParseError';
+    }
+}
 
 /**
  * Texas County Name to FIPS Code mapping
@@ -40,7 +99,7 @@ const TEXAS_COUNTY_FIPS: Record<string, string> = {
     'Kaufman': '257',     'Kendall': '259',      'Kenedy': '261',       'Kent': '263',
     'Kerr': '265',        'Kimble': '267',       'King': '269',         'Kinney': '271',
     'Kleberg': '273',     'Knox': '275',         'Lamar': '277',        'Lamb': '279',
-    'Lampasas': '281',    'LaSalle': '283',      'Lavaca': '285',       'Lee': '287',
+    'Lampasas': '281',    'La Salle': '283',     'Lavaca': '285',       'Lee': '287',
     'Leon': '289',        'Liberty': '291',      'Limestone': '293',    'Lipscomb': '295',
     'Live Oak': '297',    'Llano': '299',        'Loving': '301',       'Lubbock': '303',
     'Lynn': '305',        'McCulloch': '307',    'McLennan': '309',     'McMullen': '311',
@@ -72,11 +131,11 @@ const TEXAS_COUNTY_FIPS: Record<string, string> = {
 };
 
 /**
- * Get county information from US Census Bureau API for a specific county
- * @param countyName - Name of the county (e.g., "Harris", "Dallas")
- * @returns Census API URL for specific county demographic data
+ * Get the 3-digit county FIPS code for a Texas county
+ * @param countyName - Name of the county (case-insensitive, e.g., "Harris", "la salle")
+ * @returns County FIPS code (e.g., "201")
  */
-export function getCountyInfo({ countyName }: GetCountyInfoData): string {
+export function getCountyFips(countyName: string): string {
     // Find FIPS code for the county (case-insensitive lookup)
     const normalizedCountyName = Object.keys(TEXAS_COUNTY_FIPS).find(
         key => key.toLowerCase() === countyName.toLowerCase()
@@ -86,51 +145,236 @@ export function getCountyInfo({ countyName }: GetCountyInfoData): string {
         throw new Error(`County '${countyName}' not found in Texas. Please check the spelling.`);
     }
     
-    const fipsCode = TEXAS_COUNTY_FIPS[normalizedCountyName];
-    
-    // Get key demographic variables: NAME, Population, Median Household Income, etc.
-    const variables = [
-        'NAME',           // County name
-        'B01001_001E',    // Total population
-        'B19013_001E',    // Median household income
-        'B25077_001E',    // Median home value
-        'B08303_001E',    // Total commute time
-        'B15003_022E',    // Bachelor's degree
-        'B25003_002E',    // Owner occupied housing units
-        'B25003_003E'     // Renter occupied housing units
-    ].join(',');
-    
-    return `https://api.census.gov/data/2022/acs/acs5?get=${variables}&for=county:${fipsCode}&in=state:48`;
+    return TEXAS_COUNTY_FIPS[normalizedCountyName];
 }
 
 /**
- * Process Census API response for a single county
- * @param data - Raw Census API response (array of arrays format)
- * @returns Processed county data or null if invalid
+ * Get the county name for a Texas county FIPS code
+ * @param fips - 3-digit county FIPS or 5-digit state+county FIPS (e.g., "201" or "48201")
+ * @returns County name (e.g., "Harris") or null if unknown
  */
-export function processCensusData(data: string[][]): CountyInfo | null {
-    if (!data || data.length < 2) return null;
-    
-    // For single county requests, we expect exactly 2 rows: headers + data
-    const countyRow = data[1];
-    
-    if (!countyRow || countyRow.length < 10) return null;
+export function getCountyNameByFips(fips: string): string | null {
+    const countyFips = fips.length === 5 ? fips.slice(2) : fips;
+    const countyName = Object.keys(TEXAS_COUNTY_FIPS).find(
+        key => TEXAS_COUNTY_FIPS[key] === countyFips
+    );
+    return countyName ?? null;
+}
+
+/**
+ * Get county information from US Census Bureau API for a specific county
+ * @param countyName - Name of the county (e.g., "Harris", "Dallas")
+ * @param vintage - ACS vintage to request
+ * @returns Census API URL for specific county demographic data
+ */
+export function getCountyInfo({ countyName, vintage = DEFAULT_ACS_VINTAGE }: GetCountyInfoData): string {
+    return getCountyInfoByFips(getCountyFips(countyName), vintage);
+}
+
+/**
+ * Get county information from US Census Bureau API for a specific county FIPS code
+ * @param countyFips - 3-digit county FIPS code (e.g., "201")
+ * @param vintage - ACS vintage to request
+ * @returns Census API URL for specific county demographic data
+ */
+export function getCountyInfoByFips(countyFips: string, vintage: AcsVintage = DEFAULT_ACS_VINTAGE): string {
+    return `${getCensusAcsUrl(vintage)}?get=${CENSUS_VARIABLES}&for=county:${countyFips}&in=state:${TEXAS_STATE_FIPS}`;
+}
+
+/**
+ * Get county information from US Census Bureau API for all Texas counties
+ * A single request replaces 254 per-county requests
+ * @param vintage - ACS vintage to request
+ * @returns Census API URL for demographic data of every Texas county
+ */
+export function getAllCountiesInfo(vintage: AcsVintage = DEFAULT_ACS_VINTAGE): string {
+    return `${getCensusAcsUrl(vintage)}?get=${CENSUS_VARIABLES}&for=county:*&in=state:${TEXAS_STATE_FIPS}`;
+}
+
+/**
+ * Get the app's Census proxy route for a specific county
+ * The route fetches and caches Census data on the server and returns CountyInfo JSON
+ * @param countyName - Name of the county (e.g., "Harris", "Dallas")
+ * @param vintage - ACS vintage to request
+ * @returns Proxy route URL (e.g., "/api/census/county/48201?year=2022&dataset=acs5")
+ */
+export function getCountyInfoRoute({ countyName, vintage = DEFAULT_ACS_VINTAGE }: GetCountyInfoData): string {
+    return `/api/census/county/${TEXAS_STATE_FIPS}${getCountyFips(countyName)}?${getAcsVintageQuery(vintage)}`;
+}
+
+/**
+ * Get the app's Census proxy route for all Texas counties
+ * @param vintage - ACS vintage to request
+ * @returns Proxy route URL returning CountyInfo JSON keyed by FIPS code
+ */
+export function getAllCountiesInfoRoute(vintage: AcsVintage = DEFAULT_ACS_VINTAGE): string {
+    return `/api/census/counties?${getAcsVintageQuery(vintage)}`;
+}
+
+/**
+ * Split a 5-digit Texas FIPS code into its county part
+ * @param fips - 5-digit state+county FIPS code (e.g., "48201")
+ * @returns 3-digit county FIPS code, or null if not a known Texas county
+ */
+export function parseTexasCountyFips(fips: string): string | null {
+    if (!/^\d{5}$/.test(fips) || !fips.startsWith(TEXAS_STATE_FIPS)) return null;
     
-    // Create object with meaningful property names
-    const countyData: CountyInfo = {
-        name: countyRow[0],
-        population: parseInt(countyRow[1]) || 0,
-        medianHouseholdIncome: parseInt(countyRow[2]) || 0,
-        medianHomeValue: parseInt(countyRow[3]) || 0,
-        totalCommuteTime: parseInt(countyRow[4]) || 0,
-        bachelorsDegreePop: parseInt(countyRow[5]) || 0,
-        ownerOccupiedHousing: parseInt(countyRow[6]) || 0,
-        renterOccupiedHousing: parseInt(countyRow[7]) || 0,
-        stateCode: countyRow[8],
-        countyCode: countyRow[9]
+    const countyFips = fips.slice(2);
+    return getCountyNameByFips(countyFips) ? countyFips : null;
+}
+
+/**
+ * Map the required columns of a Census response to their positions in the header row
+ * @param header - Header row of variable names
+ * @returns Column index keyed by variable name
+ * @throws CensusParseError if a required column is missing
+ */
+function getColumnIndexes(header: (string | null)[]): Map<string, number> {
+    const columns = new Map<string, number>();
+    header.forEach((name, index) => {
+        if (name) columns.set(name, index);
+    });
+
+    const missingColumns = REQUIRED_COLUMNS.filter(name => !columns.has(name));
+    if (missingColumns.length > 0) {
+        throw new CensusParseError(`Census response is missing columns: ${missingColumns.join(', ')}`);
+    }
+
+    return columns;
+}
+
+/**
+ * Parse a numeric Census cell
+ * Census annotation values (large negative codes such as -666666666) and nulls are returned
+ * as null; they are never treated as real numbers
+ * @param cell - Raw cell value
+ * @param column - Variable name, for error messages
+ * @returns Non-negative number, or null when not available
+ * @throws CensusParseError if the cell is not numeric
+ */
+function parseCensusNumber(cell: string | null, column: string): number | null {
+    if (cell === null || cell.trim() === '') return null;
+
+    const value = Number(cell);
+    if (!Number.isFinite(value)) {
+        throw new CensusParseError(`Census value '${cell}' for ${column} is not a number`);
+    }
+
+    // Every registry metric is a count, median or total, so negative values are annotations
+    return value < 0 ? null : value;
+}
+
+/**
+ * Parse the 90% margin of error of an estimate
+ * @param cell - Raw cell value
+ * @param column - Variable name, for error messages
+ * @returns Margin, null for controlled estimates without sampling error, or undefined when not available
+ * @throws CensusParseError if the cell is not numeric
+ */
+function parseCensusMargin(cell: string | null, column: string): number | null | undefined {
+    if (cell !== null && Number(cell) === CONTROLLED_MARGIN_ANNOTATION) return null;
+    return parseCensusNumber(cell, column) ?? undefined;
+}
+
+/**
+ * Parse one Census data row into county information
+ * Bundled and derived metrics are resolved here so every consumer sees the same values
+ * @param countyRow - Row of values matching the header row
+ * @param columns - Column indexes from getColumnIndexes
+ * @returns Processed county data
+ * @throws CensusParseError if the row does not match the header or identifies an unknown county
+ */
+function parseCountyRow(countyRow: (string | null)[], columns: Map<string, number>): CountyInfo {
+    const cell = (column: string): string | null => countyRow[columns.get(column)!];
+
+    const name = cell('NAME');
+    const stateCode = cell('state');
+    const countyCode = cell('county');
+    const countyName = countyCode ? getCountyNameByFips(countyCode) : null;
+    if (!name || stateCode !== TEXAS_STATE_FIPS || !countyCode || !countyName) {
+        throw new CensusParseError(`Census row does not identify a Texas county (state ${stateCode}, county ${countyCode})`);
+    }
+
+    const estimates: Partial<Record<MetricKey, number | null>> = {};
+    const censusMargins: CountyMarginsOfError = {};
+
+    ESTIMATE_VARIABLES.forEach(({ key, code }) => {
+        const estimate = parseCensusNumber(cell(`${code}E`), `${code}E`);
+        const margin = parseCensusMargin(cell(`${code}M`), `${code}M`);
+        estimates[key] = estimate;
+        if (estimate !== null && margin !== undefined) {
+            censusMargins[key] = margin;
+        }
+    });
+
+    const buckets = COMMUTE_BUCKET_VARIABLES.map(column => parseCensusNumber(cell(column), column));
+    const commuteDistribution = buckets.every((workers): workers is number => workers !== null) ? buckets : null;
+
+    const { values, marginsOfError } = resolveMetrics(countyCode, estimates, censusMargins);
+
+    return {
+        name,
+        ...values,
+        commuteDistribution,
+        stateCode,
+        countyCode,
+        marginsOfError
     };
-    
-    return countyData;
+}
+
+/**
+ * Validate the shape of a Census response and parse its data rows
+ * @param data - Raw Census API response (header row followed by data rows)
+ * @returns Processed county data, one per data row
+ * @throws CensusParseError if the response is not a header row followed by rows of the same length
+ */
+function parseCensusResponse(data: CensusResponse): CountyInfo[] {
+    if (!Array.isArray(data) || data.length < 2 || !data.every(Array.isArray)) {
+        throw new CensusParseError('Census response has no data rows');
+    }
+
+    const [header, ...rows] = data;
+    const columns = getColumnIndexes(header);
+
+    return rows.map((row, index) => {
+        if (row.length !== header.length) {
+            throw new CensusParseError(
+                `Census row ${index + 1} has ${row.length} values, expected ${header.length}`
+            );
+        }
+        return parseCountyRow(row, columns);
+    });
+}
+
+/**
+ * Process Census API response for a single county
+ * @param data - Raw Census API response (header row followed by one data row)
+ * @returns Processed county data
+ * @throws CensusParseError if the response is malformed or does not hold exactly one county
+ */
+export function processCensusData(data: CensusResponse): CountyInfo {
+    const counties = parseCensusResponse(data);
+    if (counties.length !== 1) {
+        throw new CensusParseError(`Expected one county in the Census response, got ${counties.length}`);
+    }
+
+    return counties[0];
+}
+
+/**
+ * Process Census API response for all counties of the state
+ * @param data - Raw Census API response (header row followed by one row per county)
+ * @returns Processed county data keyed by 5-digit FIPS code (e.g., "48201")
+ * @throws CensusParseError if the response is malformed
+ */
+export function processStatewideCensusData(data: CensusResponse): Record<string, CountyInfo> {
+    const counties: Record<string, CountyInfo> = {};
+
+    parseCensusResponse(data).forEach(countyData => {
+        counties[`${countyData.stateCode}${countyData.countyCode}`] = countyData;
+    });
+
+    return counties;
 }
 
 /**
@@ -0,0 +1,33 @@
+import { CensusProxyError, fetchAllCountiesInfo } from '@/services/censusProxyService';
+import { parseAcsVintage } from '@/utils/acsVintage';
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/census/counties?year=2022&dataset=acs5
+ * 
+ * Fetches Census data for every Texas county on the server in a single request.
+ * year and dataset are optional and default to DEFAULT_ACS_VINTAGE.
+ * 
+ * @param request - Incoming request
+ * @returns CountyInfo JSON keyed by 5-digit FIPS code, or { message } with an error status
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url);
+  const vintage = parseAcsVintage(searchParams.get('year'), searchParams.get('dataset'));
+
+  if (!vintage) {
+    return NextResponse.json({ message: 'Unsupported ACS year or dataset.' }, { status: 400 });
+  }
+
+  try {
+    const counties = await fetchAllCountiesInfo(vintage);
+    return NextResponse.json(counties, {
+      headers: { 'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=3600' }
+    });
+  } catch (error) {
+    console.error('Error proxying statewide Census data:', error);
+    const status = error instanceof CensusProxyError ? error.status : 500;
+    const message = error instanceof Error ? error.message : 'Failed to fetch Census data';
+    return NextResponse.json({ message }, { status });
+  }
+}
@@ -0,0 +1,49 @@
+import { parseTexasCountyFips } from '@/apis/countyInfoAPIs';
+import { CensusProxyError, fetchCountyInfo } from '@/services/censusProxyService';
+import { parseAcsVintage } from '@/utils/acsVintage';
+import { NextResponse } from 'next/server';
+
+/**
+ * Route params for the county proxy route
+ */
+interface CountyRouteContext {
+  params: Promise<{ fips: string }>;
+}
+
+/**
+ * GET /api/census/county/[fips]?year=2022&dataset=acs5
+ * 
+ * Fetches Census data for one Texas county on the server and returns it as CountyInfo JSON.
+ * year and dataset are optional and default to DEFAULT_ACS_VINTAGE.
+ * 
+ * @param request - Incoming request
+ * @param context - Route context with the 5-digit FIPS code (e.g., "48201")
+ * @returns CountyInfo JSON, or { message } with an error status
+ */
+export async function GET(request: Request, { params }: CountyRouteContext): Promise<NextResponse> {
+  const { fips } = await params;
+  const countyFips = parseTexasCountyFips(fips);
+
+  if (!countyFips) {
+    return NextResponse.json({ message: `'${fips}' is not a Texas county FIPS code.` }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const vintage = parseAcsVintage(searchParams.get('year'), searchParams.get('dataset'));
+
+  if (!vintage) {
+    return NextResponse.json({ message: 'Unsupported ACS year or dataset.' }, { status: 400 });
+  }
+
+  try {
+    const county = await fetchCountyInfo(countyFips, vintage);
+    return NextResponse.json(county, {
+      headers: { 'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=3600' }
+    });
+  } catch (error) {
+    console.error(`Error proxying Census data for ${fips}:`, error);
+    const status = error instanceof CensusProxyError ? error.status : 500;
+    const message = error instanceof Error ? error.message : 'Failed to fetch Census data';
+    return NextResponse.json({ message }, { status });
+  }
+}
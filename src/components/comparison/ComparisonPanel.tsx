@@ -0,0 +1,160 @@
+'use client';
+
+import { CountyInfo } from '@/types';
+import {
+  COMPARISON_FIELDS,
+  MAX_COMPARED_COUNTIES,
+  MIN_COMPARED_COUNTIES,
+  computeDifference,
+  getFieldExtremes
+} from '@/utils/comparison';
+import { formatCountyName } from '@/utils/countyUtils';
+import { formatMetricValue } from '@/utils/formatters';
+import React from 'react';
+
+/**
+ * Interface for ComparisonPanel props
+ */
+interface ComparisonPanelProps {
+  /** Names of the pinned counties, in pin order (first is the baseline) */
+  comparedCounties: string[];
+  /** Data for each pinned county (null when it failed to load) */
+  comparisonData: Record<string, CountyInfo | null>;
+  /** Loading state for comparison data */
+  isLoading: boolean;
+  /** Function to unpin a county */
+  onRemoveCounty: (countyName: string) => void;
+  /** Function to unpin every county */
+  onClear: () => void;
+}
+
+/**
+ * ComparisonPanel Component - Side-by-side table of pinned counties
+ * 
+ * Features:
+ * - One column per pinned county, one row per CountyInfo field
+ * - Highest value per row highlighted green, lowest red
+ * - Difference from the first pinned county (baseline) under each value
+ * - Unpin individual counties or clear the comparison
+ * 
+ * @param props - The component props
+ * @returns {React.JSX.Element | null} The comparison panel or null when nothing is pinned
+ */
+export default function ComparisonPanel({
+  comparedCounties,
+  comparisonData,
+  isLoading,
+  onRemoveCounty,
+  onClear
+}: ComparisonPanelProps): React.JSX.Element | null {
+  if (comparedCounties.length === 0) {
+    return null;
+  }
+
+  const [baselineCounty] = comparedCounties;
+  const baselineData = comparisonData[baselineCounty] ?? null;
+  const countiesData = comparedCounties.map(county => comparisonData[county] ?? null);
+
+  return (
+    <section
+      className="fixed bottom-4 left-4 right-4 md:left-auto md:w-[42rem] max-h-[60vh] overflow-auto bg-white rounded-xl shadow-2xl border border-gray-200 z-[900]"
+      aria-labelledby="comparison-title"
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 bg-gray-50 sticky top-0">
+        <h2 id="comparison-title" className="text-base font-semibold text-gray-900">
+          Compare Counties ({comparedCounties.length}/{MAX_COMPARED_COUNTIES})
+        </h2>
+        <button
+          className="text-sm text-gray-600 hover:text-gray-900 underline cursor-pointer"
+          type="button"
+          onClick={onClear}
+        >
+          Clear
+        </button>
+      </div>
+
+      {comparedCounties.length < MIN_COMPARED_COUNTIES ? (
+        <p className="px-4 py-3 text-sm text-gray-600">
+          {formatCountyName(baselineCounty)} is pinned. Shift-click another county on the map, or use
+          &quot;Pin to compare&quot; in its panel, to compare them.
+        </p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th scope="col" className="px-4 py-2 text-left font-medium text-gray-600">Metric</th>
+              {comparedCounties.map((county, index) => (
+                <th key={county} scope="col" className="px-4 py-2 text-right font-semibold text-gray-900">
+                  <div className="flex items-center justify-end gap-1">
+                    {formatCountyName(county)}
+                    <button
+                      className="p-0.5 rounded text-gray-400 hover:text-gray-700 cursor-pointer"
+                      type="button"
+                      onClick={() => onRemoveCounty(county)}
+                      aria-label={`Remove ${formatCountyName(county)} from comparison`}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  {index === 0 && <div className="text-xs font-normal text-gray-500">baseline</div>}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {COMPARISON_FIELDS.map(field => {
+              const extremes = getFieldExtremes(countiesData, field.key);
+
+              return (
+                <tr key={field.key} className="border-b border-gray-100">
+                  <th scope="row" className="px-4 py-2 text-left font-medium text-gray-600">{field.label}</th>
+                  {comparedCounties.map((county, index) => {
+                    const data = comparisonData[county];
+                    if (!data) {
+                      return (
+                        <td key={county} className="px-4 py-2 text-right text-gray-400">
+                          {isLoading ? '…' : 'N/A'}
+                        </td>
+                      );
+                    }
+
+                    const value = data[field.key];
+                    const highlight =
+                      extremes && value === extremes.highest ? 'bg-green-50 text-green-800' :
+                      extremes && value === extremes.lowest ? 'bg-red-50 text-red-800' :
+                      'text-gray-900';
+                    const baselineValue = baselineData?.[field.key] ?? null;
+                    const difference = index > 0 && value !== null && baselineValue !== null
+                      ? computeDifference(value, baselineValue)
+                      : null;
+
+                    return (
+                      <td key={county} className={`px-4 py-2 text-right font-semibold ${highlight}`}>
+                        {formatMetricValue(value, field.format)}
+                        {difference && difference.absolute !== 0 && (
+                          <div className="text-xs font-normal text-gray-500">
+                            {difference.absolute > 0 ? '+' : '−'}
+                            {formatMetricValue(Math.abs(difference.absolute), field.format)}
+                            {difference.percent !== null && ` (${difference.percent > 0 ? '+' : '−'}${Math.abs(difference.percent).toFixed(1)}%)`}
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+            <tr>
+              <th scope="row" className="px-4 py-2 text-left font-medium text-gray-600">County Code</th>
+              {comparedCounties.map(county => (
+                <td key={county} className="px-4 py-2 text-right text-gray-900">
+                  {comparisonData[county] ? `${comparisonData[county]!.stateCode}-${comparisonData[county]!.countyCode}` : 'N/A'}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
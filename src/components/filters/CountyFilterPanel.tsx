@@ -0,0 +1,186 @@
+'use client';
+
+import { FilterCondition, FilterOperator, MetricKey } from '@/types';
+import { FILTER_METRICS, FILTER_OPERATOR_LABELS } from '@/utils/countyFilter';
+import React, { useState } from 'react';
+
+/**
+ * Interface for CountyFilterPanel props
+ */
+interface CountyFilterPanelProps {
+  /** Conditions as entered, combined with AND */
+  conditions: FilterCondition[];
+  /** Whether at least one condition has a threshold */
+  isFilterActive: boolean;
+  /** Names of the matching counties, alphabetically */
+  matchingCounties: string[];
+  /** Whether statewide county data is loading */
+  isLoading?: boolean;
+  /** Function to add an empty condition */
+  onAddCondition: () => void;
+  /** Function to change a condition */
+  onUpdateCondition: (id: number, changes: Partial<Omit<FilterCondition, 'id'>>) => void;
+  /** Function to remove a condition */
+  onRemoveCondition: (id: number) => void;
+  /** Function to remove every condition */
+  onClear: () => void;
+  /** Function to open a matching county in the side panel */
+  onSelectCounty: (countyName: string) => void;
+}
+
+/**
+ * CountyFilterPanel Component - Builds attribute filters such as "population < 50,000 AND income > 60,000"
+ *
+ * Features:
+ * - Collapsible panel with one row per condition (metric, operator, threshold)
+ * - Conditions combine with AND; empty thresholds are ignored
+ * - Count and list of matching counties; clicking one opens it in the side panel
+ *
+ * @param props - The component props
+ * @returns {React.JSX.Element} The filter panel
+ */
+export default function CountyFilterPanel({
+  conditions,
+  isFilterActive,
+  matchingCounties,
+  isLoading,
+  onAddCondition,
+  onUpdateCondition,
+  onRemoveCondition,
+  onClear,
+  onSelectCounty
+}: CountyFilterPanelProps): React.JSX.Element {
+  const [isOpen, setIsOpen] = useState(false);
+  const selectClassName = 'px-2 py-1.5 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  /**
+   * Opens the panel, starting with one empty condition
+   */
+  const handleToggle = (): void => {
+    if (!isOpen && conditions.length === 0) {
+      onAddCondition();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  /**
+   * Handles threshold input changes; an empty input clears the threshold
+   * @param id - Condition id
+   * @param input - Raw input value
+   */
+  const handleValueChange = (id: number, input: string): void => {
+    const value = input.trim() === '' ? null : Number(input);
+    onUpdateCondition(id, { value: value !== null && Number.isFinite(value) ? value : null });
+  };
+
+  return (
+    <div className="w-full max-w-2xl flex flex-col items-center gap-2">
+      <button
+        className="px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer"
+        type="button"
+        onClick={handleToggle}
+        aria-expanded={isOpen}
+        aria-controls="county-filter-panel"
+      >
+        {isFilterActive ? `Filter counties (${matchingCounties.length} match)` : 'Filter counties'}
+      </button>
+
+      {isOpen && (
+        <div id="county-filter-panel" className="w-full p-4 bg-white border border-gray-200 rounded-xl shadow-sm text-left space-y-3">
+          <ul className="space-y-2" aria-label="Filter conditions">
+            {conditions.map((condition, index) => {
+              const metric = FILTER_METRICS.find(({ key }) => key === condition.metric);
+
+              return (
+                <li key={condition.id} className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="w-10 text-xs font-semibold text-gray-500">{index === 0 ? 'Where' : 'AND'}</span>
+                  <select
+                    className={selectClassName}
+                    value={condition.metric}
+                    onChange={(event) => onUpdateCondition(condition.id, { metric: event.target.value as MetricKey })}
+                    aria-label="Metric"
+                  >
+                    {FILTER_METRICS.map(({ key, label }) => (
+                      <option key={key} value={key}>{label}</option>
+                    ))}
+                  </select>
+                  <select
+                    className={selectClassName}
+                    value={condition.operator}
+                    onChange={(event) => onUpdateCondition(condition.id, { operator: event.target.value as FilterOperator })}
+                    aria-label="Comparison"
+                  >
+                    {(Object.keys(FILTER_OPERATOR_LABELS) as FilterOperator[]).map(operator => (
+                      <option key={operator} value={operator}>{FILTER_OPERATOR_LABELS[operator]}</option>
+                    ))}
+                  </select>
+                  <input
+                    className={`${selectClassName} w-32`}
+                    type="number"
+                    inputMode="decimal"
+                    value={condition.value ?? ''}
+                    onChange={(event) => handleValueChange(condition.id, event.target.value)}
+                    placeholder="Value"
+                    aria-label={`Threshold${metric ? ` in ${metric.unit}` : ''}`}
+                  />
+                  {metric && <span className="text-xs text-gray-500">{metric.unit}</span>}
+                  <button
+                    className="p-1 rounded text-gray-400 hover:text-gray-700 cursor-pointer"
+                    type="button"
+                    onClick={() => onRemoveCondition(condition.id)}
+                    aria-label="Remove condition"
+                  >
+                    ✕
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex items-center gap-3 text-sm">
+            <button
+              className="text-blue-600 hover:text-blue-800 font-medium cursor-pointer"
+              type="button"
+              onClick={onAddCondition}
+            >
+              + Add condition
+            </button>
+            {conditions.length > 0 && (
+              <button
+                className="text-gray-600 hover:text-gray-900 underline cursor-pointer"
+                type="button"
+                onClick={onClear}
+              >
+                Clear
+              </button>
+            )}
+          </div>
+
+          {isFilterActive && (
+            <div className="space-y-2" aria-live="polite">
+              <p className="text-sm font-medium text-gray-700">
+                {isLoading
+                  ? 'Loading county data…'
+                  : `${matchingCounties.length} of 254 counties match`}
+              </p>
+              {!isLoading && matchingCounties.length > 0 && (
+                <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto" aria-label="Matching counties">
+                  {matchingCounties.map(countyName => (
+                    <button
+                      key={countyName}
+                      className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800 hover:bg-blue-200 cursor-pointer"
+                      type="button"
+                      onClick={() => onSelectCounty(countyName)}
+                    >
+                      {countyName}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import EstimateMargin from '@/components/sidePanel/EstimateMargin';
+import { MetricDefinition, RegionDefinition, RegionSummary } from '@/types';
+import { formatMetricValue } from '@/utils/formatters';
+import { getMetricsForView } from '@/utils/metricRegistry';
+import { getRegionCountyNames, REGION_TYPE_LABELS } from '@/utils/regions';
+import React from 'react';
+
+/**
+ * Interface for RegionPanel props
+ */
+interface RegionPanelProps {
+  /** Selected region, or null when none is selected */
+  region: RegionDefinition | null;
+  /** Aggregated data of the member counties with data, or null when none has data */
+  summary: RegionSummary | null;
+  /** Whether statewide county data is loading */
+  isLoading: boolean;
+  /** Function to open a member county in the side panel */
+  onSelectCounty: (countyName: string) => void;
+  /** Function to clear the region selection */
+  onClose: () => void;
+}
+
+/**
+ * Describes how a metric is aggregated over a region
+ * @param metric - Metric definition
+ * @returns Short method label
+ */
+const getAggregationLabel = (metric: MetricDefinition): string => {
+  switch (metric.source.type) {
+    case 'derived':
+      return 'From regional totals';
+    default:
+      return metric.source.aggregation === 'sum' ? 'Sum of counties' : 'Population-weighted';
+  }
+};
+
+/**
+ * RegionPanel Component - Aggregated figures for a metro area, council of governments or Comptroller region
+ *
+ * Features:
+ * - Totals summed over the member counties, with combined margins of error
+ * - Population-weighted averages of county medians
+ * - Rates and density recomputed from the regional totals
+ * - Member county list; clicking a county opens it in the side panel
+ * - Counties without data in the selected release are listed and left out of the figures
+ *
+ * @param props - The component props
+ * @returns {React.JSX.Element | null} The region panel or null when no region is selected
+ */
+export default function RegionPanel({
+  region,
+  summary,
+  isLoading,
+  onSelectCounty,
+  onClose
+}: RegionPanelProps): React.JSX.Element | null {
+  if (!region) {
+    return null;
+  }
+
+  const countyNames = summary?.countyNames ?? getRegionCountyNames(region);
+
+  return (
+    <section
+      className="fixed bottom-4 left-4 right-4 md:right-auto md:w-[28rem] max-h-[60vh] overflow-auto bg-white rounded-xl shadow-2xl border border-gray-200 z-[900]"
+      aria-labelledby="region-title"
+    >
+      <div className="flex items-start justify-between gap-3 px-4 py-3 border-b border-gray-200 bg-emerald-50 sticky top-0">
+        <div>
+          <h2 id="region-title" className="text-base font-semibold text-gray-900">{region.name}</h2>
+          <p className="text-xs text-gray-600">
+            {REGION_TYPE_LABELS[region.type]} • {countyNames.length} {countyNames.length === 1 ? 'county' : 'counties'}
+          </p>
+        </div>
+        <button
+          className="text-sm text-gray-600 hover:text-gray-900 underline cursor-pointer"
+          type="button"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="px-4 py-3 space-y-3">
+        <div className="flex flex-wrap gap-1" aria-label="Member counties">
+          {countyNames.map(countyName => (
+            <button
+              key={countyName}
+              className="px-2 py-0.5 text-xs rounded-full bg-emerald-100 text-emerald-800 hover:bg-emerald-200 cursor-pointer"
+              type="button"
+              onClick={() => onSelectCounty(countyName)}
+            >
+              {countyName}
+            </button>
+          ))}
+        </div>
+
+        {isLoading || !summary ? (
+          <p className="text-sm text-gray-600">
+            {isLoading ? 'Loading county data…' : 'No data is available for the counties of this region in the selected release.'}
+          </p>
+        ) : (
+          <>
+            {summary.missingCountyNames.length > 0 && (
+              <p className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-2 py-1.5">
+                Figures cover {countyNames.length - summary.missingCountyNames.length} of {countyNames.length} counties.
+                No data in this release for {summary.missingCountyNames.join(', ')}.
+              </p>
+            )}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th scope="col" className="py-2 text-left font-medium text-gray-600">Metric</th>
+                  <th scope="col" className="py-2 text-right font-medium text-gray-600">Region</th>
+                </tr>
+              </thead>
+              <tbody>
+                {getMetricsForView('panel').map(metric => {
+                  const value = summary.values[metric.key];
+
+                  return (
+                    <tr key={metric.key} className="border-b border-gray-100 align-top">
+                      <th scope="row" className="py-2 pr-2 text-left font-medium text-gray-700">
+                        {metric.label}
+                        <div className="text-xs font-normal text-gray-500">{getAggregationLabel(metric)}</div>
+                      </th>
+                      <td className="py-2 text-right font-semibold text-gray-900">
+                        {formatMetricValue(value, metric.format)}
+                        {value !== null && (
+                          <EstimateMargin
+                            estimate={value}
+                            marginOfError={summary.marginsOfError[metric.key]}
+                            format={metric.format}
+                          />
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
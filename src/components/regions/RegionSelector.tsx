@@ -0,0 +1,67 @@
+'use client';
+
+import { RegionDefinition, RegionType } from '@/types';
+import { getRegionsByType, REGION_TYPE_LABELS } from '@/utils/regions';
+import React from 'react';
+
+/**
+ * Interface for RegionSelector props
+ */
+interface RegionSelectorProps {
+  /** Kind of region offered in the picker */
+  regionType: RegionType;
+  /** Selected region, or null when none is selected */
+  selectedRegion: RegionDefinition | null;
+  /** Function to change the kind of region */
+  onRegionTypeChange: (type: RegionType) => void;
+  /** Function to select a region (null clears the selection) */
+  onRegionChange: (regionId: string | null) => void;
+}
+
+/**
+ * RegionSelector Component - Picks a metro area, council of governments or Comptroller economic region
+ * 
+ * Features:
+ * - Region type dropdown (MSAs, the 24 councils of governments, the 12 Comptroller regions)
+ * - Region dropdown listing the regions of that type, with an option to clear the selection
+ * 
+ * @param props - The component props
+ * @returns {React.JSX.Element} The region selector component
+ */
+export default function RegionSelector({
+  regionType,
+  selectedRegion,
+  onRegionTypeChange,
+  onRegionChange
+}: RegionSelectorProps): React.JSX.Element {
+  const selectClassName = 'px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm font-medium text-gray-700">
+      <label className="flex items-center gap-2">
+        Region
+        <select
+          className={selectClassName}
+          value={regionType}
+          onChange={(event) => onRegionTypeChange(event.target.value as RegionType)}
+          aria-label="Region type"
+        >
+          {(Object.keys(REGION_TYPE_LABELS) as RegionType[]).map(type => (
+            <option key={type} value={type}>{REGION_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </label>
+      <select
+        className={selectClassName}
+        value={selectedRegion?.id ?? ''}
+        onChange={(event) => onRegionChange(event.target.value || null)}
+        aria-label={REGION_TYPE_LABELS[regionType]}
+      >
+        <option value="">None</option>
+        {getRegionsByType(regionType).map(region => (
+          <option key={region.id} value={region.id}>{region.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { formatNumber } from '@/utils/formatters';
+import { COMMUTE_BUCKETS } from '@/utils/metricRegistry';
+import React from 'react';
+
+/**
+ * Interface for CommuteHistogram props
+ */
+interface CommuteHistogramProps {
+  /** Commuting workers per travel-time bucket, in COMMUTE_BUCKETS order */
+  distribution: number[];
+}
+
+/**
+ * CommuteHistogram Component - Distribution of travel time to work (table B08303)
+ * 
+ * Features:
+ * - One horizontal bar per travel-time bucket, scaled to the largest bucket
+ * - Share of commuting workers and worker count for each bucket
+ * - Accessible as a list with the full values in each label
+ * 
+ * @param props - The component props
+ * @returns {React.JSX.Element | null} The histogram or null when there are no commuters
+ */
+export default function CommuteHistogram({ distribution }: CommuteHistogramProps): React.JSX.Element | null {
+  const totalWorkers = distribution.reduce((total, workers) => total + workers, 0);
+
+  if (totalWorkers === 0) {
+    return null;
+  }
+
+  const largestBucket = Math.max(...distribution);
+
+  return (
+    <ul className="space-y-1" aria-label="Travel time to work distribution">
+      {COMMUTE_BUCKETS.map(({ label: bucket }, index) => {
+        const workers = distribution[index] ?? 0;
+        const share = (workers / totalWorkers) * 100;
+
+        return (
+          <li
+            key={bucket}
+            className="grid grid-cols-[6.5rem_1fr_3rem] items-center gap-2 text-xs"
+            aria-label={`${bucket} minutes: ${formatNumber(workers)} workers (${share.toFixed(1)}%)`}
+          >
+            <span className="text-gray-600 text-right">{bucket} min</span>
+            <span className="h-3 bg-gray-100 rounded">
+              <span
+                className="block h-full bg-teal-500 rounded"
+                style={{ width: `${(workers / largestBucket) * 100}%` }}
+              />
+            </span>
+            <span className="text-gray-900 font-medium">{share.toFixed(1)}%</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
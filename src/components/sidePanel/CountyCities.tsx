@@ -0,0 +1,83 @@
+'use client';
+
+import { CityInfo } from '@/types';
+import { formatDensity, formatNumber } from '@/utils/formatters';
+import React from 'react';
+
+/**
+ * Interface for CountyCities props
+ */
+interface CountyCitiesProps {
+  /** Cities of the selected county, largest first */
+  cities: CityInfo[];
+  /** Loading state for city data */
+  isLoading: boolean;
+  /** Error message for city data */
+  error: string | undefined;
+}
+
+/**
+ * CountyCities Component - Lists the cities within the selected county
+ *
+ * Features:
+ * - Population, land area and density of each city
+ * - Loading, error and empty states
+ *
+ * @param props - The component props
+ * @returns {React.JSX.Element} The cities section
+ */
+export default function CountyCities({
+  cities,
+  isLoading,
+  error
+}: CountyCitiesProps): React.JSX.Element {
+  return (
+    <section className="space-y-4">
+      <h3 className="text-xl font-semibold text-gray-900 border-b border-gray-100 pb-2">
+        Cities in this county
+      </h3>
+
+      {isLoading && (
+        <div className="flex items-center space-x-3">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+          <span className="text-sm text-gray-600">Loading cities...</span>
+        </div>
+      )}
+
+      {!isLoading && error && <p className="text-sm text-red-700">{error}</p>}
+
+      {!isLoading && !error && cities.length === 0 && (
+        <p className="text-sm text-gray-600">No cities are listed for this county in the city dataset.</p>
+      )}
+
+      {!isLoading && !error && cities.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th scope="col" className="py-2 pr-2 text-left font-medium text-gray-600">City</th>
+                <th scope="col" className="py-2 pl-2 text-right font-medium text-gray-600">Population</th>
+                <th scope="col" className="py-2 pl-2 text-right font-medium text-gray-600">Land area</th>
+                <th scope="col" className="py-2 pl-2 text-right font-medium text-gray-600">Density</th>
+              </tr>
+            </thead>
+            <tbody>
+              {cities.map(city => (
+                <tr key={city.name} className="border-b border-gray-100">
+                  <th scope="row" className="py-2 pr-2 text-left font-medium text-gray-900">{city.name}</th>
+                  <td className="py-2 pl-2 text-right text-gray-900">{formatNumber(city.population)}</td>
+                  <td className="py-2 pl-2 text-right text-gray-900">
+                    {city.area === null ? <span className="text-gray-400">—</span> : `${formatNumber(city.area)} sq mi`}
+                  </td>
+                  <td className="py-2 pl-2 text-right text-gray-900">
+                    {city.populationDensity === null ? <span className="text-gray-400">—</span> : formatDensity(city.populationDensity)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
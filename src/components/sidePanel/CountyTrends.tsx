@@ -0,0 +1,110 @@
+'use client';
+
+import TrendSparkline from '@/components/sidePanel/TrendSparkline';
+import { AcsVintage, CountyTrendPoint } from '@/types';
+import { CHOROPLETH_METRICS } from '@/utils/choropleth';
+import { formatMetricValue } from '@/utils/formatters';
+import { computeTrendChange, getTrendValues, getTrendYears } from '@/utils/trends';
+import React from 'react';
+
+/**
+ * Interface for CountyTrends props
+ */
+interface CountyTrendsProps {
+  /** County data per release year, empty until trends are loaded */
+  trends: CountyTrendPoint[];
+  /** Loading state for trend data */
+  isLoading: boolean;
+  /** Error message for trend data */
+  error: string | undefined;
+  /** Selected ACS vintage (last year of the trend) */
+  vintage: AcsVintage;
+  /** Function to load trend data */
+  onLoadTrends: () => void;
+}
+
+/**
+ * CountyTrends Component - Shows how each county metric changed across ACS releases
+ * 
+ * Features:
+ * - On-demand loading (one request per release year not yet cached)
+ * - Sparkline per metric
+ * - Absolute and percent change between the first and last year with data
+ * 
+ * @param props - The component props
+ * @returns {React.JSX.Element} The trends section
+ */
+export default function CountyTrends({
+  trends,
+  isLoading,
+  error,
+  vintage,
+  onLoadTrends
+}: CountyTrendsProps): React.JSX.Element {
+  const years = getTrendYears(vintage);
+  const yearRange = years.length > 0 ? `${years[0]}–${years[years.length - 1]}` : `${vintage.year}`;
+
+  return (
+    <section className="space-y-4">
+      <h3 className="text-xl font-semibold text-gray-900 border-b border-gray-100 pb-2">
+        Trends {yearRange}
+      </h3>
+
+      {trends.length === 0 && !isLoading && (
+        <div className="space-y-2">
+          <button
+            className="px-4 py-2 bg-blue-50 text-blue-700 font-semibold rounded-lg border border-blue-200 hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors duration-200 cursor-pointer"
+            type="button"
+            onClick={onLoadTrends}
+          >
+            📈 Show {years.length}-year trend
+          </button>
+          {error && <p className="text-sm text-red-700">{error}</p>}
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center space-x-3">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+          <span className="text-sm text-gray-600">Loading {years.length} releases...</span>
+        </div>
+      )}
+
+      {trends.length > 0 && !isLoading && (
+        <div className="space-y-3">
+          {CHOROPLETH_METRICS.map(metric => {
+            const values = getTrendValues(trends, metric.key);
+            const change = computeTrendChange(values);
+            const isIncrease = change ? change.absolute >= 0 : false;
+
+            return (
+              <div key={metric.key} className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-lg">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-600">{metric.label}</div>
+                  {change ? (
+                    <div className={`text-sm font-semibold ${isIncrease ? 'text-green-700' : 'text-red-700'}`}>
+                      {isIncrease ? '+' : '−'}{formatMetricValue(Math.abs(change.absolute), metric.format)}
+                      {change.percent !== null && ` (${isIncrease ? '+' : '−'}${Math.abs(change.percent).toFixed(1)}%)`}
+                      <span className="font-normal text-gray-500"> since {change.startYear}</span>
+                    </div>
+                  ) : (
+                    <div className="text-sm text-gray-500">Not enough data</div>
+                  )}
+                </div>
+                <TrendSparkline
+                  values={values}
+                  label={`${metric.label} from ${values[0]?.year ?? ''} to ${values[values.length - 1]?.year ?? ''}`}
+                />
+              </div>
+            );
+          })}
+          {vintage.dataset === 'acs5' && (
+            <p className="text-xs text-gray-500">
+              Overlapping 5-year estimates share survey years; compare non-overlapping periods for statistical change.
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
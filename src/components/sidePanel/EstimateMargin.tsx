@@ -0,0 +1,62 @@
+'use client';
+
+import { MetricFormat } from '@/types';
+import { formatMetricValue } from '@/utils/formatters';
+import { CV_CAUTION_THRESHOLD, getCoefficientOfVariation } from '@/utils/reliability';
+import React from 'react';
+
+/**
+ * Interface for EstimateMargin props
+ */
+interface EstimateMarginProps {
+  /** Estimate value */
+  estimate: number;
+  /** 90% margin of error; null when there is no sampling error, undefined when not published */
+  marginOfError: number | null | undefined;
+  /** Display format of the estimate */
+  format: MetricFormat;
+}
+
+/**
+ * EstimateMargin Component - Margin of error and reliability flag of an ACS estimate
+ * 
+ * Features:
+ * - Shows the ± 90% margin of error in the estimate's format
+ * - Notes estimates without sampling error (controlled totals)
+ * - Flags estimates whose coefficient of variation exceeds the caution threshold
+ * 
+ * @param props - The component props
+ * @returns {React.JSX.Element | null} The margin line or null when no margin is published
+ */
+export default function EstimateMargin({
+  estimate,
+  marginOfError,
+  format
+}: EstimateMarginProps): React.JSX.Element | null {
+  if (marginOfError === undefined) {
+    return null;
+  }
+
+  if (marginOfError === null) {
+    return (
+      <span className="text-xs text-gray-500">No sampling error</span>
+    );
+  }
+
+  const cv = getCoefficientOfVariation(estimate, marginOfError);
+  const isUnreliable = cv !== null && cv > CV_CAUTION_THRESHOLD;
+
+  return (
+    <span className="inline-flex flex-wrap items-center gap-2 text-xs text-gray-500">
+      <span>±{formatMetricValue(marginOfError, format)}</span>
+      {isUnreliable && (
+        <span
+          className="px-1.5 py-0.5 bg-amber-100 text-amber-800 font-medium rounded"
+          title={`Coefficient of variation ${Math.round(cv * 100)}% exceeds ${Math.round(CV_CAUTION_THRESHOLD * 100)}%`}
+        >
+          ⚠ Use with caution
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import EstimateMargin from '@/components/sidePanel/EstimateMargin';
+import StatewideRank from '@/components/sidePanel/StatewideRank';
+import { CountyInfo, MetricCategory, MetricDefinition, MetricRanking } from '@/types';
+import { formatMetricValue } from '@/utils/formatters';
+import React from 'react';
+
+/**
+ * Card colors per panel section
+ * Full class names so Tailwind picks them up
+ */
+const CATEGORY_STYLES: Record<MetricCategory, { card: string; value: string; label: string }> = {
+  population: {
+    card: 'from-blue-50 to-blue-100 border-blue-200',
+    value: 'text-blue-600',
+    label: 'text-blue-800'
+  },
+  income: {
+    card: 'from-green-50 to-green-100 border-green-200',
+    value: 'text-green-600',
+    label: 'text-green-800'
+  },
+  education: {
+    card: 'from-orange-50 to-orange-100 border-orange-200',
+    value: 'text-orange-600',
+    label: 'text-orange-800'
+  },
+  housing: {
+    card: 'from-purple-50 to-purple-100 border-purple-200',
+    value: 'text-purple-600',
+    label: 'text-purple-800'
+  },
+  commute: {
+    card: 'from-teal-50 to-teal-100 border-teal-200',
+    value: 'text-teal-600',
+    label: 'text-teal-800'
+  },
+  geography: {
+    card: 'from-gray-50 to-gray-100 border-gray-200',
+    value: 'text-gray-700',
+    label: 'text-gray-800'
+  }
+};
+
+/**
+ * Interface for MetricCard props
+ */
+interface MetricCardProps {
+  /** Registry definition of the metric */
+  metric: MetricDefinition;
+  /** Census data of the selected county */
+  countyData: CountyInfo;
+  /** Rank of the value among all Texas counties, once statewide data is loaded */
+  ranking?: MetricRanking;
+}
+
+/**
+ * MetricCard Component - One county metric from the metric registry
+ *
+ * Features:
+ * - Value in the metric's format, with its unit for plain counts
+ * - "Not available" when the Census Bureau published no estimate
+ * - Margin of error and reliability flag
+ * - Statewide rank, percentile and comparison with the state median
+ * - Formula of derived metrics and source of bundled metrics
+ * - Colored by panel section
+ *
+ * @param props - The component props
+ * @returns {React.JSX.Element} The metric card
+ */
+export default function MetricCard({ metric, countyData, ranking }: MetricCardProps): React.JSX.Element {
+  const styles = CATEGORY_STYLES[metric.category];
+  const value = countyData[metric.key];
+
+  return (
+    <div className={`p-4 bg-gradient-to-br rounded-xl border ${styles.card}`}>
+      <div className={`mb-1 ${value === null ? 'text-lg font-semibold text-gray-400' : `text-2xl font-bold ${styles.value}`}`}>
+        {formatMetricValue(value, metric.format)}
+        {value !== null && metric.format === 'number' && (
+          <span className="ml-1 text-sm font-medium">{metric.unit}</span>
+        )}
+      </div>
+      <div className={`text-sm font-medium ${styles.label}`}>{metric.label}</div>
+      {value !== null && (
+        <EstimateMargin estimate={value} marginOfError={countyData.marginsOfError[metric.key]} format={metric.format} />
+      )}
+      {value !== null && ranking && (
+        <StatewideRank ranking={ranking} format={metric.format} />
+      )}
+      {metric.source.type === 'derived' && (
+        <p className="mt-1 text-xs text-gray-500">{metric.source.formula}</p>
+      )}
+      {metric.source.type === 'bundled' && (
+        <p className="mt-1 text-xs text-gray-500">{metric.source.description}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { CountyInfo, MetricDefinition, MetricKey } from '@/types';
+import { getNeighbouringCounties } from '@/utils/countyAdjacency';
+import { normalizeCountyName } from '@/utils/countyUtils';
+import { formatMetricValue } from '@/utils/formatters';
+import { getMetricDefinition } from '@/utils/metricRegistry';
+import React from 'react';
+
+/**
+ * Metrics shown in the neighbour comparison
+ */
+const NEIGHBOUR_METRICS: MetricKey[] = ['population', 'medianHouseholdIncome', 'populationDensity'];
+
+/**
+ * Interface for NeighbouringCounties props
+ */
+interface NeighbouringCountiesProps {
+  /** Name of the selected county */
+  selectedCounty: string;
+  /** Data of the selected county */
+  countyData: CountyInfo;
+  /** Loaded county data keyed by normalized county name */
+  countyDataByName: Record<string, CountyInfo>;
+  /** Whether statewide county data is loading */
+  isLoading: boolean;
+  /** Function to open a neighbouring county in the side panel */
+  onSelectCounty: (countyName: string) => void;
+}
+
+/**
+ * NeighbouringCounties Component - The counties sharing a boundary with the selected county
+ *
+ * Features:
+ * - Neighbours from the adjacency graph, each opening in the side panel when clicked
+ * - Key metrics of every neighbour next to the selected county's
+ * - Neighbour values above or below the selected county's are marked
+ *
+ * @param props - The component props
+ * @returns {React.JSX.Element | null} The neighbours section or null for a county without neighbours
+ */
+export default function NeighbouringCounties({
+  selectedCounty,
+  countyData,
+  countyDataByName,
+  isLoading,
+  onSelectCounty
+}: NeighbouringCountiesProps): React.JSX.Element | null {
+  const neighbours = getNeighbouringCounties(selectedCounty);
+  if (neighbours.length === 0) {
+    return null;
+  }
+
+  const metrics = NEIGHBOUR_METRICS.map(key => getMetricDefinition(key));
+
+  /**
+   * Renders a value, with a marker relative to the selected county for neighbours
+   * @param metric - Metric definition
+   * @param value - County value
+   * @param isNeighbour - Whether the value belongs to a neighbour
+   * @returns Table cell content
+   */
+  const renderValue = (metric: MetricDefinition, value: number | null, isNeighbour: boolean): React.ReactNode => {
+    const reference = countyData[metric.key];
+    if (value === null) {
+      return <span className="text-gray-400">—</span>;
+    }
+    if (!isNeighbour || reference === null || value === reference) {
+      return formatMetricValue(value, metric.format);
+    }
+
+    const isHigher = value > reference;
+    return (
+      <>
+        {formatMetricValue(value, metric.format)}
+        <span
+          className={`ml-1 ${isHigher ? 'text-emerald-600' : 'text-orange-600'}`}
+          aria-label={isHigher ? 'higher' : 'lower'}
+        >
+          {isHigher ? '▲' : '▼'}
+        </span>
+      </>
+    );
+  };
+
+  return (
+    <section className="space-y-4">
+      <h3 className="text-xl font-semibold text-gray-900 border-b border-gray-100 pb-2">
+        Neighbouring counties
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th scope="col" className="py-2 pr-2 text-left font-medium text-gray-600">County</th>
+              {metrics.map(metric => (
+                <th key={metric.key} scope="col" className="py-2 pl-2 text-right font-medium text-gray-600">
+                  {metric.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-gray-200 bg-blue-50">
+              <th scope="row" className="py-2 pr-2 text-left font-semibold text-gray-900">{selectedCounty}</th>
+              {metrics.map(metric => (
+                <td key={metric.key} className="py-2 pl-2 text-right font-semibold text-gray-900">
+                  {renderValue(metric, countyData[metric.key], false)}
+                </td>
+              ))}
+            </tr>
+            {neighbours.map(neighbour => {
+              const neighbourData = countyDataByName[normalizeCountyName(neighbour)];
+
+              return (
+                <tr key={neighbour} className="border-b border-gray-100">
+                  <th scope="row" className="py-2 pr-2 text-left font-medium">
+                    <button
+                      className="text-blue-600 hover:text-blue-800 hover:underline cursor-pointer"
+                      type="button"
+                      onClick={() => onSelectCounty(neighbour)}
+                    >
+                      {neighbour}
+                    </button>
+                  </th>
+                  {metrics.map(metric => (
+                    <td key={metric.key} className="py-2 pl-2 text-right text-gray-900">
+                      {neighbourData
+                        ? renderValue(metric, neighbourData[metric.key], true)
+                        : <span className="text-gray-400">{isLoading ? '…' : '—'}</span>}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -1,7 +1,16 @@
 'use client';
 
-import { CountyInfo } from '@/types';
-import React from 'react';
+import CommuteHistogram from '@/components/sidePanel/CommuteHistogram';
+import CountyCities from '@/components/sidePanel/CountyCities';
+import CountyTrends from '@/components/sidePanel/CountyTrends';
+import MetricCard from '@/components/sidePanel/MetricCard';
+import NeighbouringCounties from '@/components/sidePanel/NeighbouringCounties';
+import { AcsVintage, CityInfo, CountyInfo, CountyTrendPoint, MetricKey, MetricRanking } from '@/types';
+import { getAcsVintageLabel } from '@/utils/acsVintage';
+import { downloadCountyData } from '@/utils/dataExport';
+import { getPanelMetricsByCategory, METRIC_CATEGORIES } from '@/utils/metricRegistry';
+import { CV_CAUTION_THRESHOLD } from '@/utils/reliability';
+import React, { useEffect, useRef } from 'react';
 
 /**
  * Interface for SidePanel props
@@ -21,6 +30,36 @@ interface SidePanelProps {
   isCountyDataError: boolean;
   /** Error message for county data */
   countyDataError: string | undefined;
+  /** ACS vintage of the county data, cited in the data source caption */
+  vintage: AcsVintage;
+  /** Statewide rank of each metric, or null until every county is loaded */
+  statewideRankings: Partial<Record<MetricKey, MetricRanking>> | null;
+  /** Loading state for the statewide data behind the rankings */
+  isLoadingRankings: boolean;
+  /** Loaded county data keyed by normalized county name, for comparing neighbours */
+  countyDataByName: Record<string, CountyInfo>;
+  /** Function to open another county in the panel */
+  onSelectCounty: (countyName: string) => void;
+  /** Cities of the selected county, largest first */
+  cities: CityInfo[];
+  /** Loading state for city data */
+  isLoadingCities: boolean;
+  /** Error message for city data */
+  citiesError: string | undefined;
+  /** County data per release year for the trend view */
+  trends: CountyTrendPoint[];
+  /** Loading state for trend data */
+  isLoadingTrends: boolean;
+  /** Error message for trend data */
+  trendsError: string | undefined;
+  /** Function to load trend data for the selected county */
+  onLoadTrends: () => void;
+  /** Whether the selected county is pinned for comparison */
+  isCompared: boolean;
+  /** Whether another county can be pinned (comparison not full) */
+  canCompare: boolean;
+  /** Function to pin or unpin the selected county */
+  onToggleCompare: () => void;
   /** Whether data came from cache */
   isFromCache?: boolean;
   /** Current cache size */
@@ -37,7 +76,15 @@ interface SidePanelProps {
  * - Smooth slide-in animation
  * - Close functionality
  * - Accessible design with proper ARIA attributes
- * - Real-time Census Bureau demographic data
+ * - Real-time Census Bureau demographic data, in sections generated from the metric registry
+ * - Derived metrics (rates and density) labeled with their formulas
+ * - Mean travel time to work with a histogram of commute times
+ * - Margins of error with "use with caution" flags for unreliable estimates
+ * - Statewide rank, percentile and comparison with the state median on every metric
+ * - Multi-year trends of each metric
+ * - Neighbouring counties with their key metrics, each opening in the panel
+ * - Cities within the county with their population, land area and density
+ * - CSV/JSON download of the county's data with its FIPS code, vintage and citation
  * 
  * @param props - The component props
  * @returns {React.JSX.Element} The side panel component
@@ -50,6 +97,21 @@ export default function SidePanel({
   isLoadingCountyData, 
   isCountyDataError, 
   countyDataError, 
+  vintage,
+  statewideRankings,
+  isLoadingRankings,
+  countyDataByName,
+  onSelectCounty,
+  cities,
+  isLoadingCities,
+  citiesError,
+  trends,
+  isLoadingTrends,
+  trendsError,
+  onLoadTrends,
+  isCompared,
+  canCompare,
+  onToggleCompare,
   isFromCache, 
   cacheSize 
 }: SidePanelProps): React.JSX.Element {
@@ -67,24 +129,6 @@ export default function SidePanel({
     return `${countyName} County`;
   };
 
-  /**
-   * Format currency values for display
-   */
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
-
-  /**
-   * Format number values for display
-   */
-  const formatNumber = (value: number) => {
-    return new Intl.NumberFormat('en-US').format(value);
-  };
-
   /**
    * Handles escape key press to close panel
    * @param event - Keyboard event
@@ -95,6 +139,15 @@ export default function SidePanel({
     }
   };
 
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Move focus into the dialog when it opens so keyboard and screen-reader users land in it
+  useEffect(() => {
+    if (isVisible && selectedCounty) {
+      panelRef.current?.focus();
+    }
+  }, [isVisible, selectedCounty]);
+
   // Don't render if not visible or no county selected
   if (!isVisible || !selectedCounty) {
     return <></>;
@@ -117,6 +170,7 @@ export default function SidePanel({
         aria-labelledby="panel-title"
         onKeyDown={handleKeyDown}
         tabIndex={-1}
+        ref={panelRef}
       >
         {/* Panel Header */}
         <div className="flex items-center justify-between p-6 border-b border-gray-200 bg-gradient-to-r from-blue-600 to-blue-700 text-white flex-shrink-0">
@@ -181,59 +235,61 @@ export default function SidePanel({
           {/* County Demographics - Show when data is available */}
           {countyData && !isLoadingCountyData && (
             <>
-              {/* County Overview */}
-              <section className="space-y-4">
-                <h3 className="text-xl font-semibold text-gray-900 border-b border-gray-100 pb-2">
-                  County Demographics
-                </h3>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  <div className="p-4 bg-gradient-to-br from-blue-50 to-blue-100 rounded-xl border border-blue-200">
-                    <div className="text-2xl font-bold text-blue-600 mb-1">
-                      {formatNumber(countyData.population)}
-                    </div>
-                    <div className="text-sm text-blue-800 font-medium">Total Population</div>
-                  </div>
-                  <div className="p-4 bg-gradient-to-br from-green-50 to-green-100 rounded-xl border border-green-200">
-                    <div className="text-2xl font-bold text-green-600 mb-1">
-                      {formatCurrency(countyData.medianHouseholdIncome)}
-                    </div>
-                    <div className="text-sm text-green-800 font-medium">Median Household Income</div>
-                  </div>
-                  <div className="p-4 bg-gradient-to-br from-purple-50 to-purple-100 rounded-xl border border-purple-200">
-                    <div className="text-2xl font-bold text-purple-600 mb-1">
-                      {formatCurrency(countyData.medianHomeValue)}
-                    </div>
-                    <div className="text-sm text-purple-800 font-medium">Median Home Value</div>
-                  </div>
-                  <div className="p-4 bg-gradient-to-br from-orange-50 to-orange-100 rounded-xl border border-orange-200">
-                    <div className="text-2xl font-bold text-orange-600 mb-1">
-                      {formatNumber(countyData.bachelorsDegreePop)}
+              {isLoadingRankings && !statewideRankings && (
+                <p className="text-xs text-gray-500">Loading statewide rankings…</p>
+              )}
+
+              {/* Metric sections, in registry order */}
+              {METRIC_CATEGORIES.map(category => {
+                const metrics = getPanelMetricsByCategory(category.key);
+                if (metrics.length === 0) return null;
+
+                return (
+                  <section key={category.key} className="space-y-4">
+                    <h3 className="text-xl font-semibold text-gray-900 border-b border-gray-100 pb-2">
+                      {category.label}
+                    </h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      {metrics.map(metric => (
+                        <MetricCard
+                          key={metric.key}
+                          metric={metric}
+                          countyData={countyData}
+                          ranking={statewideRankings?.[metric.key]}
+                        />
+                      ))}
                     </div>
-                    <div className="text-sm text-orange-800 font-medium">Bachelor&apos;s Degree+</div>
-                  </div>
-                </div>
-              </section>
+                    {category.key === 'commute' && countyData.commuteDistribution && (
+                      <CommuteHistogram distribution={countyData.commuteDistribution} />
+                    )}
+                  </section>
+                );
+              })}
 
-              {/* Housing Information */}
-              <section className="space-y-4">
-                <h3 className="text-xl font-semibold text-gray-900 border-b border-gray-100 pb-2">
-                  Housing Information
-                </h3>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  <div className="flex flex-col sm:flex-row sm:justify-between p-3 bg-gray-50 rounded-lg">
-                    <span className="text-sm font-medium text-gray-600 mb-1 sm:mb-0">Owner Occupied:</span>
-                    <span className="text-sm font-semibold text-gray-900">
-                      {formatNumber(countyData.ownerOccupiedHousing)} units
-                    </span>
-                  </div>
-                  <div className="flex flex-col sm:flex-row sm:justify-between p-3 bg-gray-50 rounded-lg">
-                    <span className="text-sm font-medium text-gray-600 mb-1 sm:mb-0">Renter Occupied:</span>
-                    <span className="text-sm font-semibold text-gray-900">
-                      {formatNumber(countyData.renterOccupiedHousing)} units
-                    </span>
-                  </div>
-                </div>
-              </section>
+              {/* Multi-year Trends */}
+              <CountyTrends
+                trends={trends}
+                isLoading={isLoadingTrends}
+                error={trendsError}
+                vintage={vintage}
+                onLoadTrends={onLoadTrends}
+              />
+
+              {/* Neighbouring Counties */}
+              <NeighbouringCounties
+                selectedCounty={selectedCounty}
+                countyData={countyData}
+                countyDataByName={countyDataByName}
+                isLoading={isLoadingRankings}
+                onSelectCounty={onSelectCounty}
+              />
+
+              {/* Cities */}
+              <CountyCities
+                cities={cities}
+                isLoading={isLoadingCities}
+                error={citiesError}
+              />
 
               {/* County Information */}
               <section className="space-y-4">
@@ -301,6 +357,15 @@ export default function SidePanel({
               >
                 📖 Learn More on Wikipedia
               </button>
+              <button 
+                className="px-6 py-3 bg-orange-50 text-orange-700 font-semibold rounded-lg border border-orange-200 hover:bg-orange-100 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 transition-colors duration-200 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed" 
+                type="button"
+                onClick={onToggleCompare}
+                disabled={!isCompared && !canCompare}
+                aria-pressed={isCompared}
+              >
+                {isCompared ? '📌 Unpin from Compare' : '📌 Pin to Compare'}
+              </button>
               <button 
                 className="px-6 py-3 bg-gray-100 text-gray-700 font-semibold rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors duration-200 cursor-pointer" 
                 onClick={onClose} 
@@ -316,7 +381,31 @@ export default function SidePanel({
             <section className="pt-4 border-t border-gray-100">
               <div className="space-y-2">
                 <p className="text-xs text-gray-500 text-center">
-                  Data source: U.S. Census Bureau, American Community Survey 2022 5-Year Estimates
+                  Data source: U.S. Census Bureau, {getAcsVintageLabel(vintage)}
+                </p>
+                {/* Hidden while loading or after an error: countyData may still hold the previous vintage */}
+                {!isLoadingCountyData && !isCountyDataError && (
+                  <div className="flex items-center justify-center gap-2 text-xs text-gray-500">
+                    <span>Download this county:</span>
+                    <button
+                      className="px-2 py-1 rounded border border-gray-200 text-blue-600 hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer"
+                      type="button"
+                      onClick={() => downloadCountyData([countyData], vintage, 'csv', formatCountyName(selectedCounty))}
+                    >
+                      CSV
+                    </button>
+                    <button
+                      className="px-2 py-1 rounded border border-gray-200 text-blue-600 hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer"
+                      type="button"
+                      onClick={() => downloadCountyData([countyData], vintage, 'json', formatCountyName(selectedCounty))}
+                    >
+                      JSON
+                    </button>
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 text-center">
+                  ± values are 90% margins of error. Estimates with a coefficient of variation above{' '}
+                  {Math.round(CV_CAUTION_THRESHOLD * 100)}% are flagged &ldquo;use with caution&rdquo;.
                 </p>
                 {isFromCache && (
                   <div className="flex items-center justify-center space-x-1">
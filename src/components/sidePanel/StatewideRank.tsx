@@ -0,0 +1,65 @@
+'use client';
+
+import { MetricFormat, MetricRanking } from '@/types';
+import { formatMetricValue, formatOrdinal } from '@/utils/formatters';
+import React from 'react';
+
+/**
+ * Interface for StatewideRank props
+ */
+interface StatewideRankProps {
+  /** Ranking of the county's value among all counties */
+  ranking: MetricRanking;
+  /** Display format of the metric, used for the median */
+  format: MetricFormat;
+}
+
+/**
+ * StatewideRank Component - Where a county's value stands among all Texas counties
+ *
+ * Features:
+ * - Rank (1 = highest) out of the counties with data
+ * - Percentile bar
+ * - Difference from the statewide median
+ *
+ * @param props - The component props
+ * @returns {React.JSX.Element} The ranking lines
+ */
+export default function StatewideRank({ ranking, format }: StatewideRankProps): React.JSX.Element {
+  const { rank, total, percentile, median, percentFromMedian } = ranking;
+  const roundedPercentile = Math.round(percentile);
+
+  /**
+   * Describes the value relative to the statewide median
+   * @returns Text such as "32% above the state median ($61,000)"
+   */
+  const describeMedianComparison = (): string => {
+    const medianLabel = `the state median (${formatMetricValue(median, format)})`;
+    if (percentFromMedian === null || Math.abs(percentFromMedian) < 0.5) {
+      return `About ${medianLabel}`;
+    }
+    return `${Math.abs(percentFromMedian).toFixed(0)}% ${percentFromMedian > 0 ? 'above' : 'below'} ${medianLabel}`;
+  };
+
+  return (
+    <div className="mt-2 space-y-1 text-xs text-gray-600">
+      <div className="flex items-center justify-between gap-2">
+        <span>
+          Rank <span className="font-semibold text-gray-900">{rank}</span> of {total} counties
+        </span>
+        <span>{formatOrdinal(roundedPercentile)} percentile</span>
+      </div>
+      <div
+        className="h-1.5 bg-white/70 rounded"
+        role="meter"
+        aria-label="Statewide percentile"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={roundedPercentile}
+      >
+        <div className="h-full bg-gray-500 rounded" style={{ width: `${percentile}%` }} />
+      </div>
+      <div>{describeMedianComparison()}</div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import React from 'react';
+
+/**
+ * Interface for TrendSparkline props
+ */
+interface TrendSparklineProps {
+  /** Year/value pairs ordered by year */
+  values: { year: number; value: number }[];
+  /** Accessible description of the trend */
+  label: string;
+  /** Width in pixels */
+  width?: number;
+  /** Height in pixels */
+  height?: number;
+}
+
+/**
+ * TrendSparkline Component - Small line chart of a metric over time
+ * 
+ * Features:
+ * - Scales values to the available height
+ * - Marks the latest value with a dot
+ * - Spaces points by year so gaps in releases stay visible
+ * 
+ * @param props - The component props
+ * @returns {React.JSX.Element | null} The sparkline or null with fewer than two values
+ */
+export default function TrendSparkline({
+  values,
+  label,
+  width = 120,
+  height = 32
+}: TrendSparklineProps): React.JSX.Element | null {
+  if (values.length < 2) {
+    return null;
+  }
+
+  const padding = 3;
+  const firstYear = values[0].year;
+  const yearSpan = values[values.length - 1].year - firstYear || 1;
+  const minValue = Math.min(...values.map(point => point.value));
+  const valueSpan = Math.max(...values.map(point => point.value)) - minValue || 1;
+
+  const points = values.map(point => ({
+    x: padding + ((point.year - firstYear) / yearSpan) * (width - padding * 2),
+    y: height - padding - ((point.value - minValue) / valueSpan) * (height - padding * 2)
+  }));
+  const lastPoint = points[points.length - 1];
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img" aria-label={label}>
+      <polyline
+        points={points.map(point => `${point.x},${point.y}`).join(' ')}
+        fill="none"
+        stroke="#2563eb"
+        strokeWidth="2"
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+      <circle cx={lastPoint.x} cy={lastPoint.y} r="2.5" fill="#2563eb" />
+    </svg>
+  );
+}
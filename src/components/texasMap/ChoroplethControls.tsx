@@ -0,0 +1,94 @@
+'use client';
+
+import { ChoroplethMetric, ChoroplethScale, NumericCountyField } from '@/types';
+import { CHOROPLETH_METRICS, NO_DATA_FILL } from '@/utils/choropleth';
+import { formatCompact } from '@/utils/formatters';
+import React from 'react';
+
+/**
+ * Interface for ChoroplethControls props
+ */
+interface ChoroplethControlsProps {
+  /** Metric currently coloring the map, or null when choropleth mode is off */
+  activeMetric: ChoroplethMetric | null;
+  /** Scale for the active metric */
+  scale: ChoroplethScale | null;
+  /** Number of counties with data for the active metric */
+  countiesWithData: number;
+  /** Whether statewide county data is loading */
+  isLoading?: boolean;
+  /** Function to change the active metric */
+  onMetricChange: (metric: NumericCountyField | null) => void;
+}
+
+/**
+ * ChoroplethControls Component - Metric picker and legend for choropleth mode
+ * 
+ * Features:
+ * - Dropdown of numeric CountyInfo metrics, with an option to turn coloring off
+ * - Legend showing the class ranges of the active metric
+ * - Count of counties with data
+ * 
+ * @param props - The component props
+ * @returns {React.JSX.Element} The choropleth controls component
+ */
+export default function ChoroplethControls({
+  activeMetric,
+  scale,
+  countiesWithData,
+  isLoading,
+  onMetricChange
+}: ChoroplethControlsProps): React.JSX.Element {
+
+  /**
+   * Handles metric dropdown changes
+   * @param event - Change event from the select element
+   */
+  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>): void => {
+    const value = event.target.value;
+    onMetricChange(value ? value as NumericCountyField : null);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        Color counties by
+        <select
+          className="px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          value={activeMetric?.key ?? ''}
+          onChange={handleChange}
+        >
+          <option value="">None</option>
+          {CHOROPLETH_METRICS.map(metric => (
+            <option key={metric.key} value={metric.key}>{metric.label}</option>
+          ))}
+        </select>
+      </label>
+
+      {/* Legend */}
+      {activeMetric && (
+        <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-gray-600" aria-label={`${activeMetric.label} legend`}>
+          {scale ? (
+            scale.colors.map((color, index) => {
+              const lower = index === 0 ? scale.min : scale.breaks[index - 1];
+              const upper = index < scale.breaks.length ? scale.breaks[index] : scale.max;
+              return (
+                <span key={color} className="flex items-center gap-1">
+                  <span className="inline-block w-4 h-4 rounded border border-gray-300" style={{ backgroundColor: color }} />
+                  {formatCompact(lower, activeMetric.format)}–{formatCompact(upper, activeMetric.format)}
+                </span>
+              );
+            })
+          ) : null}
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-4 h-4 rounded border border-gray-300" style={{ backgroundColor: NO_DATA_FILL }} />
+            No data
+          </span>
+          <span className="text-gray-500">
+            {isLoading ? 'Loading all counties...' : `(${countiesWithData} of 254 counties)`}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useCountySearch } from '@/hooks/useCountySearch';
+import { formatCountyName } from '@/utils/countyUtils';
+import React, { useState } from 'react';
+
+/**
+ * Interface for CountySearch props
+ */
+interface CountySearchProps {
+  /** Function called with the county name when a result is picked */
+  onSelectCounty: (countyName: string) => void;
+}
+
+/**
+ * CountySearch Component - Search box with type-ahead for all 254 counties
+ * 
+ * Features:
+ * - Prefix matches listed before substring matches
+ * - Arrow keys to move through results, Enter to pick, Escape to close
+ * - ARIA combobox/listbox pattern for screen readers
+ * 
+ * @param props - The component props
+ * @returns {React.JSX.Element} The county search component
+ */
+export default function CountySearch({ onSelectCounty }: CountySearchProps): React.JSX.Element {
+  const { query, results, activeIndex, updateQuery, moveActiveIndex, resetSearch } = useCountySearch();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const showResults = isOpen && query.trim().length > 0;
+
+  /**
+   * Picks a result, selecting the county on the map
+   * @param countyName - Name of the picked county
+   */
+  const pickCounty = (countyName: string): void => {
+    onSelectCounty(countyName);
+    resetSearch();
+    setIsOpen(false);
+  };
+
+  /**
+   * Handles keyboard navigation of the results
+   * @param event - Keyboard event
+   */
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>): void => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setIsOpen(true);
+        moveActiveIndex(1);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        moveActiveIndex(-1);
+        break;
+      case 'Enter': {
+        const countyName = results[activeIndex === -1 ? 0 : activeIndex];
+        if (countyName) {
+          event.preventDefault();
+          pickCounty(countyName);
+        }
+        break;
+      }
+      case 'Escape':
+        setIsOpen(false);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative w-full max-w-sm">
+      <input
+        type="search"
+        className="w-full px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        placeholder="Search counties (e.g. Loving, Kenedy)"
+        value={query}
+        onChange={(event) => {
+          updateQuery(event.target.value);
+          setIsOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        role="combobox"
+        aria-label="Search Texas counties"
+        aria-expanded={showResults}
+        aria-controls="county-search-results"
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? `county-search-result-${activeIndex}` : undefined}
+      />
+
+      {showResults && (
+        <ul
+          id="county-search-results"
+          role="listbox"
+          className="absolute left-0 right-0 mt-1 max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg z-[1001] text-left"
+        >
+          {results.length === 0 ? (
+            <li className="px-4 py-2 text-sm text-gray-500">No matching counties</li>
+          ) : (
+            results.map((countyName, index) => (
+              <li
+                key={countyName}
+                id={`county-search-result-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={`px-4 py-2 text-sm cursor-pointer ${index === activeIndex ? 'bg-blue-50 text-blue-800' : 'text-gray-900 hover:bg-gray-50'}`}
+                // mousedown fires before the input's blur closes the list
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  pickCounty(countyName);
+                }}
+              >
+                {formatCountyName(countyName)}
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { CountyPathHandlers } from '@/hooks/useSVGMapInteractions';
+import { CountyPath } from '@/types';
+import { getCountyStyle } from '@/utils/mapStyling';
+import React, { memo } from 'react';
+
+/**
+ * Interface for CountyShape props
+ */
+interface CountyShapeProps {
+  /** Outline of the county */
+  county: CountyPath;
+  /** Whether the county is hovered, focused or previewed */
+  isHovered: boolean;
+  /** Whether the county is selected */
+  isSelected: boolean;
+  /** Whether the county is pinned for comparison */
+  isCompared: boolean;
+  /** Whether the county belongs to the selected region */
+  isInRegion: boolean;
+  /** Whether the county is excluded by the active filter */
+  isFilteredOut: boolean;
+  /** Choropleth fill, if choropleth mode is on */
+  fill?: string;
+  /** Whether the county holds the map's roving tab stop */
+  isFocusable: boolean;
+  /** Shared county event handlers */
+  handlers: CountyPathHandlers;
+  /** Ref callback registering the path element */
+  registerCounty: (countyName: string, element: SVGPathElement | null) => void;
+}
+
+/**
+ * CountyShape Component - One county path on the Texas map
+ * 
+ * Features:
+ * - Styled from the county's composed visual state (see getCountyStyle)
+ * - Pointer, focus and keyboard events forwarded with the county name
+ * - Button semantics and label for screen readers
+ * - Memoized, so hovering one county doesn't re-render the other 253
+ * 
+ * @param props - The component props
+ * @returns {React.JSX.Element} The county path
+ */
+function CountyShape({
+  county,
+  isHovered,
+  isSelected,
+  isCompared,
+  isInRegion,
+  isFilteredOut,
+  fill,
+  isFocusable,
+  handlers,
+  registerCounty
+}: CountyShapeProps): React.JSX.Element {
+  const { name } = county;
+
+  return (
+    <path
+      ref={(element) => registerCounty(name, element)}
+      id={name}
+      d={county.d}
+      role="button"
+      aria-label={`${name} County`}
+      aria-pressed={isSelected}
+      tabIndex={isFocusable ? 0 : -1}
+      style={getCountyStyle({ isHovered, isSelected, isCompared, isInRegion, isFilteredOut, fill })}
+      onPointerEnter={(event) => handlers.onPointerEnter(name, event)}
+      onPointerLeave={handlers.onPointerLeave}
+      onPointerDown={(event) => handlers.onPointerDown(name, event)}
+      onPointerUp={handlers.onPointerUp}
+      onPointerCancel={handlers.onPointerUp}
+      onClick={(event) => handlers.onClick(name, event)}
+      onContextMenu={handlers.onContextMenu}
+      onFocus={(event) => handlers.onFocus(name, event.currentTarget)}
+      onBlur={handlers.onBlur}
+      onKeyDown={(event) => handlers.onKeyDown(name, event)}
+    />
+  );
+}
+
+export default memo(CountyShape);
@@ -0,0 +1,72 @@
+'use client';
+
+import { AcsVintage } from '@/types';
+import { ExportFormat } from '@/utils/dataExport';
+import React, { useState } from 'react';
+
+/**
+ * Counties included in a map export
+ */
+export type MapExportScope = 'loaded' | 'all';
+
+/**
+ * Interface for MapDataExport props
+ */
+interface MapDataExportProps {
+  /** Number of counties already loaded for the selected vintage */
+  loadedCount: number;
+  /** Whether statewide county data is loading */
+  isLoading?: boolean;
+  /** Selected ACS vintage; 1-year releases only cover counties of 65,000 people or more */
+  vintage: AcsVintage;
+  /** Why the last export failed, if it did */
+  error?: string | null;
+  /** Function to export the counties of a scope in a format */
+  onExport: (scope: MapExportScope, format: ExportFormat) => void;
+}
+
+/**
+ * MapDataExport Component - Downloads county data for the selected vintage
+ *
+ * Features:
+ * - Exports the counties loaded so far, or every county in the release (loading them first)
+ * - Nothing is exported when the statewide load fails
+ * - CSV for spreadsheets and JSON for scripts
+ *
+ * @param props - The component props
+ * @returns {React.JSX.Element} The export controls
+ */
+export default function MapDataExport({
+  loadedCount,
+  isLoading,
+  vintage,
+  error,
+  onExport
+}: MapDataExportProps): React.JSX.Element {
+  const [scope, setScope] = useState<MapExportScope>('all');
+  const isDisabled = isLoading || (scope === 'loaded' && loadedCount === 0);
+  const buttonClassName = 'px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors duration-200 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm font-medium text-gray-700">
+      <label className="flex items-center gap-2">
+        Export
+        <select
+          className="px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          value={scope}
+          onChange={(event) => setScope(event.target.value as MapExportScope)}
+        >
+          <option value="all">{vintage.dataset === 'acs1' ? 'All counties with 1-year estimates' : 'All 254 counties'}</option>
+          <option value="loaded">Loaded counties ({loadedCount})</option>
+        </select>
+      </label>
+      <button type="button" className={buttonClassName} onClick={() => onExport(scope, 'csv')} disabled={isDisabled}>
+        ⬇ CSV
+      </button>
+      <button type="button" className={buttonClassName} onClick={() => onExport(scope, 'json')} disabled={isDisabled}>
+        ⬇ JSON
+      </button>
+      {error && <p className="w-full text-center text-sm text-red-700" role="alert">{error}</p>}
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ interface TooltipData {
   y: number;
   county: string;
   visible: boolean;
+  isPreview: boolean;
 }
 
 /**
@@ -19,6 +20,8 @@ interface TooltipData {
 interface MapTooltipProps {
   /** Tooltip data including position and content */
   tooltip: TooltipData;
+  /** Function to open the side panel for a previewed county */
+  onOpenDetails?: (countyName: string) => void;
 }
 
 /**
@@ -28,12 +31,12 @@ interface MapTooltipProps {
  * - Fixed positioning based on mouse coordinates
  * - Smooth fade-in animation
  * - Arrow pointing to the hovered area
- * - Non-interactive (pointer-events: none)
+ * - Non-interactive (pointer-events: none), except touch previews which offer a details button
  * 
  * @param props - The component props
  * @returns {React.JSX.Element | null} The tooltip component or null if not visible
  */
-export default function MapTooltip({ tooltip }: MapTooltipProps): React.JSX.Element | null {
+export default function MapTooltip({ tooltip, onOpenDetails }: MapTooltipProps): React.JSX.Element | null {
   // Don't render if tooltip is not visible
   if (!tooltip.visible) {
     return null;
@@ -45,7 +48,7 @@ export default function MapTooltip({ tooltip }: MapTooltipProps): React.JSX.Elem
 
   return (
     <div 
-      className="fixed z-[1000] pointer-events-none animate-in fade-in duration-200"
+      className={`fixed z-[1000] animate-in fade-in duration-200 ${tooltip.isPreview ? 'pointer-events-auto' : 'pointer-events-none'}`}
       style={{
         left: `${tooltipX}px`,
         top: `${tooltipY}px`
@@ -55,9 +58,26 @@ export default function MapTooltip({ tooltip }: MapTooltipProps): React.JSX.Elem
         <strong className="block font-semibold mb-1">
           {formatCountyName(tooltip.county)}
         </strong>
-        <div className="text-xs opacity-80 text-gray-300">
-          Click to select
-        </div>
+        {tooltip.isPreview ? (
+          <>
+            <div className="text-xs opacity-80 text-gray-300">
+              Tap again for details · Long-press to compare
+            </div>
+            {onOpenDetails && (
+              <button
+                type="button"
+                className="mt-2 px-3 py-1 bg-blue-500 text-white text-xs font-medium rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-300 transition-colors duration-200"
+                onClick={() => onOpenDetails(tooltip.county)}
+              >
+                View details
+              </button>
+            )}
+          </>
+        ) : (
+          <div className="text-xs opacity-80 text-gray-300">
+            Click to select · Shift-click to compare
+          </div>
+        )}
         {/* Tooltip Arrow */}
         <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-[6px] border-r-[6px] border-t-[6px] border-l-transparent border-r-transparent border-t-gray-800"></div>
       </div>
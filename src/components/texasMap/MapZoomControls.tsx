@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+
+/**
+ * Interface for MapZoomControls props
+ */
+interface MapZoomControlsProps {
+  /** Whether the map is zoomed or panned away from the full view */
+  isZoomed: boolean;
+  /** Function to zoom in one step */
+  onZoomIn: () => void;
+  /** Function to zoom out one step */
+  onZoomOut: () => void;
+  /** Function to return to the full map */
+  onReset: () => void;
+}
+
+/**
+ * MapZoomControls Component - Zoom buttons overlaid on the map
+ * 
+ * Features:
+ * - Zoom in and zoom out buttons
+ * - Reset button, enabled once the map is zoomed
+ * - Hint for wheel, pinch and drag gestures
+ * 
+ * @param props - The component props
+ * @returns {React.JSX.Element} The zoom controls component
+ */
+export default function MapZoomControls({
+  isZoomed,
+  onZoomIn,
+  onZoomOut,
+  onReset
+}: MapZoomControlsProps): React.JSX.Element {
+  const buttonClassName = 'w-9 h-9 flex items-center justify-center bg-white border border-gray-300 text-gray-700 text-lg font-semibold hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-40 disabled:cursor-not-allowed transition-colors duration-200';
+
+  return (
+    <div className="absolute top-4 right-4 z-10 flex flex-col items-end gap-2">
+      <div className="flex flex-col rounded-lg shadow-md overflow-hidden" role="group" aria-label="Map zoom">
+        <button type="button" className={buttonClassName} onClick={onZoomIn} aria-label="Zoom in" title="Zoom in">
+          +
+        </button>
+        <button type="button" className={buttonClassName} onClick={onZoomOut} disabled={!isZoomed} aria-label="Zoom out" title="Zoom out">
+          −
+        </button>
+        <button type="button" className={`${buttonClassName} text-sm`} onClick={onReset} disabled={!isZoomed} aria-label="Reset map view" title="Reset map view">
+          ⟲
+        </button>
+      </div>
+      <p className="hidden md:block text-xs text-gray-500 bg-white/80 px-2 py-1 rounded">
+        Scroll or pinch to zoom · drag to pan
+      </p>
+    </div>
+  );
+}
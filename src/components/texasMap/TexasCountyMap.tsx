@@ -0,0 +1,131 @@
+'use client';
+
+import CountyShape from '@/components/texasMap/CountyShape';
+import { TEXAS_COUNTY_PATHS } from '@/data/texasCountyPaths';
+import { MapPanHandlers } from '@/hooks/useMapViewport';
+import { CountyPathHandlers } from '@/hooks/useSVGMapInteractions';
+import { MapViewBox } from '@/types';
+import { NO_DATA_FILL } from '@/utils/choropleth';
+import { normalizeCountyName } from '@/utils/countyUtils';
+import { MAP_ARIA_LABEL } from '@/utils/mapAccessibility';
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+
+/**
+ * Interface for TexasCountyMap props
+ */
+interface TexasCountyMapProps {
+  /** Choropleth fills keyed by normalized county name, or null when choropleth mode is off */
+  fills: Record<string, string> | null;
+  /** County shown in the side panel */
+  selectedCounty: string | null;
+  /** County picked from search; the map scrolls into view when it changes */
+  searchedCounty: string | null;
+  /** Counties pinned for comparison */
+  comparedCounties: string[];
+  /** Normalized names of the selected region's member counties, or null when no region is selected */
+  regionCounties?: Set<string> | null;
+  /** Normalized names of counties excluded by the active filter, or null when no filter is active */
+  filteredOutCounties?: Set<string> | null;
+  /** Normalized name of the hovered or focused county */
+  hoveredCounty: string | null;
+  /** Normalized name of the county holding the roving tab stop */
+  focusableCounty: string | null;
+  /** Shared county event handlers */
+  countyHandlers: CountyPathHandlers;
+  /** Ref callback registering county path elements */
+  registerCounty: (countyName: string, element: SVGPathElement | null) => void;
+  /** Visible part of the map in SVG user units */
+  viewBox: MapViewBox;
+  /** Ref callback receiving the SVG element (for wheel zoom) */
+  svgRef: (element: SVGSVGElement | null) => void;
+  /** Pointer handlers for panning and pinch zooming */
+  panHandlers: MapPanHandlers;
+  /** Function called when the map background (outside any county) is clicked or tapped */
+  onBackgroundClick?: () => void;
+}
+
+/**
+ * TexasCountyMap Component - Inline SVG map of all 254 Texas counties
+ * 
+ * Features:
+ * - Renders county outlines from the generated path dataset
+ * - Per-county visual state composed from hover, selection, comparison, region, filter and choropleth layers
+ * - Scrolls into view when a county is picked from search
+ * - Pan and zoom through the view box
+ * - Single tab stop with roving tabindex across counties
+ * 
+ * @param props - The component props
+ * @returns {React.JSX.Element} The county map
+ */
+export default function TexasCountyMap({
+  fills,
+  selectedCounty,
+  searchedCounty,
+  comparedCounties,
+  regionCounties,
+  filteredOutCounties,
+  hoveredCounty,
+  focusableCounty,
+  countyHandlers,
+  registerCounty,
+  viewBox,
+  svgRef,
+  panHandlers,
+  onBackgroundClick
+}: TexasCountyMapProps): React.JSX.Element {
+  const svgElementRef = useRef<SVGSVGElement | null>(null);
+  const normalizedSelection = selectedCounty ? normalizeCountyName(selectedCounty) : null;
+  const comparedSet = useMemo(
+    () => new Set(comparedCounties.map(countyName => normalizeCountyName(countyName))),
+    [comparedCounties]
+  );
+
+  // Bring the map into view when a county is picked from search
+  useEffect(() => {
+    if (searchedCounty) {
+      svgElementRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [searchedCounty]);
+
+  /**
+   * Keeps the SVG element for scrolling and hands it to the viewport
+   * @param element - SVG element, or null when it unmounts
+   */
+  const setSvgElement = useCallback((element: SVGSVGElement | null): void => {
+    svgElementRef.current = element;
+    svgRef(element);
+  }, [svgRef]);
+
+  const { x, y, width, height } = viewBox;
+
+  return (
+    <svg
+      ref={setSvgElement}
+      viewBox={`${x} ${y} ${width} ${height}`}
+      className="w-full h-full max-w-5xl rounded-lg bg-white touch-none select-none"
+      role="application"
+      aria-label={MAP_ARIA_LABEL}
+      {...panHandlers}
+      onClick={(event) => event.target === event.currentTarget && onBackgroundClick?.()}
+    >
+      {TEXAS_COUNTY_PATHS.map((county) => {
+        const countyName = normalizeCountyName(county.name);
+        return (
+          <CountyShape
+            key={county.name}
+            county={county}
+            isHovered={hoveredCounty === countyName}
+            isSelected={normalizedSelection === countyName}
+            isCompared={comparedSet.has(countyName)}
+            isInRegion={regionCounties?.has(countyName) ?? false}
+            isFilteredOut={filteredOutCounties?.has(countyName) ?? false}
+            fill={fills ? fills[countyName] ?? NO_DATA_FILL : undefined}
+            isFocusable={focusableCounty === countyName}
+            handlers={countyHandlers}
+            registerCounty={registerCounty}
+          />
+        );
+      })}
+    </svg>
+  );
+}
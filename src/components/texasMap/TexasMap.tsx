@@ -1,28 +1,92 @@
 'use client';
 
+import ComparisonPanel from '@/components/comparison/ComparisonPanel';
+import CountyFilterPanel from '@/components/filters/CountyFilterPanel';
+import RegionPanel from '@/components/regions/RegionPanel';
+import RegionSelector from '@/components/regions/RegionSelector';
 import SidePanel from '@/components/sidePanel/SidePanel';
+import ChoroplethControls from '@/components/texasMap/ChoroplethControls';
+import CountySearch from '@/components/texasMap/CountySearch';
+import MapDataExport, { MapExportScope } from '@/components/texasMap/MapDataExport';
 import MapTooltip from '@/components/texasMap/MapTooltip';
+import MapZoomControls from '@/components/texasMap/MapZoomControls';
+import TexasCountyMap from '@/components/texasMap/TexasCountyMap';
+import VintageSelector from '@/components/texasMap/VintageSelector';
+import { TEXAS_COUNTY_PATHS } from '@/data/texasCountyPaths';
+import { useAcsVintage } from '@/hooks/useAcsVintage';
+import { useChoropleth } from '@/hooks/useChoropleth';
 import { useCountySelection } from '@/hooks/useCountySelection';
+import { useCountyComparison } from '@/hooks/useCountyComparison';
+import { useCountyFilter } from '@/hooks/useCountyFilter';
+import { useMapViewport } from '@/hooks/useMapViewport';
+import { useRegionSelection } from '@/hooks/useRegionSelection';
+import useCountyCities from '@/hooks/useCountyCities';
+import useCountyTrends from '@/hooks/useCountyTrends';
+import useStatewideCountyInfo from '@/hooks/useStatewideCountyInfo';
 import { useSVGMapInteractions } from '@/hooks/useSVGMapInteractions';
 import { useTooltip } from '@/hooks/useTooltip';
-import React, { useEffect, useState } from 'react';
+import { useUrlStateSync } from '@/hooks/useUrlStateSync';
+import { countyDataCache } from '@/services/countyDataCache';
+import { CountyInfo } from '@/types';
+import { getAcsVintageKey } from '@/utils/acsVintage';
+import { MAX_COMPARED_COUNTIES } from '@/utils/comparison';
+import { normalizeCountyName } from '@/utils/countyUtils';
+import { downloadCountyData, ExportFormat } from '@/utils/dataExport';
+import { computeStatewideRankings } from '@/utils/ranking';
+import { describeCounty } from '@/utils/mapAccessibility';
+import { MapUrlState } from '@/utils/urlState';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 
 /**
  * TexasMap Component - Displays an interactive SVG map of Texas Counties
  * 
  * Features:
- * - Interactive SVG map with hover effects for all 254 Texas counties
+ * - Inline SVG map with hover effects for all 254 Texas counties
+ * - Selected and pinned counties stay highlighted, including over choropleth fills
  * - Dynamic tooltips that follow the cursor
  * - Click handling for counties/regions
+ * - Touch model: tap to preview, tap again to open, long-press to pin for comparison
+ * - Choropleth mode coloring all counties by a Census metric
+ * - Selectable ACS release year and dataset
+ * - Side-by-side comparison of up to four pinned counties
+ * - Metro areas, councils of governments and Comptroller regions with aggregated figures
+ * - Attribute filters (e.g. population below 50,000 AND income above $60,000) that dim non-matching counties
+ * - County search with type-ahead
  * - Responsive design
- * - Accessibility support
+ * - Keyboard navigation (arrow keys between neighbouring counties, Enter/Space to select)
+ * - Screen-reader labels and announcements for hovered and focused counties
+ * - Wheel/pinch zoom, drag panning and an animated zoom to the selected county
+ * - Statewide rank and percentile of every metric in the side panel
+ * - Neighbouring counties in the side panel, from the adjacency graph of the county outlines
+ * - Cities within the selected county, from a configurable city dataset
+ * - Shareable URLs: county, panel, metric, comparison and vintage live in the query string
+ * - CSV/JSON export of the loaded counties or every county in the release
  * 
  * This component now uses separated responsibilities:
  * - useTooltip: manages tooltip state and positioning
+ * - useAcsVintage: manages the selected ACS year and dataset
  * - useCountySelection: manages county selection and panel state
- * - useSVGMapInteractions: handles SVG event listeners and setup
+ * - useSVGMapInteractions: manages hover, keyboard focus and county events
+ * - useMapViewport: manages pan and zoom of the map
+ * - useChoropleth: manages the active choropleth metric and fills
+ * - useStatewideCountyInfo: loads every county in one Census request
+ * - useCountyTrends: loads the selected county across ACS releases
+ * - useCountyCities: loads the cities of the selected county
+ * - useCountyComparison: manages pinned counties and their data
+ * - useRegionSelection: manages the selected region and aggregates its counties
+ * - useCountyFilter: manages filter conditions and the matching counties
+ * - useUrlStateSync: keeps the view in the URL and restores it on load and back/forward
+ * - TexasCountyMap: renders the county paths
+ * - MapZoomControls: renders the zoom and reset buttons
  * - MapTooltip: renders the tooltip UI
+ * - ChoroplethControls: renders the metric picker and legend
+ * - VintageSelector: renders the ACS year and dataset pickers
+ * - CountySearch: renders the county search box
+ * - MapDataExport: renders the export controls
  * - SidePanel: displays detailed county information
+ * - ComparisonPanel: displays the pinned counties side by side
+ * - RegionSelector / RegionPanel: pick a region and display its aggregated figures
+ * - CountyFilterPanel: builds filter conditions and lists the matching counties
  * 
  * @returns {React.JSX.Element} The Texas map component
  */
@@ -30,34 +94,265 @@ export default function TexasMap(): React.JSX.Element {
   const [isHydrated, setIsHydrated] = useState(false);
   
   // Custom hooks for separated concerns
-  const { tooltip, showTooltip, updateTooltipPosition, hideTooltip } = useTooltip();
+  const { tooltip, showTooltip, hideTooltip } = useTooltip();
+  const { vintage, selectYear, selectDataset, selectVintage } = useAcsVintage();
   const { 
     selectedCounty, 
     isPanelVisible, 
     selectCounty, 
     closePanel,
+    restoreSelection,
     countyData,
     isLoadingCountyData,
     isCountyDataError,
     countyDataError,
     isFromCache,
     cacheSize
-  } = useCountySelection();
+  } = useCountySelection(vintage);
+  const {
+    comparedCounties,
+    comparisonData,
+    isLoadingComparison,
+    isCountyCompared,
+    toggleComparedCounty,
+    removeComparedCounty,
+    clearComparison,
+    replaceComparedCounties
+  } = useCountyComparison(vintage);
+
+  // County data available for choropleth coloring
+  const [cachedCountyData, setCachedCountyData] = useState<Record<string, CountyInfo>>({});
+  // County picked from search, kept while it stays selected
+  const [searchedCounty, setSearchedCounty] = useState<string | null>(null);
+  // Why the last map export failed, shown next to the export controls
+  const [exportError, setExportError] = useState<string | null>(null);
+  const { activeMetric, scale, fills, countiesWithData, selectMetric } = useChoropleth(cachedCountyData);
+  const { 
+    countiesByFips, 
+    loadedVintageKey,
+    isLoading: isLoadingAllCounties, 
+    callForAllCounties 
+  } = useStatewideCountyInfo();
+  const {
+    regionType,
+    selectedRegion,
+    regionCounties,
+    regionSummary,
+    selectRegionType,
+    selectRegion
+  } = useRegionSelection(countiesByFips);
+  const {
+    conditions: filterConditions,
+    isFilterActive,
+    matchingCounties,
+    filteredOutCounties,
+    addCondition,
+    updateCondition,
+    removeCondition,
+    clearConditions
+  } = useCountyFilter(cachedCountyData);
+  const { 
+    trends, 
+    isLoading: isLoadingTrends, 
+    error: trendsError, 
+    callForCountyTrends, 
+    clearTrends 
+  } = useCountyTrends();
+  const {
+    cities,
+    isLoading: isLoadingCities,
+    error: citiesError,
+    callForCountyCities,
+    clearCities
+  } = useCountyCities();
+  // Screen-reader announcement for the hovered or focused county
+  const [announcement, setAnnouncement] = useState('');
+
+  /**
+   * Shows the tooltip and announces the county's name and data
+   * @param countyName - Name of the hovered or focused county
+   * @param element - County path element
+   */
+  const handleCountyHover = (countyName: string, element: Element): void => {
+    showTooltip(countyName, element);
+    const data = cachedCountyData[normalizeCountyName(countyName)] ?? countyDataCache.get(countyName, vintage);
+    setAnnouncement(describeCounty(countyName, data, activeMetric));
+  };
   
+  /**
+   * Shows the touch preview tooltip and announces the county
+   * @param countyName - Name of the tapped county
+   * @param element - County path element
+   */
+  const handleCountyPreview = (countyName: string, element: Element): void => {
+    showTooltip(countyName, element, true);
+    const data = cachedCountyData[normalizeCountyName(countyName)] ?? countyDataCache.get(countyName, vintage);
+    setAnnouncement(describeCounty(countyName, data, activeMetric));
+  };
+
   // SVG map interaction handlers
   const mapHandlers = {
-    onCountyHover: showTooltip,
-    onCountyMove: updateTooltipPosition,
+    onCountyHover: handleCountyHover,
+    onCountyPreview: handleCountyPreview,
     onCountyLeave: hideTooltip,
-    onCountyClick: selectCounty
+    onCountyClick: selectCounty,
+    onCountyPin: toggleComparedCounty
   };
   
-  const { handleIframeLoad } = useSVGMapInteractions(mapHandlers);
+  const { 
+    hoveredCounty,
+    focusableCounty,
+    registerCounty,
+    countyHandlers,
+    clearPreview,
+    restoreCountyFocus 
+  } = useSVGMapInteractions(mapHandlers);
+  const { 
+    viewBox, 
+    svgRef, 
+    panHandlers, 
+    isZoomed, 
+    zoomIn, 
+    zoomOut, 
+    resetView, 
+    zoomToCounty 
+  } = useMapViewport();
+
+  /**
+   * Applies a view restored from the URL
+   * @param urlState - View state read from the query string
+   */
+  const applyUrlState = useCallback((urlState: MapUrlState): void => {
+    restoreSelection(urlState.selectedCounty, urlState.isPanelVisible);
+    selectMetric(urlState.metric);
+    replaceComparedCounties(urlState.comparedCounties);
+    selectVintage(urlState.vintage);
+  }, [restoreSelection, selectMetric, replaceComparedCounties, selectVintage]);
+
+  useUrlStateSync({
+    selectedCounty,
+    isPanelVisible,
+    metric: activeMetric?.key ?? null,
+    comparedCounties,
+    vintage
+  }, applyUrlState);
 
   useEffect(() => {
     setIsHydrated(true);
   }, []);
 
+  const isStatewideDataLoaded = loadedVintageKey === getAcsVintageKey(vintage);
+
+  // Load every county once a statewide view (choropleth, side panel rankings, region or filter) is requested for the selected vintage
+  useEffect(() => {
+    if ((activeMetric || isPanelVisible || selectedRegion || isFilterActive) && !isStatewideDataLoaded) {
+      callForAllCounties(vintage);
+    }
+  }, [activeMetric, isPanelVisible, selectedRegion, isFilterActive, isStatewideDataLoaded, vintage, callForAllCounties]);
+
+  // Rank the selected county's metrics among every county
+  const statewideRankings = useMemo(() => {
+    if (!countyData || !isStatewideDataLoaded) return null;
+    return computeStatewideRankings(countyData, Object.values(countiesByFips));
+  }, [countyData, countiesByFips, isStatewideDataLoaded]);
+
+  // Refresh choropleth data whenever newly fetched county data lands in the cache
+  useEffect(() => {
+    setCachedCountyData(countyDataCache.getAll(vintage));
+  }, [countyData, countiesByFips, vintage]);
+
+  // Forget the searched county once another county is selected
+  useEffect(() => {
+    if (searchedCounty && selectedCounty !== searchedCounty) {
+      setSearchedCounty(null);
+    }
+  }, [selectedCounty, searchedCounty]);
+
+  // Bring the selected (or searched) county into view
+  useEffect(() => {
+    if (selectedCounty) {
+      zoomToCounty(selectedCounty);
+    }
+  }, [selectedCounty, zoomToCounty]);
+
+  // Trends belong to one county and vintage - drop them when either changes
+  useEffect(() => {
+    clearTrends();
+  }, [selectedCounty, vintage, clearTrends]);
+
+  // Load the cities of the county shown in the side panel
+  useEffect(() => {
+    if (isPanelVisible && selectedCounty) {
+      callForCountyCities(selectedCounty);
+    } else {
+      clearCities();
+    }
+  }, [isPanelVisible, selectedCounty, callForCountyCities, clearCities]);
+
+  /**
+   * Selects a county picked from search and highlights it on the map
+   * @param countyName - Name of the picked county
+   */
+  const handleSearchSelect = (countyName: string): void => {
+    setSearchedCounty(countyName);
+    selectCounty(countyName);
+  };
+
+  /**
+   * Opens the side panel for the county previewed by a tap
+   * @param countyName - Name of the previewed county
+   */
+  const handleOpenPreview = (countyName: string): void => {
+    clearPreview();
+    selectCounty(countyName);
+  };
+
+  /**
+   * Closes the side panel and returns keyboard focus to the map
+   */
+  const handleClosePanel = (): void => {
+    closePanel();
+    restoreCountyFocus();
+  };
+
+  /**
+   * Loads the multi-year trend for the selected county
+   */
+  const handleLoadTrends = (): void => {
+    if (selectedCounty) {
+      callForCountyTrends({ countyName: selectedCounty, vintage });
+    }
+  };
+
+  /**
+   * Downloads county data for the selected vintage
+   * Loads every county first when exporting all of them, and exports nothing if that fails
+   * @param scope - Loaded counties or every county in the release
+   * @param format - File format
+   */
+  const handleExport = async (scope: MapExportScope, format: ExportFormat): Promise<void> => {
+    setExportError(null);
+
+    if (scope === 'loaded') {
+      const counties = Object.values(countyDataCache.getAll(vintage));
+      if (counties.length > 0) {
+        downloadCountyData(counties, vintage, format, 'texas-counties-loaded');
+      }
+      return;
+    }
+
+    const statewideCounties = await callForAllCounties(vintage);
+    if (!statewideCounties) {
+      setExportError('Could not load every county from the Census Bureau, so nothing was exported. Please try again.');
+      return;
+    }
+
+    // 1-year releases only cover larger counties - name the file after what it holds
+    const counties = Object.values(statewideCounties);
+    const scopeName = counties.length === TEXAS_COUNTY_PATHS.length ? 'texas-counties' : `texas-counties-${counties.length}-of-${TEXAS_COUNTY_PATHS.length}`;
+    downloadCountyData(counties, vintage, format, scopeName);
+  };
+
   if (!isHydrated) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -74,37 +369,128 @@ export default function TexasMap(): React.JSX.Element {
           Texas Counties Interactive Map
         </h1>
         <p className="text-xl text-gray-600 m-0 leading-relaxed">
-          Explore all 254 counties of Texas - Hover for name, click to see more information about the county
+          Explore all 254 counties of Texas - Hover for name, click to see more information about the county, shift-click to compare
         </p>
+        <div className="mt-4 flex flex-col items-center gap-3">
+          <CountySearch onSelectCounty={handleSearchSelect} />
+          <VintageSelector
+            vintage={vintage}
+            onYearChange={selectYear}
+            onDatasetChange={selectDataset}
+          />
+          <ChoroplethControls
+            activeMetric={activeMetric}
+            scale={scale}
+            countiesWithData={countiesWithData}
+            isLoading={isLoadingAllCounties}
+            onMetricChange={selectMetric}
+          />
+          <RegionSelector
+            regionType={regionType}
+            selectedRegion={selectedRegion}
+            onRegionTypeChange={selectRegionType}
+            onRegionChange={selectRegion}
+          />
+          <CountyFilterPanel
+            conditions={filterConditions}
+            isFilterActive={isFilterActive}
+            matchingCounties={matchingCounties}
+            isLoading={isLoadingAllCounties || !isStatewideDataLoaded}
+            onAddCondition={addCondition}
+            onUpdateCondition={updateCondition}
+            onRemoveCondition={removeCondition}
+            onClear={clearConditions}
+            onSelectCounty={selectCounty}
+          />
+          <MapDataExport
+            loadedCount={Object.keys(cachedCountyData).length}
+            isLoading={isLoadingAllCounties}
+            vintage={vintage}
+            error={exportError}
+            onExport={handleExport}
+          />
+        </div>
       </header>
 
       {/* Map Tooltip */}
-      <MapTooltip tooltip={tooltip} />
+      <MapTooltip tooltip={tooltip} onOpenDetails={handleOpenPreview} />
+
+      {/* Screen-reader announcements for hovered and focused counties */}
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </div>
 
       {/* Side Panel */}
       <SidePanel 
         selectedCounty={selectedCounty}
-        onClose={closePanel}
+        onClose={handleClosePanel}
         isVisible={isPanelVisible}
         countyData={countyData}
         isLoadingCountyData={isLoadingCountyData}
         isCountyDataError={isCountyDataError}
         countyDataError={countyDataError}
+        vintage={vintage}
+        statewideRankings={statewideRankings}
+        isLoadingRankings={isLoadingAllCounties}
+        countyDataByName={cachedCountyData}
+        onSelectCounty={selectCounty}
+        cities={cities}
+        isLoadingCities={isLoadingCities}
+        citiesError={citiesError}
+        trends={trends}
+        isLoadingTrends={isLoadingTrends}
+        trendsError={trendsError}
+        onLoadTrends={handleLoadTrends}
+        isCompared={selectedCounty ? isCountyCompared(selectedCounty) : false}
+        canCompare={comparedCounties.length < MAX_COMPARED_COUNTIES}
+        onToggleCompare={() => selectedCounty && toggleComparedCounty(selectedCounty)}
         isFromCache={isFromCache}
         cacheSize={cacheSize}
       />
 
+      {/* County Comparison */}
+      <ComparisonPanel
+        comparedCounties={comparedCounties}
+        comparisonData={comparisonData}
+        isLoading={isLoadingComparison}
+        onRemoveCounty={removeComparedCounty}
+        onClear={clearComparison}
+      />
+
+      {/* Region Summary */}
+      <RegionPanel
+        region={selectedRegion}
+        summary={isStatewideDataLoaded ? regionSummary : null}
+        isLoading={isLoadingAllCounties}
+        onSelectCounty={selectCounty}
+        onClose={() => selectRegion(null)}
+      />
+
       {/* SVG Map Container - Takes remaining space */}
       <main className="flex-1 flex justify-center items-center p-5">
-        <div className="w-full h-full max-w-6xl bg-white rounded-xl shadow-lg border border-gray-200 p-5 flex justify-center items-center">
-          <iframe
-            src="/texas-map.svg"
-            className="w-full h-full max-w-5xl border-none rounded-lg bg-white"
-            title="Interactive map of Texas counties"
-            onLoad={handleIframeLoad}
-          >
-            <p>Your browser does not support SVG. Please upgrade to a modern browser to view the Texas counties map.</p>
-          </iframe>
+        <div className="relative w-full h-full max-w-6xl bg-white rounded-xl shadow-lg border border-gray-200 p-5 flex justify-center items-center">
+          <MapZoomControls
+            isZoomed={isZoomed}
+            onZoomIn={zoomIn}
+            onZoomOut={zoomOut}
+            onReset={resetView}
+          />
+          <TexasCountyMap
+            fills={fills}
+            selectedCounty={selectedCounty}
+            searchedCounty={searchedCounty}
+            comparedCounties={comparedCounties}
+            regionCounties={regionCounties}
+            filteredOutCounties={filteredOutCounties}
+            hoveredCounty={hoveredCounty}
+            focusableCounty={focusableCounty}
+            countyHandlers={countyHandlers}
+            registerCounty={registerCounty}
+            viewBox={viewBox}
+            svgRef={svgRef}
+            panHandlers={panHandlers}
+            onBackgroundClick={clearPreview}
+          />
         </div>
       </main>
 
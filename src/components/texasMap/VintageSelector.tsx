@@ -0,0 +1,74 @@
+'use client';
+
+import { AcsDataset, AcsVintage } from '@/types';
+import { ACS_DATASET_LABELS, getAvailableAcsYears, isAcsDataset } from '@/utils/acsVintage';
+import React from 'react';
+
+/**
+ * Interface for VintageSelector props
+ */
+interface VintageSelectorProps {
+  /** Currently selected ACS vintage */
+  vintage: AcsVintage;
+  /** Function to change the release year */
+  onYearChange: (year: number) => void;
+  /** Function to change the data product */
+  onDatasetChange: (dataset: AcsDataset) => void;
+}
+
+/**
+ * VintageSelector Component - Picks the ACS release year and data product
+ * 
+ * Features:
+ * - Year dropdown limited to the releases of the selected product
+ * - 5-year / 1-year estimates dropdown
+ * 
+ * @param props - The component props
+ * @returns {React.JSX.Element} The vintage selector component
+ */
+export default function VintageSelector({
+  vintage,
+  onYearChange,
+  onDatasetChange
+}: VintageSelectorProps): React.JSX.Element {
+  const selectClassName = 'px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  /**
+   * Handles dataset dropdown changes
+   * @param event - Change event from the select element
+   */
+  const handleDatasetChange = (event: React.ChangeEvent<HTMLSelectElement>): void => {
+    const value = event.target.value;
+    if (isAcsDataset(value)) {
+      onDatasetChange(value);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+      <label className="flex items-center gap-2">
+        ACS
+        <select
+          className={selectClassName}
+          value={vintage.year}
+          onChange={(event) => onYearChange(Number(event.target.value))}
+          aria-label="ACS release year"
+        >
+          {getAvailableAcsYears(vintage.dataset).map(year => (
+            <option key={year} value={year}>{year}</option>
+          ))}
+        </select>
+      </label>
+      <select
+        className={selectClassName}
+        value={vintage.dataset}
+        onChange={handleDatasetChange}
+        aria-label="ACS data product"
+      >
+        {(Object.keys(ACS_DATASET_LABELS) as AcsDataset[]).map(dataset => (
+          <option key={dataset} value={dataset}>{ACS_DATASET_LABELS[dataset]}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
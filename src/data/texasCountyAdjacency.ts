@@ -0,0 +1,266 @@
+/**
+ * Texas county adjacency
+ * 
+ * Generated from public/texas-map.svg by scripts/generate-county-paths.mjs - do not edit by hand
+ */
+
+/**
+ * Neighbouring counties of each county, keyed by county name
+ * Counties are neighbours when their outlines share a boundary, not just a corner
+ */
+export const TEXAS_COUNTY_ADJACENCY: Record<string, string[]> = {
+  'Anderson': ['Cherokee', 'Freestone', 'Henderson', 'Houston', 'Leon'],
+  'Andrews': ['Ector', 'Gaines', 'Martin', 'Midland', 'Winkler'],
+  'Angelina': ['Cherokee', 'Houston', 'Jasper', 'Nacogdoches', 'Polk', 'San Augustine', 'Trinity', 'Tyler'],
+  'Aransas': ['Calhoun', 'Nueces', 'Refugio', 'San Patricio'],
+  'Archer': ['Baylor', 'Clay', 'Jack', 'Wichita', 'Young'],
+  'Armstrong': ['Briscoe', 'Carson', 'Donley', 'Randall', 'Swisher'],
+  'Atascosa': ['Bexar', 'Frio', 'Karnes', 'La Salle', 'Live Oak', 'McMullen', 'Medina', 'Wilson'],
+  'Austin': ['Colorado', 'Fayette', 'Fort Bend', 'Waller', 'Washington', 'Wharton'],
+  'Bailey': ['Cochran', 'Lamb', 'Parmer'],
+  'Bandera': ['Bexar', 'Kendall', 'Kerr', 'Medina', 'Real', 'Uvalde'],
+  'Bastrop': ['Caldwell', 'Fayette', 'Lee', 'Travis', 'Williamson'],
+  'Baylor': ['Archer', 'Foard', 'Knox', 'Throckmorton', 'Wilbarger'],
+  'Bee': ['Goliad', 'Karnes', 'Live Oak', 'Refugio', 'San Patricio'],
+  'Bell': ['Burnet', 'Coryell', 'Falls', 'Lampasas', 'McLennan', 'Milam', 'Williamson'],
+  'Bexar': ['Atascosa', 'Bandera', 'Comal', 'Guadalupe', 'Kendall', 'Medina', 'Wilson'],
+  'Blanco': ['Burnet', 'Comal', 'Gillespie', 'Hays', 'Kendall', 'Llano', 'Travis'],
+  'Borden': ['Dawson', 'Garza', 'Howard', 'Lynn', 'Mitchell', 'Scurry'],
+  'Bosque': ['Coryell', 'Erath', 'Hamilton', 'Hill', 'Johnson', 'McLennan', 'Somervell'],
+  'Bowie': ['Cass', 'Morris', 'Red River'],
+  'Brazoria': ['Fort Bend', 'Galveston', 'Harris', 'Matagorda', 'Wharton'],
+  'Brazos': ['Burleson', 'Grimes', 'Madison', 'Robertson', 'Washington'],
+  'Brewster': ['Jeff Davis', 'Pecos', 'Presidio', 'Terrell'],
+  'Briscoe': ['Armstrong', 'Donley', 'Floyd', 'Hall', 'Motley', 'Swisher'],
+  'Brooks': ['Duval', 'Hidalgo', 'Jim Hogg', 'Jim Wells', 'Kenedy', 'Kleberg', 'Starr'],
+  'Brown': ['Callahan', 'Coleman', 'Comanche', 'Eastland', 'McCulloch', 'Mills', 'San Saba'],
+  'Burleson': ['Brazos', 'Lee', 'Milam', 'Robertson', 'Washington'],
+  'Burnet': ['Bell', 'Blanco', 'Lampasas', 'Llano', 'San Saba', 'Travis', 'Williamson'],
+  'Caldwell': ['Bastrop', 'Fayette', 'Gonzales', 'Guadalupe', 'Hays', 'Travis'],
+  'Calhoun': ['Aransas', 'Jackson', 'Matagorda', 'Refugio', 'Victoria'],
+  'Callahan': ['Brown', 'Coleman', 'Eastland', 'Jones', 'Shackelford', 'Taylor'],
+  'Cameron': ['Hidalgo', 'Willacy'],
+  'Camp': ['Franklin', 'Morris', 'Titus', 'Upshur', 'Wood'],
+  'Carson': ['Armstrong', 'Gray', 'Hutchinson', 'Moore', 'Potter', 'Roberts'],
+  'Cass': ['Bowie', 'Marion', 'Morris'],
+  'Castro': ['Deaf Smith', 'Hale', 'Lamb', 'Parmer', 'Randall', 'Swisher'],
+  'Chambers': ['Galveston', 'Harris', 'Jefferson', 'Liberty'],
+  'Cherokee': ['Anderson', 'Angelina', 'Henderson', 'Houston', 'Nacogdoches', 'Rusk', 'Smith'],
+  'Childress': ['Collingsworth', 'Cottle', 'Hall', 'Hardeman'],
+  'Clay': ['Archer', 'Jack', 'Montague', 'Wichita'],
+  'Cochran': ['Bailey', 'Hockley', 'Yoakum'],
+  'Coke': ['Mitchell', 'Nolan', 'Runnels', 'Sterling', 'Tom Green'],
+  'Coleman': ['Brown', 'Callahan', 'Concho', 'McCulloch', 'Runnels', 'Taylor'],
+  'Collin': ['Dallas', 'Denton', 'Fannin', 'Grayson', 'Hunt', 'Rockwall'],
+  'Collingsworth': ['Childress', 'Donley', 'Hall', 'Wheeler'],
+  'Colorado': ['Austin', 'Fayette', 'Jackson', 'Lavaca', 'Wharton'],
+  'Comal': ['Bexar', 'Blanco', 'Guadalupe', 'Hays', 'Kendall'],
+  'Comanche': ['Brown', 'Eastland', 'Erath', 'Hamilton', 'Mills'],
+  'Concho': ['Coleman', 'McCulloch', 'Menard', 'Runnels', 'Tom Green'],
+  'Cooke': ['Denton', 'Grayson', 'Montague', 'Wise'],
+  'Coryell': ['Bell', 'Bosque', 'Hamilton', 'Lampasas', 'McLennan'],
+  'Cottle': ['Childress', 'Foard', 'Hall', 'Hardeman', 'King', 'Motley'],
+  'Crane': ['Crockett', 'Ector', 'Pecos', 'Upton', 'Ward'],
+  'Crockett': ['Crane', 'Irion', 'Pecos', 'Reagan', 'Schleicher', 'Sutton', 'Terrell', 'Upton', 'Val Verde'],
+  'Crosby': ['Dickens', 'Floyd', 'Garza', 'Lubbock'],
+  'Culberson': ['Hudspeth', 'Jeff Davis', 'Reeves'],
+  'Dallam': ['Hartley', 'Sherman'],
+  'Dallas': ['Collin', 'Denton', 'Ellis', 'Kaufman', 'Rockwall', 'Tarrant'],
+  'Dawson': ['Borden', 'Gaines', 'Lynn', 'Martin', 'Terry'],
+  'DeWitt': ['Goliad', 'Gonzales', 'Karnes', 'Victoria'],
+  'Deaf Smith': ['Castro', 'Oldham', 'Parmer', 'Randall'],
+  'Delta': ['Fannin', 'Franklin', 'Hopkins', 'Hunt', 'Lamar', 'Red River'],
+  'Denton': ['Collin', 'Cooke', 'Dallas', 'Grayson', 'Tarrant', 'Wise'],
+  'Dickens': ['Crosby', 'Kent', 'King', 'Motley'],
+  'Dimmit': ['Frio', 'La Salle', 'Maverick', 'Webb', 'Zavala'],
+  'Donley': ['Armstrong', 'Briscoe', 'Collingsworth', 'Gray', 'Hall'],
+  'Duval': ['Brooks', 'Jim Hogg', 'Jim Wells', 'Live Oak', 'McMullen', 'Webb'],
+  'Eastland': ['Brown', 'Callahan', 'Comanche', 'Erath', 'Palo Pinto', 'Shackelford', 'Stephens'],
+  'Ector': ['Andrews', 'Crane', 'Midland', 'Upton', 'Ward', 'Winkler'],
+  'Edwards': ['Kerr', 'Kimble', 'Kinney', 'Real', 'Sutton', 'Uvalde', 'Val Verde'],
+  'El Paso': ['Hudspeth'],
+  'Ellis': ['Dallas', 'Henderson', 'Hill', 'Johnson', 'Kaufman', 'Navarro', 'Tarrant'],
+  'Erath': ['Bosque', 'Comanche', 'Eastland', 'Hamilton', 'Hood', 'Palo Pinto', 'Somervell'],
+  'Falls': ['Bell', 'Limestone', 'McLennan', 'Milam', 'Robertson'],
+  'Fannin': ['Collin', 'Delta', 'Grayson', 'Hunt', 'Lamar'],
+  'Fayette': ['Austin', 'Bastrop', 'Caldwell', 'Colorado', 'Gonzales', 'Lavaca', 'Lee', 'Washington'],
+  'Fisher': ['Jones', 'Kent', 'Nolan', 'Scurry', 'Stonewall'],
+  'Floyd': ['Briscoe', 'Crosby', 'Hale', 'Motley', 'Swisher'],
+  'Foard': ['Baylor', 'Cottle', 'Hardeman', 'King', 'Knox', 'Wilbarger'],
+  'Fort Bend': ['Austin', 'Brazoria', 'Harris', 'Waller', 'Wharton'],
+  'Franklin': ['Camp', 'Delta', 'Hopkins', 'Red River', 'Titus', 'Wood'],
+  'Freestone': ['Anderson', 'Henderson', 'Leon', 'Limestone', 'Navarro'],
+  'Frio': ['Atascosa', 'Dimmit', 'La Salle', 'Medina', 'Zavala'],
+  'Gaines': ['Andrews', 'Dawson', 'Martin', 'Terry', 'Yoakum'],
+  'Galveston': ['Brazoria', 'Chambers', 'Harris'],
+  'Garza': ['Borden', 'Crosby', 'Kent', 'Lynn', 'Scurry'],
+  'Gillespie': ['Blanco', 'Kendall', 'Kerr', 'Llano', 'Mason'],
+  'Glasscock': ['Howard', 'Martin', 'Midland', 'Reagan', 'Sterling'],
+  'Goliad': ['Bee', 'DeWitt', 'Karnes', 'Refugio', 'Victoria'],
+  'Gonzales': ['Caldwell', 'DeWitt', 'Fayette', 'Guadalupe', 'Karnes', 'Lavaca', 'Wilson'],
+  'Gray': ['Carson', 'Donley', 'Roberts', 'Wheeler'],
+  'Grayson': ['Collin', 'Cooke', 'Denton', 'Fannin'],
+  'Gregg': ['Harrison', 'Rusk', 'Smith', 'Upshur'],
+  'Grimes': ['Brazos', 'Madison', 'Montgomery', 'Walker', 'Waller', 'Washington'],
+  'Guadalupe': ['Bexar', 'Caldwell', 'Comal', 'Gonzales', 'Hays', 'Wilson'],
+  'Hale': ['Castro', 'Floyd', 'Lamb', 'Lubbock', 'Swisher'],
+  'Hall': ['Briscoe', 'Childress', 'Collingsworth', 'Cottle', 'Donley', 'Motley'],
+  'Hamilton': ['Bosque', 'Comanche', 'Coryell', 'Erath', 'Lampasas', 'Mills'],
+  'Hansford': ['Hutchinson', 'Ochiltree', 'Roberts', 'Sherman'],
+  'Hardeman': ['Childress', 'Cottle', 'Foard', 'Wilbarger'],
+  'Hardin': ['Jasper', 'Jefferson', 'Liberty', 'Orange', 'Polk', 'Tyler'],
+  'Harris': ['Brazoria', 'Chambers', 'Fort Bend', 'Galveston', 'Liberty', 'Montgomery', 'Waller'],
+  'Harrison': ['Gregg', 'Marion', 'Panola', 'Rusk', 'Upshur'],
+  'Hartley': ['Dallam', 'Moore', 'Oldham'],
+  'Haskell': ['Jones', 'Knox', 'Shackelford', 'Stonewall', 'Throckmorton'],
+  'Hays': ['Blanco', 'Caldwell', 'Comal', 'Guadalupe', 'Travis'],
+  'Hemphill': ['Lipscomb', 'Roberts', 'Wheeler'],
+  'Henderson': ['Anderson', 'Cherokee', 'Ellis', 'Freestone', 'Kaufman', 'Navarro', 'Smith', 'Van Zandt'],
+  'Hidalgo': ['Brooks', 'Cameron', 'Kenedy', 'Starr', 'Willacy'],
+  'Hill': ['Bosque', 'Ellis', 'Johnson', 'Limestone', 'McLennan', 'Navarro'],
+  'Hockley': ['Cochran', 'Lamb', 'Lubbock', 'Terry'],
+  'Hood': ['Erath', 'Johnson', 'Palo Pinto', 'Parker', 'Somervell'],
+  'Hopkins': ['Delta', 'Franklin', 'Hunt', 'Rains', 'Wood'],
+  'Houston': ['Anderson', 'Angelina', 'Cherokee', 'Leon', 'Madison', 'Trinity', 'Walker'],
+  'Howard': ['Borden', 'Glasscock', 'Martin', 'Mitchell', 'Sterling'],
+  'Hudspeth': ['Culberson', 'El Paso', 'Jeff Davis', 'Presidio'],
+  'Hunt': ['Collin', 'Delta', 'Fannin', 'Hopkins', 'Kaufman', 'Rains', 'Rockwall', 'Van Zandt'],
+  'Hutchinson': ['Carson', 'Hansford', 'Moore', 'Roberts'],
+  'Irion': ['Crockett', 'Reagan', 'Schleicher', 'Tom Green'],
+  'Jack': ['Archer', 'Clay', 'Montague', 'Palo Pinto', 'Parker', 'Wise', 'Young'],
+  'Jackson': ['Calhoun', 'Colorado', 'Lavaca', 'Matagorda', 'Victoria', 'Wharton'],
+  'Jasper': ['Angelina', 'Hardin', 'Newton', 'Orange', 'Sabine', 'San Augustine', 'Tyler'],
+  'Jeff Davis': ['Brewster', 'Culberson', 'Hudspeth', 'Pecos', 'Presidio', 'Reeves'],
+  'Jefferson': ['Chambers', 'Hardin', 'Liberty', 'Orange'],
+  'Jim Hogg': ['Brooks', 'Duval', 'Starr', 'Webb', 'Zapata'],
+  'Jim Wells': ['Brooks', 'Duval', 'Kleberg', 'Live Oak', 'Nueces', 'San Patricio'],
+  'Johnson': ['Bosque', 'Ellis', 'Hill', 'Hood', 'Parker', 'Somervell', 'Tarrant'],
+  'Jones': ['Callahan', 'Fisher', 'Haskell', 'Shackelford', 'Stonewall', 'Taylor'],
+  'Karnes': ['Atascosa', 'Bee', 'DeWitt', 'Goliad', 'Gonzales', 'Live Oak', 'Wilson'],
+  'Kaufman': ['Dallas', 'Ellis', 'Henderson', 'Hunt', 'Rockwall', 'Van Zandt'],
+  'Kendall': ['Bandera', 'Bexar', 'Blanco', 'Comal', 'Gillespie', 'Kerr'],
+  'Kenedy': ['Brooks', 'Hidalgo', 'Kleberg', 'Willacy'],
+  'Kent': ['Dickens', 'Fisher', 'Garza', 'Scurry', 'Stonewall'],
+  'Kerr': ['Bandera', 'Edwards', 'Gillespie', 'Kendall', 'Kimble', 'Real'],
+  'Kimble': ['Edwards', 'Kerr', 'Mason', 'Menard', 'Sutton'],
+  'King': ['Cottle', 'Dickens', 'Foard', 'Knox', 'Stonewall'],
+  'Kinney': ['Edwards', 'Maverick', 'Uvalde', 'Val Verde'],
+  'Kleberg': ['Brooks', 'Jim Wells', 'Kenedy', 'Nueces'],
+  'Knox': ['Baylor', 'Foard', 'Haskell', 'King'],
+  'La Salle': ['Atascosa', 'Dimmit', 'Frio', 'McMullen', 'Webb'],
+  'Lamar': ['Delta', 'Fannin', 'Red River'],
+  'Lamb': ['Bailey', 'Castro', 'Hale', 'Hockley', 'Parmer'],
+  'Lampasas': ['Bell', 'Burnet', 'Coryell', 'Hamilton', 'Mills', 'San Saba'],
+  'Lavaca': ['Colorado', 'Fayette', 'Gonzales', 'Jackson'],
+  'Lee': ['Bastrop', 'Burleson', 'Fayette', 'Milam', 'Washington', 'Williamson'],
+  'Leon': ['Anderson', 'Freestone', 'Houston', 'Limestone', 'Madison', 'Robertson'],
+  'Liberty': ['Chambers', 'Hardin', 'Harris', 'Jefferson', 'Montgomery', 'Polk', 'San Jacinto'],
+  'Limestone': ['Falls', 'Freestone', 'Hill', 'Leon', 'McLennan', 'Navarro', 'Robertson'],
+  'Lipscomb': ['Hemphill', 'Ochiltree', 'Roberts'],
+  'Live Oak': ['Atascosa', 'Bee', 'Duval', 'Jim Wells', 'Karnes', 'San Patricio'],
+  'Llano': ['Blanco', 'Burnet', 'Gillespie', 'Mason', 'San Saba'],
+  'Loving': ['Reeves', 'Ward', 'Winkler'],
+  'Lubbock': ['Crosby', 'Hale', 'Hockley', 'Lynn'],
+  'Lynn': ['Borden', 'Dawson', 'Garza', 'Lubbock', 'Terry'],
+  'Madison': ['Brazos', 'Grimes', 'Houston', 'Leon', 'Walker'],
+  'Marion': ['Cass', 'Harrison', 'Morris', 'Upshur'],
+  'Martin': ['Andrews', 'Dawson', 'Gaines', 'Glasscock', 'Howard', 'Midland'],
+  'Mason': ['Gillespie', 'Kimble', 'Llano', 'McCulloch', 'Menard', 'San Saba'],
+  'Matagorda': ['Brazoria', 'Calhoun', 'Jackson', 'Wharton'],
+  'Maverick': ['Dimmit', 'Kinney', 'Webb', 'Zavala'],
+  'McCulloch': ['Brown', 'Coleman', 'Concho', 'Mason', 'Menard', 'San Saba'],
+  'McLennan': ['Bell', 'Bosque', 'Coryell', 'Falls', 'Hill', 'Limestone'],
+  'McMullen': ['Atascosa', 'Duval', 'La Salle'],
+  'Medina': ['Atascosa', 'Bandera', 'Bexar', 'Frio', 'Uvalde'],
+  'Menard': ['Concho', 'Kimble', 'Mason', 'McCulloch', 'Schleicher'],
+  'Midland': ['Andrews', 'Ector', 'Glasscock', 'Martin', 'Upton'],
+  'Milam': ['Bell', 'Burleson', 'Falls', 'Lee', 'Robertson', 'Williamson'],
+  'Mills': ['Brown', 'Comanche', 'Hamilton', 'Lampasas', 'San Saba'],
+  'Mitchell': ['Borden', 'Coke', 'Howard', 'Nolan', 'Scurry', 'Sterling'],
+  'Montague': ['Clay', 'Cooke', 'Jack', 'Wise'],
+  'Montgomery': ['Grimes', 'Harris', 'Liberty', 'San Jacinto', 'Walker', 'Waller'],
+  'Moore': ['Carson', 'Hartley', 'Hutchinson', 'Oldham', 'Potter', 'Sherman'],
+  'Morris': ['Bowie', 'Camp', 'Cass', 'Marion', 'Red River', 'Titus', 'Upshur'],
+  'Motley': ['Briscoe', 'Cottle', 'Dickens', 'Floyd', 'Hall'],
+  'Nacogdoches': ['Angelina', 'Cherokee', 'Rusk', 'San Augustine', 'Shelby'],
+  'Navarro': ['Ellis', 'Freestone', 'Henderson', 'Hill', 'Limestone'],
+  'Newton': ['Jasper', 'Orange', 'Sabine'],
+  'Nolan': ['Coke', 'Fisher', 'Mitchell', 'Runnels', 'Taylor'],
+  'Nueces': ['Aransas', 'Jim Wells', 'Kleberg', 'San Patricio'],
+  'Ochiltree': ['Hansford', 'Lipscomb', 'Roberts'],
+  'Oldham': ['Deaf Smith', 'Hartley', 'Moore', 'Potter'],
+  'Orange': ['Hardin', 'Jasper', 'Jefferson', 'Newton'],
+  'Palo Pinto': ['Eastland', 'Erath', 'Hood', 'Jack', 'Parker', 'Stephens', 'Young'],
+  'Panola': ['Harrison', 'Rusk', 'Shelby'],
+  'Parker': ['Hood', 'Jack', 'Johnson', 'Palo Pinto', 'Tarrant', 'Wise'],
+  'Parmer': ['Bailey', 'Castro', 'Deaf Smith', 'Lamb'],
+  'Pecos': ['Brewster', 'Crane', 'Crockett', 'Jeff Davis', 'Reeves', 'Terrell', 'Ward'],
+  'Polk': ['Angelina', 'Hardin', 'Liberty', 'San Jacinto', 'Trinity', 'Tyler'],
+  'Potter': ['Carson', 'Moore', 'Oldham', 'Randall'],
+  'Presidio': ['Brewster', 'Hudspeth', 'Jeff Davis'],
+  'Rains': ['Hopkins', 'Hunt', 'Van Zandt', 'Wood'],
+  'Randall': ['Armstrong', 'Castro', 'Deaf Smith', 'Potter', 'Swisher'],
+  'Reagan': ['Crockett', 'Glasscock', 'Irion', 'Sterling', 'Tom Green', 'Upton'],
+  'Real': ['Bandera', 'Edwards', 'Kerr', 'Uvalde'],
+  'Red River': ['Bowie', 'Delta', 'Franklin', 'Lamar', 'Morris', 'Titus'],
+  'Reeves': ['Culberson', 'Jeff Davis', 'Loving', 'Pecos', 'Ward'],
+  'Refugio': ['Aransas', 'Bee', 'Calhoun', 'Goliad', 'San Patricio', 'Victoria'],
+  'Roberts': ['Carson', 'Gray', 'Hansford', 'Hemphill', 'Hutchinson', 'Lipscomb', 'Ochiltree'],
+  'Robertson': ['Brazos', 'Burleson', 'Falls', 'Leon', 'Limestone', 'Milam'],
+  'Rockwall': ['Collin', 'Dallas', 'Hunt', 'Kaufman'],
+  'Runnels': ['Coke', 'Coleman', 'Concho', 'Nolan', 'Taylor', 'Tom Green'],
+  'Rusk': ['Cherokee', 'Gregg', 'Harrison', 'Nacogdoches', 'Panola', 'Shelby', 'Smith'],
+  'Sabine': ['Jasper', 'Newton', 'San Augustine', 'Shelby'],
+  'San Augustine': ['Angelina', 'Jasper', 'Nacogdoches', 'Sabine', 'Shelby'],
+  'San Jacinto': ['Liberty', 'Montgomery', 'Polk', 'Trinity', 'Walker'],
+  'San Patricio': ['Aransas', 'Bee', 'Jim Wells', 'Live Oak', 'Nueces', 'Refugio'],
+  'San Saba': ['Brown', 'Burnet', 'Lampasas', 'Llano', 'Mason', 'McCulloch', 'Mills'],
+  'Schleicher': ['Crockett', 'Irion', 'Menard', 'Sutton', 'Tom Green'],
+  'Scurry': ['Borden', 'Fisher', 'Garza', 'Kent', 'Mitchell'],
+  'Shackelford': ['Callahan', 'Eastland', 'Haskell', 'Jones', 'Stephens', 'Throckmorton'],
+  'Shelby': ['Nacogdoches', 'Panola', 'Rusk', 'Sabine', 'San Augustine'],
+  'Sherman': ['Dallam', 'Hansford', 'Moore'],
+  'Smith': ['Cherokee', 'Gregg', 'Henderson', 'Rusk', 'Upshur', 'Van Zandt', 'Wood'],
+  'Somervell': ['Bosque', 'Erath', 'Hood', 'Johnson'],
+  'Starr': ['Brooks', 'Hidalgo', 'Jim Hogg', 'Zapata'],
+  'Stephens': ['Eastland', 'Palo Pinto', 'Shackelford', 'Throckmorton', 'Young'],
+  'Sterling': ['Coke', 'Glasscock', 'Howard', 'Mitchell', 'Reagan', 'Tom Green'],
+  'Stonewall': ['Fisher', 'Haskell', 'Jones', 'Kent', 'King'],
+  'Sutton': ['Crockett', 'Edwards', 'Kimble', 'Schleicher', 'Val Verde'],
+  'Swisher': ['Armstrong', 'Briscoe', 'Castro', 'Floyd', 'Hale', 'Randall'],
+  'Tarrant': ['Dallas', 'Denton', 'Ellis', 'Johnson', 'Parker', 'Wise'],
+  'Taylor': ['Callahan', 'Coleman', 'Jones', 'Nolan', 'Runnels'],
+  'Terrell': ['Brewster', 'Crockett', 'Pecos', 'Val Verde'],
+  'Terry': ['Dawson', 'Gaines', 'Hockley', 'Lynn', 'Yoakum'],
+  'Throckmorton': ['Baylor', 'Haskell', 'Shackelford', 'Stephens', 'Young'],
+  'Titus': ['Camp', 'Franklin', 'Morris', 'Red River'],
+  'Tom Green': ['Coke', 'Concho', 'Irion', 'Reagan', 'Runnels', 'Schleicher', 'Sterling'],
+  'Travis': ['Bastrop', 'Blanco', 'Burnet', 'Caldwell', 'Hays', 'Williamson'],
+  'Trinity': ['Angelina', 'Houston', 'Polk', 'San Jacinto', 'Walker'],
+  'Tyler': ['Angelina', 'Hardin', 'Jasper', 'Polk'],
+  'Upshur': ['Camp', 'Gregg', 'Harrison', 'Marion', 'Morris', 'Smith', 'Wood'],
+  'Upton': ['Crane', 'Crockett', 'Ector', 'Midland', 'Reagan'],
+  'Uvalde': ['Bandera', 'Edwards', 'Kinney', 'Medina', 'Real', 'Zavala'],
+  'Val Verde': ['Crockett', 'Edwards', 'Kinney', 'Sutton', 'Terrell'],
+  'Van Zandt': ['Henderson', 'Hunt', 'Kaufman', 'Rains', 'Smith', 'Wood'],
+  'Victoria': ['Calhoun', 'DeWitt', 'Goliad', 'Jackson', 'Refugio'],
+  'Walker': ['Grimes', 'Houston', 'Madison', 'Montgomery', 'San Jacinto', 'Trinity'],
+  'Waller': ['Austin', 'Fort Bend', 'Grimes', 'Harris', 'Montgomery', 'Washington'],
+  'Ward': ['Crane', 'Ector', 'Loving', 'Pecos', 'Reeves', 'Winkler'],
+  'Washington': ['Austin', 'Brazos', 'Burleson', 'Fayette', 'Grimes', 'Lee', 'Waller'],
+  'Webb': ['Dimmit', 'Duval', 'Jim Hogg', 'La Salle', 'Maverick', 'Zapata'],
+  'Wharton': ['Austin', 'Brazoria', 'Colorado', 'Fort Bend', 'Jackson', 'Matagorda'],
+  'Wheeler': ['Collingsworth', 'Gray', 'Hemphill'],
+  'Wichita': ['Archer', 'Clay', 'Wilbarger'],
+  'Wilbarger': ['Baylor', 'Foard', 'Hardeman', 'Wichita'],
+  'Willacy': ['Cameron', 'Hidalgo', 'Kenedy'],
+  'Williamson': ['Bastrop', 'Bell', 'Burnet', 'Lee', 'Milam', 'Travis'],
+  'Wilson': ['Atascosa', 'Bexar', 'Gonzales', 'Guadalupe', 'Karnes'],
+  'Winkler': ['Andrews', 'Ector', 'Loving', 'Ward'],
+  'Wise': ['Cooke', 'Denton', 'Jack', 'Montague', 'Parker', 'Tarrant'],
+  'Wood': ['Camp', 'Franklin', 'Hopkins', 'Rains', 'Smith', 'Upshur', 'Van Zandt'],
+  'Yoakum': ['Cochran', 'Gaines', 'Terry'],
+  'Young': ['Archer', 'Jack', 'Palo Pinto', 'Stephens', 'Throckmorton'],
+  'Zapata': ['Jim Hogg', 'Starr', 'Webb'],
+  'Zavala': ['Dimmit', 'Frio', 'Maverick', 'Uvalde']
+};
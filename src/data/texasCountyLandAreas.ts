@@ -0,0 +1,279 @@
+/**
+ * Texas county land areas
+ * 
+ * Census Bureau land area (ALAND) of each county, from the 2010 TIGER/Line county file
+ * that the Gazetteer files publish, converted from square meters to square miles.
+ * Water area is excluded, so coastal and lake counties are not inflated by bays and reservoirs.
+ */
+
+/**
+ * Square meters per square mile
+ */
+const SQUARE_METERS_PER_SQUARE_MILE = 2589988.110336;
+
+/**
+ * Land area (ALAND) in square meters keyed by 3-digit county FIPS code
+ */
+const TEXAS_COUNTY_ALAND: Record<string, number> = {
+  '001': 2752126295, // Anderson
+  '003': 3886829704, // Andrews
+  '005': 2066235308, // Angelina
+  '007': 652868851, // Aransas
+  '009': 2339043608, // Archer
+  '011': 2354581881, // Armstrong
+  '013': 3158604888, // Atascosa
+  '015': 1674448899, // Austin
+  '017': 2141394831, // Bailey
+  '019': 2048578865, // Bandera
+  '021': 2300298811, // Bastrop
+  '023': 2246766775, // Baylor
+  '025': 2279809490, // Bee
+  '027': 2722118322, // Bell
+  '029': 3211119983, // Bexar
+  '031': 1836951743, // Blanco
+  '033': 2324365341, // Borden
+  '035': 2545902347, // Bosque
+  '037': 2292153748, // Bowie
+  '039': 3516429692, // Brazoria
+  '041': 1516296157, // Brazos
+  '043': 16015795085, // Brewster
+  '045': 2330990994, // Briscoe
+  '047': 2443301936, // Brooks
+  '049': 2446070964, // Brown
+  '051': 1706870641, // Burleson
+  '053': 2575116582, // Burnet
+  '055': 1412208030, // Caldwell
+  '057': 1312710613, // Calhoun
+  '059': 2329363248, // Callahan
+  '061': 2307478146, // Cameron
+  '063': 507188128, // Camp
+  '065': 2383359553, // Carson
+  '067': 2426723555, // Cass
+  '069': 2316572704, // Castro
+  '071': 1546578832, // Chambers
+  '073': 2727030862, // Cherokee
+  '075': 1803680222, // Childress
+  '077': 2819774443, // Clay
+  '079': 2007629814, // Cochran
+  '081': 2360695668, // Coke
+  '083': 3268424436, // Coleman
+  '085': 2178761906, // Collin
+  '087': 2378750619, // Collingsworth
+  '089': 2487097169, // Colorado
+  '091': 1449037063, // Comal
+  '093': 2428770746, // Comanche
+  '095': 2548028356, // Concho
+  '097': 2265615780, // Cooke
+  '099': 2724838887, // Coryell
+  '101': 2332448314, // Cottle
+  '103': 2033318846, // Crane
+  '105': 7270944161, // Crockett
+  '107': 2331501397, // Crosby
+  '109': 9875100057, // Culberson
+  '111': 3893423598, // Dallam
+  '113': 2256602704, // Dallas
+  '115': 2331781493, // Dawson
+  '117': 3876869424, // Deaf Smith
+  '119': 665173912, // Delta
+  '121': 2275129231, // Denton
+  '123': 2354235330, // DeWitt
+  '125': 2335454793, // Dickens
+  '127': 3441794213, // Dimmit
+  '129': 2400623352, // Donley
+  '131': 4645094317, // Duval
+  '133': 2399599329, // Eastland
+  '135': 2324999033, // Ector
+  '137': 5485225839, // Edwards
+  '139': 2422900216, // Ellis
+  '141': 2622862905, // El Paso
+  '143': 2805141510, // Erath
+  '145': 1982590781, // Falls
+  '147': 2307256396, // Fannin
+  '149': 2460509670, // Fayette
+  '151': 2328245716, // Fisher
+  '153': 2569637321, // Floyd
+  '155': 1824378528, // Foard
+  '157': 2231225129, // Fort Bend
+  '159': 736568975, // Franklin
+  '161': 2273333089, // Freestone
+  '163': 2935750557, // Frio
+  '165': 3891133239, // Gaines
+  '167': 979943275, // Galveston
+  '169': 2313926862, // Garza
+  '171': 2740760701, // Gillespie
+  '173': 2331553028, // Glasscock
+  '175': 2206706631, // Goliad
+  '177': 2762708316, // Gonzales
+  '179': 2398261524, // Gray
+  '181': 2415950507, // Grayson
+  '183': 707850624, // Gregg
+  '185': 2039510046, // Grimes
+  '187': 1842257555, // Guadalupe
+  '189': 2602115719, // Hale
+  '191': 2288233552, // Hall
+  '193': 2165007849, // Hamilton
+  '195': 2382296710, // Hansford
+  '197': 1800337037, // Hardeman
+  '199': 2306558884, // Hardin
+  '201': 4411986582, // Harris
+  '203': 2330861809, // Harrison
+  '205': 3786647934, // Hartley
+  '207': 2339099141, // Haskell
+  '209': 1755954943, // Hays
+  '211': 2347270276, // Hemphill
+  '213': 2262997188, // Henderson
+  '215': 4068521768, // Hidalgo
+  '217': 2483445279, // Hill
+  '219': 2352723875, // Hockley
+  '221': 1089456081, // Hood
+  '223': 1986971988, // Hopkins
+  '225': 3188040155, // Houston
+  '227': 2333038341, // Howard
+  '229': 11838791961, // Hudspeth
+  '231': 2176414426, // Hunt
+  '233': 2298404081, // Hutchinson
+  '235': 2723534675, // Irion
+  '237': 2358603193, // Jack
+  '239': 2148225451, // Jackson
+  '241': 2431597700, // Jasper
+  '243': 5865171164, // Jeff Davis
+  '245': 2269593704, // Jefferson
+  '247': 2942584159, // Jim Hogg
+  '249': 2240251330, // Jim Wells
+  '251': 1876943426, // Johnson
+  '253': 2404944484, // Jones
+  '255': 1936160430, // Karnes
+  '257': 2022000741, // Kaufman
+  '259': 1715745632, // Kendall
+  '261': 3777053964, // Kenedy
+  '263': 2337481857, // Kent
+  '265': 2857580696, // Kerr
+  '267': 3240040898, // Kimble
+  '269': 2359146771, // King
+  '271': 3522525947, // Kinney
+  '273': 2282577985, // Kleberg
+  '275': 2203097010, // Knox
+  '277': 2349611989, // Lamar
+  '279': 2631897591, // Lamb
+  '281': 1846247052, // Lampasas
+  '283': 3850510690, // La Salle
+  '285': 2511532178, // Lavaca
+  '287': 1629142826, // Lee
+  '289': 2779447286, // Leon
+  '291': 3000284900, // Liberty
+  '293': 2344684360, // Limestone
+  '295': 2414332816, // Lipscomb
+  '297': 2692800935, // Live Oak
+  '299': 2419137915, // Llano
+  '301': 1732507837, // Loving
+  '303': 2319591231, // Lubbock
+  '305': 2309924936, // Lynn
+  '307': 2759886938, // McCulloch
+  '309': 2686079968, // McLennan
+  '311': 2951100162, // McMullen
+  '313': 1207102873, // Madison
+  '315': 986475529, // Marion
+  '317': 2369694111, // Martin
+  '319': 2405588947, // Mason
+  '321': 2849700666, // Matagorda
+  '323': 3313264152, // Maverick
+  '325': 3432656186, // Medina
+  '327': 2336245942, // Menard
+  '329': 2331764835, // Midland
+  '331': 2633837445, // Milam
+  '333': 1937987484, // Mills
+  '335': 2359711652, // Mitchell
+  '337': 2411034772, // Montague
+  '339': 2698080682, // Montgomery
+  '341': 2330188778, // Moore
+  '343': 652637107, // Morris
+  '345': 2562954830, // Motley
+  '347': 2451520148, // Nacogdoches
+  '349': 2614922711, // Navarro
+  '351': 2418212417, // Newton
+  '353': 2362061553, // Nolan
+  '355': 2171658351, // Nueces
+  '357': 2376642415, // Ochiltree
+  '359': 3886363298, // Oldham
+  '361': 864197805, // Orange
+  '363': 2465126895, // Palo Pinto
+  '365': 2076521423, // Panola
+  '367': 2339997883, // Parker
+  '369': 2281204393, // Parmer
+  '371': 12338306457, // Pecos
+  '373': 2737858277, // Polk
+  '375': 2352666798, // Potter
+  '377': 9985016638, // Presidio
+  '379': 594278071, // Rains
+  '381': 2360887059, // Randall
+  '383': 3044015959, // Reagan
+  '385': 1810906179, // Real
+  '387': 2684724244, // Red River
+  '389': 6825588429, // Reeves
+  '391': 1995440836, // Refugio
+  '393': 2393298505, // Roberts
+  '395': 2216209138, // Robertson
+  '397': 329020647, // Rockwall
+  '399': 2721933935, // Runnels
+  '401': 2393217679, // Rusk
+  '403': 1272694571, // Sabine
+  '405': 1374395555, // San Augustine
+  '407': 1474331589, // San Jacinto
+  '409': 1796028941, // San Patricio
+  '411': 2940404691, // San Saba
+  '413': 3394517068, // Schleicher
+  '415': 2345088415, // Scurry
+  '417': 2367989977, // Shackelford
+  '419': 2060551461, // Shelby
+  '421': 2390650564, // Sherman
+  '423': 2386555662, // Smith
+  '425': 482937084, // Somervell
+  '427': 3168018574, // Starr
+  '429': 2322492721, // Stephens
+  '431': 2391727824, // Sterling
+  '433': 2373240591, // Stonewall
+  '435': 3765651337, // Sutton
+  '437': 2305501907, // Swisher
+  '439': 2236735560, // Tarrant
+  '441': 2371267567, // Taylor
+  '443': 6107258291, // Terrell
+  '445': 2302083249, // Terry
+  '447': 2363499284, // Throckmorton
+  '449': 1051675541, // Titus
+  '451': 3941889598, // Tom Green
+  '453': 2564612388, // Travis
+  '455': 1796435449, // Trinity
+  '457': 2394445956, // Tyler
+  '459': 1509825676, // Upshur
+  '461': 3215013323, // Upton
+  '463': 4019520455, // Uvalde
+  '465': 8144863995, // Val Verde
+  '467': 2182211358, // Van Zandt
+  '469': 2284739169, // Victoria
+  '471': 2030987606, // Walker
+  '473': 1329777937, // Waller
+  '475': 2164200161, // Ward
+  '477': 1564232347, // Washington
+  '479': 8706199011, // Webb
+  '481': 2813115336, // Wharton
+  '483': 2368603566, // Wheeler
+  '485': 1625932680, // Wichita
+  '487': 2514474467, // Wilbarger
+  '489': 1529528675, // Willacy
+  '491': 2896391221, // Williamson
+  '493': 2081658340, // Wilson
+  '495': 2178456075, // Winkler
+  '497': 2342442771, // Wise
+  '499': 1671149162, // Wood
+  '501': 2071234660, // Yoakum
+  '503': 2368460066, // Young
+  '505': 2585876105, // Zapata
+  '507': 3360266896, // Zavala
+};
+
+/**
+ * Land area in square miles keyed by 3-digit county FIPS code
+ */
+export const TEXAS_COUNTY_LAND_AREAS: Record<string, number> = Object.fromEntries(
+  Object.entries(TEXAS_COUNTY_ALAND).map(([countyFips, aland]) => [countyFips, aland / SQUARE_METERS_PER_SQUARE_MILE])
+);
@@ -0,0 +1,1288 @@
+/**
+ * Texas county path data
+ * 
+ * Generated from public/texas-map.svg by scripts/generate-county-paths.mjs - do not edit by hand
+ */
+
+import { CountyPath, MapViewBox } from '@/types';
+
+/**
+ * View box of the Texas map in SVG user units
+ */
+export const TEXAS_MAP_VIEWBOX: MapViewBox = { x: 0, y: 0, width: 146.02, height: 143.85 };
+
+/**
+ * County outlines in drawing order
+ */
+export const TEXAS_COUNTY_PATHS: CountyPath[] = [
+  {
+    name: 'Bowie',
+    bbox: { x: 130.894, y: 41.066, width: 7.617, height: 5.9 },
+    d: 'm 133.68386,41.869231 0.085,0.221 0.082,0.188 0.071,0.095 0.438,0.28 0.157,0.103 0.577,0.315 1.037,-0.526 0.054,-0.049 0.157,-0.019 0.6,-0.087 1.037,0.208 0.198,0.081 0.257,0.212 0.077,3.642 -0.091,-0.203 -0.225,-0.116 -0.969,-0.155 -0.266,0.06 -0.337,0.117 -0.172,0.306 0.031,0.27 0.037,0.117 -0.023,0.037 -4.043,-0.023 -0.361,-0.071 -0.09,-0.072 -0.027,-0.124 -1.027,-0.765 -0.054,-4.845 2.79,0.803'
+  },
+  {
+    name: 'Red River',
+    bbox: { x: 124.85, y: 37.763, width: 6.098, height: 8.148 },
+    d: 'm 126.48986,37.992231 1.249,1.068 1.83,1.465 1.325,0.541 0.054,4.845 -0.673,-0.442 -3.398,-0.296 -1.938,0.162 -0.022,-0.033 -0.067,-6.359 0.158,-0.018 0.084,-0.009 0.284,-0.185 0.06,-0.058 0.058,-0.131 0.018,-0.13 -0.018,-0.112 0,-0.019 -0.041,-0.086 -0.004,-0.009 0.004,-0.013 0,-0.023 0.005,-0.018 0.229,-0.347 0.006,0 0.009,-0.004 0.036,-0.018 0.076,0.003 0.676,0.226'
+  },
+  {
+    name: 'Crosby',
+    bbox: { x: 57.978, y: 37.766, width: 5.823, height: 5.918 },
+    d: 'm 58.238861,37.766231 5.562,0.272 -0.275,5.646 -5.548,-0.279 0.261,-5.639'
+  },
+  {
+    name: 'Lubbock',
+    bbox: { x: 52.421, y: 37.501, width: 5.818, height: 5.904 },
+    d: 'm 52.676861,37.501231 5.562,0.265 -0.261,5.639 -5.557,-0.271 0.256,-5.633'
+  },
+  {
+    name: 'Hockley',
+    bbox: { x: 46.873, y: 37.118, width: 5.804, height: 6.016 },
+    d: 'm 47.042861,37.118231 5.634,0.383 -0.256,5.633 -5.548,-0.355 0.17,-5.661'
+  },
+  {
+    name: 'Cochran',
+    bbox: { x: 41.933, y: 36.794, width: 5.11, height: 5.985 },
+    d: 'm 42.450861,36.794231 4.592,0.324 -0.17,5.661 -4.94,-0.356 0.221,-2.353 0.297,-3.276'
+  },
+  {
+    name: 'Floyd',
+    bbox: { x: 58.239, y: 31.529, width: 5.886, height: 6.509 },
+    d: 'm 59.577861,31.588231 4.547,0.248 -0.324,6.202 -5.562,-0.272 0.352,-6.237 0.987,0.059'
+  },
+  {
+    name: 'Hale',
+    bbox: { x: 52.677, y: 31.177, width: 5.914, height: 6.589 },
+    d: 'm 53.033861,31.177231 0.978,0.063 4.579,0.289 -0.352,6.237 -5.562,-0.265 0.357,-6.324'
+  },
+  {
+    name: 'Lamb',
+    bbox: { x: 47.043, y: 30.807, width: 5.991, height: 6.694 },
+    d: 'm 47.489861,30.807231 0.946,0.069 4.598,0.301 -0.357,6.324 -5.634,-0.383 0.447,-6.311'
+  },
+  {
+    name: 'Bailey',
+    bbox: { x: 42.451, y: 30.484, width: 5.039, height: 6.634 },
+    d: 'm 47.489861,30.807231 -0.447,6.311 -4.592,-0.324 0.496,-6.175 0.009,-0.135 4.534,0.323'
+  },
+  {
+    name: 'Briscoe',
+    bbox: { x: 59.578, y: 25.954, width: 5.864, height: 5.931 },
+    d: 'm 59.901861,25.954231 4.007,0.211 1.533,0.082 -0.307,5.638 -1.01,-0.049 -4.547,-0.248 0.324,-5.634'
+  },
+  {
+    name: 'Swisher',
+    bbox: { x: 54.012, y: 25.606, width: 5.89, height: 5.982 },
+    d: 'm 54.362861,25.606231 3.881,0.248 1.658,0.1 -0.324,5.634 -0.987,-0.059 -4.579,-0.289 0.351,-5.634'
+  },
+  {
+    name: 'Castro',
+    bbox: { x: 48.436, y: 25.259, width: 5.927, height: 5.981 },
+    d: 'm 52.569861,25.503231 1.793,0.103 -0.351,5.634 -0.978,-0.063 -4.598,-0.301 0.388,-5.617 3.746,0.244'
+  },
+  {
+    name: 'Parmer',
+    bbox: { x: 42.956, y: 24.863, width: 5.868, height: 6.013 },
+    d: 'm 43.388861,24.863231 5.435,0.396 -0.388,5.617 -0.946,-0.069 -4.534,-0.323 0.433,-5.621'
+  },
+  {
+    name: 'Armstrong',
+    bbox: { x: 58.244, y: 20.217, width: 6.012, height: 5.948 },
+    d: 'm 58.644861,20.217231 5.611,0.329 -0.347,5.619 -4.007,-0.211 -1.658,-0.1 0.401,-5.637'
+  },
+  {
+    name: 'Randall',
+    bbox: { x: 52.57, y: 19.86, width: 6.075, height: 5.994 },
+    d: 'm 52.952861,19.860231 5.692,0.357 -0.401,5.637 -3.881,-0.248 -1.793,-0.103 0.383,-5.643'
+  },
+  {
+    name: 'Deaf Smith',
+    bbox: { x: 43.389, y: 19.225, width: 9.564, height: 6.278 },
+    d: 'm 43.388861,24.863231 0.198,-2.673 0.225,-2.965 2.137,0.149 2.221,0.112 4.783,0.374 -0.383,5.643 -3.746,-0.244 -5.435,-0.396'
+  },
+  {
+    name: 'Carson',
+    bbox: { x: 58.645, y: 14.502, width: 5.922, height: 6.044 },
+    d: 'm 58.982861,14.551231 0,-0.049 5.584,0.297 -0.005,0.081 -0.306,5.666 -5.611,-0.329 0.338,-5.666'
+  },
+  {
+    name: 'Potter',
+    bbox: { x: 52.953, y: 14.204, width: 6.03, height: 6.013 },
+    d: 'm 53.366861,14.204231 5.616,0.347 -0.338,5.666 -5.692,-0.357 0.414,-5.656'
+  },
+  {
+    name: 'Oldham',
+    bbox: { x: 43.812, y: 13.538, width: 9.564, height: 6.322 },
+    d: 'm 53.375861,14.109231 -0.009,0.095 -0.414,5.656 -4.783,-0.374 -2.221,-0.112 -2.137,-0.149 0.428,-5.687 9.136,0.571'
+  },
+  {
+    name: 'Hutchinson',
+    bbox: { x: 58.983, y: 8.908, width: 5.886, height: 5.891 },
+    d: 'm 59.306861,8.9082296 5.562,0.315001 -0.302,5.5760004 -5.584,-0.297 0.324,-5.5940014'
+  },
+  {
+    name: 'Moore',
+    bbox: { x: 53.367, y: 8.565, width: 5.94, height: 5.986 },
+    d: 'm 53.731861,8.5652296 5.575,0.343 -0.324,5.5940014 0,0.049 -5.616,-0.347 0.009,-0.095 0.356,-5.5440014'
+  },
+  {
+    name: 'Hartley',
+    bbox: { x: 44.24, y: 7.934, width: 9.492, height: 6.175 },
+    d: 'm 44.663861,7.93423 9.068,0.6309996 -0.356,5.5440014 -9.136,-0.571 0.117,-1.511 0.307,-4.093001'
+  },
+  {
+    name: 'Hansford',
+    bbox: { x: 59.307, y: 3.148, width: 5.873, height: 6.075 },
+    d: 'm 65.179861,3.46423 -0.311,5.7280006 0,0.031 -5.562,-0.315001 0.338,-5.7599996 5.535,0.316'
+  },
+  {
+    name: 'Sherman',
+    bbox: { x: 53.732, y: 2.796, width: 5.913, height: 6.112 },
+    d: 'm 55.449861,2.88323 4.195,0.265 -0.338,5.7599996 -5.575,-0.343 0.379,-5.7689996 1.339,0.087'
+  },
+  {
+    name: 'Dallam',
+    bbox: { x: 44.664, y: 2.197, width: 9.447, height: 6.368 },
+    d: 'm 54.110861,2.79623 -0.379,5.7689996 -9.068,-0.6309996 0.244,-3.407 0.157,-2.078 0.424,-0.252 8.622,0.599'
+  },
+  {
+    name: 'Hudspeth',
+    bbox: { x: 7.819, y: 57.431, width: 12.547, height: 18.813 },
+    d: 'm 20.365861,58.626231 -0.166,1.816 -0.276,3.507 -0.734,8.509 -0.108,0.761 -0.104,0.375 -0.216,2.212 -0.735,0.38 -0.068,0.058 -0.576,-0.829 -0.857,-0.943 -0.838,-0.72 -0.428,-0.037 -0.167,-0.058 -1.352,-0.865 -1.614,-1.853 -1.897,-2.47 -1.4609998,-1.907 -0.95,-1.22 0.522,-0.423 0.023,-0.714 -0.32,-0.468 0.608,-6.306 11.7139998,1.195'
+  },
+  {
+    name: 'El Paso',
+    bbox: { x: 1.617, y: 56.742, width: 7.035, height: 8.6 },
+    d: 'm 8.6518612,57.431231 -0.608,6.306 0.32,0.468 -0.023,0.714 -0.522,0.423 -1.073,-0.478 -0.352,-0.177 -0.568,-0.464 -0.144,-0.117 -0.004,-0.01 -0.041,-0.045 -0.014,-0.017 -0.089,-0.144 -0.294,-0.915 -0.906,-2.11 -0.215,-0.409 -0.375,-0.304 -1.158,-0.539 -0.847,-0.906 -0.104,-0.14 -0.018,-0.059 0.252,-1.113 0.027,-0.094 0.235,-0.554 0,-0.005 0.004,0 0.036,0.005 2.371,0.251 4.11,0.433'
+  },
+  {
+    name: 'Lynn',
+    bbox: { x: 52.065, y: 43.134, width: 5.913, height: 5.878 },
+    d: 'm 57.977861,43.405231 -0.334,5.607 -1.437,-0.094 -4.142,-0.231 0.356,-5.553 5.557,0.271'
+  },
+  {
+    name: 'Terry',
+    bbox: { x: 46.485, y: 42.779, width: 5.936, height: 5.908 },
+    d: 'm 46.872861,42.779231 5.548,0.355 -0.356,5.553 -1.424,-0.081 -4.156,-0.279 0.388,-5.548'
+  },
+  {
+    name: 'Yoakum',
+    bbox: { x: 41.437, y: 42.423, width: 5.436, height: 5.904 },
+    d: 'm 46.872861,42.779231 -0.388,5.548 -5.048,-0.369 0.496,-5.535 4.94,0.356'
+  },
+  {
+    name: 'Dawson',
+    bbox: { x: 50.333, y: 48.606, width: 5.874, height: 5.95 },
+    d: 'm 52.064861,48.687231 4.142,0.231 -0.311,5.638 -5.563,-0.32 0.308,-5.63 1.424,0.081'
+  },
+  {
+    name: 'Gaines',
+    bbox: { x: 41.018, y: 47.958, width: 9.623, height: 6.278 },
+    d: 'm 41.436861,47.958231 5.048,0.369 4.156,0.279 -0.308,5.63 -0.089,-0.005 -9.226,-0.636 0.419,-5.637'
+  },
+  {
+    name: 'Martin',
+    bbox: { x: 49.874, y: 54.231, width: 6.022, height: 5.973 },
+    d: 'm 50.243861,54.231231 0.089,0.005 5.563,0.32 -0.406,5.648 -0.884,-0.045 -4.732,-0.299 0.37,-5.629'
+  },
+  {
+    name: 'Andrews',
+    bbox: { x: 40.603, y: 53.595, width: 9.641, height: 6.265 },
+    d: 'm 41.017861,53.595231 9.226,0.636 -0.37,5.629 -0.82,-0.054 -5.571,-0.37 -2.88,-0.229 0.415,-5.612'
+  },
+  {
+    name: 'Midland',
+    bbox: { x: 48.675, y: 59.806, width: 5.931, height: 5.968 },
+    d: 'm 49.053861,59.806231 0.82,0.054 4.732,0.299 -0.337,5.615 -5.594,-0.355 0.379,-5.613'
+  },
+  {
+    name: 'Ector',
+    bbox: { x: 43.082, y: 59.436, width: 5.972, height: 5.983 },
+    d: 'm 49.053861,59.806231 -0.379,5.613 -0.338,-0.019 -4.908,-0.348 -0.347,-0.021 0.401,-5.595 5.571,0.37'
+  },
+  {
+    name: 'Crane',
+    bbox: { x: 43.1, y: 65.052, width: 5.237, height: 7.635 },
+    d: 'm 43.428861,65.052231 4.908,0.348 -0.297,7.287 -0.965,-0.076 -0.347,-1.352 -0.099,-0.249 -0.031,-0.053 -0.141,-0.135 -0.531,-0.46 -0.144,-0.113 -1.352,-0.775 -0.14,0.005 -1.19,0.184 0.329,-4.611'
+  },
+  {
+    name: 'Presidio',
+    bbox: { x: 17.959, y: 76.186, width: 12.873, height: 18.682 },
+    d: 'm 30.831861,80.120231 -0.09,1.401 -0.316,3.89 -0.473,6.455 -0.244,3.002 -1.879,-0.614 -0.613,-0.235 -0.068,-0.026 -0.045,-0.037 -0.401,-0.32 -0.807,-0.639 -3.876,-3.674 -0.216,-0.482 -1.248,-3.136 -0.046,-0.132 -0.036,-1.27 0.172,-0.933 0.085,-1.118 -0.171,-0.743 -2.015,-4.891 -0.586,-0.374 0.068,-0.058 11.692,3.843 1.113,0.091'
+  },
+  {
+    name: 'Culberson',
+    bbox: { x: 18.762, y: 58.626, width: 11.317, height: 17.18 },
+    d: 'm 21.132861,58.698231 8.946,0.802 -1.83,11.439 -9.487,4.867 0.216,-2.212 0.104,-0.375 0.108,-0.761 0.734,-8.509 0.276,-3.507 0.166,-1.816 0.767,0.072'
+  },
+  {
+    name: 'Ward',
+    bbox: { x: 34.216, y: 64.355, width: 9.213, height: 5.359 },
+    d: 'm 43.081861,65.031231 0.347,0.021 -0.329,4.611 -0.784,0.051 -0.469,-0.469 -0.311,-0.276 -0.347,-0.208 -0.69,-0.288 -0.645,0.033 -0.405,-0.009 -0.261,-0.028 -0.559,-0.126 -3.02,-1 -0.139,-0.145 -0.127,-0.226 -0.108,-0.648 0.027,-0.772 0.063,-0.442 -0.067,-0.273 -0.181,-0.29 -0.861,-0.192 3.093,0.247 5.773,0.429'
+  },
+  {
+    name: 'Winkler',
+    bbox: { x: 37.309, y: 59.207, width: 6.174, height: 5.824 },
+    d: 'm 40.602861,59.207231 2.88,0.229 -0.401,5.595 -5.773,-0.429 0.36,-4.494 0.64,0.051 0.563,0.039 0.767,0.059 0.612,0.049 0.267,0.019 0.085,-1.118'
+  },
+  {
+    name: 'Loving',
+    bbox: { x: 30.561, y: 59.541, width: 7.108, height: 5.061 },
+    d: 'm 30.560861,59.541231 2.794,0.229 4.314,0.338 -0.36,4.494 -3.093,-0.247 -0.234,-0.514 -0.541,-0.785 -0.108,-0.022 -0.216,0.045 -0.009,0.026 -0.027,0.023 -0.1,0.005 -0.238,-0.054 -0.086,-0.113 -1.455,-2.092 -0.641,-1.333'
+  },
+  {
+    name: 'Reeves',
+    bbox: { x: 28.249, y: 59.5, width: 12.25, height: 16.266 },
+    d: 'm 30.078861,59.500231 0.482,0.041 0.641,1.333 1.455,2.092 0.086,0.113 0.238,0.054 0.1,-0.005 0.027,-0.023 0.009,-0.026 0.216,-0.045 0.108,0.022 0.541,0.785 0.234,0.514 0.861,0.192 0.181,0.29 0.067,0.273 -0.063,0.442 -0.027,0.772 0.108,0.648 0.127,0.226 0.139,0.145 3.02,1 0.559,0.126 0.261,0.028 0.405,0.009 0.645,-0.033 -6.913,7.293 -5.337,-4.827 1.83,-11.439'
+  },
+  {
+    name: 'Jeff Davis',
+    bbox: { x: 18.027, y: 70.939, width: 17.059, height: 9.181 },
+    d: 'm 33.585861,75.766231 1.5,1.42 -4.254,2.934 -1.113,-0.091 -11.692,-3.843 0.735,-0.38 9.487,-4.867 5.337,4.827'
+  },
+  {
+    name: 'Brewster',
+    bbox: { x: 29.709, y: 77.186, width: 17.137, height: 21.963 },
+    d: 'm 35.085861,77.186231 9.109,8.595 2.651,2.465 -0.577,0.37 -1.416,0.641 -2.037,0.49 -0.261,0.158 -0.027,0.018 -1.515,2.47 -0.91,2.109 -3.047,4.519996 -0.478,0.127 -0.081,0 -1.316,-0.329 -1.109,-0.527 -3.57,-2.343996 -0.103,-0.108 -0.451,-0.464 -0.239,-0.509 0.244,-3.002 0.473,-6.455 0.316,-3.89 0.09,-1.401 4.254,-2.934'
+  },
+  {
+    name: 'Terrell',
+    bbox: { x: 44.195, y: 78.344, width: 10.655, height: 11.561 },
+    d: 'm 53.393861,83.339231 -0.428,6.566 -0.198,-0.059 -0.082,-0.026 -1.077,-0.248 -0.68,-0.108 -1.082,0.076 -0.108,0.058 -0.735,-0.143 -2.158,-1.209 -2.651,-2.465 0.208,-2.966 2.488,0.158 0.27,-4.044 1.528,-0.139 0.793,-0.446 4.083,0.288 0.162,-0.017 0.609,0.126 0.442,0.356 0.072,0.815 -0.018,0.113 -1.177,2.835 -0.261,0.479'
+  },
+  {
+    name: 'Pecos',
+    bbox: { x: 33.586, y: 68.473, width: 19.979, height: 17.308 },
+    d: 'm 43.099861,69.663231 1.19,-0.184 0.14,-0.005 1.352,0.775 0.144,0.113 0.531,0.46 0.141,0.135 0.031,0.053 0.099,0.249 0.347,1.352 1.501,0.681 2.172,0.676 0.704,0.22 1.118,0.934 0.937,3.178 0.058,0.332 -4.083,-0.288 -0.793,0.446 -1.528,0.139 -0.27,4.044 -2.488,-0.158 -0.208,2.966 -9.109,-8.595 -1.5,-1.42 6.913,-7.293 0.69,0.288 0.347,0.208 0.311,0.276 0.469,0.469 0.784,-0.051'
+  },
+  {
+    name: 'Upton',
+    bbox: { x: 48.04, y: 65.4, width: 6.229, height: 7.738 },
+    d: 'm 48.336861,65.400231 0.338,0.019 5.594,0.355 -0.456,7.364 -5.773,-0.451 0.297,-7.287'
+  },
+  {
+    name: 'Reagan',
+    bbox: { x: 53.813, y: 65.774, width: 6.017, height: 7.694 },
+    d: 'm 54.268861,65.774231 5.561,0.333 -0.072,1.217 -0.022,0.356 -0.397,5.788 -5.526,-0.33 0.456,-7.364'
+  },
+  {
+    name: 'Glasscock',
+    bbox: { x: 54.269, y: 60.159, width: 5.904, height: 5.948 },
+    d: 'm 55.489861,60.204231 4.683,0.274 -0.343,5.629 -5.561,-0.333 0.337,-5.615 0.884,0.045'
+  },
+  {
+    name: 'Howard',
+    bbox: { x: 55.49, y: 54.556, width: 5.967, height: 5.971 },
+    d: 'm 61.456861,54.890231 -0.41,5.637 -0.874,-0.049 -4.683,-0.274 0.406,-5.648 5.561,0.334'
+  },
+  {
+    name: 'Borden',
+    bbox: { x: 55.896, y: 48.918, width: 5.886, height: 5.972 },
+    d: 'm 57.643861,49.012231 4.138,0.203 -0.32,5.629 -0.005,0.046 -5.561,-0.334 0.311,-5.638 1.437,0.094'
+  },
+  {
+    name: 'Garza',
+    bbox: { x: 57.644, y: 43.405, width: 5.882, height: 5.81 },
+    d: 'm 63.525861,43.684231 -0.293,5.522 -1.451,0.009 -4.138,-0.203 0.334,-5.607 5.548,0.279'
+  },
+  {
+    name: 'Scurry',
+    bbox: { x: 61.462, y: 49.206, width: 5.886, height: 5.959 },
+    d: 'm 63.232861,49.206231 4.115,0.298 -0.329,5.661 -5.557,-0.321 0.32,-5.629 1.451,-0.009'
+  },
+  {
+    name: 'Mitchell',
+    bbox: { x: 61.047, y: 54.844, width: 5.972, height: 5.999 },
+    d: 'm 61.461861,54.844231 5.557,0.321 -0.329,5.678 -1.699,-0.104 -3.944,-0.212 0.41,-5.637 0.005,-0.046'
+  },
+  {
+    name: 'Sterling',
+    bbox: { x: 59.758, y: 60.478, width: 5.233, height: 7.004 },
+    d: 'm 60.172861,60.478231 0.874,0.049 3.944,0.212 -0.298,5.039 -0.382,-0.139 -0.141,1.843 -4.412,-0.158 0.072,-1.217 0.343,-5.629'
+  },
+  {
+    name: 'Irion',
+    bbox: { x: 59.339, y: 67.68, width: 6.693, height: 6.031 },
+    d: 'm 59.735861,67.680231 3.033,0.176 3.263,0.217 -0.234,5.638 -3.016,-0.099 -3.443,-0.144 0.397,-5.788'
+  },
+  {
+    name: 'Crockett',
+    bbox: { x: 47.075, y: 72.611, width: 15.707, height: 11.232 },
+    d: 'm 47.074861,72.611231 0.965,0.076 5.773,0.451 5.526,0.33 3.443,0.144 -0.234,4.85 -0.279,5.381 -8.875,-0.504 0.261,-0.479 1.177,-2.835 0.018,-0.113 -0.072,-0.815 -0.442,-0.356 -0.609,-0.126 -0.162,0.017 -0.058,-0.332 -0.937,-3.178 -1.118,-0.934 -0.704,-0.22 -2.172,-0.676 -1.501,-0.681'
+  },
+  {
+    name: 'Val Verde',
+    bbox: { x: 52.966, y: 83.339, width: 12.196, height: 14.106 },
+    d: 'm 53.393861,83.339231 8.875,0.504 2.893,0.139 -0.419,8.542 -0.113,2.361 -0.126,0.965 -0.063,0.311 -0.45,1.063 -0.145,0.212 -0.045,0.009 -0.347,-0.063 -2.642,-2.367 -2.212,-2.744 -0.027,-0.073 -1.627,-1.812 -0.559,-0.193 -0.05,-0.005 -1.609,-0.103 -0.256,-0.013 -1.506,-0.167 0.428,-6.566'
+  },
+  {
+    name: 'Zapata',
+    bbox: { x: 77.552, y: 122.694, width: 5.837, height: 9.641 },
+    d: 'm 77.623861,123.35621 0.987,-0.662 0.406,0.604 4.372,0.194 -0.185,6.174 -2.619,2.669 -0.171,-0.686 -0.207,-0.838 0,-0.013 -0.347,-1.276 -0.279,-0.708 -0.591,-0.834 -0.649,-0.378 -0.744,-1.159 -0.045,-0.509 0.014,-0.05 0.054,-0.044 0.203,-0.298 0.081,-1.045 -0.144,-0.947 -0.117,-0.186 -0.01,-0.003 -0.009,-0.005'
+  },
+  {
+    name: 'Jim Hogg',
+    bbox: { x: 83.204, y: 122.464, width: 6.315, height: 7.406 },
+    d: 'm 85.227861,122.46421 2.835,0.013 0.342,0.211 -0.04,1.002 0.342,0.392 0.812,2.316 -0.145,3.472 -6.17,-0.204 0.185,-6.174 1.839,-1.028'
+  },
+  {
+    name: 'Starr',
+    bbox: { x: 80.585, y: 129.666, width: 9.97, height: 6.937 },
+    d: 'm 83.203861,129.66621 6.17,0.204 1.181,0.036 -0.932,1.987 -1.092,2.109 -1.243,2.524 -0.546,0.077 -0.838,-0.37 -3.939,-1.771 -0.663,-0.428 -0.676,-1.543 -0.023,-0.089 -0.018,-0.067 2.619,-2.669'
+  },
+  {
+    name: 'Willacy',
+    bbox: { x: 94.143, y: 132.186, width: 9.09, height: 4.074 },
+    d: 'm 102.16086,132.45721 0.356,0.009 0.716,2.415 -0.198,0 -0.874,-2.424 m -7.432999,-0.271 5.998999,0.243 0.654,2.428 -0.455,0.565 -1.257999,0.838 -3.894,-0.69 0.018,-0.946 -0.536,-0.172 -1.113,-0.197 0.099,-0.55 0.153,-0.568 0.333,-0.951'
+  },
+  {
+    name: 'Hidalgo',
+    bbox: { x: 87.288, y: 129.906, width: 8.504, height: 9.495 },
+    d: 'm 90.554861,129.90621 3.894,0.112 0.279,2.168 -0.333,0.951 -0.153,0.568 -0.099,0.55 1.113,0.197 0.536,0.172 -0.018,0.946 -0.072,3.656 -0.081,-0.018 -0.23,-0.035 -1.05,0.011 -0.351,0.006 -0.045,0.058 -0.384,0.153 -1.447,-0.279 -0.851,-0.167 -0.266,-0.144 -0.167,-0.112 -1.239,-0.844 -0.591,-0.706 -0.315,-0.15 -0.027,-0.009 -1.362,-0.464 -0.008,0 1.243,-2.524 1.092,-2.109 0.932,-1.987'
+  },
+  {
+    name: 'Brooks',
+    bbox: { x: 88.365, y: 123.69, width: 6.192, height: 6.328 },
+    d: 'm 88.364861,123.69021 3.362,0.117 2.01,0.064 0.82,0.68 -0.108,5.467 -3.894,-0.112 -1.181,-0.036 0.145,-3.472 -0.812,-2.316 -0.342,-0.392'
+  },
+  {
+    name: 'Kenedy',
+    bbox: { x: 94.449, y: 123.739, width: 8.068, height: 8.727 },
+    d: 'm 101.65086,123.79921 0.298,0.003 -0.036,0.123 -0.163,0.739 -0.094,0.627 -0.081,0.765 -0.036,0.676 0,0.708 0.072,1.064 0.054,0.437 0.009,0.045 0.14,0.812 0.203,0.919 0.356,1.297 0.018,0.05 0.018,0.049 0.108,0.353 -0.356,-0.009 -0.762,-2.823 0,-1.599 0.009,-1.358 0.005,-0.536 0.018,-0.797 0.049,-0.613 0.055,-0.311 0.116,-0.621 m -7.093999,0.752 4.039,-0.812 -0.027,0.1 0.004,0.225 0.046,0.081 0.071,0.054 0.992,0.189 0.261,-0.022 0.121999,-0.049 0.077,-0.055 0.036,-0.058 0.175,-0.081 0.401,-0.145 0.307,-0.012 0.019,0.081 -0.276,1.802 -0.491,1.474 -0.337999,2.51 0.436999,0.577 0.284,1.604 0.031,0.415 -5.998999,-0.243 -0.279,-2.168 0.108,-5.467'
+  },
+  {
+    name: 'Kleberg',
+    bbox: { x: 93.737, y: 119.079, width: 9.709, height: 5.472 },
+    d: 'm 101.65086,123.79921 1.497,-3.864 0.298,0.073 -1.497,3.794 -0.298,-0.003 m -6.475999,-4.693 0.757,0.491 0.401,0.519 0.099,0.004 5.822999,0.068 -0.581,2.032 -0.347,0.834 -0.036,0.073 -0.095,0.108 -0.081,0.05 -1.027,0.526 -1.491999,-0.072 -4.039,0.812 -0.82,-0.68 0.086,-4.792 1.352,0.027'
+  },
+  {
+    name: 'Jim Wells',
+    bbox: { x: 91.727, y: 113.63, width: 5.188, height: 10.241 },
+    d: 'm 91.929861,113.63021 4.029,0.099 0.956,0.802 -1.587,1.384 -0.018,1.388 -0.135,1.803 -1.352,-0.027 -0.086,4.792 -2.01,-0.064 0.203,-10.177'
+  },
+  {
+    name: 'Nueces',
+    bbox: { x: 95.175, y: 114.531, width: 10.335, height: 5.657 },
+    d: 'm 105.50986,116.69521 -2.064,3.313 -0.298,-0.073 2.303,-3.403 0.059,0.163 m -10.334999,2.411 0.135,-1.803 0.018,-1.388 1.587,-1.384 -0.126,0.303 0.116,0.468 1.515,0.79 0.297,0.139 0.591,0.13 0.819999,0.068 0.099,-0.334 1.844,-0.04 0.793,0.04 -0.207,0.037 -0.753,0.342 -0.217,0.158 -0.152,0.306 -0.023,0.397 0.081,0.208 0.198,0.324 0.244,0.212 0.347,0.166 0.572,0.446 -0.361,0.821 -0.338,0.676 -5.822999,-0.068 -0.099,-0.004 -0.401,-0.519 -0.757,-0.491'
+  },
+  {
+    name: 'San Patricio',
+    bbox: { x: 95.959, y: 112.209, width: 8.537, height: 4.22 },
+    d: 'm 96.733861,112.20921 3.16,0.209 3.189999,1.189 1.412,2.241 -1.632,0.247 -0.793,-0.04 -1.844,0.04 -0.099,0.334 -0.819999,-0.068 -0.591,-0.13 -0.297,-0.139 -1.515,-0.79 -0.116,-0.468 0.126,-0.303 -0.956,-0.802 0.775,-1.52'
+  },
+  {
+    name: 'Calhoun',
+    bbox: { x: 106.925, y: 105.5, width: 6.909, height: 8.346 },
+    d: 'm 108.01586,113.19821 0.153,-0.591 2.573,-1.763 0.135,-0.062 0.596,-0.257 0.887,-0.185 0.136,0.235 -1.086,0.535 -0.159,0.072 -0.013,0.013 -0.829,0.511 -0.838,0.603 -0.731,0.573 -1.054,0.916 -0.023,0.022 -0.027,0.026 0.28,-0.648 m 2.907,-7.698 2.907,0.504 0.004,0.433 -0.703,0.329 -1.118,0.455 -0.91,-0.83 -0.104,-0.3 -0.076,-0.591 m -3.557,2.623 -0.166,-0.325 -0.275,-0.699 0.879,-0.613 1.713,-0.586 0.608,-0.338 -0.167,0.15 0.6,1.426 0.031,0.035 0.5,0.093 0.316,0.217 1.321,1.19 0.103,0.103 0.095,0.131 -0.018,0.086 -2.146,1.076 -0.099,0.041 -0.829,0.234 -0.289,-0.094 -0.081,-0.077 -0.73,-0.785 -1.366,-1.265'
+  },
+  {
+    name: 'Refugio',
+    bbox: { x: 99.894, y: 107.496, width: 8.838, height: 6.297 },
+    d: 'm 104.30186,107.49621 3.064,0.627 1.366,1.265 -0.252,1.16 -3.795,0.553 0.018,0.262 0.256,0.343 0.438,0.262 0.248,0.036 0.238,0.008 -0.071,0.194 -1.447,1.091 -1.023,0.496 -0.036,-0.005 -0.222,-0.181 -3.189999,-1.189 1.932999,-2.84 2.475,-2.082'
+  },
+  {
+    name: 'Bee',
+    bbox: { x: 93.769, y: 105.229, width: 8.058, height: 7.189 },
+    d: 'm 97.301861,105.91921 0.902,1.636 1.627,0.992 1.995999,1.031 -1.932999,2.84 -3.16,-0.209 0.108,-0.084 -3.073,-6.211 0.964,-0.329 1.033,-0.356 0.148,0.09 0.09,0.157 0.401,0.222 0.357,0.148 0.54,0.073'
+  },
+  {
+    name: 'Live Oak',
+    bbox: { x: 90.798, y: 104.318, width: 6.044, height: 9.411 },
+    d: 'm 93.705861,104.31821 1.027,1.267 -0.964,0.329 3.073,6.211 -0.108,0.084 -0.775,1.52 -4.029,-0.099 -1.132,-0.028 0.167,-7.111 2.741,-2.173'
+  },
+  {
+    name: 'McMullen',
+    bbox: { x: 85.435, y: 106.022, width: 5.54, height: 7.58 },
+    d: 'm 85.678861,106.02221 5.296,0.072 -0.177,7.508 -5.363,-0.138 0.244,-7.442'
+  },
+  {
+    name: 'Duval',
+    bbox: { x: 85.228, y: 113.464, width: 6.702, height: 10.343 },
+    d: 'm 85.434861,113.46421 5.363,0.138 1.132,0.028 -0.203,10.177 -3.362,-0.117 0.04,-1.002 -0.342,-0.211 -2.835,-0.013 0.207,-9'
+  },
+  {
+    name: 'Webb',
+    bbox: { x: 69.435, y: 111.084, width: 16, height: 12.408 },
+    d: 'm 69.434861,111.08421 1.095,0.036 8.217,0.239 -0.023,2.231 6.711,-0.126 -0.207,9 -1.839,1.028 -4.372,-0.194 -0.406,-0.604 -0.987,0.662 -0.194,-0.017 -0.247,-0.155 -0.023,-0.008 -0.388,-0.378 -0.049,-0.054 -0.018,-0.023 -0.009,-0.009 -0.013,-0.049 0.053,-0.072 0.32,-0.429 0.181,-0.428 0.068,-0.248 0.121,-0.964 -0.41,-1.141 -0.239,-0.419 -0.154,-0.113 -0.509,-0.37 -0.261,-0.045 -0.031,0.018 -0.014,0.055 -0.446,-0.018 -1.97,-1.821 -0.356,-0.423 -1.222,-2.462 -0.968,-1.96 -0.055,-0.045 -1.356,-0.694'
+  },
+  {
+    name: 'La Salle',
+    bbox: { x: 78.724, y: 105.77, width: 6.963, height: 7.82 },
+    d: 'm 85.686861,105.90521 -0.008,0.117 -0.244,7.442 -6.711,0.126 0.023,-2.231 0.18,-5.589 6.76,0.135'
+  },
+  {
+    name: 'Dimmit',
+    bbox: { x: 70.53, y: 105.35, width: 8.397, height: 6.009 },
+    d: 'm 70.772861,105.35021 8.005,0.415 0.149,0.005 -0.18,5.589 -8.217,-0.239 0.243,-5.77'
+  },
+  {
+    name: 'Maverick',
+    bbox: { x: 64.756, y: 99.468, width: 6.293, height: 11.652 },
+    d: 'm 71.048861,99.735227 -0.276,5.614983 -0.243,5.77 -1.095,-0.036 -0.041,-0.045 -0.486,-0.536 -0.361,-0.464 -0.559,-1.718 -1.622,-4.358 -1.443,-3.19599 -0.167,-1.298993 6.293,0.267'
+  },
+  {
+    name: 'Kinney',
+    bbox: { x: 63.454, y: 92.524, width: 7.883, height: 7.211 },
+    d: 'm 64.742861,92.524231 6.594,0.316 -0.288,6.894996 -6.293,-0.267 -1.302,-2.085996 0.347,0.063 0.045,-0.009 0.145,-0.212 0.45,-1.063 0.063,-0.311 0.126,-0.965 0.113,-2.361'
+  },
+  {
+    name: 'Edwards',
+    bbox: { x: 64.743, y: 83.982, width: 10.952, height: 8.902 },
+    d: 'm 71.660861,84.258231 4.034,0.166 -0.149,2.782 -0.982,-0.036 -1.357,-0.162 -0.667,2.447 -0.122,1.86 0.018,1.569 -1.099,-0.044 -6.594,-0.316 0.419,-8.542 6.499,0.276'
+  },
+  {
+    name: 'Real',
+    bbox: { x: 72.418, y: 87.008, width: 4.774, height: 6.011 },
+    d: 'm 75.545861,87.206231 0.758,0.03 -0.081,1.686 0.225,0.455 0.744,0.042 -0.14,3.6 -4.616,-0.135 -0.018,-1.569 0.122,-1.86 0.667,-2.447 1.357,0.162 0.982,0.036'
+  },
+  {
+    name: 'Uvalde',
+    bbox: { x: 71.049, y: 92.84, width: 8.148, height: 7.143 },
+    d: 'm 71.336861,92.840231 1.099,0.044 4.616,0.135 2.145,0.076 -0.27,6.887996 -7.878,-0.248 0.288,-6.894996'
+  },
+  {
+    name: 'Zavala',
+    bbox: { x: 70.773, y: 99.735, width: 8.154, height: 6.03 },
+    d: 'm 78.926861,99.983227 -0.149,5.781983 -8.005,-0.415 0.276,-5.614983 7.878,0.248'
+  },
+  {
+    name: 'Frio',
+    bbox: { x: 78.778, y: 99.983, width: 7.032, height: 5.922 },
+    d: 'm 85.809861,100.21722 -0.123,5.68799 -6.76,-0.135 -0.149,-0.005 0.149,-5.781983 6.883,0.233993'
+  },
+  {
+    name: 'Goliad',
+    bbox: { x: 97.302, y: 102.687, width: 7, height: 6.891 },
+    d: 'm 102.70586,103.48921 0.838,-0.004 0.329,0.152 0.163,0.33 0.216,0.559 0.05,2.97 -2.475,2.082 -1.995999,-1.031 -1.627,-0.992 -0.902,-1.636 2.349,-1.823 1.802999,-1.409 0.071,0 0.298,0.113 0.5,0.279 0.154,0.136 0.229,0.274'
+  },
+  {
+    name: 'Victoria',
+    bbox: { x: 102.706, y: 100.457, width: 7.486, height: 7.666 },
+    d: 'm 106.46986,100.45722 0.423,0.526 1.123,0.496 0.076,0.054 0.811,1.60399 1.289,2.394 -0.067,0.031 -0.608,0.338 -1.713,0.586 -0.879,0.613 0.275,0.699 0.166,0.325 -3.064,-0.627 -0.05,-2.97 -0.216,-0.559 -0.163,-0.33 -0.329,-0.152 -0.838,0.004 3.764,-3.03199'
+  },
+  {
+    name: 'DeWitt',
+    bbox: { x: 97.649, y: 96.814, width: 8.821, height: 7.282 },
+    d: 'm 103.53986,96.814231 2.93,3.642989 -3.764,3.03199 -0.229,-0.274 -0.154,-0.136 -0.5,-0.279 -0.298,-0.113 -0.071,0 -1.802999,1.409 -2.002,-2.52199 1.627,-1.289 4.263999,-3.470989'
+  },
+  {
+    name: 'Karnes',
+    bbox: { x: 92.683, y: 98.82, width: 6.968, height: 7.099 },
+    d: 'm 98.000861,98.820227 1.275,1.464993 -1.627,1.289 2.002,2.52199 -2.349,1.823 -0.54,-0.073 -0.357,-0.148 -0.401,-0.222 -0.09,-0.157 -0.148,-0.09 -1.033,0.356 -1.027,-1.267 -1.023,-1.248 5.318,-4.249983'
+  },
+  {
+    name: 'Wilson',
+    bbox: { x: 90.307, y: 95.894, width: 7.694, height: 7.176 },
+    d: 'm 96.774861,96.805231 1.226,2.014996 -5.318,4.249983 -2.376,-3.03798 3.191,-4.137999 0.068,0.663 0.04,0.162 0.095,0.172 0.324,-0.18 2.75,0.094'
+  },
+  {
+    name: 'Atascosa',
+    bbox: { x: 85.679, y: 98.162, width: 8.027, height: 8.329 },
+    d: 'm 85.872861,98.162227 4.434,1.870003 2.376,3.03798 1.023,1.248 -2.741,2.173 0.01,-0.397 -5.296,-0.072 0.008,-0.117 0.123,-5.68799 0.063,-2.054993'
+  },
+  {
+    name: 'Medina',
+    bbox: { x: 78.927, y: 92.506, width: 7.09, height: 7.711 },
+    d: 'm 86.016861,92.506231 -0.144,5.655996 -0.063,2.054993 -6.883,-0.233993 0.27,-6.887996 4.804,0.212 0.077,0.119 0.009,0.062 -0.036,0.14 -0.098,0.148 0.004,0.258 0.067,0.153 0.045,0.039 0.041,0.006 0.505,-0.118 1.402,-1.608'
+  },
+  {
+    name: 'Bandera',
+    bbox: { x: 77.052, y: 89.419, width: 9.285, height: 4.813 },
+    d: 'm 77.191861,89.419231 3.457,0.162 1.298,0.166 0.59,0.306 2.272,1.244 1.528,0.838 -0.32,0.371 -1.402,1.608 -0.505,0.118 -0.041,-0.006 -0.045,-0.039 -0.067,-0.153 -0.004,-0.258 0.098,-0.148 0.036,-0.14 -0.009,-0.062 -0.077,-0.119 -4.804,-0.212 -2.145,-0.076 0.14,-3.6'
+  },
+  {
+    name: 'Kerr',
+    bbox: { x: 75.546, y: 84.424, width: 9.375, height: 6.873 },
+    d: 'm 80.724861,84.659231 -0.054,1.96 4.25,0.091 -0.112,4.587 -2.272,-1.244 -0.59,-0.306 -1.298,-0.166 -3.457,-0.162 -0.744,-0.042 -0.225,-0.455 0.081,-1.686 -0.758,-0.03 0.149,-2.782 5.03,0.235'
+  },
+  {
+    name: 'Gillespie',
+    bbox: { x: 80.671, y: 81.914, width: 8.041, height: 4.894 },
+    d: 'm 80.801861,81.914231 3.772,0.143 4.138,0.104 -0.086,4.647 -3.705,-0.098 -4.25,-0.091 0.131,-4.705'
+  },
+  {
+    name: 'Blanco',
+    bbox: { x: 88.626, y: 82.161, width: 5.242, height: 7.288 },
+    d: 'm 91.393861,82.410231 2.474,0.829 -0.55,0.888 -1.483,4.065 -1.334,1.257 -1.875,-2.641 0.086,-4.647 2.682,0.249'
+  },
+  {
+    name: 'Kendall',
+    bbox: { x: 84.809, y: 86.71, width: 5.692, height: 5.425 },
+    d: 'm 84.920861,86.710231 3.705,0.098 1.875,2.641 -2.664,2.407 -1.5,0.279 -1.528,-0.838 0.112,-4.587'
+  },
+  {
+    name: 'Bexar',
+    bbox: { x: 85.873, y: 91.73, width: 7.738, height: 8.302 },
+    d: 'm 87.836861,91.856231 1.023,-0.126 0.091,0.005 1.428,0.185 0.69,0.554 0.478,1.42 0.112,0.356 0.32,0.248 0.546,0.175 1.068,0.717 0.018,0.383 -0.113,0.121 -3.191,4.137999 -4.434,-1.870003 0.144,-5.655996 0.32,-0.371 1.5,-0.279'
+  },
+  {
+    name: 'Guadalupe',
+    bbox: { x: 91.547, y: 90.608, width: 7.626, height: 6.283 },
+    d: 'm 96.508861,90.608231 2.664,2.727 -2.398,3.47 -2.75,-0.094 -0.324,0.18 -0.095,-0.172 -0.04,-0.162 -0.068,-0.663 0.113,-0.121 -0.018,-0.383 -1.068,-0.717 -0.546,-0.175 -0.32,-0.248 -0.112,-0.356 3.542,-1.952 1.42,-1.334'
+  },
+  {
+    name: 'Comal',
+    bbox: { x: 87.837, y: 88.192, width: 7.252, height: 5.702 },
+    d: 'm 91.834861,88.192231 2.93,2.506 0.324,1.244 -3.542,1.952 -0.478,-1.42 -0.69,-0.554 -1.428,-0.185 -0.091,-0.005 -1.023,0.126 2.664,-2.407 1.334,-1.257'
+  },
+  {
+    name: 'Hays',
+    bbox: { x: 91.835, y: 84.127, width: 6.558, height: 7.815 },
+    d: 'm 93.317861,84.127231 5.075,4.376 -0.618,0.554 -1.469,1.213 -0.072,0.342 0.104,0.019 0.171,-0.023 -1.42,1.334 -0.324,-1.244 -2.93,-2.506 1.483,-4.065'
+  },
+  {
+    name: 'Caldwell',
+    bbox: { x: 96.234, y: 87.935, width: 6.522, height: 5.4 },
+    d: 'm 98.392861,88.503231 0.671,-0.568 3.691999,3.7 -0.023,0.023 -3.559999,1.677 -2.664,-2.727 -0.171,0.023 -0.104,-0.019 0.072,-0.342 1.469,-1.213 0.618,-0.554'
+  },
+  {
+    name: 'Gonzales',
+    bbox: { x: 96.775, y: 91.658, width: 7.892, height: 8.627 },
+    d: 'm 102.73286,91.658231 1.934,2.042 -0.69,0.6 0.009,0.941 -0.446,1.573 -4.263999,3.470989 -1.275,-1.464993 -1.226,-2.014996 2.398,-3.47 3.559999,-1.677'
+  },
+  {
+    name: 'Lavaca',
+    bbox: { x: 103.54, y: 93.673, width: 7.648, height: 7.31 },
+    d: 'm 104.66686,93.700231 3.019,-0.027 0.095,0.027 0.208,0.126 0.608,0.568 2.591,3.123 -1.108,0.914996 -3.187,2.550993 -3.353,-4.168989 0.446,-1.573 -0.009,-0.941 0.69,-0.6'
+  },
+  {
+    name: 'Jackson',
+    bbox: { x: 106.893, y: 98.432, width: 7.113, height: 7.572 },
+    d: 'm 110.07986,98.432227 0.203,0.207 3.723,3.673983 -0.176,3.691 -2.907,-0.504 -0.731,0.031 -1.289,-2.394 -0.811,-1.60399 -0.076,-0.054 -1.123,-0.496 3.187,-2.550993'
+  },
+  {
+    name: 'Matagorda',
+    bbox: { x: 113.154, y: 98.896, width: 9.938, height: 10.822 },
+    d: 'm 114.00586,102.31321 3.893,-2.351983 1.028,-1.065 0.266,0.253 0.068,0.068 0.464,1.543993 0.288,1.119 0.095,0.31999 0.027,0.041 2.231,1.758 0.041,0.022 0.685,0.063 -0.216,0.144 -0.474,0.302 -0.211,0.126 -2.556,1.488 -0.811,0.41 -1.325,0.577 -0.879,0.406 -1.623,0.829 -0.572,0.384 -0.041,0.026 -0.771,0.54 -0.338,0.253 -0.094,0.149 -0.027,-0.094 0.067,-0.109 1.834,-1.379 0.28,-2.366 -0.054,-0.058 -0.076,-0.028 -0.231,0.032 -0.517,0.122 -0.222,0.072 -0.185,0.147 -0.216,0.38 -0.004,-0.433 0.176,-3.691'
+  },
+  {
+    name: 'Wharton',
+    bbox: { x: 110.283, y: 93.7, width: 8.941, height: 8.613 },
+    d: 'm 116.50686,94.114231 0.914,2.218 0.645,1.199 0.807,0.896996 0.351,0.045 -0.297,0.423 -1.028,1.065 -3.893,2.351983 -3.723,-3.673983 0.405,-0.229 2.894,-1.816996 0.185,-0.537 0.54,-1.094 1.226,-1.262 0.974,0.414'
+  },
+  {
+    name: 'Colorado',
+    bbox: { x: 107.686, y: 89.468, width: 7.847, height: 9.171 },
+    d: 'm 111.12986,89.468231 0.379,0.698 0.459,0.416 0.113,0.102 0.708,0.492 0.112,0.054 0.199,0.04 2.154,2.128 0.279,0.302 -1.226,1.262 -0.54,1.094 -0.185,0.537 -2.894,1.816996 -0.405,0.229 -0.203,-0.207 1.108,-0.914996 -2.591,-3.123 -0.608,-0.568 -0.208,-0.126 -0.095,-0.027 3.444,-4.205'
+  },
+  {
+    name: 'Bastrop',
+    bbox: { x: 99.064, y: 83.476, width: 6.996, height: 8.159 },
+    d: 'm 102.66086,83.698231 1.487,0.856 1.303,1.029 0.609,2.685 -3.304,3.367 -3.691999,-3.7 0.492,-0.451 1.306999,-1.329 1.41,-2.679 0.388,0.222'
+  },
+  {
+    name: 'Fayette',
+    bbox: { x: 102.733, y: 86.844, width: 8.397, height: 6.856 },
+    d: 'm 108.64186,86.884231 0.289,0.253 0.369,-0.076 0.374,-0.132 0.167,-0.085 0.428,0.284 0.163,0.473 0.103,0.506 0.023,0.287 0.572,1.074 -3.444,4.205 -3.019,0.027 -1.934,-2.042 0.023,-0.023 3.304,-3.367 2.582,-1.384'
+  },
+  {
+    name: 'Lee',
+    bbox: { x: 102.661, y: 81.76, width: 7.707, height: 6.508 },
+    d: 'm 104.66186,83.022231 2.141,-1.262 1.285,1.632 1.018,1.177 1.262,0.576 -1.726,1.739 -2.582,1.384 -0.609,-2.685 -1.303,-1.029 -1.487,-0.856 2.001,-0.676'
+  },
+  {
+    name: 'Austin',
+    bbox: { x: 110.558, y: 87.746, width: 6.58, height: 6.368 },
+    d: 'm 110.55786,88.394231 0.401,-0.257 3.276,-0.391 0.203,0.041 0.514,0.224 0.55,0.195 0.261,0.018 0.118,-0.14 1.257,4.408 -0.631,1.622 -0.974,-0.414 -0.279,-0.302 -2.154,-2.128 -0.199,-0.04 -0.112,-0.054 -0.708,-0.492 -0.113,-0.102 -0.459,-0.416 -0.379,-0.698 -0.572,-1.074'
+  },
+  {
+    name: 'Washington',
+    bbox: { x: 108.642, y: 83.875, width: 7.82, height: 4.519 },
+    d: 'm 114.17186,84.091231 0.122,0.162 0.126,0.09 0.08,0.027 0.605,-0.207 0.19,-0.23 0.076,-0.058 0.149,0.018 0.311,0.328 -0.049,0.51 0.68,1.361 -0.581,1.992 -0.118,0.14 -0.261,-0.018 -0.55,-0.195 -0.514,-0.224 -0.203,-0.041 -3.276,0.391 -0.401,0.257 -0.023,-0.287 -0.103,-0.506 -0.163,-0.473 -0.428,-0.284 -0.167,0.085 -0.374,0.132 -0.369,0.076 -0.289,-0.253 1.726,-1.739 1.645,-0.405 0.325,-0.091 1.685,-0.613 0.099,0.015 0.05,0.04'
+  },
+  {
+    name: 'Waller',
+    bbox: { x: 115.881, y: 85.826, width: 3.821, height: 6.666 },
+    d: 'm 116.46186,86.092231 3.222,-0.266 0.018,2.001 -0.599,-0.148 -0.604,-0.338 -0.226,-0.213 -0.329,-0.244 0.154,0.497 1.357,4.332 -2.317,0.779 -1.257,-4.408 0.581,-1.992'
+  },
+  {
+    name: 'Fort Bend',
+    bbox: { x: 116.507, y: 91.713, width: 7.468, height: 6.76 },
+    d: 'm 117.13786,92.492231 2.317,-0.779 4.52,2.659 -0.419,1.816 -1.456,1.456 -0.383,0.198 -0.991,-0.014 -0.433,-0.154 -0.509,0.217 -0.56,0.581996 -0.351,-0.045 -0.807,-0.896996 -0.645,-1.199 -0.914,-2.218 0.631,-1.622'
+  },
+  {
+    name: 'Brazoria',
+    bbox: { x: 118.927, y: 94.372, width: 9.231, height: 9.712 },
+    d: 'm 123.97486,94.372231 2.335,0.297 -0.175,1.163 1.293,2.168 0.73,1.233996 -0.816,1.469993 0.122,0.095 -0.068,0.139 -2.83,2.47499 -1.474,0.671 -0.685,-0.063 -0.041,-0.022 -2.231,-1.758 -0.027,-0.041 -0.095,-0.31999 -0.288,-1.119 -0.464,-1.543993 -0.068,-0.068 -0.266,-0.253 0.297,-0.423 0.56,-0.581996 0.509,-0.217 0.433,0.154 0.991,0.014 0.383,-0.198 1.456,-1.456 0.419,-1.816'
+  },
+  {
+    name: 'Galveston',
+    bbox: { x: 126.135, y: 94.556, width: 9.68, height: 6.243 },
+    d: 'm 135.81486,94.556231 -0.334,0.154 -1,0.46 -0.077,0.036 -0.049,0.027 -0.901,0.419 -0.14,0.066 -0.405,0.217 -0.073,0.045 -0.23,0.145 -0.135,0.081 -0.04,0.031 -0.131,0.1 -0.095,0.067 -0.045,0.054 -0.032,0.027 -0.081,0.086 -0.027,0.04 -0.098,0.149 -0.046,0.068 -0.054,0.13 -0.023,0.051 -0.342,0.098 -0.194,0.01 -0.04,-0.036 -0.009,-0.151 0.18,-0.229 0.947,-1.014 0.098,-0.071 0.861,-0.41 0.577,-0.199 0.145,-0.018 0.107,-0.045 -0.058,-0.14 0,-0.185 1.744,-0.063 m -7.274,0.104 0.518,0.586 1.849,1.978 0.896,0.266 -0.613,0.537 -0.193,0.148996 -1.069,0.734 -1.344,0.924 -0.081,0.053 -0.144,0.114003 -0.405,0.30999 -0.072,0.059 -0.041,0.032 -0.162,0.153 -0.121,0.113 -0.095,0.131 -0.122,-0.095 0.816,-1.469993 -0.73,-1.233996 -1.293,-2.168 0.175,-1.163 0.541,0.541 1.122,-0.578 0.568,0.028'
+  },
+  {
+    name: 'Montgomery',
+    bbox: { x: 119.387, y: 80.868, width: 8.194, height: 7.713 },
+    d: 'm 119.38686,80.868231 2.573,1.56 1.195,-0.005 0.726,-0.004 0.748,0.049 2.163,2.038 0.789,2.284 -1.123,1.064 -0.73,0.69 -0.329,0.037 -0.197,-0.042 -0.119,-0.257 -0.323,-0.302 -0.812,-0.436 -1.41,-0.748 -0.528,0.459 -0.789,0.374 -0.739,0.149 -0.244,0.022 -0.536,0.027 -0.018,-2.001 -0.297,-4.958'
+  },
+  {
+    name: 'Harris',
+    bbox: { x: 117.944, y: 86.79, width: 11.548, height: 8.42 },
+    d: 'm 119.70186,87.827231 0.536,-0.027 0.244,-0.022 0.739,-0.149 0.789,-0.374 0.528,-0.459 1.41,0.748 0.812,0.436 0.323,0.302 0.119,0.257 0.197,0.042 0.329,-0.037 0.73,-0.69 1.123,-1.064 1.339,3.629 0.572,2.68 -0.951,1.561 -0.568,-0.028 -1.122,0.578 -0.541,-0.541 -2.335,-0.297 -4.52,-2.659 -1.357,-4.332 -0.154,-0.497 0.329,0.244 0.226,0.213 0.604,0.338 0.599,0.148'
+  },
+  {
+    name: 'Chambers',
+    bbox: { x: 128.92, y: 90.27, width: 7.09, height: 4.349 },
+    d: 'm 134.94086,90.270231 0.946,0.008 0.123,4.022 -0.01,0.17 -0.185,0.086 -1.744,0.063 -2.348,-0.374 0.284,-0.531 0.162,-0.893 0.004,-0.117 -0.036,-0.253 -0.333,-0.657 -0.122,-0.136 -0.063,-0.023 -0.573,0.262 -0.265,0.14 -1.289,1.062 -0.572,-2.68 6.021,-0.149'
+  },
+  {
+    name: 'Hardin',
+    bbox: { x: 131.587, y: 82, width: 7.338, height: 5.589 },
+    d: 'm 133.66086,82.081231 5.264,-0.081 -0.28,0.684 -0.098,0.298 -0.122,0.5 0.032,0.18 0.202,0.461 0.036,0.012 0.113,0.118 -0.203,1.257 -0.116,0.163 0.04,1.042 -0.072,-0.073 -0.826,-0.275 -0.156,0.022 -0.727,0.235 -0.027,0.036 -0.009,0.144 0.027,0.204 -0.031,0.081 -0.149,0.215 -0.081,0.045 -1.127,0.24 -0.176,-0.033 -0.311,-0.162 -1.69,0.036 -1.587,-4.844 2.074,-0.505'
+  },
+  {
+    name: 'Liberty',
+    bbox: { x: 126.792, y: 82.558, width: 8.149, height: 7.861 },
+    d: 'm 130.28986,82.558231 1.297,0.028 1.587,4.844 1.69,-0.036 0.077,2.876 -6.021,0.149 -1.339,-3.629 -0.789,-2.284 3.498,-1.948'
+  },
+  {
+    name: 'Jefferson',
+    bbox: { x: 134.864, y: 86.367, width: 6.901, height: 8.103 },
+    d: 'm 134.86386,87.394231 0.311,0.162 0.176,0.033 1.127,-0.24 0.081,-0.045 0.149,-0.215 0.031,-0.081 -0.027,-0.204 0.009,-0.144 0.027,-0.036 0.727,-0.235 0.156,-0.022 0.826,0.275 0.072,0.073 0.027,0.157 0.234,0.811 0.031,0.035 1.552,1.01 0.932,0.24 0.144,0.063 0.172,0.265 0.041,0.104 0.022,0.127 -0.019,0.293 0.1,2.875 -1.041,0.167 -0.276,-0.005 -0.513,-0.005 -0.617,0.145 -0.848,0.338 -2.47,1.135 0.01,-0.17 -0.123,-4.022 -0.946,-0.008 -0.077,-2.876'
+  },
+  {
+    name: 'Orange',
+    bbox: { x: 138.489, y: 85.538, width: 4.469, height: 4.282 },
+    d: 'm 142.95786,85.538231 -0.008,2.491 -1.285,1.791 0.019,-0.293 -0.022,-0.127 -0.041,-0.104 -0.172,-0.265 -0.144,-0.063 -0.932,-0.24 -1.552,-1.01 -0.031,-0.035 -0.234,-0.811 -0.027,-0.157 -0.04,-1.042 2.406,-0.064 2.063,-0.071'
+  },
+  {
+    name: 'Travis',
+    bbox: { x: 93.318, y: 80.675, width: 8.955, height: 7.828 },
+    d: 'm 93.867861,83.239231 0.897,-2.533 1.032,-0.031 0.437,0.31 0.528,0.762 0.197,0.947 0.411,0.347 0.352,0.117 0.256,-0.009 0.753,-0.265 1.037,-0.5 0.225,0 0.706999,0.224 1.573,0.868 -1.41,2.679 -1.306999,1.329 -0.492,0.451 -0.671,0.568 -5.075,-4.376 0.55,-0.888'
+  },
+  {
+    name: 'Kent',
+    bbox: { x: 63.233, y: 43.684, width: 5.873, height: 5.896 },
+    d: 'm 69.105861,43.955231 -0.284,5.625 -1.474,-0.076 -4.115,-0.298 0.293,-5.522 5.58,0.271'
+  },
+  {
+    name: 'Kimble',
+    bbox: { x: 71.661, y: 78.853, width: 9.141, height: 5.806 },
+    d: 'm 78.899861,79.128231 -0.104,2.718 2.006,0.068 -0.077,2.745 -5.03,-0.235 -4.034,-0.166 0.239,-5.405 7,0.275'
+  },
+  {
+    name: 'Sutton',
+    bbox: { x: 62.269, y: 78.462, width: 9.631, height: 5.796 },
+    d: 'm 71.899861,78.853231 -0.239,5.405 -6.499,-0.276 -2.893,-0.139 0.279,-5.381 9.352,0.391'
+  },
+  {
+    name: 'Schleicher',
+    bbox: { x: 62.548, y: 73.612, width: 9.573, height: 5.241 },
+    d: 'm 65.797861,73.711231 6.323,0.275 -0.221,4.867 -9.352,-0.391 0.234,-4.85 3.016,0.099'
+  },
+  {
+    name: 'Menard',
+    bbox: { x: 71.9, y: 73.986, width: 7.099, height: 5.142 },
+    d: 'm 72.120861,73.986231 5.643,0.238 1.235,1.939 -0.099,2.965 -7,-0.275 0.221,-4.867'
+  },
+  {
+    name: 'Mason',
+    bbox: { x: 78.796, y: 76.163, width: 5.94, height: 5.894 },
+    d: 'm 78.998861,76.163231 4.336,0.148 1.401,0.298 -0.162,5.448 -3.772,-0.143 -2.006,-0.068 0.104,-2.718 0.099,-2.965'
+  },
+  {
+    name: 'Llano',
+    bbox: { x: 84.574, y: 76.609, width: 6.82, height: 5.801 },
+    d: 'm 84.735861,76.609231 5.734,0.162 0.734,1.155 0.049,3.366 0.141,1.118 -2.682,-0.249 -4.138,-0.104 0.162,-5.448'
+  },
+  {
+    name: 'Burnet',
+    bbox: { x: 90.47, y: 75.379, width: 6.819, height: 7.86 },
+    d: 'm 96.404861,75.442231 0.884,1.676 -2.524,3.588 -0.897,2.533 -2.474,-0.829 -0.141,-1.118 -0.049,-3.366 -0.734,-1.155 0.103,-1.392 5.832,0.063'
+  },
+  {
+    name: 'Williamson',
+    bbox: { x: 94.765, y: 77.118, width: 9.897, height: 6.58 },
+    d: 'm 97.288861,77.118231 1.915,0.425 0.329,0.081 3.398999,1.572 1.73,3.826 -2.001,0.676 -0.388,-0.222 -1.573,-0.868 -0.706999,-0.224 -0.225,0 -1.037,0.5 -0.753,0.265 -0.256,0.009 -0.352,-0.117 -0.411,-0.347 -0.197,-0.947 -0.528,-0.762 -0.437,-0.31 -1.032,0.031 2.524,-3.588'
+  },
+  {
+    name: 'Burleson',
+    bbox: { x: 106.803, y: 79.556, width: 7.369, height: 5.589 },
+    d: 'm 110.62086,79.556231 0.594,0.455 -0.063,0.082 -0.315,0.594 0,0.036 1.028,0.245 0.946,0.441 1.195,1.704 0.166,0.978 -0.05,-0.04 -0.099,-0.015 -1.685,0.613 -0.325,0.091 -1.645,0.405 -1.262,-0.576 -1.018,-1.177 -1.285,-1.632 3.818,-2.204'
+  },
+  {
+    name: 'San Jacinto',
+    bbox: { x: 124.629, y: 77.888, width: 5.661, height: 6.618 },
+    d: 'm 124.94386,77.888231 1.416,0.443 0.761,0.793 2.813,2.696 0.356,0.738 -3.498,1.948 -2.163,-2.038 0.315,-4.58'
+  },
+  {
+    name: 'Walker',
+    bbox: { x: 119.022, y: 75.339, width: 5.922, height: 7.129 },
+    d: 'm 123.74586,75.339231 1.198,2.549 -0.315,4.58 -0.748,-0.049 -0.726,0.004 -1.195,0.005 -2.573,-1.56 -0.365,-3.011 2.708,-0.865 2.016,-1.653'
+  },
+  {
+    name: 'Grimes',
+    bbox: { x: 115.439, y: 77.857, width: 4.245, height: 8.235 },
+    d: 'm 115.64186,78.384231 3.38,-0.527 0.365,3.011 0.297,4.958 -3.222,0.266 -0.68,-1.361 0.779,-1.159 -0.396,-0.275 -0.082,-0.144 -0.126,-0.233 -0.518,-1.737 0.094,-1.334 0.109,-1.465'
+  },
+  {
+    name: 'Brazos',
+    bbox: { x: 110.837, y: 76.442, width: 5.724, height: 8.289 },
+    d: 'm 115.64186,78.384231 -0.109,1.465 -0.094,1.334 0.518,1.737 0.126,0.233 0.082,0.144 0.396,0.275 -0.779,1.159 0.049,-0.51 -0.311,-0.328 -0.149,-0.018 -0.076,0.058 -0.19,0.23 -0.605,0.207 -0.08,-0.027 -0.126,-0.09 -0.122,-0.162 -0.166,-0.978 -1.195,-1.704 -0.946,-0.441 -1.028,-0.245 0,-0.036 0.315,-0.594 0.063,-0.082 1.227,-0.621 0.302,-0.527 0.22,-0.51 0.248,-0.472 0.298,-0.465 0.139,-0.181 0.181,-0.157 0.329,-0.226 0.451,-0.298 0.234,-0.112 0.798,1.942'
+  },
+  {
+    name: 'Madison',
+    bbox: { x: 114.844, y: 74.887, width: 6.886, height: 3.497 },
+    d: 'm 114.84386,76.442231 0.766,-0.266 0.996,-0.662 1.163,-0.595 2.335,-0.032 1.626,2.105 -2.708,0.865 -3.38,0.527 -0.798,-1.942'
+  },
+  {
+    name: 'Leon',
+    bbox: { x: 113.996, y: 68.123, width: 7.171, height: 8.319 },
+    d: 'm 120.35986,69.596231 0.113,0.189 0.203,0.455 0.491,1.405 -0.247,0.628 -0.046,-0.009 -0.094,0.054 -0.248,0.279 -0.554,1.752 0.013,0.168 0.113,0.37 -2.335,0.032 -1.163,0.595 -0.996,0.662 -0.766,0.266 -0.848,-4.953 0.911,-0.722 4.931,-2.644 0.522,1.473'
+  },
+  {
+    name: 'Robertson',
+    bbox: { x: 108.362, y: 71.489, width: 6.482, height: 8.522 },
+    d: 'm 110.93186,73.233231 3.064,-1.744 0.848,4.953 -0.234,0.112 -0.451,0.298 -0.329,0.226 -0.181,0.157 -0.139,0.181 -0.298,0.465 -0.248,0.472 -0.22,0.51 -0.302,0.527 -1.227,0.621 -0.594,-0.455 -0.532,-1.338 -0.951,-1.217 -0.645,-1.884 -0.131,-0.419 2.57,-1.465'
+  },
+  {
+    name: 'Milam',
+    bbox: { x: 102.932, y: 74.698, width: 7.689, height: 8.324 },
+    d: 'm 108.36186,74.698231 0.131,0.419 0.645,1.884 0.951,1.217 0.532,1.338 -3.818,2.204 -2.141,1.262 -1.73,-3.826 0.649,-1.759 2.105,-1.22 2.676,-1.519'
+  },
+  {
+    name: 'Bell',
+    bbox: { x: 96.405, y: 71.858, width: 9.281, height: 7.338 },
+    d: 'm 101.89886,71.858231 1.537,0.542 2.25,3.817 -2.105,1.22 -0.649,1.759 -3.398999,-1.572 -0.329,-0.081 -1.915,-0.425 -0.884,-1.676 0.059,-0.442 5.434999,-3.142'
+  },
+  {
+    name: 'Coryell',
+    bbox: { x: 93.57, y: 67.243, width: 8.329, height: 7.757 },
+    d: 'm 99.906861,68.370231 1.991999,3.488 -5.434999,3.142 -2.894,-5.157 4.589,-2.6 1.748,1.127'
+  },
+  {
+    name: 'Lampasas',
+    bbox: { x: 89.289, y: 69.843, width: 7.175, height: 5.599 },
+    d: 'm 92.555861,70.434231 1.014,-0.591 2.894,5.157 -0.059,0.442 -5.832,-0.063 -1.284,-2.628 3.267,-2.317'
+  },
+  {
+    name: 'Mills',
+    bbox: { x: 84.628, y: 66.653, width: 7.928, height: 6.098 },
+    d: 'm 90.527861,66.927231 2.028,3.507 -3.267,2.317 -0.028,-0.154 -0.419,-0.915 -1.447,-1.27 -0.351,0.333 -2.131,-0.802 -0.285,-0.374 0.041,-0.23 0.568,-0.357 1.803,-1.207 0.248,-0.987 1.004,-0.135 2.236,0.274'
+  },
+  {
+    name: 'San Saba',
+    bbox: { x: 83.335, y: 69.339, width: 7.238, height: 7.432 },
+    d: 'm 84.668861,69.339231 -0.041,0.23 0.285,0.374 2.131,0.802 0.351,-0.333 1.447,1.27 0.419,0.915 0.028,0.154 1.284,2.628 -0.103,1.392 -5.734,-0.162 -1.401,-0.298 0.238,-6.706 1.096,-0.266'
+  },
+  {
+    name: 'McCulloch',
+    bbox: { x: 77.764, y: 69.006, width: 5.809, height: 7.305 },
+    d: 'm 82.342861,69.483231 1.23,0.122 -0.238,6.706 -4.336,-0.148 -1.235,-1.939 0.212,-5.218 0.712,0.139 0.996,0.154 2.118,0.053 0.541,0.131'
+  },
+  {
+    name: 'Concho',
+    bbox: { x: 72.121, y: 67.64, width: 5.855, height: 6.584 },
+    d: 'm 76.704861,67.860231 1.271,1.146 -0.212,5.218 -5.643,-0.238 0.32,-6.346 4.264,0.22'
+  },
+  {
+    name: 'Tom Green',
+    bbox: { x: 59.736, y: 65.639, width: 12.705, height: 8.347 },
+    d: 'm 64.692861,65.778231 6.446,0.346 1.302,1.516 -0.32,6.346 -6.323,-0.275 0.234,-5.638 -3.263,-0.217 -3.033,-0.176 0.022,-0.356 4.412,0.158 0.141,-1.843 0.382,0.139'
+  },
+  {
+    name: 'Coke',
+    bbox: { x: 64.693, y: 60.739, width: 6.68, height: 5.385 },
+    d: 'm 64.990861,60.739231 1.699,0.104 4.683,0.256 -0.234,5.025 -6.446,-0.346 0.298,-5.039'
+  },
+  {
+    name: 'Runnels',
+    bbox: { x: 71.139, y: 61.099, width: 5.904, height: 6.761 },
+    d: 'm 72.278861,61.136231 4.764,0.207 -0.338,6.517 -4.264,-0.22 -1.302,-1.516 0.234,-5.025 0.906,0.037'
+  },
+  {
+    name: 'Coleman',
+    bbox: { x: 76.705, y: 61.343, width: 5.981, height: 8.14 },
+    d: 'm 77.943861,61.388231 4.742,0.195 -0.343,7.9 -0.541,-0.131 -2.118,-0.053 -0.996,-0.154 -0.712,-0.139 -1.271,-1.146 0.338,-6.517 0.901,0.045'
+  },
+  {
+    name: 'Brown',
+    bbox: { x: 82.343, y: 61.583, width: 5.949, height: 8.022 },
+    d: 'm 83.527861,61.609231 2.115,0.086 2.649,4.958 -1.004,0.135 -0.248,0.987 -1.803,1.207 -0.568,0.357 -1.096,0.266 -1.23,-0.122 0.343,-7.9 0.842,0.026'
+  },
+  {
+    name: 'Comanche',
+    bbox: { x: 85.643, y: 59.442, width: 8.293, height: 7.485 },
+    d: 'm 89.769861,59.442231 2.331,4.199 0.843,-0.481 0.45,0.82 0.542,0.991 -3.408,1.956 -2.236,-0.274 -2.649,-4.958 4.127,-2.253'
+  },
+  {
+    name: 'Hamilton',
+    bbox: { x: 90.528, y: 62.731, width: 7.631, height: 7.703 },
+    d: 'm 93.393861,63.980231 2.245,-1.249 2.52,4.512 -4.589,2.6 -1.014,0.591 -2.028,-3.507 3.408,-1.956 -0.542,-0.991'
+  },
+  {
+    name: 'Bosque',
+    bbox: { x: 95.639, y: 60.411, width: 7.887, height: 7.959 },
+    d: 'm 99.934861,60.411231 1.504999,0.414 -0.122,0.798 -0.077,0.671 0.059,0.546 1.731,3.119 0.131,0.202 0.364,0.226 -3.618999,1.983 -1.748,-1.127 -2.52,-4.512 1.546,-0.865 2.75,-1.455'
+  },
+  {
+    name: 'Falls',
+    bbox: { x: 103.436, y: 69.325, width: 7.496, height: 6.892 },
+    d: 'm 108.71386,69.325231 2.218,3.908 -2.57,1.465 -2.676,1.519 -2.25,-3.817 5.278,-3.075'
+  },
+  {
+    name: 'McLennan',
+    bbox: { x: 99.907, y: 64.9, width: 8.807, height: 7.5 },
+    d: 'm 107.29886,66.905231 1.415,2.42 -5.278,3.075 -1.537,-0.542 -1.991999,-3.488 3.618999,-1.983 2.646,-1.487 1.127,2.005'
+  },
+  {
+    name: 'Hill',
+    bbox: { x: 101.241, y: 59.694, width: 8.402, height: 7.211 },
+    d: 'm 101.43986,60.825231 4.254,-1.131 2.047,2.497 1.902,3.366 -2.344,1.348 -1.127,-2.005 -2.646,1.487 -0.364,-0.226 -0.131,-0.202 -1.731,-3.119 -0.059,-0.546 0.077,-0.671 0.122,-0.798'
+  },
+  {
+    name: 'Limestone',
+    bbox: { x: 107.299, y: 65.557, width: 7.608, height: 7.676 },
+    d: 'm 109.64286,65.557231 2.429,0.257 2.835,4.953 -0.911,0.722 -3.064,1.744 -2.218,-3.908 -1.415,-2.42 2.344,-1.348'
+  },
+  {
+    name: 'Freestone',
+    bbox: { x: 112.072, y: 63.029, width: 7.766, height: 7.738 },
+    d: 'm 116.92986,63.115231 -0.098,0.603 0.968,1.798 0.699,0.704 0.37,0.136 0.874,1.031 0.095,0.736 -4.931,2.644 -2.835,-4.953 4.836,-2.785 0.022,0.086'
+  },
+  {
+    name: 'Navarro',
+    bbox: { x: 107.741, y: 58.936, width: 9.167, height: 6.878 },
+    d: 'm 107.74086,62.191231 5.597,-3.255 1.024,0.473 0.595,0.542 0.387,0.464 0.924,1.118 0.505,0.752 0.135,0.744 -4.836,2.785 -2.429,-0.257 -1.902,-3.366'
+  },
+  {
+    name: 'Somervell',
+    bbox: { x: 96.347, y: 58.924, width: 3.61, height: 2.942 },
+    d: 'm 96.346861,59.961231 3.61,-1.037 -0.022,1.487 -2.75,1.455 -0.838,-1.905'
+  },
+  {
+    name: 'Ellis',
+    bbox: { x: 105.694, y: 56.02, width: 7.644, height: 6.171 },
+    d: 'm 105.72986,56.020231 0.528,0.019 5.508,0.091 0.833,2.415 0.739,0.391 -5.597,3.255 -2.047,-2.497 0.036,-3.674'
+  },
+  {
+    name: 'Johnson',
+    bbox: { x: 99.935, y: 55.863, width: 5.795, height: 4.962 },
+    d: 'm 99.988861,55.863231 0.719999,0.014 5.021,0.143 -0.036,3.674 -4.254,1.131 -1.504999,-0.414 0.022,-1.487 0.032,-3.061'
+  },
+  {
+    name: 'Hood',
+    bbox: { x: 95.089, y: 55.723, width: 4.9, height: 4.238 },
+    d: 'm 95.120861,55.723231 4.868,0.14 -0.032,3.061 -3.61,1.037 -1.258,-3.624 0.032,-0.614'
+  },
+  {
+    name: 'Erath',
+    bbox: { x: 89.77, y: 56.21, width: 7.415, height: 7.77 },
+    d: 'm 95.088861,56.337231 1.258,3.624 0.838,1.905 -1.546,0.865 -2.245,1.249 -0.45,-0.82 -0.843,0.481 -2.331,-4.199 0.911,-3.232 4.408,0.127'
+  },
+  {
+    name: 'Eastland',
+    bbox: { x: 83.528, y: 55.983, width: 7.153, height: 5.712 },
+    d: 'm 83.956861,55.989231 5.629,0.167 1.095,0.054 -0.911,3.232 -4.127,2.253 -2.115,-0.086 0.23,-5.626 0.199,0.006'
+  },
+  {
+    name: 'Callahan',
+    bbox: { x: 77.944, y: 55.786, width: 5.814, height: 5.823 },
+    d: 'm 78.367861,55.795231 5.39,0.188 -0.23,5.626 -0.842,-0.026 -4.742,-0.195 0.235,-5.602 0.189,0.009'
+  },
+  {
+    name: 'Taylor',
+    bbox: { x: 72.279, y: 55.453, width: 5.9, height: 5.935 },
+    d: 'm 78.178861,55.786231 -0.235,5.602 -0.901,-0.045 -4.764,-0.207 0.306,-5.683 5.594,0.333'
+  },
+  {
+    name: 'Nolan',
+    bbox: { x: 66.69, y: 55.165, width: 5.895, height: 5.971 },
+    d: 'm 72.584861,55.453231 -0.306,5.683 -0.906,-0.037 -4.683,-0.256 0.329,-5.678 5.566,0.288'
+  },
+  {
+    name: 'Fisher',
+    bbox: { x: 67.019, y: 49.504, width: 5.837, height: 5.949 },
+    d: 'm 68.821861,49.580231 4.034,0.225 -0.271,5.648 -5.566,-0.288 0.329,-5.661 1.474,0.076'
+  },
+  {
+    name: 'Jones',
+    bbox: { x: 72.585, y: 49.805, width: 5.999, height: 5.99 },
+    d: 'm 72.855861,49.805231 1.672,0.068 4.056,0.203 -0.216,5.719 -0.189,-0.009 -5.594,-0.333 0.271,-5.648'
+  },
+  {
+    name: 'Shackelford',
+    bbox: { x: 78.368, y: 50.076, width: 5.774, height: 5.913 },
+    d: 'm 78.583861,50.076231 1.519,0.055 4.039,0.139 -0.185,5.719 -0.199,-0.006 -5.39,-0.188 0.216,-5.719'
+  },
+  {
+    name: 'Stephens',
+    bbox: { x: 83.957, y: 50.27, width: 5.791, height: 5.886 },
+    d: 'm 85.705861,50.324231 4.042,0.148 -0.162,5.684 -5.629,-0.167 0.185,-5.719 1.564,0.054'
+  },
+  {
+    name: 'Palo Pinto',
+    bbox: { x: 89.586, y: 49.824, width: 5.774, height: 6.513 },
+    d: 'm 91.370861,49.824231 3.989,0.153 -0.239,5.746 -0.032,0.614 -4.408,-0.127 -1.095,-0.054 0.162,-5.684 1.623,-0.648'
+  },
+  {
+    name: 'Parker',
+    bbox: { x: 95.121, y: 49.977, width: 5.751, height: 5.9 },
+    d: 'm 95.359861,49.977231 1.447,0.058 4.064999,0.162 -0.163,5.68 -0.719999,-0.014 -4.868,-0.14 0.239,-5.746'
+  },
+  {
+    name: 'Tarrant',
+    bbox: { x: 100.709, y: 50.197, width: 5.675, height: 5.842 },
+    d: 'm 100.87186,50.197231 1.568,0.077 3.944,0.121 -0.126,5.644 -0.528,-0.019 -5.021,-0.143 0.163,-5.68'
+  },
+  {
+    name: 'Dallas',
+    bbox: { x: 106.258, y: 50.378, width: 5.679, height: 5.752 },
+    d: 'm 106.38386,50.395231 2.019,-0.017 3.534,0.094 -0.036,2.182 -0.135,3.476 -5.508,-0.091 0.126,-5.644'
+  },
+  {
+    name: 'Rockwall',
+    bbox: { x: 111.901, y: 50.472, width: 2.403, height: 2.182 },
+    d: 'm 114.30386,50.490231 -0.006,1.811 -2.397,0.353 0.036,-2.182 2.367,0.018'
+  },
+  {
+    name: 'Kaufman',
+    bbox: { x: 111.766, y: 52.301, width: 4.917, height: 6.27 },
+    d: 'm 114.29786,52.301231 2.381,0.046 0.004,6.224 -4.084,-0.026 -0.833,-2.415 0.135,-3.476 2.397,-0.353'
+  },
+  {
+    name: 'Rains',
+    bbox: { x: 118.215, y: 50.522, width: 3.231, height: 3.349 },
+    d: 'm 118.98586,50.522231 2.127,0.243 0.333,3.106 -3.231,-1.506 0.771,-1.843'
+  },
+  {
+    name: 'Van Zandt',
+    bbox: { x: 116.679, y: 52.347, width: 6.805, height: 6.239 },
+    d: 'm 118.21486,52.365231 3.231,1.506 0.442,0.429 0.019,2.68 1.333,1.42 0.244,0.186 -6.801,-0.015 -0.004,-6.224 1.536,0.018'
+  },
+  {
+    name: 'Henderson',
+    bbox: { x: 112.599, y: 58.545, width: 11.132, height: 4.57 },
+    d: 'm 116.68286,58.571231 6.801,0.015 -0.099,2.84 0.346,0.657 -6.801,1.032 -0.022,-0.086 -0.135,-0.744 -0.505,-0.752 -0.924,-1.118 -0.387,-0.464 -0.595,-0.542 -1.024,-0.473 -0.739,-0.391 4.084,0.026'
+  },
+  {
+    name: 'Anderson',
+    bbox: { x: 116.832, y: 62.083, width: 8.793, height: 7.513 },
+    d: 'm 123.73086,62.083231 -0.193,1.754 0.176,0.931 0.406,1.461 0.765,0.698 0.149,0.032 0.249,0.302 0.153,0.32 0.157,0.5 0.032,0.127 -0.153,0.216 -2.408,0.375 -1.739,0.306 -0.965,0.491 -0.522,-1.473 -0.095,-0.736 -0.874,-1.031 -0.37,-0.136 -0.699,-0.704 -0.968,-1.798 0.098,-0.603 6.801,-1.032'
+  },
+  {
+    name: 'Houston',
+    bbox: { x: 119.978, y: 68.424, width: 8.982, height: 8.568 },
+    d: 'm 120.35986,69.596231 0.965,-0.491 1.739,-0.306 2.408,-0.375 0.703,0.271 1.09,1.117 1.19,0.735 0.505,0.501 -5.214,4.291 -2.016,1.653 -1.626,-2.105 -0.113,-0.37 -0.013,-0.168 0.554,-1.752 0.248,-0.279 0.094,-0.054 0.046,0.009 0.247,-0.628 -0.491,-1.405 -0.203,-0.455 -0.113,-0.189'
+  },
+  {
+    name: 'Trinity',
+    bbox: { x: 123.746, y: 71.048, width: 6.517, height: 7.283 },
+    d: 'm 130.26286,74.134231 -3.903,4.197 -1.416,-0.443 -1.198,-2.549 5.214,-4.291 1.303,3.086'
+  },
+  {
+    name: 'Polk',
+    bbox: { x: 126.36, y: 74.134, width: 7.301, height: 8.452 },
+    d: 'm 133.37686,75.221231 -1.055,0.626 1.339,6.234 -2.074,0.505 -1.297,-0.028 -0.356,-0.738 -2.813,-2.696 -0.761,-0.793 3.903,-4.197 1.252,0.524 0.961,0.202 0.901,0.361'
+  },
+  {
+    name: 'Newton',
+    bbox: { x: 140.529, y: 73.364, width: 3.981, height: 12.245 },
+    d: 'm 143.95586,73.499231 0.513,-0.135 0.041,4.088 -0.199,0.865 -1.582,2.979 -0.126,0.451 0,0.005 0.032,0.034 0.311,0.375 0.157,0.804 -0.004,0.067 -0.045,0.112 -0.425,0.357 -0.012,0.012 0.341,2.025 -2.063,0.071 0.167,-5.475 0.027,-3.616 -0.56,-2.704 3.427,-0.315'
+  },
+  {
+    name: 'Jasper',
+    bbox: { x: 134.531, y: 73.814, width: 6.558, height: 11.859 },
+    d: 'm 139.12286,74.148231 1.406,-0.334 0.56,2.704 -0.027,3.616 -0.167,5.475 -2.406,0.064 0.116,-0.163 0.203,-1.257 -0.113,-0.118 -0.036,-0.012 -0.202,-0.461 -0.032,-0.18 0.122,-0.5 0.098,-0.298 0.28,-0.684 -0.167,-0.271 -0.116,-0.379 0.03,-0.099 0.249,-0.479 -0.054,-0.517 -0.788,-1.564 -0.1,-0.085 -0.249,-0.036 -0.067,-0.014 -0.026,-0.031 -0.744,-2.169 0.076,-0.432 -0.04,-0.103 -0.131,-0.136 -0.514,-0.198 -0.654,0.018 -1.099,0.031 3.606,-0.915 0.986,-0.473'
+  },
+  {
+    name: 'Tyler',
+    bbox: { x: 132.322, y: 75.221, width: 6.603, height: 6.86 },
+    d: 'm 134.53086,75.536231 1.099,-0.031 0.654,-0.018 0.514,0.198 0.131,0.136 0.04,0.103 -0.076,0.432 0.744,2.169 0.026,0.031 0.067,0.014 0.249,0.036 0.1,0.085 0.788,1.564 0.054,0.517 -0.249,0.479 -0.03,0.099 0.116,0.379 0.167,0.271 -5.264,0.081 -1.339,-6.234 1.055,-0.626 1.154,0.315'
+  },
+  {
+    name: 'Angelina',
+    bbox: { x: 128.455, y: 69.231, width: 9.682, height: 6.305 },
+    d: 'm 129.95186,69.231231 0.468,0.518 2.037,0.523 0.492,-0.081 0.432,0.181 0.582,0.305 0.14,0.15 1.829,2.217 2.205,1.577 -3.606,0.915 -1.154,-0.315 -0.901,-0.361 -0.961,-0.202 -1.252,-0.524 -1.303,-3.086 -0.505,-0.501 1.497,-1.316'
+  },
+  {
+    name: 'Sabine',
+    bbox: { x: 138.989, y: 68.265, width: 4.967, height: 5.883 },
+    d: 'm 141.24186,68.265231 1.185,1.245 1.01,1.465 0.329,1.434 0.076,0.423 0.114,0.667 -3.427,0.315 -1.406,0.334 -0.094,-0.302 -0.04,-1.798 0.009,-1.456 0.468,-0.504 0.184,-0.235 -0.044,-1.329 1.636,-0.259'
+  },
+  {
+    name: 'San Augustine',
+    bbox: { x: 135.045, y: 67.522, width: 4.605, height: 7.099 },
+    d: 'm 139.60586,68.524231 0.044,1.329 -0.184,0.235 -0.468,0.504 -0.009,1.456 0.04,1.798 0.094,0.302 -0.986,0.473 -2.205,-1.577 0.059,-1.541 0.081,-2.944 -0.766,-0.856 -0.261,-0.181 3.385,0.361 1.176,0.641'
+  },
+  {
+    name: 'Shelby',
+    bbox: { x: 133.747, y: 63.228, width: 7.495, height: 5.296 },
+    d: 'm 133.74686,63.403231 5.408,-0.175 1.537,1.717 0.55,3.32 -1.636,0.259 -1.176,-0.641 -3.385,-0.361 -0.627,-2.456 -0.671,-1.663'
+  },
+  {
+    name: 'Nacogdoches',
+    bbox: { x: 128.716, y: 65.066, width: 7.356, height: 7.978 },
+    d: 'm 129.12286,65.125231 5.295,-0.059 0.627,2.456 0.261,0.181 0.766,0.856 -0.081,2.944 -0.059,1.541 -1.829,-2.217 -0.14,-0.15 -0.582,-0.305 -0.432,-0.181 -0.492,0.081 -2.037,-0.523 -0.468,-0.518 -0.596,-0.587 -0.053,-0.085 -0.27,-0.734 -0.2,-0.744 -0.117,-1.155 0.407,-0.801'
+  },
+  {
+    name: 'Cherokee',
+    bbox: { x: 123.385, y: 61.352, width: 6.567, height: 9.195 },
+    d: 'm 123.38486,61.426231 5.17,-0.074 0.568,3.773 -0.407,0.801 0.117,1.155 0.2,0.744 0.27,0.734 0.053,0.085 0.596,0.587 -1.497,1.316 -1.19,-0.735 -1.09,-1.117 -0.703,-0.271 0.153,-0.216 -0.032,-0.127 -0.157,-0.5 -0.153,-0.32 -0.249,-0.302 -0.149,-0.032 -0.765,-0.698 -0.406,-1.461 -0.176,-0.931 0.193,-1.754 -0.346,-0.657'
+  },
+  {
+    name: 'Panola',
+    bbox: { x: 132.746, y: 57.905, width: 6.409, height: 5.521 },
+    d: 'm 138.74886,57.905231 0.055,2.537 0.351,2.786 -5.408,0.175 -0.964,0.023 -0.037,-1.379 0.211,-1.596 0.239,-0.596 0.347,-0.612 0.326,-0.789 0.008,-0.491 0.311,0.275 1.176,0.505 0.091,0.017 3.294,-0.855'
+  },
+  {
+    name: 'Rusk',
+    bbox: { x: 128.514, y: 57.963, width: 5.904, height: 7.162 },
+    d: 'm 132.92586,57.971231 0.951,-0.008 -0.008,0.491 -0.326,0.789 -0.347,0.612 -0.239,0.596 -0.211,1.596 0.037,1.379 0.964,-0.023 0.671,1.663 -5.295,0.059 -0.568,-3.773 -0.041,-2.992 1.916,-0.041 1.798,-0.018 0.698,-0.33'
+  },
+  {
+    name: 'Gregg',
+    bbox: { x: 128.473, y: 54.538, width: 4.453, height: 3.822 },
+    d: 'm 128.47286,56.187231 0.176,-0.018 1.632,-0.699 0.644,-0.896 0.081,-0.036 0.509,0.058 0.032,0.063 0.04,2.579 0.014,0.387 0.645,0.311 0.572,0.075 0.108,-0.04 -0.698,0.33 -1.798,0.018 -1.916,0.041 -0.041,-2.173'
+  },
+  {
+    name: 'Smith',
+    bbox: { x: 121.888, y: 54.3, width: 6.667, height: 7.126 },
+    d: 'm 121.88786,54.300231 0.979,0.877 0.31,0.136 3.114,0.78 0.078,-0.009 0.207,-0.101 0.099,-0.201 1.798,0.405 0.041,2.173 0.041,2.992 -5.17,0.074 0.099,-2.84 -0.244,-0.186 -1.333,-1.42 -0.019,-2.68'
+  },
+  {
+    name: 'Wood',
+    bbox: { x: 121.113, y: 50.045, width: 5.562, height: 6.048 },
+    d: 'm 126.63486,50.045231 0.013,1.437 0.027,4.3 -0.099,0.201 -0.207,0.101 -0.078,0.009 -3.114,-0.78 -0.31,-0.136 -0.979,-0.877 -0.442,-0.429 -0.333,-3.106 3.84,-0.049 1.682,-0.671'
+  },
+  {
+    name: 'Harrison',
+    bbox: { x: 131.52, y: 52.843, width: 7.229, height: 5.917 },
+    d: 'm 131.51986,52.843231 2.127,1.252 1.326,-0.012 0.356,-0.181 1.285,-0.166 0.76,-0.063 0.551,0.067 0.739,0.275 0.085,3.89 -3.294,0.855 -0.091,-0.017 -1.176,-0.505 -0.311,-0.275 -0.951,0.008 -0.108,0.04 -0.572,-0.075 -0.645,-0.311 -0.014,-0.387 -0.04,-2.579 -0.027,-1.816'
+  },
+  {
+    name: 'Upshur',
+    bbox: { x: 126.648, y: 51.4, width: 4.899, height: 4.787 },
+    d: 'm 126.64786,51.482231 4.66,-0.082 0.158,0.329 0.054,1.114 0.027,1.816 -0.032,-0.063 -0.509,-0.058 -0.081,0.036 -0.644,0.896 -1.632,0.699 -0.176,0.018 -1.798,-0.405 -0.027,-4.3'
+  },
+  {
+    name: 'Camp',
+    bbox: { x: 126.635, y: 49.219, width: 4.673, height: 2.263 },
+    d: 'm 126.63486,50.045231 0.279,-0.276 0.919,-0.501 0.239,-0.046 0.194,-0.003 0.635,0.01 0.145,0.049 0.572,0.708 0.604,0.414 1.086,1 -4.66,0.082 -0.013,-1.437'
+  },
+  {
+    name: 'Marion',
+    bbox: { x: 131.466, y: 51.581, width: 7.198, height: 2.514 },
+    d: 'm 132.02486,51.717231 6.594,-0.136 0.045,2.434 -0.739,-0.275 -0.551,-0.067 -0.76,0.063 -1.285,0.166 -0.356,0.181 -1.326,0.012 -2.127,-1.252 -0.054,-1.114 0.559,-0.012'
+  },
+  {
+    name: 'Cass',
+    bbox: { x: 131.975, y: 46.059, width: 6.644, height: 5.658 },
+    d: 'm 131.97486,46.676231 0.027,0.124 0.09,0.072 0.361,0.071 4.043,0.023 0.023,-0.037 -0.037,-0.117 -0.031,-0.27 0.172,-0.306 0.337,-0.117 0.266,-0.06 0.969,0.155 0.225,0.116 0.091,0.203 0.068,3.259 0.04,1.789 -6.594,0.136 -0.05,-5.041'
+  },
+  {
+    name: 'Morris',
+    bbox: { x: 130.222, y: 45.469, width: 1.803, height: 6.26 },
+    d: 'm 130.27486,45.469231 0.673,0.442 1.027,0.765 0.05,5.041 -0.559,0.012 -0.158,-0.329 -1.086,-1 0.053,-4.931'
+  },
+  {
+    name: 'Titus',
+    bbox: { x: 126.877, y: 45.173, width: 3.398, height: 5.227 },
+    d: 'm 130.27486,45.469231 -0.053,4.931 -0.604,-0.414 -0.572,-0.708 -0.145,-0.049 -0.635,-0.01 -0.194,0.003 -0.239,0.046 -0.919,0.501 -0.037,-4.596 3.398,0.296'
+  },
+  {
+    name: 'Franklin',
+    bbox: { x: 124.917, y: 45.173, width: 1.997, height: 5.543 },
+    d: 'm 126.87686,45.173231 0.037,4.596 -0.279,0.276 -1.682,0.671 -0.036,-5.364 0.022,-0.017 1.938,-0.162'
+  },
+  {
+    name: 'Hopkins',
+    bbox: { x: 118.986, y: 45.352, width: 5.967, height: 5.413 },
+    d: 'm 118.98986,47.417231 0.884,-0.524 0.482,-0.563 1.334,-0.609 0.257,-0.108 0.55,-0.018 2.42,-0.243 0.036,5.364 -3.84,0.049 -2.127,-0.243 0.004,-3.105'
+  },
+  {
+    name: 'Delta',
+    bbox: { x: 118.99, y: 43.838, width: 5.949, height: 3.579 },
+    d: 'm 119.03086,44.280231 0.834,-0.388 0.198,-0.054 1.487,0.108 0.208,0.032 1.176,0.369 0.208,0.09 1.086,0.739 0.689,0.126 0.022,0.033 -0.022,0.017 -2.42,0.243 -0.55,0.018 -0.257,0.108 -1.334,0.609 -0.482,0.563 -0.884,0.524 0.028,-2.465 0.013,-0.672'
+  },
+  {
+    name: 'Hunt',
+    bbox: { x: 114.298, y: 44.952, width: 4.72, height: 7.413 },
+    d: 'm 119.01786,44.952231 -0.028,2.465 -0.004,3.105 -0.771,1.843 -1.536,-0.018 -2.381,-0.046 0.006,-1.811 0.035,-4.795 4.679,-0.743'
+  },
+  {
+    name: 'Collin',
+    bbox: { x: 108.403, y: 44.969, width: 5.936, height: 5.521 },
+    d: 'm 108.56486,44.969231 4.819,0.13 0.955,0.596 -0.035,4.795 -2.367,-0.018 -3.534,-0.094 0.162,-5.409'
+  },
+  {
+    name: 'Denton',
+    bbox: { x: 102.44, y: 44.577, width: 6.125, height: 5.818 },
+    d: 'm 102.68786,44.577231 4.706,0.239 1.171,0.153 -0.162,5.409 -2.019,0.017 -3.944,-0.121 0.248,-5.697'
+  },
+  {
+    name: 'Wise',
+    bbox: { x: 96.807, y: 44.433, width: 5.881, height: 5.841 },
+    d: 'm 96.958861,44.433231 4.615999,0.085 1.113,0.059 -0.248,5.697 -1.568,-0.077 -4.064999,-0.162 0.152,-5.602'
+  },
+  {
+    name: 'Jack',
+    bbox: { x: 91.371, y: 43.883, width: 5.588, height: 6.152 },
+    d: 'm 91.578861,43.883231 4.736,0.108 0.644,0.442 -0.152,5.602 -1.447,-0.058 -3.989,-0.153 0.194,-5.025 0.014,-0.916'
+  },
+  {
+    name: 'Young',
+    bbox: { x: 85.706, y: 44.618, width: 5.859, height: 5.854 },
+    d: 'm 85.849861,44.618231 5.715,0.181 -0.194,5.025 -1.623,0.648 -4.042,-0.148 0.144,-5.706'
+  },
+  {
+    name: 'Throckmorton',
+    bbox: { x: 80.103, y: 44.411, width: 5.747, height: 5.913 },
+    d: 'm 80.296861,44.411231 5.553,0.207 -0.144,5.706 -1.564,-0.054 -4.039,-0.139 0.194,-5.72'
+  },
+  {
+    name: 'Haskell',
+    bbox: { x: 74.528, y: 44.217, width: 5.769, height: 5.914 },
+    d: 'm 74.743861,44.217231 5.553,0.194 -0.194,5.72 -1.519,-0.055 -4.056,-0.203 0.216,-5.656'
+  },
+  {
+    name: 'Stonewall',
+    bbox: { x: 68.822, y: 43.955, width: 5.922, height: 5.918 },
+    d: 'm 69.105861,43.955231 5.638,0.262 -0.216,5.656 -1.672,-0.068 -4.034,-0.225 0.284,-5.625'
+  },
+  {
+    name: 'Dickens',
+    bbox: { x: 63.526, y: 38.038, width: 5.837, height: 5.917 },
+    d: 'm 63.800861,38.038231 5.562,0.252 -0.257,5.665 -5.58,-0.271 0.275,-5.646'
+  },
+  {
+    name: 'Motley',
+    bbox: { x: 63.801, y: 31.836, width: 5.873, height: 6.454 },
+    d: 'm 64.124861,31.836231 1.01,0.049 4.539,0.21 -0.311,6.195 -5.562,-0.252 0.324,-6.202'
+  },
+  {
+    name: 'Hall',
+    bbox: { x: 65.135, y: 26.247, width: 5.873, height: 5.904 },
+    d: 'm 69.691861,26.463231 1.316,0.067 -0.284,5.621 -1.05,-0.056 -4.539,-0.21 0.307,-5.638 4.25,0.216'
+  },
+  {
+    name: 'Donley',
+    bbox: { x: 63.909, y: 20.546, width: 6.071, height: 5.917 },
+    d: 'm 69.979861,20.820231 -0.288,5.643 -4.25,-0.216 -1.533,-0.082 0.347,-5.619 5.724,0.274'
+  },
+  {
+    name: 'Gray',
+    bbox: { x: 64.256, y: 14.88, width: 5.981, height: 5.94 },
+    d: 'm 64.561861,14.880231 5.675,0.284 -0.257,5.656 -5.724,-0.274 0.306,-5.666'
+  },
+  {
+    name: 'Roberts',
+    bbox: { x: 64.562, y: 9.192, width: 5.95, height: 5.972 },
+    d: 'm 64.868861,9.2232306 0,-0.031 5.575,0.297 0.068,0.004 -0.275,5.6710004 -5.675,-0.284 0.005,-0.081 0.302,-5.5760004'
+  },
+  {
+    name: 'Ochiltree',
+    bbox: { x: 64.869, y: 3.464, width: 5.855, height: 6.025 },
+    d: 'm 66.527861,3.53123 4.196,0.211 -0.28,5.7470006 -5.575,-0.297 0.311,-5.7280006 1.348,0.067'
+  },
+  {
+    name: 'Lipscomb',
+    bbox: { x: 70.444, y: 3.742, width: 5.86, height: 6.014 },
+    d: 'm 70.723861,3.74223 5.58,0.249 -0.212,5.7650006 -5.58,-0.263 -0.068,-0.004 0.28,-5.7470006'
+  },
+  {
+    name: 'Hemphill',
+    bbox: { x: 70.237, y: 9.493, width: 5.855, height: 5.928 },
+    d: 'm 76.091861,9.7562306 -0.095,2.2660004 -0.139,3.399 -5.621,-0.257 0.275,-5.6710004 5.58,0.263'
+  },
+  {
+    name: 'Wheeler',
+    bbox: { x: 69.98, y: 15.164, width: 5.878, height: 5.918 },
+    d: 'm 70.236861,15.164231 5.621,0.257 -0.239,5.661 -5.639,-0.262 0.257,-5.656'
+  },
+  {
+    name: 'Collingsworth',
+    bbox: { x: 69.692, y: 20.82, width: 5.927, height: 5.918 },
+    d: 'm 69.979861,20.820231 5.639,0.262 -0.086,1.974 -0.153,3.682 -4.372,-0.208 -1.316,-0.067 0.288,-5.643'
+  },
+  {
+    name: 'Childress',
+    bbox: { x: 70.724, y: 26.53, width: 4.656, height: 5.842 },
+    d: 'm 71.007861,26.530231 4.372,0.208 -0.072,2.398 -0.14,3.236 -4.444,-0.221 0.284,-5.621'
+  },
+  {
+    name: 'Cottle',
+    bbox: { x: 69.363, y: 32.095, width: 5.805, height: 6.415 },
+    d: 'm 69.673861,32.095231 1.05,0.056 4.444,0.221 -0.045,1.132 -0.118,-0.231 -0.297,0.028 -0.104,0.113 -0.234,5.096 -5.007,-0.22 0.311,-6.195'
+  },
+  {
+    name: 'King',
+    bbox: { x: 69.106, y: 38.29, width: 5.819, height: 5.927 },
+    d: 'm 69.362861,38.290231 5.007,0.22 0.555,0.028 -0.181,5.679 -5.638,-0.262 0.257,-5.665'
+  },
+  {
+    name: 'Knox',
+    bbox: { x: 74.744, y: 38.538, width: 5.688, height: 5.873 },
+    d: 'm 80.431861,40.079231 -0.135,4.332 -5.553,-0.194 0.181,-5.679 1.712,0.072 1.438,0.279 1.636,0.361 0.541,0.383 0.153,0.279 0.027,0.167'
+  },
+  {
+    name: 'Foard',
+    bbox: { x: 74.37, y: 33.273, width: 6.22, height: 6.806 },
+    d: 'm 75.122861,33.504231 1.929,1.491 2.74,0.884 0.636,-0.105 0.121,-0.126 0.041,-0.126 -0.122,3.255 -0.036,1.302 -0.027,-0.167 -0.153,-0.279 -0.541,-0.383 -1.636,-0.361 -1.438,-0.279 -1.712,-0.072 -0.555,-0.028 0.234,-5.096 0.104,-0.113 0.297,-0.028 0.118,0.231'
+  },
+  {
+    name: 'Hardeman',
+    bbox: { x: 75.123, y: 29.136, width: 5.625, height: 6.743 },
+    d: 'm 76.852861,29.906231 0.55,0.713 0.266,0.315 0.739,0.703 0.325,0.077 0.09,0 0.41,-0.004 0.411,-0.519 0.058,-0.022 0.117,0.017 0.505,0.059 0.162,0.068 0.262,0.153 -0.158,4.056 -0.041,0.126 -0.121,0.126 -0.636,0.105 -2.74,-0.884 -1.929,-1.491 0.045,-1.132 0.14,-3.236 1.545,0.77'
+  },
+  {
+    name: 'Archer',
+    bbox: { x: 85.85, y: 38.966, width: 5.827, height: 5.833 },
+    d: 'm 86.034861,38.966231 5.642,0.135 -0.098,4.782 -0.014,0.916 -5.715,-0.181 0.185,-5.652'
+  },
+  {
+    name: 'Baylor',
+    bbox: { x: 80.297, y: 38.777, width: 5.738, height: 5.841 },
+    d: 'm 86.034861,38.966231 -0.185,5.652 -5.553,-0.207 0.135,-4.332 0.036,-1.302 5.567,0.189'
+  },
+  {
+    name: 'Wilbarger',
+    bbox: { x: 80.468, y: 30.943, width: 5.72, height: 8.023 },
+    d: 'm 83.505861,32.362231 -0.013,0.298 -0.009,0.28 0.184,1 0,0.004 0.005,0.006 0.135,0.04 0.216,0.067 0.397,0.09 0.198,-0.009 0.428,-0.008 0.978,0.077 0.014,0 0.149,0.075 -0.153,4.684 -5.567,-0.189 0.122,-3.255 0.158,-4.056 0.347,0.329 0.356,0.031 0.081,-0.035 0.009,0 0.014,-0.023 0.004,-0.01 0.455,-0.815 0.464,0.252 0.528,0.284 0.5,0.87 0,0.013'
+  },
+  {
+    name: 'Wichita',
+    bbox: { x: 86.035, y: 34.282, width: 5.746, height: 4.819 },
+    d: 'm 89.806861,34.837231 0.108,0.008 0.235,0.155 0.243,0.207 0.504,0.811 0.303,0.109 0.004,0.004 0.009,-0.009 0.568,-0.51 -0.104,3.489 -5.642,-0.135 0.153,-4.684 0.982,0.587 0.978,0.239 0.694,0.026 0.965,-0.297'
+  },
+  {
+    name: 'Clay',
+    bbox: { x: 91.579, y: 34.954, width: 5.232, height: 9.037 },
+    d: 'm 95.115861,36.622231 0.185,0.37 0.027,0.027 0.018,0.004 0.451,0.135 0.23,0 0.013,-0.004 0.37,-0.09 0.397,0.157 0.004,0.005 -0.095,0.689 -0.275,0.595 -0.126,5.481 -4.736,-0.108 0.098,-4.782 0.104,-3.489 0.428,-0.541 0.207,-0.117 0.406,0.091 1.65,0.518 0.644,1.059'
+  },
+  {
+    name: 'Montague',
+    bbox: { x: 96.315, y: 37.501, width: 5.391, height: 7.017 },
+    d: 'm 101.70586,38.272231 -0.131,6.246 -4.615999,-0.085 -0.644,-0.442 0.126,-5.481 0.118,0.109 0.941,0.429 0.127,0.012 0.333,-0.099 0.532,-0.419 0.559,-0.581 0.365,-0.46 1.085999,0.725 0.383,0.267 0.821,-0.221'
+  },
+  {
+    name: 'Cooke',
+    bbox: { x: 101.575, y: 37.915, width: 5.877, height: 6.901 },
+    d: 'm 107.45186,37.915231 -0.058,6.901 -4.706,-0.239 -1.113,-0.059 0.131,-6.246 0.211,0.964 0.028,0.067 0.009,0.023 0,0.005 0.063,0.076 0.094,0.063 3.106,1.357 0.149,0.05 0.171,0.022 0.153,-0.049 0.108,-0.086 0.05,-0.067 1.604,-2.782'
+  },
+  {
+    name: 'Fannin',
+    bbox: { x: 113.384, y: 39.15, width: 5.791, height: 6.545 },
+    d: 'm 119.17486,39.367231 -0.144,4.913 -0.013,0.672 -4.679,0.743 -0.955,-0.596 0.072,-4.272 0.103,0.141 1.591,-0.393 0.221,-0.059 0.194,-0.083 0.013,-0.016 0.1,-0.104 0.013,-0.017 0.005,-0.009 0.027,-0.086 0.031,-0.099 0.009,-0.036 0.005,-0.032 0.067,-0.311 0.09,-0.316 0.541,-0.125 1.199,-0.1 0.23,-0.017 0.145,-0.015 0.617,0.122 0.518,0.095'
+  },
+  {
+    name: 'Grayson',
+    bbox: { x: 107.394, y: 37.857, width: 6.062, height: 7.242 },
+    d: 'm 107.55586,37.857231 0.541,1.112 0.175,0.196 0.108,0.075 1.006,0.308 0.518,-0.087 0.009,-0.004 1.068,-0.482 -0.036,0.207 0.009,0.159 0.009,0.062 0.009,0.031 1.095,0.735 0.099,0.068 0.014,0 0.546,-0.104 0.126,0.014 0.14,0.045 0,0.004 0.464,0.631 -0.072,4.272 -4.819,-0.13 -1.171,-0.153 0.058,-6.901 0.104,-0.058'
+  },
+  {
+    name: 'Lamar',
+    bbox: { x: 119.031, y: 38.15, width: 5.886, height: 7.152 },
+    d: 'm 124.84986,38.943231 0.067,6.359 -0.689,-0.126 -1.086,-0.739 -0.208,-0.09 -1.176,-0.369 -0.208,-0.032 -1.487,-0.108 -0.198,0.054 -0.834,0.388 0.144,-4.913 0.915,-0.343 0.004,-0.004 0.893,-0.465 0.78,-0.405 0.346,0.018 0.081,0.032 0.113,0.288 -0.003,0.086 -0.032,0.091 0.003,0.066 0,0.009 0.042,0.072 0.04,0.036 1.055,0.14 0.4,0.032 0.722,-0.036 0.005,0 0.311,-0.041'
+  },
+  {
+    name: 'Aransas',
+    bbox: { x: 103.084, y: 110.548, width: 5.436, height: 6.147 },
+    d: 'm 103.08386,113.60721 0.222,0.181 0.036,0.005 1.023,-0.496 1.447,-1.091 0.071,-0.194 -0.238,-0.008 -0.248,-0.036 -0.438,-0.262 -0.256,-0.343 -0.018,-0.262 3.795,-0.553 -0.095,0.594 0.135,0.217 0,0.072 -0.153,0.333 -0.113,0.086 -1.437,1.181 -0.32,0.004 -0.997,1.29 -1.004,1.523 -1.412,-2.241 m 4.932,-0.409 -0.28,0.648 -2.226,2.849 -0.059,-0.163 2.565,-3.334'
+  },
+  {
+    name: 'Cameron',
+    bbox: { x: 95.702, y: 134.857, width: 8.289, height: 7.065 },
+    d: 'm 95.773861,135.57021 3.894,0.69 1.257999,-0.838 0.455,-0.565 0.055,0.028 0.54,0.757 -0.031,1.082 0.405,2.01 0.865,1.439 0.028,0.031 -0.136,0.441 -2.131,1.277 -1.036999,-0.317 -0.163,-0.099 -0.161,-0.125 -0.668,-0.528 -0.982,-1.095 -0.041,-0.145 -1.334,-0.233 -0.888,-0.154 0.072,-3.656 m 7.260999,-0.689 0.198,0 0.32,1.343 0.1,0.505 0.135,0.951 0.203,1.605 -0.054,-0.01 -0.032,-0.004 -0.094,-0.131 -0.104,-0.869 0.013,-0.397 -0.054,-0.474 -0.113,-0.729 -0.225,-1.05 -0.135,-0.41 -0.158,-0.33'
+  }
+];
@@ -0,0 +1,341 @@
+/**
+ * Texas region crosswalk
+ * 
+ * Groups counties into the regions planners work with. Keyed by the 3-digit county
+ * FIPS codes of TEXAS_COUNTY_FIPS.
+ * 
+ * Sources:
+ * - Councils of governments: the 24 state planning regions (Texas Association of Regional Councils)
+ * - Comptroller economic regions: the Texas Comptroller's 12 regions, each a group of planning regions
+ * - Metropolitan statistical areas: OMB Bulletin 20-01 delineations, Texas counties only
+ */
+
+import { RegionDefinition, RegionType } from '@/types';
+
+/**
+ * Every region, grouped by type
+ */
+export const TEXAS_REGIONS: RegionDefinition[] = [
+  { id: 'msa-abilene', name: 'Abilene', type: 'msa' },
+  { id: 'msa-amarillo', name: 'Amarillo', type: 'msa' },
+  { id: 'msa-austin', name: 'Austin-Round Rock-Georgetown', type: 'msa' },
+  { id: 'msa-beaumont', name: 'Beaumont-Port Arthur', type: 'msa' },
+  { id: 'msa-brownsville', name: 'Brownsville-Harlingen', type: 'msa' },
+  { id: 'msa-college-station', name: 'College Station-Bryan', type: 'msa' },
+  { id: 'msa-corpus-christi', name: 'Corpus Christi', type: 'msa' },
+  { id: 'msa-dallas-fort-worth', name: 'Dallas-Fort Worth-Arlington', type: 'msa' },
+  { id: 'msa-el-paso', name: 'El Paso', type: 'msa' },
+  { id: 'msa-houston', name: 'Houston-The Woodlands-Sugar Land', type: 'msa' },
+  { id: 'msa-killeen', name: 'Killeen-Temple', type: 'msa' },
+  { id: 'msa-laredo', name: 'Laredo', type: 'msa' },
+  { id: 'msa-longview', name: 'Longview', type: 'msa' },
+  { id: 'msa-lubbock', name: 'Lubbock', type: 'msa' },
+  { id: 'msa-mcallen', name: 'McAllen-Edinburg-Mission', type: 'msa' },
+  { id: 'msa-midland', name: 'Midland', type: 'msa' },
+  { id: 'msa-odessa', name: 'Odessa', type: 'msa' },
+  { id: 'msa-san-angelo', name: 'San Angelo', type: 'msa' },
+  { id: 'msa-san-antonio', name: 'San Antonio-New Braunfels', type: 'msa' },
+  { id: 'msa-sherman', name: 'Sherman-Denison', type: 'msa' },
+  { id: 'msa-texarkana', name: 'Texarkana (Texas portion)', type: 'msa' },
+  { id: 'msa-tyler', name: 'Tyler', type: 'msa' },
+  { id: 'msa-victoria', name: 'Victoria', type: 'msa' },
+  { id: 'msa-waco', name: 'Waco', type: 'msa' },
+  { id: 'msa-wichita-falls', name: 'Wichita Falls', type: 'msa' },
+  { id: 'cog-panhandle', name: 'Panhandle Regional Planning Commission', type: 'cog' },
+  { id: 'cog-south-plains', name: 'South Plains Association of Governments', type: 'cog' },
+  { id: 'cog-nortex', name: 'Nortex Regional Planning Commission', type: 'cog' },
+  { id: 'cog-north-central-texas', name: 'North Central Texas Council of Governments', type: 'cog' },
+  { id: 'cog-ark-tex', name: 'Ark-Tex Council of Governments', type: 'cog' },
+  { id: 'cog-east-texas', name: 'East Texas Council of Governments', type: 'cog' },
+  { id: 'cog-west-central-texas', name: 'West Central Texas Council of Governments', type: 'cog' },
+  { id: 'cog-rio-grande', name: 'Rio Grande Council of Governments', type: 'cog' },
+  { id: 'cog-permian-basin', name: 'Permian Basin Regional Planning Commission', type: 'cog' },
+  { id: 'cog-concho-valley', name: 'Concho Valley Council of Governments', type: 'cog' },
+  { id: 'cog-heart-of-texas', name: 'Heart of Texas Council of Governments', type: 'cog' },
+  { id: 'cog-capital-area', name: 'Capital Area Council of Governments', type: 'cog' },
+  { id: 'cog-brazos-valley', name: 'Brazos Valley Council of Governments', type: 'cog' },
+  { id: 'cog-deep-east-texas', name: 'Deep East Texas Council of Governments', type: 'cog' },
+  { id: 'cog-south-east-texas', name: 'South East Texas Regional Planning Commission', type: 'cog' },
+  { id: 'cog-houston-galveston', name: 'Houston-Galveston Area Council', type: 'cog' },
+  { id: 'cog-golden-crescent', name: 'Golden Crescent Regional Planning Commission', type: 'cog' },
+  { id: 'cog-alamo-area', name: 'Alamo Area Council of Governments', type: 'cog' },
+  { id: 'cog-south-texas', name: 'South Texas Development Council', type: 'cog' },
+  { id: 'cog-coastal-bend', name: 'Coastal Bend Council of Governments', type: 'cog' },
+  { id: 'cog-lower-rio-grande-valley', name: 'Lower Rio Grande Valley Development Council', type: 'cog' },
+  { id: 'cog-texoma', name: 'Texoma Council of Governments', type: 'cog' },
+  { id: 'cog-central-texas', name: 'Central Texas Council of Governments', type: 'cog' },
+  { id: 'cog-middle-rio-grande', name: 'Middle Rio Grande Development Council', type: 'cog' },
+  { id: 'comptroller-high-plains', name: 'High Plains', type: 'comptroller' },
+  { id: 'comptroller-northwest', name: 'Northwest', type: 'comptroller' },
+  { id: 'comptroller-metroplex', name: 'Metroplex', type: 'comptroller' },
+  { id: 'comptroller-upper-east', name: 'Upper East Texas', type: 'comptroller' },
+  { id: 'comptroller-southeast', name: 'Southeast Texas', type: 'comptroller' },
+  { id: 'comptroller-gulf-coast', name: 'Gulf Coast', type: 'comptroller' },
+  { id: 'comptroller-central', name: 'Central Texas', type: 'comptroller' },
+  { id: 'comptroller-capital', name: 'Capital', type: 'comptroller' },
+  { id: 'comptroller-alamo', name: 'Alamo', type: 'comptroller' },
+  { id: 'comptroller-south', name: 'South Texas', type: 'comptroller' },
+  { id: 'comptroller-west', name: 'West Texas', type: 'comptroller' },
+  { id: 'comptroller-upper-rio-grande', name: 'Upper Rio Grande', type: 'comptroller' }
+];
+
+/**
+ * Region ids of each county keyed by 3-digit county FIPS code
+ * Counties outside every metropolitan statistical area have no msa entry
+ */
+export const COUNTY_REGION_CROSSWALK: Record<string, Partial<Record<RegionType, string>>> = {
+  '001': { cog: 'cog-east-texas', comptroller: 'comptroller-upper-east' }, // Anderson
+  '003': { cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Andrews
+  '005': { cog: 'cog-deep-east-texas', comptroller: 'comptroller-southeast' }, // Angelina
+  '007': { cog: 'cog-coastal-bend', comptroller: 'comptroller-south' }, // Aransas
+  '009': { msa: 'msa-wichita-falls', cog: 'cog-nortex', comptroller: 'comptroller-northwest' }, // Archer
+  '011': { msa: 'msa-amarillo', cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Armstrong
+  '013': { msa: 'msa-san-antonio', cog: 'cog-alamo-area', comptroller: 'comptroller-alamo' }, // Atascosa
+  '015': { msa: 'msa-houston', cog: 'cog-houston-galveston', comptroller: 'comptroller-gulf-coast' }, // Austin
+  '017': { cog: 'cog-south-plains', comptroller: 'comptroller-high-plains' }, // Bailey
+  '019': { msa: 'msa-san-antonio', cog: 'cog-alamo-area', comptroller: 'comptroller-alamo' }, // Bandera
+  '021': { msa: 'msa-austin', cog: 'cog-capital-area', comptroller: 'comptroller-capital' }, // Bastrop
+  '023': { cog: 'cog-nortex', comptroller: 'comptroller-northwest' }, // Baylor
+  '025': { cog: 'cog-coastal-bend', comptroller: 'comptroller-south' }, // Bee
+  '027': { msa: 'msa-killeen', cog: 'cog-central-texas', comptroller: 'comptroller-central' }, // Bell
+  '029': { msa: 'msa-san-antonio', cog: 'cog-alamo-area', comptroller: 'comptroller-alamo' }, // Bexar
+  '031': { cog: 'cog-capital-area', comptroller: 'comptroller-capital' }, // Blanco
+  '033': { cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Borden
+  '035': { cog: 'cog-heart-of-texas', comptroller: 'comptroller-central' }, // Bosque
+  '037': { msa: 'msa-texarkana', cog: 'cog-ark-tex', comptroller: 'comptroller-upper-east' }, // Bowie
+  '039': { msa: 'msa-houston', cog: 'cog-houston-galveston', comptroller: 'comptroller-gulf-coast' }, // Brazoria
+  '041': { msa: 'msa-college-station', cog: 'cog-brazos-valley', comptroller: 'comptroller-central' }, // Brazos
+  '043': { cog: 'cog-rio-grande', comptroller: 'comptroller-upper-rio-grande' }, // Brewster
+  '045': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Briscoe
+  '047': { cog: 'cog-coastal-bend', comptroller: 'comptroller-south' }, // Brooks
+  '049': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Brown
+  '051': { msa: 'msa-college-station', cog: 'cog-brazos-valley', comptroller: 'comptroller-central' }, // Burleson
+  '053': { cog: 'cog-capital-area', comptroller: 'comptroller-capital' }, // Burnet
+  '055': { msa: 'msa-austin', cog: 'cog-capital-area', comptroller: 'comptroller-capital' }, // Caldwell
+  '057': { cog: 'cog-golden-crescent', comptroller: 'comptroller-alamo' }, // Calhoun
+  '059': { msa: 'msa-abilene', cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Callahan
+  '061': { msa: 'msa-brownsville', cog: 'cog-lower-rio-grande-valley', comptroller: 'comptroller-south' }, // Cameron
+  '063': { cog: 'cog-east-texas', comptroller: 'comptroller-upper-east' }, // Camp
+  '065': { msa: 'msa-amarillo', cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Carson
+  '067': { cog: 'cog-ark-tex', comptroller: 'comptroller-upper-east' }, // Cass
+  '069': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Castro
+  '071': { msa: 'msa-houston', cog: 'cog-houston-galveston', comptroller: 'comptroller-gulf-coast' }, // Chambers
+  '073': { cog: 'cog-east-texas', comptroller: 'comptroller-upper-east' }, // Cherokee
+  '075': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Childress
+  '077': { msa: 'msa-wichita-falls', cog: 'cog-nortex', comptroller: 'comptroller-northwest' }, // Clay
+  '079': { cog: 'cog-south-plains', comptroller: 'comptroller-high-plains' }, // Cochran
+  '081': { cog: 'cog-concho-valley', comptroller: 'comptroller-west' }, // Coke
+  '083': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Coleman
+  '085': { msa: 'msa-dallas-fort-worth', cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Collin
+  '087': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Collingsworth
+  '089': { cog: 'cog-houston-galveston', comptroller: 'comptroller-gulf-coast' }, // Colorado
+  '091': { msa: 'msa-san-antonio', cog: 'cog-alamo-area', comptroller: 'comptroller-alamo' }, // Comal
+  '093': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Comanche
+  '095': { cog: 'cog-concho-valley', comptroller: 'comptroller-west' }, // Concho
+  '097': { cog: 'cog-texoma', comptroller: 'comptroller-metroplex' }, // Cooke
+  '099': { msa: 'msa-killeen', cog: 'cog-central-texas', comptroller: 'comptroller-central' }, // Coryell
+  '101': { cog: 'cog-nortex', comptroller: 'comptroller-northwest' }, // Cottle
+  '103': { cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Crane
+  '105': { cog: 'cog-concho-valley', comptroller: 'comptroller-west' }, // Crockett
+  '107': { msa: 'msa-lubbock', cog: 'cog-south-plains', comptroller: 'comptroller-high-plains' }, // Crosby
+  '109': { cog: 'cog-rio-grande', comptroller: 'comptroller-upper-rio-grande' }, // Culberson
+  '111': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Dallam
+  '113': { msa: 'msa-dallas-fort-worth', cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Dallas
+  '115': { cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Dawson
+  '117': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Deaf Smith
+  '119': { cog: 'cog-ark-tex', comptroller: 'comptroller-upper-east' }, // Delta
+  '121': { msa: 'msa-dallas-fort-worth', cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Denton
+  '123': { cog: 'cog-golden-crescent', comptroller: 'comptroller-alamo' }, // DeWitt
+  '125': { cog: 'cog-south-plains', comptroller: 'comptroller-high-plains' }, // Dickens
+  '127': { cog: 'cog-middle-rio-grande', comptroller: 'comptroller-south' }, // Dimmit
+  '129': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Donley
+  '131': { cog: 'cog-coastal-bend', comptroller: 'comptroller-south' }, // Duval
+  '133': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Eastland
+  '135': { msa: 'msa-odessa', cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Ector
+  '137': { cog: 'cog-middle-rio-grande', comptroller: 'comptroller-south' }, // Edwards
+  '139': { msa: 'msa-dallas-fort-worth', cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Ellis
+  '141': { msa: 'msa-el-paso', cog: 'cog-rio-grande', comptroller: 'comptroller-upper-rio-grande' }, // El Paso
+  '143': { cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Erath
+  '145': { msa: 'msa-waco', cog: 'cog-heart-of-texas', comptroller: 'comptroller-central' }, // Falls
+  '147': { cog: 'cog-texoma', comptroller: 'comptroller-metroplex' }, // Fannin
+  '149': { cog: 'cog-capital-area', comptroller: 'comptroller-capital' }, // Fayette
+  '151': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Fisher
+  '153': { cog: 'cog-south-plains', comptroller: 'comptroller-high-plains' }, // Floyd
+  '155': { cog: 'cog-nortex', comptroller: 'comptroller-northwest' }, // Foard
+  '157': { msa: 'msa-houston', cog: 'cog-houston-galveston', comptroller: 'comptroller-gulf-coast' }, // Fort Bend
+  '159': { cog: 'cog-ark-tex', comptroller: 'comptroller-upper-east' }, // Franklin
+  '161': { cog: 'cog-heart-of-texas', comptroller: 'comptroller-central' }, // Freestone
+  '163': { cog: 'cog-alamo-area', comptroller: 'comptroller-alamo' }, // Frio
+  '165': { cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Gaines
+  '167': { msa: 'msa-houston', cog: 'cog-houston-galveston', comptroller: 'comptroller-gulf-coast' }, // Galveston
+  '169': { cog: 'cog-south-plains', comptroller: 'comptroller-high-plains' }, // Garza
+  '171': { cog: 'cog-alamo-area', comptroller: 'comptroller-alamo' }, // Gillespie
+  '173': { cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Glasscock
+  '175': { msa: 'msa-victoria', cog: 'cog-golden-crescent', comptroller: 'comptroller-alamo' }, // Goliad
+  '177': { cog: 'cog-golden-crescent', comptroller: 'comptroller-alamo' }, // Gonzales
+  '179': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Gray
+  '181': { msa: 'msa-sherman', cog: 'cog-texoma', comptroller: 'comptroller-metroplex' }, // Grayson
+  '183': { msa: 'msa-longview', cog: 'cog-east-texas', comptroller: 'comptroller-upper-east' }, // Gregg
+  '185': { cog: 'cog-brazos-valley', comptroller: 'comptroller-central' }, // Grimes
+  '187': { msa: 'msa-san-antonio', cog: 'cog-alamo-area', comptroller: 'comptroller-alamo' }, // Guadalupe
+  '189': { cog: 'cog-south-plains', comptroller: 'comptroller-high-plains' }, // Hale
+  '191': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Hall
+  '193': { cog: 'cog-central-texas', comptroller: 'comptroller-central' }, // Hamilton
+  '195': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Hansford
+  '197': { cog: 'cog-nortex', comptroller: 'comptroller-northwest' }, // Hardeman
+  '199': { msa: 'msa-beaumont', cog: 'cog-south-east-texas', comptroller: 'comptroller-southeast' }, // Hardin
+  '201': { msa: 'msa-houston', cog: 'cog-houston-galveston', comptroller: 'comptroller-gulf-coast' }, // Harris
+  '203': { msa: 'msa-longview', cog: 'cog-east-texas', comptroller: 'comptroller-upper-east' }, // Harrison
+  '205': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Hartley
+  '207': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Haskell
+  '209': { msa: 'msa-austin', cog: 'cog-capital-area', comptroller: 'comptroller-capital' }, // Hays
+  '211': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Hemphill
+  '213': { cog: 'cog-east-texas', comptroller: 'comptroller-upper-east' }, // Henderson
+  '215': { msa: 'msa-mcallen', cog: 'cog-lower-rio-grande-valley', comptroller: 'comptroller-south' }, // Hidalgo
+  '217': { cog: 'cog-heart-of-texas', comptroller: 'comptroller-central' }, // Hill
+  '219': { cog: 'cog-south-plains', comptroller: 'comptroller-high-plains' }, // Hockley
+  '221': { msa: 'msa-dallas-fort-worth', cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Hood
+  '223': { cog: 'cog-ark-tex', comptroller: 'comptroller-upper-east' }, // Hopkins
+  '225': { cog: 'cog-deep-east-texas', comptroller: 'comptroller-southeast' }, // Houston
+  '227': { cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Howard
+  '229': { msa: 'msa-el-paso', cog: 'cog-rio-grande', comptroller: 'comptroller-upper-rio-grande' }, // Hudspeth
+  '231': { msa: 'msa-dallas-fort-worth', cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Hunt
+  '233': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Hutchinson
+  '235': { msa: 'msa-san-angelo', cog: 'cog-concho-valley', comptroller: 'comptroller-west' }, // Irion
+  '237': { cog: 'cog-nortex', comptroller: 'comptroller-northwest' }, // Jack
+  '239': { cog: 'cog-golden-crescent', comptroller: 'comptroller-alamo' }, // Jackson
+  '241': { cog: 'cog-deep-east-texas', comptroller: 'comptroller-southeast' }, // Jasper
+  '243': { cog: 'cog-rio-grande', comptroller: 'comptroller-upper-rio-grande' }, // Jeff Davis
+  '245': { msa: 'msa-beaumont', cog: 'cog-south-east-texas', comptroller: 'comptroller-southeast' }, // Jefferson
+  '247': { cog: 'cog-south-texas', comptroller: 'comptroller-south' }, // Jim Hogg
+  '249': { cog: 'cog-coastal-bend', comptroller: 'comptroller-south' }, // Jim Wells
+  '251': { msa: 'msa-dallas-fort-worth', cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Johnson
+  '253': { msa: 'msa-abilene', cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Jones
+  '255': { cog: 'cog-alamo-area', comptroller: 'comptroller-alamo' }, // Karnes
+  '257': { msa: 'msa-dallas-fort-worth', cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Kaufman
+  '259': { msa: 'msa-san-antonio', cog: 'cog-alamo-area', comptroller: 'comptroller-alamo' }, // Kendall
+  '261': { cog: 'cog-coastal-bend', comptroller: 'comptroller-south' }, // Kenedy
+  '263': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Kent
+  '265': { cog: 'cog-alamo-area', comptroller: 'comptroller-alamo' }, // Kerr
+  '267': { cog: 'cog-concho-valley', comptroller: 'comptroller-west' }, // Kimble
+  '269': { cog: 'cog-south-plains', comptroller: 'comptroller-high-plains' }, // King
+  '271': { cog: 'cog-middle-rio-grande', comptroller: 'comptroller-south' }, // Kinney
+  '273': { cog: 'cog-coastal-bend', comptroller: 'comptroller-south' }, // Kleberg
+  '275': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Knox
+  '277': { cog: 'cog-ark-tex', comptroller: 'comptroller-upper-east' }, // Lamar
+  '279': { cog: 'cog-south-plains', comptroller: 'comptroller-high-plains' }, // Lamb
+  '281': { msa: 'msa-killeen', cog: 'cog-central-texas', comptroller: 'comptroller-central' }, // Lampasas
+  '283': { cog: 'cog-middle-rio-grande', comptroller: 'comptroller-south' }, // La Salle
+  '285': { cog: 'cog-golden-crescent', comptroller: 'comptroller-alamo' }, // Lavaca
+  '287': { cog: 'cog-capital-area', comptroller: 'comptroller-capital' }, // Lee
+  '289': { cog: 'cog-brazos-valley', comptroller: 'comptroller-central' }, // Leon
+  '291': { msa: 'msa-houston', cog: 'cog-houston-galveston', comptroller: 'comptroller-gulf-coast' }, // Liberty
+  '293': { cog: 'cog-heart-of-texas', comptroller: 'comptroller-central' }, // Limestone
+  '295': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Lipscomb
+  '297': { cog: 'cog-coastal-bend', comptroller: 'comptroller-south' }, // Live Oak
+  '299': { cog: 'cog-capital-area', comptroller: 'comptroller-capital' }, // Llano
+  '301': { cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Loving
+  '303': { msa: 'msa-lubbock', cog: 'cog-south-plains', comptroller: 'comptroller-high-plains' }, // Lubbock
+  '305': { msa: 'msa-lubbock', cog: 'cog-south-plains', comptroller: 'comptroller-high-plains' }, // Lynn
+  '307': { cog: 'cog-concho-valley', comptroller: 'comptroller-west' }, // McCulloch
+  '309': { msa: 'msa-waco', cog: 'cog-heart-of-texas', comptroller: 'comptroller-central' }, // McLennan
+  '311': { cog: 'cog-coastal-bend', comptroller: 'comptroller-south' }, // McMullen
+  '313': { cog: 'cog-brazos-valley', comptroller: 'comptroller-central' }, // Madison
+  '315': { cog: 'cog-east-texas', comptroller: 'comptroller-upper-east' }, // Marion
+  '317': { msa: 'msa-midland', cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Martin
+  '319': { cog: 'cog-concho-valley', comptroller: 'comptroller-west' }, // Mason
+  '321': { cog: 'cog-houston-galveston', comptroller: 'comptroller-gulf-coast' }, // Matagorda
+  '323': { cog: 'cog-middle-rio-grande', comptroller: 'comptroller-south' }, // Maverick
+  '325': { msa: 'msa-san-antonio', cog: 'cog-alamo-area', comptroller: 'comptroller-alamo' }, // Medina
+  '327': { cog: 'cog-concho-valley', comptroller: 'comptroller-west' }, // Menard
+  '329': { msa: 'msa-midland', cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Midland
+  '331': { cog: 'cog-central-texas', comptroller: 'comptroller-central' }, // Milam
+  '333': { cog: 'cog-central-texas', comptroller: 'comptroller-central' }, // Mills
+  '335': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Mitchell
+  '337': { cog: 'cog-nortex', comptroller: 'comptroller-northwest' }, // Montague
+  '339': { msa: 'msa-houston', cog: 'cog-houston-galveston', comptroller: 'comptroller-gulf-coast' }, // Montgomery
+  '341': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Moore
+  '343': { cog: 'cog-ark-tex', comptroller: 'comptroller-upper-east' }, // Morris
+  '345': { cog: 'cog-south-plains', comptroller: 'comptroller-high-plains' }, // Motley
+  '347': { cog: 'cog-deep-east-texas', comptroller: 'comptroller-southeast' }, // Nacogdoches
+  '349': { cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Navarro
+  '351': { msa: 'msa-beaumont', cog: 'cog-deep-east-texas', comptroller: 'comptroller-southeast' }, // Newton
+  '353': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Nolan
+  '355': { msa: 'msa-corpus-christi', cog: 'cog-coastal-bend', comptroller: 'comptroller-south' }, // Nueces
+  '357': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Ochiltree
+  '359': { msa: 'msa-amarillo', cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Oldham
+  '361': { msa: 'msa-beaumont', cog: 'cog-south-east-texas', comptroller: 'comptroller-southeast' }, // Orange
+  '363': { cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Palo Pinto
+  '365': { cog: 'cog-east-texas', comptroller: 'comptroller-upper-east' }, // Panola
+  '367': { msa: 'msa-dallas-fort-worth', cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Parker
+  '369': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Parmer
+  '371': { cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Pecos
+  '373': { cog: 'cog-deep-east-texas', comptroller: 'comptroller-southeast' }, // Polk
+  '375': { msa: 'msa-amarillo', cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Potter
+  '377': { cog: 'cog-rio-grande', comptroller: 'comptroller-upper-rio-grande' }, // Presidio
+  '379': { cog: 'cog-east-texas', comptroller: 'comptroller-upper-east' }, // Rains
+  '381': { msa: 'msa-amarillo', cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Randall
+  '383': { cog: 'cog-concho-valley', comptroller: 'comptroller-west' }, // Reagan
+  '385': { cog: 'cog-middle-rio-grande', comptroller: 'comptroller-south' }, // Real
+  '387': { cog: 'cog-ark-tex', comptroller: 'comptroller-upper-east' }, // Red River
+  '389': { cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Reeves
+  '391': { cog: 'cog-coastal-bend', comptroller: 'comptroller-south' }, // Refugio
+  '393': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Roberts
+  '395': { msa: 'msa-college-station', cog: 'cog-brazos-valley', comptroller: 'comptroller-central' }, // Robertson
+  '397': { msa: 'msa-dallas-fort-worth', cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Rockwall
+  '399': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Runnels
+  '401': { msa: 'msa-longview', cog: 'cog-east-texas', comptroller: 'comptroller-upper-east' }, // Rusk
+  '403': { cog: 'cog-deep-east-texas', comptroller: 'comptroller-southeast' }, // Sabine
+  '405': { cog: 'cog-deep-east-texas', comptroller: 'comptroller-southeast' }, // San Augustine
+  '407': { cog: 'cog-deep-east-texas', comptroller: 'comptroller-southeast' }, // San Jacinto
+  '409': { msa: 'msa-corpus-christi', cog: 'cog-coastal-bend', comptroller: 'comptroller-south' }, // San Patricio
+  '411': { cog: 'cog-central-texas', comptroller: 'comptroller-central' }, // San Saba
+  '413': { cog: 'cog-concho-valley', comptroller: 'comptroller-west' }, // Schleicher
+  '415': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Scurry
+  '417': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Shackelford
+  '419': { cog: 'cog-deep-east-texas', comptroller: 'comptroller-southeast' }, // Shelby
+  '421': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Sherman
+  '423': { msa: 'msa-tyler', cog: 'cog-east-texas', comptroller: 'comptroller-upper-east' }, // Smith
+  '425': { msa: 'msa-dallas-fort-worth', cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Somervell
+  '427': { cog: 'cog-south-texas', comptroller: 'comptroller-south' }, // Starr
+  '429': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Stephens
+  '431': { msa: 'msa-san-angelo', cog: 'cog-concho-valley', comptroller: 'comptroller-west' }, // Sterling
+  '433': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Stonewall
+  '435': { cog: 'cog-concho-valley', comptroller: 'comptroller-west' }, // Sutton
+  '437': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Swisher
+  '439': { msa: 'msa-dallas-fort-worth', cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Tarrant
+  '441': { msa: 'msa-abilene', cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Taylor
+  '443': { cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Terrell
+  '445': { cog: 'cog-south-plains', comptroller: 'comptroller-high-plains' }, // Terry
+  '447': { cog: 'cog-west-central-texas', comptroller: 'comptroller-northwest' }, // Throckmorton
+  '449': { cog: 'cog-ark-tex', comptroller: 'comptroller-upper-east' }, // Titus
+  '451': { msa: 'msa-san-angelo', cog: 'cog-concho-valley', comptroller: 'comptroller-west' }, // Tom Green
+  '453': { msa: 'msa-austin', cog: 'cog-capital-area', comptroller: 'comptroller-capital' }, // Travis
+  '455': { cog: 'cog-deep-east-texas', comptroller: 'comptroller-southeast' }, // Trinity
+  '457': { cog: 'cog-deep-east-texas', comptroller: 'comptroller-southeast' }, // Tyler
+  '459': { msa: 'msa-longview', cog: 'cog-east-texas', comptroller: 'comptroller-upper-east' }, // Upshur
+  '461': { cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Upton
+  '463': { cog: 'cog-middle-rio-grande', comptroller: 'comptroller-south' }, // Uvalde
+  '465': { cog: 'cog-middle-rio-grande', comptroller: 'comptroller-south' }, // Val Verde
+  '467': { cog: 'cog-east-texas', comptroller: 'comptroller-upper-east' }, // Van Zandt
+  '469': { msa: 'msa-victoria', cog: 'cog-golden-crescent', comptroller: 'comptroller-alamo' }, // Victoria
+  '471': { cog: 'cog-houston-galveston', comptroller: 'comptroller-gulf-coast' }, // Walker
+  '473': { msa: 'msa-houston', cog: 'cog-houston-galveston', comptroller: 'comptroller-gulf-coast' }, // Waller
+  '475': { cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Ward
+  '477': { cog: 'cog-brazos-valley', comptroller: 'comptroller-central' }, // Washington
+  '479': { msa: 'msa-laredo', cog: 'cog-south-texas', comptroller: 'comptroller-south' }, // Webb
+  '481': { cog: 'cog-houston-galveston', comptroller: 'comptroller-gulf-coast' }, // Wharton
+  '483': { cog: 'cog-panhandle', comptroller: 'comptroller-high-plains' }, // Wheeler
+  '485': { msa: 'msa-wichita-falls', cog: 'cog-nortex', comptroller: 'comptroller-northwest' }, // Wichita
+  '487': { cog: 'cog-nortex', comptroller: 'comptroller-northwest' }, // Wilbarger
+  '489': { cog: 'cog-lower-rio-grande-valley', comptroller: 'comptroller-south' }, // Willacy
+  '491': { msa: 'msa-austin', cog: 'cog-capital-area', comptroller: 'comptroller-capital' }, // Williamson
+  '493': { msa: 'msa-san-antonio', cog: 'cog-alamo-area', comptroller: 'comptroller-alamo' }, // Wilson
+  '495': { cog: 'cog-permian-basin', comptroller: 'comptroller-west' }, // Winkler
+  '497': { msa: 'msa-dallas-fort-worth', cog: 'cog-north-central-texas', comptroller: 'comptroller-metroplex' }, // Wise
+  '499': { cog: 'cog-east-texas', comptroller: 'comptroller-upper-east' }, // Wood
+  '501': { cog: 'cog-south-plains', comptroller: 'comptroller-high-plains' }, // Yoakum
+  '503': { cog: 'cog-nortex', comptroller: 'comptroller-northwest' }, // Young
+  '505': { cog: 'cog-south-texas', comptroller: 'comptroller-south' }, // Zapata
+  '507': { cog: 'cog-middle-rio-grande', comptroller: 'comptroller-south' } // Zavala
+};
@@ -0,0 +1,49 @@
+import { AcsDataset, AcsVintage } from '@/types';
+import { DEFAULT_ACS_VINTAGE, getAcsVintageKey, getAvailableAcsYears } from '@/utils/acsVintage';
+import { useCallback, useState } from 'react';
+
+/**
+ * Custom hook for managing the selected ACS vintage (year and dataset)
+ * 
+ * @returns Selected vintage and handlers to change it
+ */
+export const useAcsVintage = () => {
+  const [vintage, setVintage] = useState<AcsVintage>(DEFAULT_ACS_VINTAGE);
+
+  /**
+   * Selects the ACS release year
+   * @param year - Release year
+   */
+  const selectYear = useCallback((year: number): void => {
+    setVintage(prev => ({ ...prev, year }));
+  }, []);
+
+  /**
+   * Selects the ACS data product
+   * Falls back to the newest year when the current year isn't released for the new product
+   * @param dataset - ACS data product
+   */
+  const selectDataset = useCallback((dataset: AcsDataset): void => {
+    setVintage(prev => {
+      const availableYears = getAvailableAcsYears(dataset);
+      const year = availableYears.includes(prev.year) ? prev.year : availableYears[0];
+      return { year, dataset };
+    });
+  }, []);
+
+  /**
+   * Selects a whole vintage (e.g. restored from the URL)
+   * Keeps the current object when nothing changed so dependent data isn't refetched
+   * @param nextVintage - ACS vintage
+   */
+  const selectVintage = useCallback((nextVintage: AcsVintage): void => {
+    setVintage(prev => getAcsVintageKey(prev) === getAcsVintageKey(nextVintage) ? prev : nextVintage);
+  }, []);
+
+  return {
+    vintage,
+    selectYear,
+    selectDataset,
+    selectVintage
+  };
+};
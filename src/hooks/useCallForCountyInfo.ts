@@ -1,7 +1,8 @@
-import { getCountyInfo, processCensusData } from "@/apis/countyInfoAPIs";
+import { getCountyInfoRoute } from "@/apis/countyInfoAPIs";
 import { useHttpRequest } from "@/hooks/useHttpRequest";
 import { countyDataCache } from "@/services/countyDataCache";
-import { CountyInfo, GetCountyInfoData } from "@/types";
+import { AcsVintage, CountyInfo, GetCountyInfoData } from "@/types";
+import { DEFAULT_ACS_VINTAGE, getAcsVintageKey } from "@/utils/acsVintage";
 import { useCallback, useRef, useState } from 'react';
 
 /**
@@ -16,11 +17,12 @@ const normalizeCountyName = (countyName: string): string => {
 
 /**
  * Custom hook for fetching county information from US Census Bureau API
+ * Requests go through the app's server-side Census proxy route
  * Uses the dedicated cache service for data caching
  * @returns Hook utilities for county data fetching
  */
 export default function useCallForCountyInfo() {
-    const { data: rawData, isLoading, isError, error, execute } = useHttpRequest<string[][]>(
+    const { data: apiData, isLoading, isError, error, execute } = useHttpRequest<CountyInfo>(
         '',
         { immediate: false }
     );
@@ -28,19 +30,22 @@ export default function useCallForCountyInfo() {
     const [cacheData, setCacheData] = useState<CountyInfo | null>(null);
     const [isFromCache, setIsFromCache] = useState(false);
     const lastStoredRef = useRef<string | null>(null);
+    // Vintage of the most recent API request, used when storing its response
+    const requestedVintageRef = useRef<AcsVintage>(DEFAULT_ACS_VINTAGE);
 
     /**
      * Fetch county information by county name
      * Checks cache first using the cache service, then makes API call if needed
      * @param countyName - Name of the Texas county to fetch data for
+     * @param vintage - ACS vintage to fetch
      */
-    const callForCountyInfo = useCallback(async ({ countyName }: GetCountyInfoData) => {
+    const callForCountyInfo = useCallback(async ({ countyName, vintage = DEFAULT_ACS_VINTAGE }: GetCountyInfoData) => {
         try {
             // Normalize the county name for consistent cache lookup
             const normalizedCountyName = normalizeCountyName(countyName);
             
             // Check cache first using the cache service
-            const cachedData = countyDataCache.get(normalizedCountyName);
+            const cachedData = countyDataCache.get(normalizedCountyName, vintage);
             if (cachedData) {
                 setCacheData(cachedData);
                 setIsFromCache(true);
@@ -51,9 +56,10 @@ export default function useCallForCountyInfo() {
             setCacheData(null);
             setIsFromCache(false);
             lastStoredRef.current = null; // Reset storage tracking
+            requestedVintageRef.current = vintage;
 
-            // Make API call if not in cache
-            const requestUrl = getCountyInfo({ countyName: normalizedCountyName });
+            // Make API call through the proxy route if not in cache
+            const requestUrl = getCountyInfoRoute({ countyName: normalizedCountyName, vintage });
             await execute(requestUrl);
         } catch (err) {
             // Handle county not found errors
@@ -64,18 +70,20 @@ export default function useCallForCountyInfo() {
         }
     }, [execute]);
 
-    // Process the raw Census data to extract county information
-    const processedData: CountyInfo | null = rawData ? processCensusData(rawData) : null;
+    // The proxy route returns normalized county information (error bodies are ignored)
+    const processedData: CountyInfo | null = apiData && !isError ? apiData : null;
 
     // Store successful API responses in cache (only when not from cache and data exists)
     if (processedData && !isFromCache && !isLoading && !isError) {
         // Normalize the county name for consistent cache storage
         const normalizedCountyName = normalizeCountyName(processedData.name);
+        const vintage = requestedVintageRef.current;
+        const storageKey = `${getAcsVintageKey(vintage)}:${normalizedCountyName}`;
         
         // Only store if we haven't stored this exact data before (prevent duplicates)
-        if (lastStoredRef.current !== normalizedCountyName) {
-            lastStoredRef.current = normalizedCountyName;
-            countyDataCache.set(normalizedCountyName, processedData);
+        if (lastStoredRef.current !== storageKey) {
+            lastStoredRef.current = storageKey;
+            countyDataCache.set(normalizedCountyName, processedData, vintage);
         }
     }
 
@@ -84,7 +92,6 @@ export default function useCallForCountyInfo() {
 
     return { 
         data: finalData, 
-        rawData,
         isLoading: isFromCache ? false : isLoading,
         isError, 
         error, 
@@ -0,0 +1,39 @@
+import { ChoroplethMetric, CountyInfo, NumericCountyField } from '@/types';
+import { computeChoroplethFills, getChoroplethMetric } from '@/utils/choropleth';
+import { useCallback, useMemo, useState } from 'react';
+
+/**
+ * Custom hook for managing choropleth mode
+ * Colors every county by a numeric CountyInfo field using the provided county data
+ * 
+ * @param countyData - County data keyed by normalized county name
+ * @returns Active metric, scale, fills and handlers
+ */
+export const useChoropleth = (countyData: Record<string, CountyInfo>) => {
+  const [metricKey, setMetricKey] = useState<NumericCountyField | null>(null);
+
+  const activeMetric: ChoroplethMetric | null = metricKey ? getChoroplethMetric(metricKey) ?? null : null;
+
+  const { scale, fills } = useMemo(() => {
+    if (!metricKey) {
+      return { scale: null, fills: null };
+    }
+    return computeChoroplethFills(countyData, metricKey);
+  }, [countyData, metricKey]);
+
+  /**
+   * Selects the metric to color counties by
+   * @param metric - CountyInfo field, or null to turn choropleth mode off
+   */
+  const selectMetric = useCallback((metric: NumericCountyField | null): void => {
+    setMetricKey(metric);
+  }, []);
+
+  return {
+    activeMetric,
+    scale,
+    fills,
+    countiesWithData: fills ? Object.keys(fills).length : 0,
+    selectMetric
+  };
+};
@@ -0,0 +1,86 @@
+import { getCityInfo, getCountyCitiesQuery, processCountyCities } from "@/apis/cityInfoAPIs";
+import { CityInfo } from "@/types";
+import { normalizeCountyName } from "@/utils/countyUtils";
+import { httpRequest } from "@/utils/http";
+import { useCallback, useRef, useState } from 'react';
+
+/**
+ * Cities already loaded this session, keyed by normalized county name
+ * City lists do not depend on the ACS vintage, so one entry serves every release
+ */
+const countyCitiesCache = new Map<string, CityInfo[]>();
+
+/**
+ * Custom hook for fetching the cities of a county from the city dataset
+ * Each county is requested once per session and then served from memory
+ * @returns Cities and fetch utilities
+ */
+export default function useCountyCities() {
+    const [cities, setCities] = useState<CityInfo[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | undefined>(undefined);
+    // Id of the latest request, so responses of superseded requests are ignored
+    const requestIdRef = useRef(0);
+
+    /**
+     * Fetch the cities of a county, using the session cache when possible
+     * @param countyName - Name of the Texas county
+     */
+    const callForCountyCities = useCallback(async (countyName: string) => {
+        const requestId = ++requestIdRef.current;
+        const cacheKey = normalizeCountyName(countyName);
+
+        const cachedCities = countyCitiesCache.get(cacheKey);
+        if (cachedCities) {
+            setCities(cachedCities);
+            setError(undefined);
+            setIsLoading(false);
+            return;
+        }
+
+        setIsLoading(true);
+        setError(undefined);
+
+        try {
+            const response = await httpRequest<unknown>(getCityInfo(getCountyCitiesQuery(countyName)));
+            if (!response.ok) {
+                throw new Error(response.error || 'Failed to load city data');
+            }
+
+            const countyCities = processCountyCities(response.data, countyName);
+            countyCitiesCache.set(cacheKey, countyCities);
+
+            if (requestId === requestIdRef.current) {
+                setCities(countyCities);
+            }
+        } catch (err) {
+            console.error('Error fetching county cities:', err);
+            if (requestId === requestIdRef.current) {
+                setError(err instanceof Error ? err.message : 'Failed to load city data');
+                setCities([]);
+            }
+        } finally {
+            if (requestId === requestIdRef.current) {
+                setIsLoading(false);
+            }
+        }
+    }, []);
+
+    /**
+     * Clear city data (e.g. when the panel closes)
+     */
+    const clearCities = useCallback(() => {
+        requestIdRef.current++;
+        setCities([]);
+        setError(undefined);
+        setIsLoading(false);
+    }, []);
+
+    return {
+        cities,
+        isLoading,
+        error,
+        callForCountyCities,
+        clearCities
+    };
+}
@@ -0,0 +1,111 @@
+import { getCountyInfoRoute } from '@/apis/countyInfoAPIs';
+import { countyDataCache } from '@/services/countyDataCache';
+import { AcsVintage, CountyInfo } from '@/types';
+import { DEFAULT_ACS_VINTAGE } from '@/utils/acsVintage';
+import { MAX_COMPARED_COUNTIES, togglePinnedCounty } from '@/utils/comparison';
+import { normalizeCountyName } from '@/utils/countyUtils';
+import { httpRequest } from '@/utils/http';
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Custom hook for managing counties pinned for side-by-side comparison
+ * Loads data for pinned counties from the cache or the Census proxy route
+ * 
+ * @param vintage - ACS vintage to compare; data is reloaded when it changes
+ * @returns Pinned counties, their data and handlers
+ */
+export const useCountyComparison = (vintage: AcsVintage = DEFAULT_ACS_VINTAGE) => {
+  const [comparedCounties, setComparedCounties] = useState<string[]>([]);
+  const [comparisonData, setComparisonData] = useState<Record<string, CountyInfo | null>>({});
+  const [isLoadingComparison, setIsLoadingComparison] = useState(false);
+
+  /**
+   * Checks if a county is pinned
+   * @param countyName - Name of the county
+   * @returns True if the county is in the comparison
+   */
+  const isCountyCompared = useCallback((countyName: string): boolean => {
+    return comparedCounties.some(county => normalizeCountyName(county) === normalizeCountyName(countyName));
+  }, [comparedCounties]);
+
+  /**
+   * Pins a county, or unpins it if already pinned
+   * Pinning is ignored once MAX_COMPARED_COUNTIES counties are pinned
+   * @param countyName - Name of the county
+   */
+  const toggleComparedCounty = useCallback((countyName: string): void => {
+    setComparedCounties(prev => togglePinnedCounty(prev, countyName));
+  }, []);
+
+  /**
+   * Unpins a county
+   * @param countyName - Name of the county
+   */
+  const removeComparedCounty = useCallback((countyName: string): void => {
+    setComparedCounties(prev => prev.filter(county => county !== countyName));
+  }, []);
+
+  /**
+   * Unpins every county
+   */
+  const clearComparison = useCallback((): void => {
+    setComparedCounties([]);
+  }, []);
+
+  /**
+   * Replaces the pinned counties (e.g. restored from the URL)
+   * Keeps the current list when nothing changed so data isn't reloaded
+   * @param countyNames - Names of the counties to pin
+   */
+  const replaceComparedCounties = useCallback((countyNames: string[]): void => {
+    const nextCounties = countyNames.slice(0, MAX_COMPARED_COUNTIES);
+    setComparedCounties(prev => prev.join(',') === nextCounties.join(',') ? prev : nextCounties);
+  }, []);
+
+  // Load data for pinned counties whenever the list or the vintage changes
+  useEffect(() => {
+    let isCancelled = false;
+
+    const loadComparisonData = async (): Promise<void> => {
+      setIsLoadingComparison(true);
+
+      const entries = await Promise.all(comparedCounties.map(async (countyName) => {
+        const cachedData = countyDataCache.get(countyName, vintage);
+        if (cachedData) {
+          return [countyName, cachedData] as const;
+        }
+
+        const response = await httpRequest<CountyInfo>(getCountyInfoRoute({ countyName, vintage }));
+        if (!response.ok || !response.data) {
+          console.error(`❌ Failed to fetch comparison data for ${countyName}:`, response.error);
+          return [countyName, null] as const;
+        }
+
+        countyDataCache.set(countyName, response.data, vintage);
+        return [countyName, response.data] as const;
+      }));
+
+      if (!isCancelled) {
+        setComparisonData(Object.fromEntries(entries));
+        setIsLoadingComparison(false);
+      }
+    };
+
+    loadComparisonData();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [comparedCounties, vintage]);
+
+  return {
+    comparedCounties,
+    comparisonData,
+    isLoadingComparison,
+    isCountyCompared,
+    toggleComparedCounty,
+    removeComparedCounty,
+    clearComparison,
+    replaceComparedCounties
+  };
+};
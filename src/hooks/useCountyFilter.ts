@@ -0,0 +1,88 @@
+import { TEXAS_COUNTY_PATHS } from '@/data/texasCountyPaths';
+import { CountyInfo, FilterCondition } from '@/types';
+import { normalizeCountyName } from '@/utils/countyUtils';
+import { FILTER_METRICS, filterCounties, getActiveConditions } from '@/utils/countyFilter';
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+/**
+ * County names keyed by normalized name, for listing matches
+ */
+const COUNTY_DISPLAY_NAMES = new Map<string, string>(
+  TEXAS_COUNTY_PATHS.map(({ name }) => [normalizeCountyName(name), name])
+);
+
+/**
+ * Custom hook for managing the county attribute filter
+ * Conditions are combined with AND; counties matching all of them stay highlighted
+ * and every other county is dimmed
+ * 
+ * @param countyData - County data keyed by normalized county name
+ * @returns Conditions, matches, dimmed counties and handlers
+ */
+export const useCountyFilter = (countyData: Record<string, CountyInfo>) => {
+  const [conditions, setConditions] = useState<FilterCondition[]>([]);
+  const nextIdRef = useRef(1);
+
+  const activeConditions = useMemo(() => getActiveConditions(conditions), [conditions]);
+  const isFilterActive = activeConditions.length > 0;
+
+  // Normalized names of the matching counties, or null when no condition is complete
+  const matchingSet = useMemo(() => {
+    if (!isFilterActive) return null;
+    return new Set(filterCounties(countyData, activeConditions));
+  }, [countyData, activeConditions, isFilterActive]);
+
+  const matchingCounties = useMemo(() => {
+    if (!matchingSet) return [];
+    return [...matchingSet].map(countyName => COUNTY_DISPLAY_NAMES.get(countyName) ?? countyName);
+  }, [matchingSet]);
+
+  // Counties without data never match, so they are dimmed too
+  const filteredOutCounties = useMemo(() => {
+    if (!matchingSet) return null;
+    return new Set([...COUNTY_DISPLAY_NAMES.keys()].filter(countyName => !matchingSet.has(countyName)));
+  }, [matchingSet]);
+
+  /**
+   * Adds an empty condition on the first filterable metric
+   */
+  const addCondition = useCallback((): void => {
+    const id = nextIdRef.current++;
+    setConditions(current => [...current, { id, metric: FILTER_METRICS[0].key, operator: 'lt', value: null }]);
+  }, []);
+
+  /**
+   * Updates a condition
+   * @param id - Condition id
+   * @param changes - Fields to change
+   */
+  const updateCondition = useCallback((id: number, changes: Partial<Omit<FilterCondition, 'id'>>): void => {
+    setConditions(current => current.map(condition => condition.id === id ? { ...condition, ...changes } : condition));
+  }, []);
+
+  /**
+   * Removes a condition
+   * @param id - Condition id
+   */
+  const removeCondition = useCallback((id: number): void => {
+    setConditions(current => current.filter(condition => condition.id !== id));
+  }, []);
+
+  /**
+   * Removes every condition
+   */
+  const clearConditions = useCallback((): void => {
+    setConditions([]);
+  }, []);
+
+  return {
+    conditions,
+    isFilterActive,
+    matchingCounties,
+    filteredOutCounties,
+    addCondition,
+    updateCondition,
+    removeCondition,
+    clearConditions
+  };
+};
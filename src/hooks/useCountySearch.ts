@@ -0,0 +1,54 @@
+import { getAvailableCounties } from '@/apis/countyInfoAPIs';
+import { searchCountyNames } from '@/utils/countyUtils';
+import { useCallback, useMemo, useState } from 'react';
+
+/**
+ * Custom hook for managing county search state
+ * Searches the names returned by getAvailableCounties
+ * 
+ * @returns Query, results, active result and handlers
+ */
+export const useCountySearch = () => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const countyNames = useMemo(() => getAvailableCounties(), []);
+  const results = useMemo(() => searchCountyNames(query, countyNames), [query, countyNames]);
+
+  /**
+   * Updates the query and resets the active result
+   * @param value - Text typed by the user
+   */
+  const updateQuery = useCallback((value: string): void => {
+    setQuery(value);
+    setActiveIndex(-1);
+  }, []);
+
+  /**
+   * Moves the active result up or down, wrapping around the list
+   * @param direction - 1 for the next result, -1 for the previous one
+   */
+  const moveActiveIndex = useCallback((direction: 1 | -1): void => {
+    setActiveIndex(prev => {
+      if (results.length === 0) return -1;
+      return (prev + direction + results.length) % results.length;
+    });
+  }, [results.length]);
+
+  /**
+   * Clears the query and results
+   */
+  const resetSearch = useCallback((): void => {
+    setQuery('');
+    setActiveIndex(-1);
+  }, []);
+
+  return {
+    query,
+    results,
+    activeIndex,
+    updateQuery,
+    moveActiveIndex,
+    resetSearch
+  };
+};
@@ -1,14 +1,17 @@
 import useCallForCountyInfo from '@/hooks/useCallForCountyInfo';
-import { useCallback, useState } from 'react';
+import { AcsVintage } from '@/types';
+import { DEFAULT_ACS_VINTAGE } from '@/utils/acsVintage';
+import { useCallback, useEffect, useState } from 'react';
 
 /**
  * Custom hook for managing county selection and side panel state
  * Integrates with Census API to fetch county data when a county is selected
  * Now includes comprehensive caching functionality via dedicated cache service
  * 
+ * @param vintage - ACS vintage to fetch county data for; data is refetched when it changes
  * @returns County selection state and handlers
  */
-export const useCountySelection = () => {
+export const useCountySelection = (vintage: AcsVintage = DEFAULT_ACS_VINTAGE) => {
   const [selectedCounty, setSelectedCounty] = useState<string | null>(null);
   const [isPanelVisible, setIsPanelVisible] = useState(false);
   
@@ -28,23 +31,25 @@ export const useCountySelection = () => {
   } = useCallForCountyInfo();
 
   /**
-   * Selects a county, shows the side panel, and fetches Census data
-   * Uses dedicated cache service when available to improve performance
+   * Selects a county and shows the side panel
+   * Census data is fetched by the effect below
    * @param countyName - Name of the county to select
    */
-  const selectCounty = useCallback(async (countyName: string): Promise<void> => {
+  const selectCounty = useCallback((countyName: string): void => {
     setSelectedCounty(countyName);
     setIsPanelVisible(true);
-    
-    try {
-      // Fetch Census data for the selected county (will use cache if available)
-      await callForCountyInfo({ countyName });
-      
-    } catch (err) {
-      console.error(`❌ Failed to fetch data for ${countyName}:`, err);
+  }, []);
+
+  // Fetch Census data whenever the selected county or the vintage changes
+  // Uses dedicated cache service when available to improve performance
+  useEffect(() => {
+    if (!selectedCounty) return;
+
+    callForCountyInfo({ countyName: selectedCounty, vintage }).catch((err) => {
+      console.error(`❌ Failed to fetch data for ${selectedCounty}:`, err);
       // Continue showing the panel even if API call fails
-    }
-  }, [callForCountyInfo]);
+    });
+  }, [selectedCounty, vintage, callForCountyInfo]);
 
   /**
    * Closes the side panel and clears selection
@@ -61,12 +66,23 @@ export const useCountySelection = () => {
     setSelectedCounty(null);
   }, []);
 
+  /**
+   * Restores a selection and panel state (e.g. from the URL)
+   * @param countyName - Name of the county to select, or null for no selection
+   * @param isVisible - Whether the side panel is shown
+   */
+  const restoreSelection = useCallback((countyName: string | null, isVisible: boolean): void => {
+    setSelectedCounty(countyName);
+    setIsPanelVisible(countyName !== null && isVisible);
+  }, []);
+
   return {
     selectedCounty,
     isPanelVisible,
     selectCounty,
     closePanel,
     clearSelection,
+    restoreSelection,
     // Census API data and states
     countyData,
     isLoadingCountyData: isLoading,
@@ -0,0 +1,94 @@
+import { getCountyInfoRoute } from "@/apis/countyInfoAPIs";
+import { countyDataCache } from "@/services/countyDataCache";
+import { AcsVintage, CountyInfo, CountyTrendPoint, GetCountyInfoData } from "@/types";
+import { getTrendYears } from "@/utils/trends";
+import { httpRequest } from "@/utils/http";
+import { useCallback, useRef, useState } from 'react';
+
+/**
+ * Fetch one release year for a county, using the cache when possible
+ * @param countyName - Name of the Texas county
+ * @param vintage - ACS vintage to fetch
+ * @returns County data, or null if the release has no data for the county
+ */
+const fetchTrendPoint = async (countyName: string, vintage: AcsVintage): Promise<CountyInfo | null> => {
+    const cachedData = countyDataCache.get(countyName, vintage);
+    if (cachedData) {
+        return cachedData;
+    }
+
+    const response = await httpRequest<CountyInfo>(getCountyInfoRoute({ countyName, vintage }));
+    if (!response.ok || !response.data) {
+        // 404 means the release has no data for this county - keep the gap in the trend
+        if (response.status === 404) return null;
+        throw new Error(response.error || `Failed to load ${vintage.year} data`);
+    }
+
+    countyDataCache.set(countyName, response.data, vintage);
+    return response.data;
+};
+
+/**
+ * Custom hook for fetching the same county variables across several ACS releases
+ * Each year is served from the county cache when possible, otherwise from the proxy route
+ * @returns Trend points and fetch utilities
+ */
+export default function useCountyTrends() {
+    const [trends, setTrends] = useState<CountyTrendPoint[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | undefined>(undefined);
+    // Id of the latest request, so responses of superseded requests are ignored
+    const requestIdRef = useRef(0);
+
+    /**
+     * Fetch county information for every release of the dataset up to the vintage year
+     * @param countyName - Name of the Texas county
+     * @param vintage - Selected ACS vintage (last year of the trend)
+     */
+    const callForCountyTrends = useCallback(async ({ countyName, vintage }: Required<GetCountyInfoData>) => {
+        const requestId = ++requestIdRef.current;
+        setIsLoading(true);
+        setError(undefined);
+
+        try {
+            const points = await Promise.all(
+                getTrendYears(vintage).map(async (year): Promise<CountyTrendPoint> => ({
+                    year,
+                    data: await fetchTrendPoint(countyName, { ...vintage, year })
+                }))
+            );
+
+            if (requestId === requestIdRef.current) {
+                setTrends(points);
+            }
+        } catch (err) {
+            console.error('Error fetching county trends:', err);
+            if (requestId === requestIdRef.current) {
+                setError(err instanceof Error ? err.message : 'Failed to load trend data');
+                setTrends([]);
+            }
+        } finally {
+            if (requestId === requestIdRef.current) {
+                setIsLoading(false);
+            }
+        }
+    }, []);
+
+    /**
+     * Clear trend data (e.g. when another county is selected)
+     */
+    const clearTrends = useCallback(() => {
+        requestIdRef.current++;
+        setTrends([]);
+        setError(undefined);
+        setIsLoading(false);
+    }, []);
+
+    return {
+        trends,
+        isLoading,
+        error,
+        callForCountyTrends,
+        clearTrends
+    };
+}
@@ -0,0 +1,271 @@
+import { TEXAS_COUNTY_PATHS, TEXAS_MAP_VIEWBOX } from '@/data/texasCountyPaths';
+import { MapViewBox } from '@/types';
+import { normalizeCountyName } from '@/utils/countyUtils';
+import {
+  ZOOM_STEP,
+  clampViewBox,
+  clientToMapPoint,
+  easeInOutCubic,
+  getCountyViewBox,
+  getUnitsPerPixel,
+  interpolateViewBox,
+  zoomViewBox
+} from '@/utils/mapViewport';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Duration of the animated zoom to a county, in milliseconds
+ */
+const ZOOM_ANIMATION_MS = 450;
+
+/**
+ * Pointer travel (in pixels) after which a press counts as a drag rather than a click
+ */
+const DRAG_THRESHOLD_PX = 4;
+
+/**
+ * Pointer handlers for panning and pinch zooming the map
+ */
+export interface MapPanHandlers {
+  onPointerDown: (event: React.PointerEvent<SVGSVGElement>) => void;
+  onPointerMove: (event: React.PointerEvent<SVGSVGElement>) => void;
+  onPointerUp: (event: React.PointerEvent<SVGSVGElement>) => void;
+  onPointerCancel: (event: React.PointerEvent<SVGSVGElement>) => void;
+  onClickCapture: (event: React.MouseEvent<SVGSVGElement>) => void;
+}
+
+/**
+ * Custom hook for panning and zooming the county map
+ * 
+ * - Mouse-wheel zoom around the cursor
+ * - Drag panning and two-finger pinch zoom via pointer events
+ * - Zoom buttons, reset, and an animated zoom to a county's bounding box
+ * 
+ * @returns Current view box, SVG ref callback, pointer handlers and zoom controls
+ */
+export const useMapViewport = () => {
+  const [viewBox, setViewBox] = useState<MapViewBox>(TEXAS_MAP_VIEWBOX);
+  // SVG element of the map, set through a callback ref since the map mounts after hydration
+  const [svgElement, setSvgElement] = useState<SVGSVGElement | null>(null);
+  // Latest view box, read by event handlers between renders
+  const viewBoxRef = useRef<MapViewBox>(TEXAS_MAP_VIEWBOX);
+  // Active pointers keyed by pointer id, in screen coordinates
+  const pointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
+  // Distance between two pinching pointers on the previous move
+  const pinchDistanceRef = useRef<number | null>(null);
+  // Pointer travel since the press started, to tell drags from clicks
+  const dragDistanceRef = useRef(0);
+  // Pending animation frame of a zoom animation
+  const animationFrameRef = useRef<number | null>(null);
+
+  /**
+   * Updates the view box, keeping it within the map
+   * @param nextViewBox - Requested view box
+   */
+  const updateViewBox = useCallback((nextViewBox: MapViewBox): void => {
+    const clampedViewBox = clampViewBox(nextViewBox, TEXAS_MAP_VIEWBOX);
+    viewBoxRef.current = clampedViewBox;
+    setViewBox(clampedViewBox);
+  }, []);
+
+  /**
+   * Stops a running zoom animation (e.g. when the user starts panning)
+   */
+  const cancelAnimation = useCallback((): void => {
+    if (animationFrameRef.current !== null) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Animates the view box to a target
+   * Jumps straight there when the user prefers reduced motion
+   * @param target - Target view box
+   */
+  const animateTo = useCallback((target: MapViewBox): void => {
+    cancelAnimation();
+
+    if (window.matchMedia('(prefers-reduced-motion: reduce)').matches) {
+      updateViewBox(target);
+      return;
+    }
+
+    const from = viewBoxRef.current;
+    const startTime = performance.now();
+
+    const step = (now: number): void => {
+      const progress = Math.min((now - startTime) / ZOOM_ANIMATION_MS, 1);
+      updateViewBox(interpolateViewBox(from, target, easeInOutCubic(progress)));
+      animationFrameRef.current = progress < 1 ? requestAnimationFrame(step) : null;
+    };
+
+    animationFrameRef.current = requestAnimationFrame(step);
+  }, [cancelAnimation, updateViewBox]);
+
+  /**
+   * Zooms around a screen point
+   * @param factor - Zoom factor (above 1 zooms in)
+   * @param clientX - Screen x coordinate of the focal point
+   * @param clientY - Screen y coordinate of the focal point
+   */
+  const zoomAtClientPoint = useCallback((factor: number, clientX: number, clientY: number): void => {
+    if (!svgElement) return;
+
+    const focus = clientToMapPoint(clientX, clientY, svgElement.getBoundingClientRect(), viewBoxRef.current);
+    updateViewBox(zoomViewBox(viewBoxRef.current, factor, focus));
+  }, [svgElement, updateViewBox]);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const svg = svgElement;
+    if (!svg) return;
+
+    const handleWheel = (event: WheelEvent): void => {
+      event.preventDefault();
+      cancelAnimation();
+      zoomAtClientPoint(Math.exp(-event.deltaY * 0.002), event.clientX, event.clientY);
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => {
+      svg.removeEventListener('wheel', handleWheel);
+    };
+  }, [svgElement, cancelAnimation, zoomAtClientPoint]);
+
+  // Stop any animation on unmount
+  useEffect(() => cancelAnimation, [cancelAnimation]);
+
+  /**
+   * Zooms to the bounding box of a county
+   * @param countyName - Name of the county
+   */
+  const zoomToCounty = useCallback((countyName: string): void => {
+    const county = TEXAS_COUNTY_PATHS.find(({ name }) => normalizeCountyName(name) === normalizeCountyName(countyName));
+    if (county) {
+      animateTo(getCountyViewBox(county.bbox, TEXAS_MAP_VIEWBOX));
+    }
+  }, [animateTo]);
+
+  /**
+   * Zooms in one step around the center of the view
+   */
+  const zoomIn = useCallback((): void => {
+    const { x, y, width, height } = viewBoxRef.current;
+    animateTo(clampViewBox(zoomViewBox(viewBoxRef.current, ZOOM_STEP, { x: x + width / 2, y: y + height / 2 }), TEXAS_MAP_VIEWBOX));
+  }, [animateTo]);
+
+  /**
+   * Zooms out one step around the center of the view
+   */
+  const zoomOut = useCallback((): void => {
+    const { x, y, width, height } = viewBoxRef.current;
+    animateTo(clampViewBox(zoomViewBox(viewBoxRef.current, 1 / ZOOM_STEP, { x: x + width / 2, y: y + height / 2 }), TEXAS_MAP_VIEWBOX));
+  }, [animateTo]);
+
+  /**
+   * Returns to the full map
+   */
+  const resetView = useCallback((): void => {
+    animateTo(TEXAS_MAP_VIEWBOX);
+  }, [animateTo]);
+
+  /**
+   * Starts tracking a pointer for panning or pinching
+   * @param event - Pointer down event
+   */
+  const onPointerDown = (event: React.PointerEvent<SVGSVGElement>): void => {
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+
+    cancelAnimation();
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    if (pointersRef.current.size === 1) {
+      dragDistanceRef.current = 0;
+    }
+    pinchDistanceRef.current = null;
+  };
+
+  /**
+   * Pans with one pointer, pinch zooms with two
+   * @param event - Pointer move event
+   */
+  const onPointerMove = (event: React.PointerEvent<SVGSVGElement>): void => {
+    const svg = svgElement;
+    const previous = pointersRef.current.get(event.pointerId);
+    if (!svg || !previous) return;
+
+    const current = { x: event.clientX, y: event.clientY };
+    pointersRef.current.set(event.pointerId, current);
+    const rect = svg.getBoundingClientRect();
+
+    if (pointersRef.current.size === 1) {
+      const deltaX = current.x - previous.x;
+      const deltaY = current.y - previous.y;
+      dragDistanceRef.current += Math.hypot(deltaX, deltaY);
+      if (dragDistanceRef.current < DRAG_THRESHOLD_PX) return;
+
+      // Keep receiving moves while dragging across county paths and outside the map
+      if (!svg.hasPointerCapture(event.pointerId)) {
+        svg.setPointerCapture(event.pointerId);
+      }
+
+      const unitsPerPixel = getUnitsPerPixel(rect, viewBoxRef.current);
+      updateViewBox({
+        ...viewBoxRef.current,
+        x: viewBoxRef.current.x - deltaX * unitsPerPixel,
+        y: viewBoxRef.current.y - deltaY * unitsPerPixel
+      });
+      return;
+    }
+
+    if (pointersRef.current.size === 2) {
+      const [first, second] = [...pointersRef.current.values()];
+      const distance = Math.hypot(first.x - second.x, first.y - second.y);
+      dragDistanceRef.current = Infinity;
+
+      if (pinchDistanceRef.current) {
+        zoomAtClientPoint(distance / pinchDistanceRef.current, (first.x + second.x) / 2, (first.y + second.y) / 2);
+      }
+      pinchDistanceRef.current = distance;
+    }
+  };
+
+  /**
+   * Stops tracking a pointer
+   * @param event - Pointer up or cancel event
+   */
+  const onPointerUp = (event: React.PointerEvent<SVGSVGElement>): void => {
+    pointersRef.current.delete(event.pointerId);
+    pinchDistanceRef.current = null;
+  };
+
+  /**
+   * Swallows the click that ends a drag, so panning doesn't select a county
+   * @param event - Click event in the capture phase
+   */
+  const onClickCapture = (event: React.MouseEvent<SVGSVGElement>): void => {
+    if (dragDistanceRef.current >= DRAG_THRESHOLD_PX) {
+      event.stopPropagation();
+      dragDistanceRef.current = 0;
+    }
+  };
+
+  const panHandlers: MapPanHandlers = {
+    onPointerDown,
+    onPointerMove,
+    onPointerUp,
+    onPointerCancel: onPointerUp,
+    onClickCapture
+  };
+
+  return {
+    viewBox,
+    svgRef: setSvgElement,
+    panHandlers,
+    isZoomed: viewBox.width < TEXAS_MAP_VIEWBOX.width,
+    zoomIn,
+    zoomOut,
+    resetView,
+    zoomToCounty
+  };
+};
@@ -0,0 +1,56 @@
+import { CountyInfo, RegionDefinition, RegionType } from '@/types';
+import { normalizeCountyName } from '@/utils/countyUtils';
+import { aggregateRegion, getRegionById, getRegionCountyNames } from '@/utils/regions';
+import { useCallback, useMemo, useState } from 'react';
+
+/**
+ * Custom hook for managing the selected region (metro area, council of governments or
+ * Comptroller economic region)
+ * Aggregates the member counties once statewide county data is loaded
+ * 
+ * @param countiesByFips - County data keyed by 5-digit FIPS code
+ * @returns Selected region, its member counties and summary, and handlers
+ */
+export const useRegionSelection = (countiesByFips: Record<string, CountyInfo>) => {
+  const [regionType, setRegionType] = useState<RegionType>('msa');
+  const [regionId, setRegionId] = useState<string | null>(null);
+
+  const selectedRegion: RegionDefinition | null = regionId ? getRegionById(regionId) : null;
+
+  // Normalized names of the member counties, for highlighting on the map
+  const regionCounties = useMemo(() => {
+    if (!selectedRegion) return null;
+    return new Set(getRegionCountyNames(selectedRegion).map(countyName => normalizeCountyName(countyName)));
+  }, [selectedRegion]);
+
+  const regionSummary = useMemo(() => {
+    if (!selectedRegion) return null;
+    return aggregateRegion(selectedRegion, countiesByFips);
+  }, [selectedRegion, countiesByFips]);
+
+  /**
+   * Switches the kind of region offered in the picker and clears the selection
+   * @param type - Region type
+   */
+  const selectRegionType = useCallback((type: RegionType): void => {
+    setRegionType(type);
+    setRegionId(null);
+  }, []);
+
+  /**
+   * Selects a region
+   * @param id - Region id, or null to clear the selection
+   */
+  const selectRegion = useCallback((id: string | null): void => {
+    setRegionId(id);
+  }, []);
+
+  return {
+    regionType,
+    selectedRegion,
+    regionCounties,
+    regionSummary,
+    selectRegionType,
+    selectRegion
+  };
+};
@@ -1,83 +1,269 @@
-import { isValidCountyName } from '@/utils/countyUtils';
-import { setDefaultCountyStyles, setHoverCountyStyles } from '@/utils/mapStyling';
-import { useCallback } from 'react';
+import { TEXAS_COUNTY_PATHS, TEXAS_MAP_VIEWBOX } from '@/data/texasCountyPaths';
+import { normalizeCountyName } from '@/utils/countyUtils';
+import { ARROW_KEY_DIRECTIONS, CountyCenter, findCountyInDirection } from '@/utils/mapAccessibility';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 /**
  * Interface for SVG map interaction handlers
  */
 interface SVGMapHandlers {
-  onCountyHover: (countyName: string, event: Event) => void;
-  onCountyMove: () => void;
+  /** Called when a county is hovered or receives keyboard focus */
+  onCountyHover: (countyName: string, element: Element) => void;
+  /** Called when a county is tapped once on a touch screen */
+  onCountyPreview: (countyName: string, element: Element) => void;
   onCountyLeave: () => void;
   onCountyClick: (countyName: string) => void;
+  /** Called instead of onCountyClick on shift-click, Shift+Enter or long-press */
+  onCountyPin?: (countyName: string) => void;
 }
 
+/**
+ * Event handlers attached to every county path
+ */
+export interface CountyPathHandlers {
+  onPointerEnter: (countyName: string, event: React.PointerEvent<SVGPathElement>) => void;
+  onPointerLeave: (event: React.PointerEvent<SVGPathElement>) => void;
+  onPointerDown: (countyName: string, event: React.PointerEvent<SVGPathElement>) => void;
+  onPointerUp: () => void;
+  onClick: (countyName: string, event: React.MouseEvent<SVGPathElement>) => void;
+  onContextMenu: (event: React.MouseEvent<SVGPathElement>) => void;
+  onFocus: (countyName: string, element: Element) => void;
+  onBlur: () => void;
+  onKeyDown: (countyName: string, event: React.KeyboardEvent<SVGPathElement>) => void;
+}
+
+/**
+ * How long a touch must be held to pin a county, in milliseconds
+ */
+const LONG_PRESS_MS = 550;
+
+/**
+ * County path centers keyed by normalized county name, for arrow key navigation
+ */
+const COUNTY_CENTERS = new Map<string, CountyCenter>(
+  TEXAS_COUNTY_PATHS.map(({ name, bbox }) => [
+    normalizeCountyName(name),
+    { x: bbox.x + bbox.width / 2, y: bbox.y + bbox.height / 2 }
+  ])
+);
+
+/**
+ * County nearest the middle of the map, where keyboard users start
+ */
+const INITIAL_FOCUSABLE_COUNTY = (() => {
+  const middle = {
+    x: TEXAS_MAP_VIEWBOX.x + TEXAS_MAP_VIEWBOX.width / 2,
+    y: TEXAS_MAP_VIEWBOX.y + TEXAS_MAP_VIEWBOX.height / 2
+  };
+  let closestCounty: string | null = null;
+  let closestDistance = Infinity;
+  COUNTY_CENTERS.forEach((center, countyName) => {
+    const distance = Math.hypot(center.x - middle.x, center.y - middle.y);
+    if (distance < closestDistance) {
+      closestDistance = distance;
+      closestCounty = countyName;
+    }
+  });
+  return closestCounty;
+})();
+
 /**
  * Custom hook for managing SVG map interactions
  * 
+ * Counties respond to the mouse and to the keyboard: the map is a single tab stop
+ * (roving tabindex), arrow keys move focus to the neighbouring county in that
+ * direction, and Enter/Space select the focused county.
+ * 
+ * On touch screens there is no hover: the first tap previews a county, a second tap
+ * on the same county selects it, and a long-press pins it for comparison.
+ * 
  * @param handlers - Event handlers for map interactions
- * @returns Setup function for SVG map
+ * @returns Hover and focus state, county path handlers and focus controls
  */
 export const useSVGMapInteractions = (handlers: SVGMapHandlers) => {
-  
+  // Normalized name of the hovered or focused county
+  const [hoveredCounty, setHoveredCounty] = useState<string | null>(null);
+  // Normalized name of the county holding the roving tabindex
+  const [focusableCounty, setFocusableCounty] = useState<string | null>(INITIAL_FOCUSABLE_COUNTY);
+  // County path elements keyed by normalized county name
+  const countyElementsRef = useRef<Map<string, SVGPathElement>>(new Map());
+  // Whether the latest county activation came from the keyboard
+  const keyboardActivatedRef = useRef(false);
+  // Normalized name of the county previewed by a first tap
+  const previewedCountyRef = useRef<string | null>(null);
+  // Pending long-press timer
+  const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Whether the current press already pinned a county (its click is ignored)
+  const longPressTriggeredRef = useRef(false);
+  // Pointer type of the latest press ('mouse', 'pen' or 'touch')
+  const pointerTypeRef = useRef<string>('mouse');
+  // Latest handlers, so the memoized path handlers never call stale closures
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  /**
+   * Keeps track of a county path element (used as a ref callback)
+   * @param countyName - Name of the county
+   * @param element - Path element, or null when it unmounts
+   */
+  const registerCounty = useCallback((countyName: string, element: SVGPathElement | null): void => {
+    if (element) {
+      countyElementsRef.current.set(normalizeCountyName(countyName), element);
+    } else {
+      countyElementsRef.current.delete(normalizeCountyName(countyName));
+    }
+  }, []);
+
   /**
-   * Sets up event listeners for all county paths in the SVG
-   * @param iframe - HTMLIFrameElement containing the SVG map
+   * Cancels a pending long-press
    */
-  const setupSVGInteractions = useCallback((iframe: HTMLIFrameElement): void => {
-    try {
-      const svgDoc = iframe.contentDocument || iframe.contentWindow?.document;
-      
-      if (!svgDoc) {
-        console.error('Could not access SVG document');
+  const clearLongPress = useCallback((): void => {
+    if (longPressTimerRef.current !== null) {
+      clearTimeout(longPressTimerRef.current);
+      longPressTimerRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Ends a touch preview (e.g. when the background of the map is tapped)
+   */
+  const clearPreview = useCallback((): void => {
+    if (!previewedCountyRef.current) return;
+
+    previewedCountyRef.current = null;
+    setHoveredCounty(null);
+    handlersRef.current.onCountyLeave();
+  }, []);
+
+  // Don't fire a long-press after unmount
+  useEffect(() => clearLongPress, [clearLongPress]);
+
+  // Stable handlers shared by every county path, so paths only re-render when their own state changes
+  const countyHandlers = useMemo<CountyPathHandlers>(() => {
+    /**
+     * Selects the county, or pins it for comparison when shift is held
+     * @param countyName - Name of the county
+     * @param shiftKey - Whether shift was held
+     */
+    const activateCounty = (countyName: string, shiftKey: boolean): void => {
+      const { onCountyPin, onCountyClick } = handlersRef.current;
+      if (shiftKey && onCountyPin) {
+        onCountyPin(countyName);
         return;
       }
+      onCountyClick(countyName);
+    };
 
-      const counties = svgDoc.querySelectorAll('path[id]');
-      
-      counties.forEach((county) => {
-        const countyName = county.getAttribute('id');
-        
-        if (!countyName || !isValidCountyName(countyName)) {
+    return {
+      onPointerEnter: (countyName, event) => {
+        // Touch has no hover - previews come from taps instead
+        if (event.pointerType === 'touch') return;
+
+        setHoveredCounty(normalizeCountyName(countyName));
+        handlersRef.current.onCountyHover(countyName, event.currentTarget);
+      },
+      onPointerLeave: (event) => {
+        clearLongPress();
+        if (event.pointerType === 'touch') return;
+
+        setHoveredCounty(null);
+        handlersRef.current.onCountyLeave();
+      },
+      onPointerDown: (countyName, event) => {
+        pointerTypeRef.current = event.pointerType;
+        longPressTriggeredRef.current = false;
+        clearLongPress();
+        if (event.pointerType !== 'touch' || !event.isPrimary) return;
+
+        longPressTimerRef.current = setTimeout(() => {
+          longPressTimerRef.current = null;
+          longPressTriggeredRef.current = true;
+          navigator.vibrate?.(30);
+          handlersRef.current.onCountyPin?.(countyName);
+        }, LONG_PRESS_MS);
+      },
+      onPointerUp: clearLongPress,
+      onClick: (countyName, event) => {
+        keyboardActivatedRef.current = false;
+        if (longPressTriggeredRef.current) {
+          longPressTriggeredRef.current = false;
           return;
         }
 
-        const countyElement = county as SVGElement;
-        
-        // Set default styles
-        setDefaultCountyStyles(countyElement);
-        
-        // Add event listeners for tooltip and interaction
-        county.addEventListener('mouseenter', (event) => {
-          handlers.onCountyHover(countyName, event);
-          setHoverCountyStyles(countyElement);
-        });
-        
-        county.addEventListener('mouseleave', () => {
-          handlers.onCountyLeave();
-          // Reset to default styles
-          setDefaultCountyStyles(countyElement);
-        });
-        
-        county.addEventListener('click', () => {
-          handlers.onCountyClick(countyName);
-        });
-      });
-    } catch (error) {
-      console.error('Error accessing iframe content:', error);
-    }
-  }, [handlers]);
+        if (pointerTypeRef.current !== 'touch') {
+          activateCounty(countyName, event.shiftKey);
+          return;
+        }
+
+        // First tap previews, a second tap on the same county selects it
+        const normalizedName = normalizeCountyName(countyName);
+        if (previewedCountyRef.current !== normalizedName) {
+          previewedCountyRef.current = normalizedName;
+          setHoveredCounty(normalizedName);
+          handlersRef.current.onCountyPreview(countyName, event.currentTarget);
+          return;
+        }
+
+        previewedCountyRef.current = null;
+        setHoveredCounty(null);
+        handlersRef.current.onCountyLeave();
+        activateCounty(countyName, false);
+      },
+      onContextMenu: (event) => {
+        // Keep the browser's long-press menu from covering the map
+        if (pointerTypeRef.current === 'touch') {
+          event.preventDefault();
+        }
+      },
+      onFocus: (countyName, element) => {
+        setFocusableCounty(normalizeCountyName(countyName));
+        setHoveredCounty(normalizeCountyName(countyName));
+        handlersRef.current.onCountyHover(countyName, element);
+      },
+      onBlur: () => {
+        setHoveredCounty(null);
+        handlersRef.current.onCountyLeave();
+      },
+      onKeyDown: (countyName, event) => {
+        if (event.key === 'Enter' || event.key === ' ') {
+          event.preventDefault();
+          keyboardActivatedRef.current = true;
+          activateCounty(countyName, event.shiftKey);
+          return;
+        }
+
+        const direction = ARROW_KEY_DIRECTIONS[event.key];
+        if (direction) {
+          event.preventDefault();
+          const neighbour = findCountyInDirection(normalizeCountyName(countyName), direction, COUNTY_CENTERS);
+          if (neighbour) {
+            setFocusableCounty(neighbour);
+            countyElementsRef.current.get(neighbour)?.focus();
+          }
+        }
+      }
+    };
+  }, [clearLongPress]);
 
   /**
-   * Handles iframe load event
-   * @param event - Load event from iframe
+   * Returns keyboard focus to the last focused county (e.g. after closing the side panel)
+   * Only applies when the county was activated from the keyboard
    */
-  const handleIframeLoad = useCallback((event: React.SyntheticEvent<HTMLIFrameElement>): void => {
-    const iframe = event.target as HTMLIFrameElement;
-    setupSVGInteractions(iframe);
-  }, [setupSVGInteractions]);
+  const restoreCountyFocus = useCallback((): void => {
+    if (!keyboardActivatedRef.current || !focusableCounty) return;
+
+    countyElementsRef.current.get(focusableCounty)?.focus();
+  }, [focusableCounty]);
 
   return {
-    handleIframeLoad
+    hoveredCounty,
+    focusableCounty,
+    registerCounty,
+    countyHandlers,
+    clearPreview,
+    restoreCountyFocus
   };
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,78 @@
+import { getAllCountiesInfoRoute, getCountyNameByFips } from "@/apis/countyInfoAPIs";
+import { useHttpRequest } from "@/hooks/useHttpRequest";
+import { countyDataCache } from "@/services/countyDataCache";
+import { AcsVintage, CountyInfo } from "@/types";
+import { getAcsVintageKey } from "@/utils/acsVintage";
+import { useCallback, useState } from 'react';
+
+/**
+ * Number of counties in Texas
+ */
+const TEXAS_COUNTY_COUNT = 254;
+
+/**
+ * Custom hook for fetching data for every Texas county in a single Census request
+ * Requests go through the app's server-side Census proxy route
+ * Seeds the county cache so later single-county lookups don't hit the API
+ * @returns Statewide county data keyed by FIPS code and fetch utilities
+ */
+export default function useStatewideCountyInfo() {
+    const { isLoading, isError, error, execute } = useHttpRequest<Record<string, CountyInfo>>(
+        '',
+        { immediate: false }
+    );
+
+    const [countiesByFips, setCountiesByFips] = useState<Record<string, CountyInfo>>({});
+    // Vintage key of the data in countiesByFips (null until the first load)
+    const [loadedVintageKey, setLoadedVintageKey] = useState<string | null>(null);
+
+    /**
+     * Fetch data for all Texas counties
+     * Skips the request when every county is already in the cache
+     * @param vintage - ACS vintage to fetch
+     * @returns County data keyed by FIPS code, or null if the request failed
+     */
+    const callForAllCounties = useCallback(async (vintage: AcsVintage): Promise<Record<string, CountyInfo> | null> => {
+        const cachedCounties = Object.values(countyDataCache.getAll(vintage));
+        if (cachedCounties.length >= TEXAS_COUNTY_COUNT) {
+            const cachedByFips: Record<string, CountyInfo> = {};
+            cachedCounties.forEach(county => {
+                cachedByFips[`${county.stateCode}${county.countyCode}`] = county;
+            });
+            setCountiesByFips(cachedByFips);
+            setLoadedVintageKey(getAcsVintageKey(vintage));
+            return cachedByFips;
+        }
+
+        const response = await execute(getAllCountiesInfoRoute(vintage));
+        if (!response.ok || !response.data) {
+            console.error('Error fetching statewide county info:', response.error);
+            return null;
+        }
+
+        const processedCounties = response.data;
+
+        // Seed the cache by county name so single-county lookups are served from it
+        const countiesByName: Record<string, CountyInfo> = {};
+        Object.entries(processedCounties).forEach(([fips, county]) => {
+            const countyName = getCountyNameByFips(fips);
+            if (countyName) {
+                countiesByName[countyName] = county;
+            }
+        });
+        countyDataCache.setMany(countiesByName, vintage);
+
+        setCountiesByFips(processedCounties);
+        setLoadedVintageKey(getAcsVintageKey(vintage));
+        return processedCounties;
+    }, [execute]);
+
+    return {
+        countiesByFips,
+        loadedVintageKey,
+        isLoading,
+        isError,
+        error,
+        callForAllCounties
+    };
+}
@@ -8,6 +8,8 @@ interface TooltipData {
   y: number;
   county: string;
   visible: boolean;
+  /** Whether the tooltip is a touch preview (tap again or use its button to open details) */
+  isPreview: boolean;
 }
 
 const TOOLTIP_OFFSET = 60;
@@ -22,47 +24,26 @@ export const useTooltip = () => {
     x: 0,
     y: 0,
     county: '',
-    visible: false
+    visible: false,
+    isPreview: false
   });
 
   /**
    * Shows tooltip positioned above the county element
    * @param countyName - Name of the county to display
-   * @param event - Mouse event containing the target element
+   * @param element - County path element the tooltip points at
+   * @param isPreview - Whether the tooltip previews a tapped county on a touch screen
    */
-  const showTooltip = useCallback((countyName: string, event: Event): void => {
-    const mouseEvent = event as MouseEvent;
-    const pathElement = mouseEvent.target as SVGPathElement;
-    
-    // Get the iframe element that contains the SVG
-    const iframe = pathElement.ownerDocument?.defaultView?.frameElement as HTMLIFrameElement;
-    
-    if (iframe) {
-      // Get the bounding box of the county path element (relative to iframe)
-      const pathBbox = pathElement.getBoundingClientRect();
-      
-      // Get the bounding box of the iframe (relative to main window)
-      const iframeBbox = iframe.getBoundingClientRect();
-      
-      // Calculate the absolute position by adding iframe offset
-      const absoluteX = iframeBbox.left + pathBbox.left + pathBbox.width / 2;
-      const absoluteY = iframeBbox.top + pathBbox.top;
-      
-      setTooltip({
-        x: absoluteX,
-        y: absoluteY - TOOLTIP_OFFSET, // Position 60px above the county
-        county: countyName,
-        visible: true
-      });
-    } else {
-      // Fallback to mouse position if iframe calculation fails
-      setTooltip({
-        x: mouseEvent.clientX,
-        y: mouseEvent.clientY - TOOLTIP_OFFSET, // Also increase fallback offset
-        county: countyName,
-        visible: true
-      });
-    }
+  const showTooltip = useCallback((countyName: string, element: Element, isPreview = false): void => {
+    const pathBbox = element.getBoundingClientRect();
+
+    setTooltip({
+      x: pathBbox.left + pathBbox.width / 2,
+      y: pathBbox.top - TOOLTIP_OFFSET, // Position 60px above the county
+      county: countyName,
+      visible: true,
+      isPreview
+    });
   }, []);
 
   /**
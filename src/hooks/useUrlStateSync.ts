@@ -0,0 +1,63 @@
+import { MapUrlState, buildMapUrlQuery, parseMapUrlState } from '@/utils/urlState';
+import { useEffect, useRef } from 'react';
+
+/**
+ * Custom hook for keeping the map view state in the URL query string
+ * 
+ * - Restores the state from the URL on load
+ * - Pushes a history entry whenever the state changes, so views can be bookmarked and shared
+ * - Restores the state on browser back/forward
+ * 
+ * @param state - Current map view state
+ * @param applyState - Function that applies a state read from the URL
+ */
+export const useUrlStateSync = (
+  state: MapUrlState,
+  applyState: (state: MapUrlState) => void
+): void => {
+  // Query the app state is catching up to after a restore; URL writes wait until it matches
+  const pendingQueryRef = useRef<string | null>(null);
+  // Latest applyState, so the popstate listener never calls a stale closure
+  const applyStateRef = useRef(applyState);
+
+  useEffect(() => {
+    applyStateRef.current = applyState;
+  }, [applyState]);
+
+  // Restore from the URL on load and on back/forward navigation
+  useEffect(() => {
+    const restoreFromUrl = (): void => {
+      const restoredState = parseMapUrlState(window.location.search);
+      pendingQueryRef.current = buildMapUrlQuery(restoredState);
+      applyStateRef.current(restoredState);
+    };
+
+    restoreFromUrl();
+    window.addEventListener('popstate', restoreFromUrl);
+    return () => {
+      window.removeEventListener('popstate', restoreFromUrl);
+    };
+  }, []);
+
+  const query = buildMapUrlQuery(state);
+
+  // Write state changes to the URL
+  useEffect(() => {
+    const url = `${window.location.pathname}${query}${window.location.hash}`;
+
+    if (pendingQueryRef.current !== null) {
+      if (query !== pendingQueryRef.current) return;
+
+      // Restored state is applied - tidy unknown or default params without adding a history entry
+      pendingQueryRef.current = null;
+      if (query !== window.location.search) {
+        window.history.replaceState(null, '', url);
+      }
+      return;
+    }
+
+    if (query !== window.location.search) {
+      window.history.pushState(null, '', url);
+    }
+  }, [query]);
+};
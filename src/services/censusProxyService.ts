@@ -0,0 +1,120 @@
+import {
+  CensusParseError,
+  getAllCountiesInfo,
+  getCountyInfoByFips,
+  processCensusData,
+  processStatewideCensusData
+} from '@/apis/countyInfoAPIs';
+import { serverCensusCache } from '@/services/serverCensusCache';
+import { AcsVintage, CensusResponse, CountyInfo } from '@/types';
+import { getAcsVintageKey } from '@/utils/acsVintage';
+import { httpRequest } from '@/utils/http';
+
+/**
+ * Error raised when the Census Bureau request fails
+ * Carries the HTTP status to return from the proxy route
+ */
+export class CensusProxyError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'CensusProxyError';
+  }
+}
+
+/**
+ * Append the server's Census API key, when configured, to a Census URL
+ * The key is read from the CENSUS_API_KEY env var and never reaches the browser
+ * @param url - Census API URL
+ * @returns URL with the key query parameter
+ */
+const withCensusApiKey = (url: string): string => {
+  const apiKey = process.env.CENSUS_API_KEY;
+  return apiKey ? `${url}&key=${encodeURIComponent(apiKey)}` : url;
+};
+
+/**
+ * Request raw Census data, throwing a CensusProxyError on failure
+ * @param url - Census API URL
+ * @returns Raw Census response (array of arrays format)
+ */
+const requestCensusData = async (url: string): Promise<CensusResponse> => {
+  const response = await httpRequest<CensusResponse>(withCensusApiKey(url));
+
+  // The Census API answers 204 No Content when a vintage has no data for the geography
+  // (e.g. 1-year estimates for counties under 65,000 people)
+  if (response.status === 204) {
+    throw new CensusProxyError('No Census data available for this geography and vintage', 404);
+  }
+
+  if (!response.ok || !Array.isArray(response.data)) {
+    throw new CensusProxyError(
+      response.error || 'Unexpected response from the Census Bureau',
+      response.status >= 400 ? response.status : 502
+    );
+  }
+
+  return response.data;
+};
+
+/**
+ * Parse raw Census data, reporting malformed responses as a bad gateway
+ * @param parse - Census response parser
+ * @param data - Raw Census response
+ * @returns Parsed data
+ */
+const parseCensusData = <T>(parse: (data: CensusResponse) => T, data: CensusResponse): T => {
+  try {
+    return parse(data);
+  } catch (error) {
+    if (error instanceof CensusParseError) {
+      throw new CensusProxyError(`Unexpected response from the Census Bureau: ${error.message}`, 502);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Get data for every Texas county, using the shared server cache
+ * @param vintage - ACS vintage to request
+ * @returns County data keyed by 5-digit FIPS code
+ */
+export const fetchAllCountiesInfo = async (vintage: AcsVintage): Promise<Record<string, CountyInfo>> => {
+  const cacheKey = `${getAcsVintageKey(vintage)}:counties`;
+  const cachedCounties = serverCensusCache.get<Record<string, CountyInfo>>(cacheKey);
+  if (cachedCounties) {
+    return cachedCounties;
+  }
+
+  const counties = parseCensusData(
+    processStatewideCensusData,
+    await requestCensusData(getAllCountiesInfo(vintage))
+  );
+  serverCensusCache.set(cacheKey, counties);
+  return counties;
+};
+
+/**
+ * Get data for a single Texas county, using the shared server cache
+ * Served from the statewide entry when it is already cached
+ * @param countyFips - 3-digit county FIPS code (e.g., "201")
+ * @param vintage - ACS vintage to request
+ * @returns County data
+ */
+export const fetchCountyInfo = async (countyFips: string, vintage: AcsVintage): Promise<CountyInfo> => {
+  const vintageKey = getAcsVintageKey(vintage);
+  const cacheKey = `${vintageKey}:county:${countyFips}`;
+  const cachedCounty =
+    serverCensusCache.get<CountyInfo>(cacheKey) ??
+    serverCensusCache.get<Record<string, CountyInfo>>(`${vintageKey}:counties`)?.[`48${countyFips}`];
+  if (cachedCounty) {
+    return cachedCounty;
+  }
+
+  const county = parseCensusData(
+    processCensusData,
+    await requestCensusData(getCountyInfoByFips(countyFips, vintage))
+  );
+
+  serverCensusCache.set(cacheKey, county);
+  return county;
+};
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CACHE_SCHEMA_VERSION, CountyDataCacheService, MAX_PERSISTED_SIZE } from '@/services/countyDataCache';
+import { buildCounty } from '@/test/countyFixtures';
+import { AcsVintage } from '@/types';
+
+/**
+ * localStorage key of the persisted vintage index
+ */
+const INDEX_KEY = 'texas-map:county-data-cache:index';
+
+const VINTAGE_2022: AcsVintage = { year: 2022, dataset: 'acs5' };
+const VINTAGE_2021: AcsVintage = { year: 2021, dataset: 'acs5' };
+
+const travis = buildCounty('453', { population: 1290188 });
+
+/**
+ * In-memory stand-in for localStorage
+ */
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  keys(): string[] {
+    return [...this.items.keys()].sort();
+  }
+}
+
+let storage: MemoryStorage;
+
+beforeEach(() => {
+  storage = new MemoryStorage();
+  vi.stubGlobal('window', { localStorage: storage });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('countyDataCache persistence', () => {
+  it('stores each vintage under its own key', () => {
+    const cache = new CountyDataCacheService();
+    cache.set('Travis', travis, VINTAGE_2022);
+    cache.set('Travis', travis, VINTAGE_2021);
+
+    expect(storage.keys()).toEqual([
+      'texas-map:county-data-cache:2021/acs5',
+      'texas-map:county-data-cache:2022/acs5',
+      INDEX_KEY
+    ]);
+    expect(JSON.parse(storage.getItem(INDEX_KEY)!).vintages.map(({ key }: { key: string }) => key))
+      .toEqual(['2022/acs5', '2021/acs5']);
+  });
+
+  it('hydrates a new instance from storage', () => {
+    new CountyDataCacheService().setMany({ Travis: travis, Harris: buildCounty('201', {}) }, VINTAGE_2022);
+
+    const cache = new CountyDataCacheService();
+
+    expect(cache.get('travis', VINTAGE_2022)).toEqual(travis);
+    expect(cache.size(VINTAGE_2022)).toBe(2);
+    expect(cache.size(VINTAGE_2021)).toBe(0);
+  });
+
+  it('drops entries persisted with another schema version', () => {
+    new CountyDataCacheService().set('Travis', travis, VINTAGE_2022);
+    const index = JSON.parse(storage.getItem(INDEX_KEY)!);
+    storage.setItem(INDEX_KEY, JSON.stringify({ ...index, schemaVersion: CACHE_SCHEMA_VERSION - 1 }));
+
+    const cache = new CountyDataCacheService();
+
+    expect(cache.size()).toBe(0);
+    expect(storage.keys()).toEqual([]);
+  });
+
+  it('drops expired entries when hydrating', () => {
+    vi.useFakeTimers();
+    try {
+      new CountyDataCacheService().set('Travis', travis, VINTAGE_2022);
+      vi.advanceTimersByTime(25 * 60 * 60 * 1000);
+
+      expect(new CountyDataCacheService().size()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('evicts the least recently written vintages beyond MAX_PERSISTED_SIZE', () => {
+    // Padded so three vintages exceed the limit
+    const largeCounty = { ...travis, name: 'x'.repeat(Math.ceil(MAX_PERSISTED_SIZE / 3)) };
+    const cache = new CountyDataCacheService();
+    [2019, 2020, 2021, 2022].forEach(year => cache.set('Travis', largeCounty, { year, dataset: 'acs5' }));
+
+    const vintages: { key: string; size: number }[] = JSON.parse(storage.getItem(INDEX_KEY)!).vintages;
+    expect(vintages.map(({ key }) => key)).toEqual(['2021/acs5', '2022/acs5']);
+    expect(vintages.reduce((total, { size }) => total + size, 0)).toBeLessThanOrEqual(MAX_PERSISTED_SIZE);
+    expect(storage.getItem('texas-map:county-data-cache:2019/acs5')).toBeNull();
+    // Evicted vintages stay in memory for this session
+    expect(cache.get('Travis', { year: 2019, dataset: 'acs5' })).not.toBeNull();
+  });
+
+  it('removes an invalidated vintage without touching the others', () => {
+    const cache = new CountyDataCacheService();
+    cache.set('Travis', travis, VINTAGE_2022);
+    cache.set('Travis', travis, VINTAGE_2021);
+
+    cache.invalidateVintage(VINTAGE_2021);
+
+    expect(cache.get('Travis', VINTAGE_2021)).toBeNull();
+    expect(storage.keys()).toEqual(['texas-map:county-data-cache:2022/acs5', INDEX_KEY]);
+    expect(new CountyDataCacheService().get('Travis', VINTAGE_2022)).toEqual(travis);
+  });
+});
@@ -1,4 +1,5 @@
-import { CountyInfo } from '@/types';
+import { AcsVintage, CountyInfo } from '@/types';
+import { DEFAULT_ACS_VINTAGE, getAcsVintageKey } from '@/utils/acsVintage';
 
 /**
  * County data cache entry interface
@@ -6,30 +7,226 @@ import { CountyInfo } from '@/types';
 interface CacheEntry {
   data: CountyInfo;
   timestamp: number;
+  /** Vintage key of the data (e.g., "2022/acs5") */
+  vintage: string;
 }
 
 /**
  * County data cache interface
+ * Keys combine the vintage and the county name (e.g., "2022/acs5:harris")
  */
 interface CountyCache {
-  [countyName: string]: CacheEntry;
+  [cacheKey: string]: CacheEntry;
+}
+
+/**
+ * Persisted entries of one vintage, stored under their own localStorage key
+ */
+interface PersistedCountyCache {
+  schemaVersion: number;
+  entries: CountyCache;
+}
+
+/**
+ * Persisted vintage with the length of its serialized entries
+ */
+interface PersistedVintage {
+  key: string;
+  size: number;
+}
+
+/**
+ * Index of the persisted vintages, least recently written first
+ */
+interface PersistedCacheIndex {
+  schemaVersion: number;
+  vintages: PersistedVintage[];
 }
 
 /**
  * Cache expiration time (24 hours in milliseconds)
- * Since Census data is from 2022 estimates, it doesn't change frequently
+ * Since Census data is from yearly ACS estimates, it doesn't change frequently
  */
 const CACHE_EXPIRY_TIME = 24 * 60 * 60 * 1000; // 24 hours
 
+/**
+ * localStorage key prefix of the persisted cache
+ * Each vintage is stored under `${CACHE_STORAGE_KEY}:${vintageKey}`, so a write only serializes one vintage
+ */
+const CACHE_STORAGE_KEY = 'texas-map:county-data-cache';
+
+/**
+ * localStorage key of the persisted vintage index
+ */
+const CACHE_INDEX_KEY = `${CACHE_STORAGE_KEY}:index`;
+
+/**
+ * Most characters of cache data kept in localStorage; the least recently written vintages are evicted first
+ * About half the usual 5 MB quota: a statewide load of one vintage is roughly 0.5 MB, a trend year a few KB
+ */
+export const MAX_PERSISTED_SIZE = 2_500_000;
+
+/**
+ * Version of the persisted cache format
+ * Bump whenever CountyInfo or PersistedCountyCache changes shape so stale formats are dropped
+ */
+export const CACHE_SCHEMA_VERSION = 9;
+
 /**
  * County Data Cache Service
  * 
  * Provides caching functionality for county demographic data to improve performance
  * and reduce API calls. Implements automatic cache expiration and validation.
+ * Entries are kept per ACS vintage and persisted to localStorage so they survive page reloads.
+ * Each vintage is persisted separately and only the most recently written vintages are kept.
  */
 class CountyDataCacheService {
   private cache: CountyCache = {};
 
+  constructor() {
+    this.hydrate();
+  }
+
+  /**
+   * Get localStorage if available (not during server rendering or when storage is blocked)
+   * @returns Storage instance or null
+   */
+  private getStorage(): Storage | null {
+    try {
+      return typeof window !== 'undefined' ? window.localStorage : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the localStorage key of a persisted vintage
+   * @param vintageKey - Vintage key (e.g., "2022/acs5")
+   * @returns Storage key (e.g., "texas-map:county-data-cache:2022/acs5")
+   */
+  private getStorageKey(vintageKey: string): string {
+    return `${CACHE_STORAGE_KEY}:${vintageKey}`;
+  }
+
+  /**
+   * Remove every persisted key of the cache, including older formats
+   * @param storage - localStorage
+   */
+  private removePersisted(storage: Storage): void {
+    const keys: string[] = [];
+    for (let index = 0; index < storage.length; index++) {
+      const key = storage.key(index);
+      if (key?.startsWith(CACHE_STORAGE_KEY)) {
+        keys.push(key);
+      }
+    }
+    keys.forEach(key => storage.removeItem(key));
+  }
+
+  /**
+   * Read the persisted vintage index
+   * @param storage - localStorage
+   * @returns Persisted vintages, least recently written first; empty when missing or stale
+   */
+  private readIndex(storage: Storage): PersistedVintage[] {
+    const stored = storage.getItem(CACHE_INDEX_KEY);
+    if (!stored) return [];
+
+    const index = JSON.parse(stored) as Partial<PersistedCacheIndex>;
+    return index.schemaVersion === CACHE_SCHEMA_VERSION && Array.isArray(index.vintages) ? index.vintages : [];
+  }
+
+  /**
+   * Write the persisted vintage index
+   * @param storage - localStorage
+   * @param vintages - Persisted vintages, least recently written first
+   */
+  private writeIndex(storage: Storage, vintages: PersistedVintage[]): void {
+    const index: PersistedCacheIndex = { schemaVersion: CACHE_SCHEMA_VERSION, vintages };
+    storage.setItem(CACHE_INDEX_KEY, JSON.stringify(index));
+  }
+
+  /**
+   * Load persisted entries into memory
+   * Drops the persisted cache when its schema version doesn't match
+   */
+  private hydrate(): void {
+    const storage = this.getStorage();
+    if (!storage) return;
+
+    try {
+      const vintages = this.readIndex(storage);
+      if (vintages.length === 0) {
+        this.removePersisted(storage);
+        return;
+      }
+
+      vintages.forEach(({ key: vintageKey }) => {
+        const stored = storage.getItem(this.getStorageKey(vintageKey));
+        if (!stored) return;
+
+        const persisted = JSON.parse(stored) as Partial<PersistedCountyCache>;
+        if (persisted.schemaVersion !== CACHE_SCHEMA_VERSION || !persisted.entries) return;
+
+        Object.entries(persisted.entries).forEach(([cacheKey, entry]) => {
+          if (this.isCacheValid(entry.timestamp)) {
+            this.cache[cacheKey] = entry;
+          }
+        });
+      });
+    } catch (error) {
+      console.error('Error reading persisted county cache:', error);
+      this.removePersisted(storage);
+    }
+  }
+
+  /**
+   * Write one vintage of the in-memory cache to localStorage
+   * Evicts the least recently written vintages beyond MAX_PERSISTED_SIZE, and more when the quota is exceeded
+   * @param vintageKey - Vintage key (e.g., "2022/acs5")
+   */
+  private persist(vintageKey: string): void {
+    const storage = this.getStorage();
+    if (!storage) return;
+
+    try {
+      const entries: CountyCache = {};
+      this.getCacheKeys(vintageKey).forEach(cacheKey => {
+        entries[cacheKey] = this.cache[cacheKey];
+      });
+
+      const vintages = this.readIndex(storage).filter(({ key }) => key !== vintageKey);
+      if (Object.keys(entries).length === 0) {
+        storage.removeItem(this.getStorageKey(vintageKey));
+        this.writeIndex(storage, vintages);
+        return;
+      }
+
+      const persisted: PersistedCountyCache = { schemaVersion: CACHE_SCHEMA_VERSION, entries };
+      const serialized = JSON.stringify(persisted);
+      const getPersistedSize = (): number => vintages.reduce((total, { size }) => total + size, serialized.length);
+      while (vintages.length > 0 && getPersistedSize() > MAX_PERSISTED_SIZE) {
+        storage.removeItem(this.getStorageKey(vintages.shift()!.key));
+      }
+
+      for (;;) {
+        try {
+          storage.setItem(this.getStorageKey(vintageKey), serialized);
+          break;
+        } catch (error) {
+          // Quota exceeded - make room by evicting older vintages, giving up when none is left
+          if (vintages.length === 0) throw error;
+          storage.removeItem(this.getStorageKey(vintages.shift()!.key));
+        }
+      }
+
+      this.writeIndex(storage, [...vintages, { key: vintageKey, size: serialized.length }]);
+    } catch (error) {
+      // Quota exceeded or storage blocked - the in-memory cache still works
+      console.error('Error persisting county cache:', error);
+    }
+  }
+
   /**
    * Check if cached data is still valid
    * @param timestamp - When the data was cached
@@ -48,27 +245,68 @@ class CountyDataCacheService {
     return countyName.toLowerCase().trim();
   }
 
+  /**
+   * Build the cache key for a county and vintage
+   * @param countyName - Raw county name
+   * @param vintage - ACS vintage of the data
+   * @returns Cache key (e.g., "2022/acs5:harris")
+   */
+  private getCacheKey(countyName: string, vintage: AcsVintage): string {
+    return `${getAcsVintageKey(vintage)}:${this.normalizeCountyName(countyName)}`;
+  }
+
+  /**
+   * Get the cache keys belonging to a vintage
+   * @param vintage - ACS vintage or vintage key, or undefined for every vintage
+   * @returns Matching cache keys
+   */
+  private getCacheKeys(vintage?: AcsVintage | string): string[] {
+    const vintageKey = vintage === undefined ? null : typeof vintage === 'string' ? vintage : getAcsVintageKey(vintage);
+    return Object.keys(this.cache).filter(cacheKey =>
+      vintageKey === null || this.cache[cacheKey].vintage === vintageKey
+    );
+  }
+
   /**
    * Store county data in cache
    * @param countyName - Name of the county to cache
    * @param data - County data to store
+   * @param vintage - ACS vintage of the data
    */
-  public set(countyName: string, data: CountyInfo): void {
-    const cacheKey = this.normalizeCountyName(countyName);
-    this.cache[cacheKey] = {
+  public set(countyName: string, data: CountyInfo, vintage: AcsVintage = DEFAULT_ACS_VINTAGE): void {
+    this.cache[this.getCacheKey(countyName, vintage)] = {
       data,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      vintage: getAcsVintageKey(vintage)
     };
+    this.persist(getAcsVintageKey(vintage));
+  }
+
+  /**
+   * Store data for many counties at once (e.g. from a statewide request)
+   * @param counties - County data keyed by county name
+   * @param vintage - ACS vintage of the data
+   */
+  public setMany(counties: Record<string, CountyInfo>, vintage: AcsVintage = DEFAULT_ACS_VINTAGE): void {
+    const timestamp = Date.now();
+    Object.entries(counties).forEach(([countyName, data]) => {
+      this.cache[this.getCacheKey(countyName, vintage)] = {
+        data,
+        timestamp,
+        vintage: getAcsVintageKey(vintage)
+      };
+    });
+    this.persist(getAcsVintageKey(vintage));
   }
 
   /**
    * Get county data from cache if available and valid
    * @param countyName - Name of the county to retrieve from cache
+   * @param vintage - ACS vintage of the data
    * @returns Cached county data or null if not found/expired
    */
-  public get(countyName: string): CountyInfo | null {
-    const cacheKey = this.normalizeCountyName(countyName);
-    const cachedEntry = this.cache[cacheKey];
+  public get(countyName: string, vintage: AcsVintage = DEFAULT_ACS_VINTAGE): CountyInfo | null {
+    const cachedEntry = this.cache[this.getCacheKey(countyName, vintage)];
     
     if (!cachedEntry) {
       return null;
@@ -79,27 +317,40 @@ class CountyDataCacheService {
     }
     
     // Remove expired cache entry
-    this.remove(countyName);
+    this.remove(countyName, vintage);
     return null;
   }
 
   /**
    * Check if county data exists in cache (regardless of expiration)
    * @param countyName - Name of the county to check
+   * @param vintage - ACS vintage of the data
    * @returns Whether the county exists in cache
    */
-  public has(countyName: string): boolean {
-    const cacheKey = this.normalizeCountyName(countyName);
-    return cacheKey in this.cache;
+  public has(countyName: string, vintage: AcsVintage = DEFAULT_ACS_VINTAGE): boolean {
+    return this.getCacheKey(countyName, vintage) in this.cache;
   }
 
   /**
    * Remove specific county data from cache
    * @param countyName - Name of the county to remove
+   * @param vintage - ACS vintage of the data
+   */
+  public remove(countyName: string, vintage: AcsVintage = DEFAULT_ACS_VINTAGE): void {
+    delete this.cache[this.getCacheKey(countyName, vintage)];
+    this.persist(getAcsVintageKey(vintage));
+  }
+
+  /**
+   * Drop all cached data for a vintage
+   * For releases the Census Bureau republishes; switching vintages keeps each vintage's data
+   * @param vintage - ACS vintage to invalidate
    */
-  public remove(countyName: string): void {
-    const cacheKey = this.normalizeCountyName(countyName);
-    delete this.cache[cacheKey];
+  public invalidateVintage(vintage: AcsVintage): void {
+    this.getCacheKeys(vintage).forEach(cacheKey => {
+      delete this.cache[cacheKey];
+    });
+    this.persist(getAcsVintageKey(vintage));
   }
 
   /**
@@ -107,26 +358,51 @@ class CountyDataCacheService {
    */
   public clear(): void {
     this.cache = {};
+    const storage = this.getStorage();
+    if (storage) {
+      this.removePersisted(storage);
+    }
   }
 
   /**
    * Get current cache size
+   * @param vintage - ACS vintage to count, or undefined for every vintage
    * @returns Number of entries in cache
    */
-  public size(): number {
-    return Object.keys(this.cache).length;
+  public size(vintage?: AcsVintage): number {
+    return this.getCacheKeys(vintage).length;
   }
 
   /**
    * Get all cached county names
+   * @param vintage - ACS vintage to list, or undefined for every vintage
    * @returns Array of cached county names
    */
-  public getCachedCounties(): string[] {
-    return Object.keys(this.cache).map(cacheKey => 
+  public getCachedCounties(vintage?: AcsVintage): string[] {
+    return this.getCacheKeys(vintage).map(cacheKey => 
       this.cache[cacheKey].data.name.replace(' County', '')
     );
   }
 
+  /**
+   * Get all valid cached county data for a vintage
+   * @param vintage - ACS vintage of the data
+   * @returns County data keyed by normalized county name
+   */
+  public getAll(vintage: AcsVintage = DEFAULT_ACS_VINTAGE): Record<string, CountyInfo> {
+    const result: Record<string, CountyInfo> = {};
+    const vintageKey = getAcsVintageKey(vintage);
+
+    this.getCacheKeys(vintage).forEach(cacheKey => {
+      const entry = this.cache[cacheKey];
+      if (this.isCacheValid(entry.timestamp)) {
+        result[cacheKey.slice(vintageKey.length + 1)] = entry.data;
+      }
+    });
+
+    return result;
+  }
+
   /**
    * Get cache statistics
    * @returns Cache statistics including size, oldest entry, etc.
@@ -177,15 +453,18 @@ class CountyDataCacheService {
    * @returns Number of entries removed
    */
   public cleanupExpired(): number {
-    const initialSize = this.size();
+    const expiredVintages = new Set<string>();
+    let removedCount = 0;
     
     Object.keys(this.cache).forEach(cacheKey => {
       if (!this.isCacheValid(this.cache[cacheKey].timestamp)) {
+        expiredVintages.add(this.cache[cacheKey].vintage);
         delete this.cache[cacheKey];
+        removedCount++;
       }
     });
     
-    const removedCount = initialSize - this.size();
+    expiredVintages.forEach(vintageKey => this.persist(vintageKey));
     
     return removedCount;
   }
@@ -0,0 +1,84 @@
+/**
+ * Server cache entry interface
+ */
+interface ServerCacheEntry<T> {
+  data: T;
+  timestamp: number;
+}
+
+/**
+ * Cache expiration time (24 hours in milliseconds)
+ * Matches the client-side county cache
+ */
+const SERVER_CACHE_EXPIRY_TIME = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Server Census Cache Service
+ * 
+ * In-memory cache for Census responses held by the server process.
+ * Shared by every user hitting the Census proxy routes, so each county
+ * is requested from the Census Bureau at most once per expiry window.
+ */
+class ServerCensusCacheService {
+  private cache = new Map<string, ServerCacheEntry<unknown>>();
+
+  /**
+   * Check if cached data is still valid
+   * @param timestamp - When the data was cached
+   * @returns Whether the cached data is still valid
+   */
+  private isCacheValid(timestamp: number): boolean {
+    return Date.now() - timestamp < SERVER_CACHE_EXPIRY_TIME;
+  }
+
+  /**
+   * Store data in cache
+   * @param key - Cache key (e.g., "county:48201")
+   * @param data - Data to store
+   */
+  public set<T>(key: string, data: T): void {
+    this.cache.set(key, { data, timestamp: Date.now() });
+  }
+
+  /**
+   * Get data from cache if available and valid
+   * @param key - Cache key
+   * @returns Cached data or null if not found/expired
+   */
+  public get<T>(key: string): T | null {
+    const cachedEntry = this.cache.get(key);
+
+    if (!cachedEntry) {
+      return null;
+    }
+
+    if (this.isCacheValid(cachedEntry.timestamp)) {
+      return cachedEntry.data as T;
+    }
+
+    // Remove expired cache entry
+    this.cache.delete(key);
+    return null;
+  }
+
+  /**
+   * Clear all cached data
+   */
+  public clear(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Get current cache size
+   * @returns Number of entries in cache
+   */
+  public size(): number {
+    return this.cache.size;
+  }
+}
+
+// Export singleton instance
+export const serverCensusCache = new ServerCensusCacheService();
+
+// Export the class for testing purposes
+export { ServerCensusCacheService };
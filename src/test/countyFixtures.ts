@@ -0,0 +1,78 @@
+/**
+ * County data fixtures for unit tests
+ *
+ * Builds Census responses and parses them with processCensusData, so fixtures
+ * go through the same parsing, bundled and derived metrics as real responses
+ */
+
+import { processCensusData } from '@/apis/countyInfoAPIs';
+import { CensusResponse, CountyInfo, CountyMarginsOfError, MetricKey } from '@/types';
+import { COMMUTE_BUCKETS, getCensusMetrics } from '@/utils/metricRegistry';
+
+/**
+ * Census annotation for margins of controlled estimates without sampling error
+ */
+const CONTROLLED_MARGIN = '-555555555';
+
+/**
+ * Census annotation for margins that are not available
+ */
+const UNAVAILABLE_MARGIN = '-222222222';
+
+/**
+ * Census estimate variables, in registry order
+ */
+const CENSUS_METRICS = getCensusMetrics();
+
+/**
+ * Header row of a Census response, in a different order than the app requests
+ */
+export const CENSUS_HEADER = [
+  'state',
+  'county',
+  ...COMMUTE_BUCKETS.map(({ code }) => `${code}E`),
+  ...CENSUS_METRICS.map(({ code }) => `${code}M`),
+  ...CENSUS_METRICS.map(({ code }) => `${code}E`),
+  'NAME'
+];
+
+/**
+ * Builds a Census data row matching CENSUS_HEADER
+ * @param countyFips - 3-digit county FIPS code
+ * @param cells - Cell values keyed by variable name; other estimates are "100" and margins "10"
+ * @returns Data row
+ */
+export const buildCensusRow = (countyFips: string, cells: Record<string, string | null> = {}): (string | null)[] => {
+  return CENSUS_HEADER.map(column => {
+    if (column in cells) return cells[column];
+    if (column === 'state') return '48';
+    if (column === 'county') return countyFips;
+    if (column === 'NAME') return `County ${countyFips}, Texas`;
+    return column.endsWith('M') ? '10' : '100';
+  });
+};
+
+/**
+ * Builds the data of a county from its metric values
+ * Census metrics without a value are not available, as are their margins unless given
+ * @param countyFips - 3-digit county FIPS code (e.g. "453"), used for the bundled land area
+ * @param estimates - Census estimates keyed by metric (null when not available)
+ * @param margins - Margins of error keyed by metric (null for controlled estimates)
+ * @returns County data parsed from the equivalent Census response
+ */
+export const buildCounty = (
+  countyFips: string,
+  estimates: Partial<Record<MetricKey, number | null>>,
+  margins: CountyMarginsOfError = {}
+): CountyInfo => {
+  const cells: Record<string, string | null> = {};
+  CENSUS_METRICS.forEach(({ key, code }) => {
+    const estimate = estimates[key];
+    const margin = margins[key];
+    cells[`${code}E`] = estimate === undefined || estimate === null ? null : String(estimate);
+    cells[`${code}M`] = margin === undefined ? UNAVAILABLE_MARGIN : margin === null ? CONTROLLED_MARGIN : String(margin);
+  });
+
+  const response: CensusResponse = [CENSUS_HEADER, buildCensusRow(countyFips, cells)];
+  return processCensusData(response);
+};
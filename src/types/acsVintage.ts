@@ -0,0 +1,13 @@
+/**
+ * American Community Survey data products
+ * acs5: 5-year estimates (every county), acs1: 1-year estimates (counties with 65,000+ people)
+ */
+export type AcsDataset = 'acs5' | 'acs1';
+
+/**
+ * ACS release identified by its final survey year and data product
+ */
+export interface AcsVintage {
+    year: number;
+    dataset: AcsDataset;
+}
@@ -0,0 +1,32 @@
+import { MetricKey } from './metrics';
+
+/**
+ * Keys of CountyInfo that hold numeric values and can drive a choropleth
+ */
+export type NumericCountyField = MetricKey;
+
+/**
+ * Display format used for a choropleth metric
+ */
+export type MetricFormat = 'number' | 'currency' | 'percent' | 'density' | 'minutes';
+
+/**
+ * Choropleth metric definition shown in the metric picker
+ */
+export interface ChoroplethMetric {
+    key: NumericCountyField;
+    label: string;
+    format: MetricFormat;
+}
+
+/**
+ * Class breaks and colors used to paint the choropleth
+ */
+export interface ChoroplethScale {
+    /** Upper bound (inclusive) of every class except the last */
+    breaks: number[];
+    /** One color per class, from lowest to highest */
+    colors: readonly string[];
+    min: number;
+    max: number;
+}
@@ -1,38 +1,79 @@
+import { AcsVintage } from './acsVintage';
+import { MetricKey } from './metrics';
+
+/**
+ * City (incorporated place) within a Texas county, from the city dataset
+ */
 export interface CityInfo {
     name: string;
-    country: string;
+    /** Name of the county the city lies in (its principal county for cities spanning several) */
+    county: string;
     population: number;
-    area: number;
-    populationDensity: number;
+    /** Land area in square miles, or null when the dataset has none */
+    area: number | null;
+    /** People per square mile, or null without an area */
+    populationDensity: number | null;
 }
 
-
+/**
+ * Parameters of a city dataset query (OpenDataSoft records search)
+ */
 export interface GetCityInfoData {
+    /** Full-text query on the city name; empty to match every city */
     cityName: string;
+    /** Maximum number of records to return */
     rows: number;
+    /** Dataset field to facet on (e.g. "county") */
     facet: string;
+    /** Dataset id */
     dataset: string;
+    /** Value the facet field is restricted to (e.g. "Travis") */
+    refine?: string;
+}
+
+/**
+ * Raw city dataset response in the OpenDataSoft records search format
+ */
+export interface CityDataResponse {
+    nhits?: number;
+    records: { recordid?: string; fields: Record<string, unknown> }[];
 }
 
 /**
  * County information structure from US Census Bureau API
+ * Every metric in METRIC_REGISTRY is a numeric field
+ * null means not available: the Census Bureau published an annotation (e.g. -666666666,
+ * too few sample observations) or no value instead of an estimate
  */
-export interface CountyInfo {
+export interface CountyInfo extends Record<MetricKey, number | null> {
     name: string;
-    population: number;
-    medianHouseholdIncome: number;
-    medianHomeValue: number;
-    totalCommuteTime: number;
-    bachelorsDegreePop: number;
-    ownerOccupiedHousing: number;
-    renterOccupiedHousing: number;
     stateCode: string;
     countyCode: string;
+    /** Commuting workers per travel-time bucket, in COMMUTE_BUCKETS order; null if any bucket is not available */
+    commuteDistribution: number[] | null;
+    /**
+     * 90% margins of error of the metrics, keyed by metric
+     * null when the Census Bureau publishes no sampling error (e.g. controlled population totals)
+     */
+    marginsOfError: CountyMarginsOfError;
 }
 
+/**
+ * Margins of error keyed by metric
+ * Missing keys have no margin of error (e.g. land area)
+ */
+export type CountyMarginsOfError = Partial<Record<MetricKey, number | null>>;
+
 /**
  * Parameters for fetching county information
  */
 export interface GetCountyInfoData {
     countyName: string;
-}
\ No newline at end of file
+    /** ACS vintage to request (defaults to DEFAULT_ACS_VINTAGE) */
+    vintage?: AcsVintage;
+}
+/**
+ * Raw Census API response: a header row of variable names followed by data rows
+ * Cells are strings, or null when the Census Bureau has no value
+ */
+export type CensusResponse = (string | null)[][];
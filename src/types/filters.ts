@@ -0,0 +1,19 @@
+import { MetricKey } from './metrics';
+
+/**
+ * Comparison used by a filter condition
+ */
+export type FilterOperator = 'lt' | 'lte' | 'gt' | 'gte';
+
+/**
+ * One attribute threshold, e.g. "population < 50,000"
+ * Conditions are combined with AND
+ */
+export interface FilterCondition {
+    /** Stable id for list keys */
+    id: number;
+    metric: MetricKey;
+    operator: FilterOperator;
+    /** Threshold in the metric's unit, or null while the input is empty (the condition is ignored) */
+    value: number | null;
+}
@@ -1 +1,9 @@
+export * from './acsVintage';
+export * from './choropleth';
+export * from './filters';
 export * from './cityInfo';
+export * from './map';
+export * from './metrics';
+export * from './ranking';
+export * from './regions';
+export * from './trends';
@@ -0,0 +1,21 @@
+/**
+ * Rectangle in SVG user units
+ */
+export interface MapViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Outline of one county on the Texas map
+ */
+export interface CountyPath {
+  /** County name, matching the FIPS lookup table */
+  name: string;
+  /** Bounding box of the outline */
+  bbox: MapViewBox;
+  /** SVG path data */
+  d: string;
+}
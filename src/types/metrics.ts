@@ -0,0 +1,96 @@
+import { CountyMarginsOfError } from './cityInfo';
+import { MetricFormat } from './choropleth';
+
+/**
+ * Keys of every numeric county metric
+ * Each key needs an entry in METRIC_REGISTRY, which the compiler enforces
+ */
+export type MetricKey =
+    | 'population'
+    | 'population25Plus'
+    | 'bachelorsDegreePop'
+    | 'bachelorsShare'
+    | 'medianHouseholdIncome'
+    | 'medianHomeValue'
+    | 'ownerOccupiedHousing'
+    | 'renterOccupiedHousing'
+    | 'ownerOccupancyRate'
+    | 'meanTravelTime'
+    | 'commutingWorkers'
+    | 'aggregateTravelTime'
+    | 'landArea'
+    | 'populationDensity';
+
+/**
+ * Panel section a metric belongs to
+ */
+export type MetricCategory = 'population' | 'education' | 'income' | 'housing' | 'commute' | 'geography';
+
+/**
+ * Places a metric is shown: the side panel, the choropleth/trend pickers and the comparison table
+ */
+export type MetricView = 'panel' | 'map' | 'compare';
+
+/**
+ * How county values combine into a region value
+ * - sum: counts and totals are added up
+ * - populationWeighted: medians can't be combined exactly, so county values are averaged weighted by population
+ */
+export type MetricAggregation = 'sum' | 'populationWeighted';
+
+/**
+ * Metric read directly from a Census estimate variable
+ */
+export interface CensusMetricSource {
+    type: 'census';
+    /** Variable code without the E/M suffix (e.g. "B01001_001") */
+    code: string;
+    aggregation: MetricAggregation;
+}
+
+/**
+ * Metric computed from other metrics
+ */
+export interface DerivedMetricSource {
+    type: 'derived';
+    /** Human-readable formula shown next to the value */
+    formula: string;
+    /** Computes the value from the county's other metrics, which are all available; null when it is undefined (e.g. an empty denominator) */
+    derive: (values: Record<MetricKey, number>) => number | null;
+    /** Approximates the 90% margin of error from the inputs' margins; null without sampling error, undefined when not available */
+    deriveMargin: (values: Record<MetricKey, number>, margins: CountyMarginsOfError) => number | null | undefined;
+    /** Metrics the value is computed from; the value is not available when any of them is not (regions re-derive from their aggregates) */
+    inputs: MetricKey[];
+}
+
+/**
+ * Metric bundled with the app rather than fetched
+ */
+export interface BundledMetricSource {
+    type: 'bundled';
+    /** Where the value comes from, shown next to the value */
+    description: string;
+    /** Looks up the value for a county by its 3-digit FIPS code; null when not available */
+    resolve: (countyFips: string) => number | null;
+    aggregation: MetricAggregation;
+}
+
+/**
+ * Where a metric's value comes from
+ */
+export type MetricSource = CensusMetricSource | DerivedMetricSource | BundledMetricSource;
+
+/**
+ * Declarative definition of a county metric
+ */
+export interface MetricDefinition {
+    key: MetricKey;
+    label: string;
+    /** Unit of the value (e.g. "people", "USD", "%") */
+    unit: string;
+    /** Display format, used by formatMetricValue */
+    format: MetricFormat;
+    category: MetricCategory;
+    source: MetricSource;
+    views: MetricView[];
+}
@@ -0,0 +1,15 @@
+/**
+ * Position of a county's metric value among every Texas county with data
+ */
+export interface MetricRanking {
+    /** 1 for the highest value; tied counties share a rank */
+    rank: number;
+    /** Number of counties with a value for the metric */
+    total: number;
+    /** Percentile rank (0-100): share of counties with a lower value, counting ties as half */
+    percentile: number;
+    /** Statewide median of the metric */
+    median: number;
+    /** Difference from the median in percent, or null when the median is zero */
+    percentFromMedian: number | null;
+}
@@ -0,0 +1,33 @@
+import { CountyMarginsOfError } from './cityInfo';
+import { MetricKey } from './metrics';
+
+/**
+ * Kinds of county groupings: metropolitan statistical areas, councils of governments
+ * (state planning regions) and Comptroller economic regions
+ */
+export type RegionType = 'msa' | 'cog' | 'comptroller';
+
+/**
+ * Named group of counties
+ */
+export interface RegionDefinition {
+    /** Stable id (e.g. "cog-capital-area") */
+    id: string;
+    name: string;
+    type: RegionType;
+}
+
+/**
+ * Aggregated metrics of a region's member counties
+ */
+export interface RegionSummary {
+    region: RegionDefinition;
+    /** Names of the member counties, alphabetically */
+    countyNames: string[];
+    /** Member counties without data (e.g. counties below the 1-year estimate population threshold), alphabetically */
+    missingCountyNames: string[];
+    /** Totals, population-weighted averages and derived metrics of the counties with data; null when one of them has no value */
+    values: Record<MetricKey, number | null>;
+    /** Approximate 90% margins of error of the totals and derived metrics */
+    marginsOfError: CountyMarginsOfError;
+}
@@ -0,0 +1,21 @@
+import { CountyInfo } from './cityInfo';
+
+/**
+ * County data for one ACS release year
+ */
+export interface CountyTrendPoint {
+    year: number;
+    /** County data, or null when the release has no data for the county */
+    data: CountyInfo | null;
+}
+
+/**
+ * Change of a metric between the first and last year with data
+ */
+export interface TrendChange {
+    startYear: number;
+    endYear: number;
+    absolute: number;
+    /** Percent change, or null when the starting value is zero */
+    percent: number | null;
+}
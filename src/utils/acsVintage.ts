@@ -0,0 +1,109 @@
+/**
+ * ACS vintage utilities
+ * 
+ * Provides helpers for choosing, validating and describing ACS releases
+ */
+
+import { AcsDataset, AcsVintage } from '@/types';
+
+/**
+ * Vintage used when none is selected
+ */
+export const DEFAULT_ACS_VINTAGE: AcsVintage = { year: 2022, dataset: 'acs5' };
+
+/**
+ * Display names of the ACS data products
+ */
+export const ACS_DATASET_LABELS: Record<AcsDataset, string> = {
+  acs5: '5-Year Estimates',
+  acs1: '1-Year Estimates'
+};
+
+/**
+ * Earliest year offered (first release carrying every variable the app requests)
+ */
+const EARLIEST_ACS_YEAR = 2012;
+
+/**
+ * Latest released ACS year
+ * Set NEXT_PUBLIC_ACS_LATEST_YEAR to offer a new release without a code change
+ */
+export const LATEST_ACS_YEAR = Number(process.env.NEXT_PUBLIC_ACS_LATEST_YEAR) || 2023;
+
+/**
+ * Years without a standard release for a data product
+ * The 2020 1-year estimates were only published as experimental data
+ */
+const UNRELEASED_ACS_YEARS: Record<AcsDataset, number[]> = {
+  acs5: [],
+  acs1: [2020]
+};
+
+/**
+ * Get the years available for an ACS data product, newest first
+ * @param dataset - ACS data product
+ * @returns Array of release years
+ */
+export const getAvailableAcsYears = (dataset: AcsDataset): number[] => {
+  const years: number[] = [];
+  for (let year = LATEST_ACS_YEAR; year >= EARLIEST_ACS_YEAR; year--) {
+    if (!UNRELEASED_ACS_YEARS[dataset].includes(year)) {
+      years.push(year);
+    }
+  }
+  return years;
+};
+
+/**
+ * Checks if a value is a supported ACS data product
+ * @param dataset - Value to check
+ * @returns True if the value is "acs5" or "acs1"
+ */
+export const isAcsDataset = (dataset: string): dataset is AcsDataset => {
+  return dataset in ACS_DATASET_LABELS;
+};
+
+/**
+ * Builds a vintage from raw year/dataset values (e.g. query parameters)
+ * Missing values fall back to DEFAULT_ACS_VINTAGE
+ * @param year - Year string
+ * @param dataset - Dataset string
+ * @returns Vintage, or null if the values don't name an available release
+ */
+export const parseAcsVintage = (year?: string | null, dataset?: string | null): AcsVintage | null => {
+  const parsedDataset = dataset ?? DEFAULT_ACS_VINTAGE.dataset;
+  const parsedYear = year ? Number(year) : DEFAULT_ACS_VINTAGE.year;
+
+  if (!isAcsDataset(parsedDataset) || !getAvailableAcsYears(parsedDataset).includes(parsedYear)) {
+    return null;
+  }
+
+  return { year: parsedYear, dataset: parsedDataset };
+};
+
+/**
+ * Get a stable key for a vintage, used in cache keys
+ * @param vintage - ACS vintage
+ * @returns Key such as "2022/acs5"
+ */
+export const getAcsVintageKey = (vintage: AcsVintage): string => {
+  return `${vintage.year}/${vintage.dataset}`;
+};
+
+/**
+ * Get the query string selecting a vintage on the app's Census proxy routes
+ * @param vintage - ACS vintage
+ * @returns Query string such as "year=2022&dataset=acs5"
+ */
+export const getAcsVintageQuery = (vintage: AcsVintage): string => {
+  return `year=${vintage.year}&dataset=${vintage.dataset}`;
+};
+
+/**
+ * Get the citation label for a vintage
+ * @param vintage - ACS vintage
+ * @returns Label such as "American Community Survey 2022 5-Year Estimates"
+ */
+export const getAcsVintageLabel = (vintage: AcsVintage): string => {
+  return `American Community Survey ${vintage.year} ${ACS_DATASET_LABELS[vintage.dataset]}`;
+};
@@ -0,0 +1,100 @@
+/**
+ * Choropleth utilities
+ * 
+ * Provides metric definitions and color scale helpers for painting
+ * every county by a numeric CountyInfo field
+ */
+
+import { ChoroplethMetric, ChoroplethScale, CountyInfo, NumericCountyField } from '@/types';
+import { getMetricsForView } from '@/utils/metricRegistry';
+
+/**
+ * Metrics available in the choropleth metric picker
+ */
+export const CHOROPLETH_METRICS: ChoroplethMetric[] = getMetricsForView('map');
+
+/**
+ * Sequential color ramp (light to dark) used for choropleth classes
+ */
+export const CHOROPLETH_COLORS = ['#eff3ff', '#bdd7e7', '#6baed6', '#3182bd', '#08519c'] as const;
+
+/**
+ * Fill used for counties without data for the active metric
+ */
+export const NO_DATA_FILL = '#f3f4f6';
+
+/**
+ * Finds a metric definition by key
+ * @param key - CountyInfo field name
+ * @returns Metric definition or undefined if not a choropleth metric
+ */
+export const getChoroplethMetric = (key: NumericCountyField): ChoroplethMetric | undefined => {
+  return CHOROPLETH_METRICS.find(metric => metric.key === key);
+};
+
+/**
+ * Builds quantile class breaks for a set of values
+ * Quantiles keep skewed metrics like population readable, since a handful
+ * of metro counties would otherwise push every rural county into one class
+ * @param values - Metric values for all counties with data
+ * @param colors - Color ramp, one color per class
+ * @returns Choropleth scale or null if there are no values
+ */
+export const buildChoroplethScale = (
+  values: number[],
+  colors: readonly string[] = CHOROPLETH_COLORS
+): ChoroplethScale | null => {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const breaks: number[] = [];
+
+  for (let i = 1; i < colors.length; i++) {
+    const index = Math.min(sorted.length - 1, Math.floor((i * sorted.length) / colors.length));
+    breaks.push(sorted[index]);
+  }
+
+  return {
+    breaks,
+    colors,
+    min: sorted[0],
+    max: sorted[sorted.length - 1]
+  };
+};
+
+/**
+ * Gets the fill color for a value on a choropleth scale
+ * @param value - Metric value for the county
+ * @param scale - Scale built by buildChoroplethScale
+ * @returns Hex color for the value's class
+ */
+export const getChoroplethColor = (value: number, scale: ChoroplethScale): string => {
+  const classIndex = scale.breaks.findIndex(upperBound => value <= upperBound);
+  return scale.colors[classIndex === -1 ? scale.colors.length - 1 : classIndex];
+};
+
+/**
+ * Computes a fill color for every county with data
+ * @param countyData - County data keyed by county name
+ * @param metric - CountyInfo field to color by
+ * @returns Scale and fills keyed by the same county names
+ */
+export const computeChoroplethFills = (
+  countyData: Record<string, CountyInfo>,
+  metric: NumericCountyField
+): { scale: ChoroplethScale | null; fills: Record<string, string> } => {
+  const entries = Object.entries(countyData).flatMap(([countyName, data]) => {
+    const value = data[metric];
+    return value !== null && Number.isFinite(value) ? [[countyName, value] as const] : [];
+  });
+  const scale = buildChoroplethScale(entries.map(([, value]) => value));
+  const fills: Record<string, string> = {};
+
+  if (scale) {
+    entries.forEach(([countyName, value]) => {
+      fills[countyName] = getChoroplethColor(value, scale);
+    });
+  }
+
+  return { scale, fills };
+};
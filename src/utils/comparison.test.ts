@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { buildCounty } from '@/test/countyFixtures';
+import {
+  MAX_COMPARED_COUNTIES,
+  MIN_COMPARED_COUNTIES,
+  computeDifference,
+  getFieldExtremes,
+  togglePinnedCounty
+} from '@/utils/comparison';
+
+describe('togglePinnedCounty', () => {
+  it('pins counties up to MAX_COMPARED_COUNTIES', () => {
+    let pinned: string[] = [];
+    ['Travis', 'Harris', 'Dallas', 'Bexar', 'Tarrant'].forEach(countyName => {
+      pinned = togglePinnedCounty(pinned, countyName);
+    });
+
+    expect(MAX_COMPARED_COUNTIES).toBe(4);
+    expect(pinned).toEqual(['Travis', 'Harris', 'Dallas', 'Bexar']);
+  });
+
+  it('returns the same list when the comparison is full', () => {
+    const pinned = ['Travis', 'Harris', 'Dallas', 'Bexar'];
+
+    expect(togglePinnedCounty(pinned, 'Tarrant')).toBe(pinned);
+  });
+
+  it('unpins a pinned county regardless of case, making room for another', () => {
+    const pinned = togglePinnedCounty(['Travis', 'Harris', 'Dallas', 'Bexar'], 'harris');
+
+    expect(pinned).toEqual(['Travis', 'Dallas', 'Bexar']);
+    expect(togglePinnedCounty(pinned, 'Tarrant')).toEqual(['Travis', 'Dallas', 'Bexar', 'Tarrant']);
+  });
+});
+
+describe('getFieldExtremes', () => {
+  const travis = buildCounty('453', { population: 1290188 });
+  const loving = buildCounty('301', { population: 64 });
+  const bexar = buildCounty('029', { population: null });
+
+  it('needs MIN_COMPARED_COUNTIES counties with data', () => {
+    expect(MIN_COMPARED_COUNTIES).toBe(2);
+    expect(getFieldExtremes([travis], 'population')).toBeNull();
+    expect(getFieldExtremes([travis, bexar, null], 'population')).toBeNull();
+  });
+
+  it('finds the highest and lowest values, skipping counties without data', () => {
+    expect(getFieldExtremes([travis, bexar, loving], 'population')).toEqual({ highest: 1290188, lowest: 64 });
+  });
+
+  it('returns null when every value is the same', () => {
+    expect(getFieldExtremes([travis, travis], 'population')).toBeNull();
+  });
+});
+
+describe('computeDifference', () => {
+  it('compares a value with the baseline county', () => {
+    expect(computeDifference(150, 100)).toEqual({ absolute: 50, percent: 50 });
+    expect(computeDifference(50, -100)).toEqual({ absolute: 150, percent: 150 });
+  });
+
+  it('leaves the percent difference from a zero baseline out', () => {
+    expect(computeDifference(10, 0)).toEqual({ absolute: 10, percent: null });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * County comparison utilities
+ * 
+ * Provides field definitions and difference helpers for comparing counties
+ */
+
+import { ChoroplethMetric, CountyInfo, NumericCountyField } from '@/types';
+import { normalizeCountyName } from '@/utils/countyUtils';
+import { getMetricsForView } from '@/utils/metricRegistry';
+
+/**
+ * Maximum number of counties that can be pinned for comparison
+ */
+export const MAX_COMPARED_COUNTIES = 4;
+
+/**
+ * Minimum number of counties needed for a comparison table
+ */
+export const MIN_COMPARED_COUNTIES = 2;
+
+/**
+ * Numeric CountyInfo fields shown in the comparison table
+ */
+export const COMPARISON_FIELDS: ChoroplethMetric[] = getMetricsForView('compare');
+
+/**
+ * Pins a county, or unpins it if already pinned
+ * Pinning is ignored once MAX_COMPARED_COUNTIES counties are pinned
+ * @param comparedCounties - Names of the pinned counties
+ * @param countyName - Name of the county (case-insensitive)
+ * @returns Updated names, or the same array when nothing changed
+ */
+export const togglePinnedCounty = (comparedCounties: string[], countyName: string): string[] => {
+  const normalizedName = normalizeCountyName(countyName);
+  if (comparedCounties.some(county => normalizeCountyName(county) === normalizedName)) {
+    return comparedCounties.filter(county => normalizeCountyName(county) !== normalizedName);
+  }
+  return comparedCounties.length < MAX_COMPARED_COUNTIES ? [...comparedCounties, countyName] : comparedCounties;
+};
+
+/**
+ * Difference of a county's value from the baseline (first pinned) county
+ */
+export interface ComparisonDifference {
+  absolute: number;
+  /** Percent difference, or null when the baseline value is zero */
+  percent: number | null;
+}
+
+/**
+ * Computes the difference of a value from the baseline value
+ * @param value - County value
+ * @param baseline - Baseline county value
+ * @returns Absolute and percent difference
+ */
+export const computeDifference = (value: number, baseline: number): ComparisonDifference => {
+  const absolute = value - baseline;
+  return {
+    absolute,
+    percent: baseline !== 0 ? (absolute / Math.abs(baseline)) * 100 : null
+  };
+};
+
+/**
+ * Finds the highest and lowest value of a field among compared counties
+ * @param counties - County data of the compared counties
+ * @param field - CountyInfo field
+ * @returns Highest and lowest values, or null when fewer than two counties have data
+ */
+export const getFieldExtremes = (
+  counties: (CountyInfo | null)[],
+  field: NumericCountyField
+): { highest: number; lowest: number } | null => {
+  const values = counties
+    .map(county => county?.[field])
+    .filter((value): value is number => typeof value === 'number');
+
+  if (values.length < MIN_COMPARED_COUNTIES) return null;
+
+  const highest = Math.max(...values);
+  const lowest = Math.min(...values);
+  return highest === lowest ? null : { highest, lowest };
+};
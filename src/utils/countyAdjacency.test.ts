@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { getAvailableCounties } from '@/apis/countyInfoAPIs';
+import { TEXAS_COUNTY_ADJACENCY } from '@/data/texasCountyAdjacency';
+import { areCountiesAdjacent, getNeighbouringCounties, getNeighbouringCountyFips } from '@/utils/countyAdjacency';
+
+describe('county adjacency graph', () => {
+  it('has an entry for every Texas county', () => {
+    expect(Object.keys(TEXAS_COUNTY_ADJACENCY).sort()).toEqual(getAvailableCounties());
+  });
+
+  it('is symmetric', () => {
+    Object.entries(TEXAS_COUNTY_ADJACENCY).forEach(([countyName, neighbours]) => {
+      neighbours.forEach(neighbour => {
+        expect(TEXAS_COUNTY_ADJACENCY[neighbour], `${neighbour} lists ${countyName}`).toContain(countyName);
+      });
+    });
+  });
+
+  it('has no self-loops, duplicates or isolated counties', () => {
+    Object.entries(TEXAS_COUNTY_ADJACENCY).forEach(([countyName, neighbours]) => {
+      expect(neighbours, countyName).not.toContain(countyName);
+      expect(new Set(neighbours).size, countyName).toBe(neighbours.length);
+      expect(neighbours.length, countyName).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe('getNeighbouringCounties', () => {
+  it('looks counties up case-insensitively', () => {
+    expect(getNeighbouringCounties('travis')).toEqual(TEXAS_COUNTY_ADJACENCY.Travis);
+    expect(getNeighbouringCounties('TRAVIS')).toContain('Williamson');
+  });
+
+  it('returns an empty list for an unknown county', () => {
+    expect(getNeighbouringCounties('Atlantis')).toEqual([]);
+  });
+});
+
+describe('getNeighbouringCountyFips', () => {
+  it('accepts 3- and 5-digit FIPS codes', () => {
+    expect(getNeighbouringCountyFips('453')).toContain('491');
+    expect(getNeighbouringCountyFips('48453')).toEqual(getNeighbouringCountyFips('453'));
+    expect(getNeighbouringCountyFips('999')).toEqual([]);
+  });
+});
+
+describe('areCountiesAdjacent', () => {
+  it('checks for a shared boundary', () => {
+    expect(areCountiesAdjacent('Travis', 'williamson')).toBe(true);
+    expect(areCountiesAdjacent('Travis', 'Harris')).toBe(false);
+    expect(areCountiesAdjacent('Travis', 'Travis')).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * County adjacency utilities
+ *
+ * Answers "what's next door" from the adjacency graph generated from the
+ * shared boundaries of the map outlines
+ */
+
+import { getCountyFips, getCountyNameByFips } from '@/apis/countyInfoAPIs';
+import { TEXAS_COUNTY_ADJACENCY } from '@/data/texasCountyAdjacency';
+import { normalizeCountyName } from '@/utils/countyUtils';
+
+/**
+ * Adjacency lists keyed by normalized county name
+ */
+const ADJACENCY_BY_NORMALIZED_NAME = new Map<string, string[]>(
+  Object.entries(TEXAS_COUNTY_ADJACENCY).map(([countyName, neighbours]) => [normalizeCountyName(countyName), neighbours])
+);
+
+/**
+ * Lists the counties sharing a boundary with a county
+ * @param countyName - County name (case-insensitive, e.g. "Travis")
+ * @returns Neighbour names sorted alphabetically (e.g. ["Bastrop", "Blanco", ...]), or an empty array for an unknown county
+ */
+export const getNeighbouringCounties = (countyName: string): string[] => {
+  return ADJACENCY_BY_NORMALIZED_NAME.get(normalizeCountyName(countyName)) ?? [];
+};
+
+/**
+ * Lists the FIPS codes of the counties sharing a boundary with a county
+ * @param fips - 3-digit county FIPS or 5-digit state+county FIPS (e.g. "453" or "48453")
+ * @returns 3-digit FIPS codes of the neighbours, or an empty array for an unknown county
+ */
+export const getNeighbouringCountyFips = (fips: string): string[] => {
+  const countyName = getCountyNameByFips(fips);
+  if (!countyName) return [];
+
+  return getNeighbouringCounties(countyName).map(neighbour => getCountyFips(neighbour));
+};
+
+/**
+ * Checks whether two counties share a boundary
+ * @param countyName - County name (case-insensitive)
+ * @param otherCountyName - Other county name (case-insensitive)
+ * @returns True if the counties are neighbours
+ */
+export const areCountiesAdjacent = (countyName: string, otherCountyName: string): boolean => {
+  const normalizedOther = normalizeCountyName(otherCountyName);
+  return getNeighbouringCounties(countyName).some(neighbour => normalizeCountyName(neighbour) === normalizedOther);
+};
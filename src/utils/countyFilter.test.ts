@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { buildCounty } from '@/test/countyFixtures';
+import { CountyInfo, FilterCondition, MetricKey } from '@/types';
+import { filterCounties, getActiveConditions, matchesCondition } from '@/utils/countyFilter';
+
+
+/**
+ * Builds a filter condition
+ * @param metric - Metric to filter on
+ * @param operator - Comparison
+ * @param value - Threshold, or null for an empty input
+ * @returns Filter condition
+ */
+const condition = (metric: MetricKey, operator: FilterCondition['operator'], value: number | null): FilterCondition => ({
+  id: 0,
+  metric,
+  operator,
+  value
+});
+
+describe('matchesCondition', () => {
+  const county = buildCounty('001', { population: 50000 });
+
+  it('applies each operator', () => {
+    expect(matchesCondition(county, condition('population', 'lt', 50000))).toBe(false);
+    expect(matchesCondition(county, condition('population', 'lte', 50000))).toBe(true);
+    expect(matchesCondition(county, condition('population', 'gt', 50000))).toBe(false);
+    expect(matchesCondition(county, condition('population', 'gte', 50000))).toBe(true);
+  });
+
+  it('never matches a county without a value', () => {
+    expect(matchesCondition(county, condition('medianHouseholdIncome', 'gte', 0))).toBe(false);
+    expect(matchesCondition(county, condition('medianHouseholdIncome', 'lt', 1e9))).toBe(false);
+  });
+});
+
+describe('getActiveConditions', () => {
+  it('drops conditions without a threshold', () => {
+    const conditions = [
+      condition('population', 'lt', 50000),
+      condition('population', 'gt', null),
+      condition('population', 'gt', Number.NaN)
+    ];
+
+    expect(getActiveConditions(conditions)).toEqual([conditions[0]]);
+  });
+});
+
+describe('filterCounties', () => {
+  const countyData: Record<string, CountyInfo> = {
+    travis: buildCounty('001', { population: 1290188, medianHouseholdIncome: 92731 }),
+    loving: buildCounty('001', { population: 64, medianHouseholdIncome: null }),
+    bastrop: buildCounty('001', { population: 97216, medianHouseholdIncome: 76147 }),
+    anderson: buildCounty('001', { population: 57922, medianHouseholdIncome: 55000 })
+  };
+
+  it('combines conditions with AND and sorts the matches', () => {
+    const matches = filterCounties(countyData, [
+      condition('population', 'lt', 100000),
+      condition('medianHouseholdIncome', 'gt', 60000)
+    ]);
+
+    expect(matches).toEqual(['bastrop']);
+  });
+
+  it('matches every county without conditions', () => {
+    expect(filterCounties(countyData, [])).toEqual(['anderson', 'bastrop', 'loving', 'travis']);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * County filter utilities
+ * 
+ * Evaluates attribute thresholds (e.g. "population < 50,000 AND median household
+ * income > 60,000") against county data
+ */
+
+import { CountyInfo, FilterCondition, FilterOperator, MetricDefinition } from '@/types';
+import { getMetricsForView } from '@/utils/metricRegistry';
+
+/**
+ * Metrics that can be filtered on
+ */
+export const FILTER_METRICS: MetricDefinition[] = getMetricsForView('panel');
+
+/**
+ * Operator symbols, in picker order
+ */
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥'
+};
+
+/**
+ * Lists the conditions that take part in filtering (the ones with a threshold)
+ * @param conditions - Conditions as entered
+ * @returns Complete conditions
+ */
+export const getActiveConditions = (conditions: FilterCondition[]): FilterCondition[] => {
+  return conditions.filter(condition => condition.value !== null && Number.isFinite(condition.value));
+};
+
+/**
+ * Checks a county against one condition
+ * Counties without a value for the metric never match
+ * @param county - County data
+ * @param condition - Complete condition
+ * @returns Whether the county satisfies the condition
+ */
+export const matchesCondition = (county: CountyInfo, condition: FilterCondition): boolean => {
+  const value = county[condition.metric];
+  const threshold = condition.value;
+  if (value === null || threshold === null) return false;
+
+  switch (condition.operator) {
+    case 'lt':
+      return value < threshold;
+    case 'lte':
+      return value <= threshold;
+    case 'gt':
+      return value > threshold;
+    case 'gte':
+      return value >= threshold;
+  }
+};
+
+/**
+ * Finds the counties matching every condition
+ * @param countyData - County data keyed by normalized county name
+ * @param conditions - Complete conditions, combined with AND
+ * @returns Normalized names of the matching counties, alphabetically
+ */
+export const filterCounties = (
+  countyData: Record<string, CountyInfo>,
+  conditions: FilterCondition[]
+): string[] => {
+  return Object.keys(countyData)
+    .filter(countyName => conditions.every(condition => matchesCondition(countyData[countyName], condition)))
+    .sort();
+};
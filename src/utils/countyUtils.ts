@@ -42,4 +42,31 @@ export const normalizeCountyName = (countyName: string): string => {
  */
 export const extractCountyName = (fullCountyName: string): string => {
   return fullCountyName.replace(/\s+County$/i, '').trim();
-}; 
\ No newline at end of file
+};
+
+/**
+ * Finds county names matching a search query
+ * Names starting with the query are listed before names containing it
+ * @param query - Text typed by the user
+ * @param countyNames - County names to search
+ * @param limit - Maximum number of results
+ * @returns Matching county names
+ */
+export const searchCountyNames = (query: string, countyNames: string[], limit = 8): string[] => {
+  const normalizedQuery = normalizeCountyName(extractCountyName(query));
+  if (!normalizedQuery) return [];
+
+  const prefixMatches: string[] = [];
+  const substringMatches: string[] = [];
+
+  countyNames.forEach(countyName => {
+    const normalizedName = normalizeCountyName(countyName);
+    if (normalizedName.startsWith(normalizedQuery)) {
+      prefixMatches.push(countyName);
+    } else if (normalizedName.includes(normalizedQuery)) {
+      substringMatches.push(countyName);
+    }
+  });
+
+  return [...prefixMatches, ...substringMatches].slice(0, limit);
+};
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildCounty } from '@/test/countyFixtures';
+import { AcsVintage } from '@/types';
+import {
+  NO_SAMPLING_ERROR_MARKER,
+  buildCountyCsv,
+  buildCountyJson,
+  getCensusCitation,
+  getExportFileName
+} from '@/utils/dataExport';
+import { METRICS, getMetricDefinition } from '@/utils/metricRegistry';
+
+const VINTAGE: AcsVintage = { year: 2022, dataset: 'acs5' };
+
+const laSalle = {
+  ...buildCounty('283', { population: 6664, medianHouseholdIncome: 54115 }, { population: null, medianHouseholdIncome: 9210 }),
+  name: 'La Salle County, Texas'
+};
+const anderson = {
+  ...buildCounty('001', { population: 57922 }, { population: null }),
+  name: 'Anderson "Test" County, Texas'
+};
+
+/**
+ * Shape of the JSON export
+ */
+interface ExportedJson {
+  source: string;
+  vintage: AcsVintage & { label: string };
+  notes: string;
+  metrics: { key: string; source: string }[];
+  counties: {
+    fips: string;
+    name: string;
+    values: Record<string, number | null>;
+    marginsOfError: Record<string, number | null>;
+  }[];
+}
+
+/**
+ * Parses CSV text with quoted cells
+ * @param text - CSV text
+ * @returns Rows of unescaped cells
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [[]];
+  let cell = '';
+  let isQuoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (isQuoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === ',') {
+      rows[rows.length - 1].push(cell);
+      cell = '';
+    } else if (char === '\r' && text[index + 1] === '\n') {
+      rows[rows.length - 1].push(cell);
+      rows.push([]);
+      cell = '';
+      index++;
+    } else {
+      cell += char;
+    }
+  }
+  rows[rows.length - 1].push(cell);
+  return rows;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2024-03-05T12:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getCensusCitation', () => {
+  it('cites the release, retrieval date and land area source', () => {
+    expect(getCensusCitation(VINTAGE)).toBe(
+      'U.S. Census Bureau, American Community Survey 2022 5-Year Estimates, retrieved from api.census.gov on 2024-03-05. ' +
+      'Land area: Census Bureau ALAND (2010 TIGER/Line).'
+    );
+  });
+});
+
+describe('buildCountyCsv', () => {
+  let csv: string;
+  let header: string[];
+  let rows: string[][];
+
+  beforeEach(() => {
+    csv = buildCountyCsv([laSalle, anderson], VINTAGE);
+    [header, ...rows] = parseCsv(csv);
+  });
+
+  const column = (label: string): number => header.indexOf(label);
+
+  it('writes one row per county, sorted by FIPS code', () => {
+    expect(rows.map(row => row[0])).toEqual(['48001', '48283']);
+    expect(rows.every(row => row.length === header.length)).toBe(true);
+  });
+
+  it('quotes cells with commas and escapes quotes', () => {
+    expect(csv).toContain('"La Salle County, Texas"');
+    expect(csv).toContain('"Anderson ""Test"" County, Texas"');
+    expect(rows[1][column('County')]).toBe('La Salle County, Texas');
+    expect(rows[0][column('County')]).toBe('Anderson "Test" County, Texas');
+  });
+
+  it('tells margins without sampling error apart from unavailable ones', () => {
+    const population = getMetricDefinition('population');
+    const income = getMetricDefinition('medianHouseholdIncome');
+    const incomeMarginColumn = column(`${income.label} margin of error (±${income.unit}, 90%)`);
+
+    expect(rows[1][column(`${population.label} margin of error (±${population.unit}, 90%)`)]).toBe(NO_SAMPLING_ERROR_MARKER);
+    expect(rows[1][incomeMarginColumn]).toBe('9210');
+    expect(rows[0][incomeMarginColumn]).toBe('');
+    expect(rows[0][column(`${income.label} (${income.unit})`)]).toBe('');
+  });
+
+  it('explains the markers in the source citation', () => {
+    const source = rows[0][column('Source')];
+
+    expect(source.startsWith(getCensusCitation(VINTAGE))).toBe(true);
+    expect(source).toContain(`"${NO_SAMPLING_ERROR_MARKER}"`);
+  });
+});
+
+describe('buildCountyJson', () => {
+  let json: ExportedJson;
+
+  beforeEach(() => {
+    json = JSON.parse(buildCountyJson([laSalle, anderson], VINTAGE));
+  });
+
+  it('describes the source, vintage and metrics', () => {
+    expect(json.source).toBe(getCensusCitation(VINTAGE));
+    expect(json.vintage).toEqual({ year: 2022, dataset: 'acs5', label: 'American Community Survey 2022 5-Year Estimates' });
+    expect(json.metrics.map(({ key }) => key)).toEqual(METRICS.map(({ key }) => key));
+    expect(json.metrics.find(({ key }) => key === 'population')?.source).toBe('B01001_001E');
+    expect(typeof json.notes).toBe('string');
+  });
+
+  it('keeps null margins and omits unavailable ones', () => {
+    const [andersonJson, laSalleJson] = json.counties;
+
+    expect(laSalleJson.fips).toBe('48283');
+    expect(laSalleJson.name).toBe('La Salle County, Texas');
+    expect(laSalleJson.values.population).toBe(6664);
+    expect(laSalleJson.marginsOfError.population).toBeNull();
+    expect(laSalleJson.marginsOfError.medianHouseholdIncome).toBe(9210);
+    expect(andersonJson.values.medianHouseholdIncome).toBeNull();
+    expect(andersonJson.marginsOfError).not.toHaveProperty('medianHouseholdIncome');
+  });
+});
+
+describe('getExportFileName', () => {
+  it('builds a slug with the vintage', () => {
+    expect(getExportFileName('La Salle County', VINTAGE, 'csv')).toBe('la-salle-county-2022-acs5.csv');
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Data export utilities
+ *
+ * Serializes county data to CSV and JSON for spreadsheets and analysis tools.
+ * Columns come from the metric registry, so every metric is exported with its
+ * label, unit and margin of error, alongside the FIPS code, vintage and a
+ * source citation.
+ */
+
+import { AcsVintage, CountyInfo } from '@/types';
+import { getAcsVintageKey, getAcsVintageLabel } from '@/utils/acsVintage';
+import { COMMUTE_BUCKETS, METRICS } from '@/utils/metricRegistry';
+
+/**
+ * Export file formats
+ */
+export type ExportFormat = 'csv' | 'json';
+
+/**
+ * MIME type of each export format
+ */
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json'
+};
+
+/**
+ * CSV margin of error cell for estimates the Census Bureau controls, which have no sampling error
+ * Same marker as the Census Bureau's own tables; empty cells mean not available
+ */
+export const NO_SAMPLING_ERROR_MARKER = '*****';
+
+/**
+ * Explains the CSV cell conventions, written in the Source column
+ */
+const CSV_CELL_NOTE = `Margin of error "${NO_SAMPLING_ERROR_MARKER}": controlled estimate with no sampling error. Empty cell: not available (or not applicable, e.g. the margin of land area).`;
+
+/**
+ * Builds the source citation for exported data
+ * @param vintage - ACS vintage of the data
+ * @param retrievedAt - When the data was exported
+ * @returns Citation such as "U.S. Census Bureau, American Community Survey 2022 5-Year Estimates, ..."
+ */
+export const getCensusCitation = (vintage: AcsVintage, retrievedAt: Date = new Date()): string => {
+  return `U.S. Census Bureau, ${getAcsVintageLabel(vintage)}, retrieved from api.census.gov on ${retrievedAt.toISOString().slice(0, 10)}. ` +
+    'Land area: Census Bureau ALAND (2010 TIGER/Line).';
+};
+
+/**
+ * Gets the 5-digit FIPS code of a county
+ * @param county - County data
+ * @returns FIPS code such as "48201"
+ */
+const getCountyFipsCode = (county: CountyInfo): string => `${county.stateCode}${county.countyCode}`;
+
+/**
+ * Sorts counties by FIPS code so exports are stable
+ * @param counties - County data
+ * @returns Sorted copy
+ */
+const sortByFips = (counties: CountyInfo[]): CountyInfo[] => {
+  return [...counties].sort((a, b) => getCountyFipsCode(a).localeCompare(getCountyFipsCode(b)));
+};
+
+/**
+ * Quotes a CSV cell when it contains a delimiter, quote or line break
+ * @param value - Cell value; null and undefined become empty cells
+ * @returns Escaped cell
+ */
+const escapeCsvCell = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes counties to CSV
+ * One row per county; every metric has a value column and a margin of error column.
+ * Values that are not available are left empty; margins of controlled estimates are
+ * NO_SAMPLING_ERROR_MARKER, as explained in the Source column.
+ * @param counties - County data
+ * @param vintage - ACS vintage of the data
+ * @returns CSV text with a header row
+ */
+export const buildCountyCsv = (counties: CountyInfo[], vintage: AcsVintage): string => {
+  const citation = `${getCensusCitation(vintage)} ${CSV_CELL_NOTE}`;
+  const header = [
+    'FIPS',
+    'County',
+    'Vintage',
+    ...METRICS.flatMap(metric => [
+      `${metric.label} (${metric.unit})`,
+      `${metric.label} margin of error (±${metric.unit}, 90%)`
+    ]),
+    ...COMMUTE_BUCKETS.map(bucket => `Commuters ${bucket.label} min (workers)`),
+    'Source'
+  ];
+
+  const rows = sortByFips(counties).map(county => [
+    getCountyFipsCode(county),
+    county.name,
+    getAcsVintageLabel(vintage),
+    ...METRICS.flatMap(metric => {
+      const margin = county.marginsOfError[metric.key];
+      return [county[metric.key], margin === null ? NO_SAMPLING_ERROR_MARKER : margin];
+    }),
+    ...COMMUTE_BUCKETS.map((_, index) => county.commuteDistribution?.[index]),
+    citation
+  ]);
+
+  return [header, ...rows]
+    .map(row => row.map(escapeCsvCell).join(','))
+    .join('\r\n');
+};
+
+/**
+ * Serializes counties to JSON
+ * Includes the vintage, citation and metric definitions so the file is self-describing
+ * Margins of error are null for controlled estimates and omitted when not available
+ * @param counties - County data
+ * @param vintage - ACS vintage of the data
+ * @returns Pretty-printed JSON text
+ */
+export const buildCountyJson = (counties: CountyInfo[], vintage: AcsVintage): string => {
+  return JSON.stringify({
+    source: getCensusCitation(vintage),
+    vintage: { ...vintage, label: getAcsVintageLabel(vintage) },
+    notes: 'values: null means not available. marginsOfError: null means a controlled estimate with no sampling error; a missing key means not available.',
+    metrics: METRICS.map(({ key, label, unit, format, source }) => ({
+      key,
+      label,
+      unit,
+      format,
+      source: source.type === 'census' ? `${source.code}E` :
+        source.type === 'derived' ? source.formula :
+        source.description
+    })),
+    commuteBuckets: COMMUTE_BUCKETS.map(bucket => `${bucket.label} min (${bucket.code}E)`),
+    counties: sortByFips(counties).map(county => ({
+      fips: getCountyFipsCode(county),
+      name: county.name,
+      values: Object.fromEntries(METRICS.map(({ key }) => [key, county[key]])),
+      marginsOfError: Object.fromEntries(
+        METRICS
+          .filter(({ key }) => county.marginsOfError[key] !== undefined)
+          .map(({ key }) => [key, county.marginsOfError[key]])
+      ),
+      commuteDistribution: county.commuteDistribution
+    }))
+  }, null, 2);
+};
+
+/**
+ * Builds an export file name
+ * @param scope - What is exported (e.g. "harris-county" or "texas-counties")
+ * @param vintage - ACS vintage of the data
+ * @param format - File format
+ * @returns File name such as "harris-county-2022-acs5.csv"
+ */
+export const getExportFileName = (scope: string, vintage: AcsVintage, format: ExportFormat): string => {
+  const slug = scope.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug}-${getAcsVintageKey(vintage).replace('/', '-')}.${format}`;
+};
+
+/**
+ * Exports counties as a downloaded file
+ * @param counties - County data
+ * @param vintage - ACS vintage of the data
+ * @param format - File format
+ * @param scope - What is exported, used in the file name
+ */
+export const downloadCountyData = (
+  counties: CountyInfo[],
+  vintage: AcsVintage,
+  format: ExportFormat,
+  scope: string
+): void => {
+  const content = format === 'csv' ? buildCountyCsv(counties, vintage) : buildCountyJson(counties, vintage);
+  // Excel needs a byte order mark to read UTF-8 CSV (e.g. the ± in column labels)
+  const blob = new Blob([format === 'csv' ? '\uFEFF' : '', content], { type: EXPORT_MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getExportFileName(scope, vintage, format);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
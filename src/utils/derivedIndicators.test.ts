@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getCountyLandArea,
+  getInputMargins,
+  getProportionMargin,
+  getRatioMargin,
+  getSumMargin,
+  safeDivide,
+  safePercent
+} from '@/utils/derivedIndicators';
+
+describe('safeDivide', () => {
+  it('divides by a positive denominator', () => {
+    expect(safeDivide(30, 4)).toBe(7.5);
+  });
+
+  it('returns null for an empty denominator', () => {
+    expect(safeDivide(30, 0)).toBeNull();
+    expect(safeDivide(0, 0)).toBeNull();
+  });
+});
+
+describe('safePercent', () => {
+  it('expresses the part as a percentage of the total', () => {
+    expect(safePercent(25, 200)).toBe(12.5);
+  });
+
+  it('returns null for an empty total', () => {
+    expect(safePercent(0, 0)).toBeNull();
+  });
+});
+
+describe('getInputMargins', () => {
+  it('reads the margins in the order of the keys, counting controlled estimates as 0', () => {
+    expect(getInputMargins({ population: null, population25Plus: 12 }, 'population25Plus', 'population')).toEqual([12, 0]);
+  });
+
+  it('returns undefined when any margin is not available', () => {
+    expect(getInputMargins({ population: 10 }, 'population', 'population25Plus')).toBeUndefined();
+  });
+});
+
+describe('getSumMargin', () => {
+  it('takes the root of the summed squares', () => {
+    expect(getSumMargin(3, 4)).toBe(5);
+    expect(getSumMargin()).toBe(0);
+  });
+});
+
+describe('getProportionMargin', () => {
+  it('uses the proportion formula when its radicand is non-negative', () => {
+    // p = 0.25, sqrt(100² - 0.25² × 200²) / 400
+    expect(getProportionMargin(100, 400, 100, 200)).toBeCloseTo(Math.sqrt(7500) / 400);
+  });
+
+  it('falls back to the ratio formula when the radicand is negative', () => {
+    // p = 0.5, 10² - 0.5² × 100² < 0, so sqrt(10² + 0.5² × 100²) / 200
+    expect(getProportionMargin(100, 200, 10, 100)).toBeCloseTo(Math.sqrt(2600) / 200);
+  });
+
+  it('returns 0 for an empty denominator', () => {
+    expect(getProportionMargin(0, 0, 10, 10)).toBe(0);
+  });
+});
+
+describe('getRatioMargin', () => {
+  it('applies the ratio formula', () => {
+    // r = 2, sqrt(30² + 2² × 10²) / 50
+    expect(getRatioMargin(100, 50, 30, 10)).toBeCloseTo(Math.sqrt(1300) / 50);
+  });
+
+  it('returns 0 for an empty denominator', () => {
+    expect(getRatioMargin(10, 0, 1, 1)).toBe(0);
+  });
+});
+
+describe('getCountyLandArea', () => {
+  it('converts the Census land area to square miles', () => {
+    expect(getCountyLandArea('167')).toBeCloseTo(378.4, 1);
+  });
+
+  it('returns null for an unknown county', () => {
+    expect(getCountyLandArea('999')).toBeNull();
+  });
+});
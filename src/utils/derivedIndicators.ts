@@ -0,0 +1,107 @@
+/**
+ * Derived indicator utilities
+ * 
+ * Math used by derived metrics in the metric registry: safe division, ACS margin
+ * of error approximations and the bundled land areas
+ */
+
+import { TEXAS_COUNTY_LAND_AREAS } from '@/data/texasCountyLandAreas';
+import { CountyMarginsOfError, MetricKey } from '@/types';
+
+/**
+ * Gets the bundled land area of a county
+ * Census Bureau land area (ALAND), excluding water
+ * @param countyFips - 3-digit county FIPS code (e.g. "201")
+ * @returns Land area in square miles, or null if unknown
+ */
+export const getCountyLandArea = (countyFips: string): number | null => {
+  return TEXAS_COUNTY_LAND_AREAS[countyFips] ?? null;
+};
+
+/**
+ * Divides two counts, treating an empty denominator as no data
+ * @param numerator - Numerator
+ * @param denominator - Denominator
+ * @returns Quotient, or null when the denominator is 0
+ */
+export const safeDivide = (numerator: number, denominator: number): number | null => {
+  return denominator > 0 ? numerator / denominator : null;
+};
+
+/**
+ * Expresses a part of a total as a percentage, treating an empty total as no data
+ * @param part - Part of the total
+ * @param total - Total
+ * @returns Percentage, or null when the total is 0
+ */
+export const safePercent = (part: number, total: number): number | null => {
+  const share = safeDivide(part, total);
+  return share === null ? null : share * 100;
+};
+
+/**
+ * Reads the margins of error of a derived metric's inputs
+ * Controlled estimates (null margin) have no sampling error and count as 0
+ * @param margins - Margins of error keyed by metric
+ * @param keys - Input metrics
+ * @returns Margins in the order of the keys, or undefined when any of them is not available
+ */
+export const getInputMargins = <Keys extends MetricKey[]>(
+  margins: CountyMarginsOfError,
+  ...keys: Keys
+): { [Index in keyof Keys]: number } | undefined => {
+  if (keys.some(key => margins[key] === undefined)) return undefined;
+  return keys.map(key => margins[key] ?? 0) as { [Index in keyof Keys]: number };
+};
+
+/**
+ * Margin of error of a sum, approximated by the root of the summed squares
+ * @param margins - MOEs of the summed estimates
+ * @returns MOE of the sum
+ */
+export const getSumMargin = (...margins: number[]): number => {
+  return Math.sqrt(margins.reduce((total, margin) => total + margin ** 2, 0));
+};
+
+/**
+ * Margin of error of a proportion X / Y (ACS General Handbook, ch. 8)
+ * Falls back to the ratio formula when the proportion formula's radicand is negative
+ * @param numerator - Estimate X
+ * @param denominator - Estimate Y
+ * @param numeratorMargin - MOE of X
+ * @param denominatorMargin - MOE of Y
+ * @returns MOE of the proportion, or 0 when Y is 0
+ */
+export const getProportionMargin = (
+  numerator: number,
+  denominator: number,
+  numeratorMargin: number,
+  denominatorMargin: number
+): number => {
+  if (denominator <= 0) return 0;
+
+  const proportion = numerator / denominator;
+  const radicand = numeratorMargin ** 2 - proportion ** 2 * denominatorMargin ** 2;
+  const ratioRadicand = numeratorMargin ** 2 + proportion ** 2 * denominatorMargin ** 2;
+  return Math.sqrt(radicand >= 0 ? radicand : ratioRadicand) / denominator;
+};
+
+/**
+ * Margin of error of a ratio X / Y where X is not a subset of Y (ACS General Handbook, ch. 8)
+ * @param numerator - Estimate X
+ * @param denominator - Estimate Y
+ * @param numeratorMargin - MOE of X
+ * @param denominatorMargin - MOE of Y
+ * @returns MOE of the ratio, or 0 when Y is 0
+ */
+export const getRatioMargin = (
+  numerator: number,
+  denominator: number,
+  numeratorMargin: number,
+  denominatorMargin: number
+): number => {
+  if (denominator <= 0) return 0;
+
+  const ratio = numerator / denominator;
+  return Math.sqrt(numeratorMargin ** 2 + ratio ** 2 * denominatorMargin ** 2) / denominator;
+};
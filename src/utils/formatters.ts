@@ -0,0 +1,116 @@
+/**
+ * Value formatting utilities
+ * 
+ * Provides helper functions for displaying Census values
+ */
+
+import { MetricFormat } from '@/types';
+
+/**
+ * Format currency values for display
+ * @param value - Dollar amount
+ * @returns Formatted currency string without cents
+ */
+export const formatCurrency = (value: number): string => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+/**
+ * Format number values for display
+ * @param value - Number to format
+ * @returns Number with thousands separators
+ */
+export const formatNumber = (value: number): string => {
+  return new Intl.NumberFormat('en-US').format(value);
+};
+
+/**
+ * Format percent values for display
+ * @param value - Percentage (0-100)
+ * @returns Percentage with one decimal (e.g. "63.2%")
+ */
+export const formatPercent = (value: number): string => {
+  return `${value.toFixed(1)}%`;
+};
+
+/**
+ * Format population density values for display
+ * @param value - People per square mile
+ * @returns Density with one decimal (e.g. "1,234.5 / sq mi")
+ */
+export const formatDensity = (value: number): string => {
+  return `${new Intl.NumberFormat('en-US', { maximumFractionDigits: 1 }).format(value)} / sq mi`;
+};
+
+/**
+ * Format durations in minutes for display
+ * @param value - Minutes
+ * @returns Minutes with one decimal (e.g. "26.4 min")
+ */
+export const formatMinutes = (value: number): string => {
+  return `${value.toFixed(1)} min`;
+};
+
+/**
+ * Format an integer as an English ordinal
+ * @param value - Integer to format
+ * @returns Ordinal (e.g. "1st", "22nd", "113th")
+ */
+export const formatOrdinal = (value: number): string => {
+  const suffixes: Record<string, string> = { one: 'st', two: 'nd', few: 'rd', other: 'th' };
+  return `${value}${suffixes[new Intl.PluralRules('en-US', { type: 'ordinal' }).select(value)]}`;
+};
+
+/**
+ * Format a number in compact notation (e.g. 4.8M) for legends
+ * @param value - Number to format
+ * @param format - Display format of the value
+ * @returns Compact formatted string
+ */
+export const formatCompact = (value: number, format: MetricFormat = 'number'): string => {
+  if (format === 'percent') {
+    return `${Math.round(value)}%`;
+  }
+  if (format === 'minutes') {
+    return `${Math.round(value)} min`;
+  }
+  return new Intl.NumberFormat('en-US', {
+    notation: 'compact',
+    maximumFractionDigits: 1,
+    ...(format === 'currency' ? { style: 'currency', currency: 'USD' } : {}),
+  }).format(value);
+};
+
+/**
+ * Label shown in place of values the Census Bureau did not publish
+ */
+export const NOT_AVAILABLE_LABEL = 'Not available';
+
+/**
+ * Format a value according to its metric format
+ * @param value - Value to format, or null when not available
+ * @param format - Display format of the value
+ * @returns Formatted string, or NOT_AVAILABLE_LABEL
+ */
+export const formatMetricValue = (value: number | null, format: MetricFormat): string => {
+  if (value === null) {
+    return NOT_AVAILABLE_LABEL;
+  }
+
+  switch (format) {
+    case 'currency':
+      return formatCurrency(value);
+    case 'percent':
+      return formatPercent(value);
+    case 'density':
+      return formatDensity(value);
+    case 'minutes':
+      return formatMinutes(value);
+    default:
+      return formatNumber(value);
+  }
+};
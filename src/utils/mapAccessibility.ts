@@ -0,0 +1,120 @@
+/**
+ * Map accessibility utilities
+ * 
+ * Provides spatial keyboard navigation and screen-reader descriptions for county paths
+ */
+
+import { ChoroplethMetric, CountyInfo } from '@/types';
+import { formatCountyName } from '@/utils/countyUtils';
+import { formatMetricValue } from '@/utils/formatters';
+
+/**
+ * Arrow key directions used to move between counties
+ */
+export type MapDirection = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * Center point of a county path in SVG coordinates
+ */
+export interface CountyCenter {
+  x: number;
+  y: number;
+}
+
+/**
+ * Arrow keys mapped to map directions
+ */
+export const ARROW_KEY_DIRECTIONS: Record<string, MapDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right'
+};
+
+/**
+ * Unit vectors of each direction (SVG y grows downwards)
+ */
+const DIRECTION_VECTORS: Record<MapDirection, CountyCenter> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 }
+};
+
+/**
+ * Finds the neighbouring county in a direction
+ * Only counties within 60° of the direction are considered; among those the
+ * closest wins, with off-axis counties penalized so straight moves are preferred
+ * @param fromCounty - Normalized name of the current county
+ * @param direction - Direction to move
+ * @param centers - Center points keyed by normalized county name
+ * @returns Normalized name of the neighbouring county, or null at the map edge
+ */
+export const findCountyInDirection = (
+  fromCounty: string,
+  direction: MapDirection,
+  centers: Map<string, CountyCenter>
+): string | null => {
+  const origin = centers.get(fromCounty);
+  if (!origin) return null;
+
+  const vector = DIRECTION_VECTORS[direction];
+  const minCosine = Math.cos(Math.PI / 3);
+  let bestCounty: string | null = null;
+  let bestScore = Infinity;
+
+  centers.forEach((center, countyName) => {
+    if (countyName === fromCounty) return;
+
+    const dx = center.x - origin.x;
+    const dy = center.y - origin.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance === 0) return;
+
+    const cosine = (dx * vector.x + dy * vector.y) / distance;
+    if (cosine < minCosine) return;
+
+    const score = distance * (2 - cosine);
+    if (score < bestScore) {
+      bestScore = score;
+      bestCounty = countyName;
+    }
+  });
+
+  return bestCounty;
+};
+
+/**
+ * Builds the sentence announced when a county is hovered or focused
+ * @param countyName - Name of the county
+ * @param data - Cached county data, if loaded
+ * @param metric - Active choropleth metric, if any
+ * @returns Announcement text
+ */
+export const describeCounty = (
+  countyName: string,
+  data: CountyInfo | null,
+  metric: ChoroplethMetric | null
+): string => {
+  const parts = [formatCountyName(countyName)];
+
+  if (data) {
+    if (metric) {
+      parts.push(`${metric.label} ${formatMetricValue(data[metric.key], metric.format)}`);
+    }
+    if (metric?.key !== 'population') {
+      parts.push(`Population ${formatMetricValue(data.population, 'number')}`);
+    }
+    if (metric?.key !== 'medianHouseholdIncome') {
+      parts.push(`Median household income ${formatMetricValue(data.medianHouseholdIncome, 'currency')}`);
+    }
+  }
+
+  return parts.join('. ');
+};
+
+/**
+ * Label of the map for screen readers, including keyboard instructions
+ */
+export const MAP_ARIA_LABEL =
+  'Map of Texas counties. Use Tab or the arrow keys to move between counties, Enter or Space to open county details, Shift+Enter to pin a county for comparison.';
@@ -1,9 +1,11 @@
 /**
  * Map styling utilities
  * 
- * Provides functions for styling SVG map elements
+ * Provides style objects for SVG map elements
  */
 
+import { CSSProperties } from 'react';
+
 /**
  * County style configuration
  */
@@ -13,7 +15,9 @@ export const COUNTY_STYLES = {
     stroke: '#0066cc',
     strokeWidth: '1',
     cursor: 'pointer',
-    transition: 'all 0.3s ease'
+    transition: 'all 0.3s ease',
+    // Keep outlines the same on-screen width at every zoom level
+    vectorEffect: 'non-scaling-stroke'
   },
   hover: {
     fill: '#b3d9ff',
@@ -26,62 +30,106 @@ export const COUNTY_STYLES = {
     stroke: '#cc5500',
     strokeWidth: '3',
     filter: 'drop-shadow(0 4px 8px rgba(255, 107, 53, 0.4))'
+  },
+  compared: {
+    fill: '#ddd6fe',
+    stroke: '#7c3aed',
+    strokeWidth: '2',
+    strokeDasharray: '4 2'
+  },
+  region: {
+    fill: '#d1fae5',
+    stroke: '#059669',
+    strokeWidth: '2'
+  },
+  filteredOut: {
+    opacity: '0.25'
   }
 } as const;
 
 /**
- * Applies styles to an SVG element
- * @param element - SVG element to style
- * @param styles - Style object to apply
+ * Visual layers of one county
+ * Layers compose, so removing one (e.g. ending a hover) reveals the ones below
  */
-export const applyStylesToElement = (element: SVGElement, styles: Record<string, string>): void => {
-  Object.entries(styles).forEach(([property, value]) => {
-    if (property === 'strokeWidth') {
-      element.style.setProperty('stroke-width', value);
-    } else {
-      element.style.setProperty(property, value);
-    }
-  });
-};
+export interface CountyVisualState {
+  /** Hovered, focused or previewed by a tap */
+  isHovered: boolean;
+  /** Selected county shown in the side panel */
+  isSelected: boolean;
+  /** Pinned for comparison */
+  isCompared: boolean;
+  /** Member of the selected region */
+  isInRegion: boolean;
+  /** Excluded by the active filter */
+  isFilteredOut: boolean;
+  /** Choropleth fill, if choropleth mode is on */
+  fill?: string;
+}
 
 /**
- * Sets default styles for a county path
- * @param county - SVG path element
+ * Builds the inline styles for a county path from its visual state
+ * 
+ * - Fill: choropleth fill when active (so data stays readable), otherwise selected, hover, compared or region tints
+ * - Outline: selected wins over hover, hover over compared, compared over region, region over default
+ * - Hover adds a shadow (and brightens choropleth fills) on top of everything else
+ * - Filtered-out counties are dimmed unless hovered or selected
+ * 
+ * @param state - Visual state of the county
+ * @returns Style object for the path element
  */
-export const setDefaultCountyStyles = (county: SVGElement): void => {
-  applyStylesToElement(county, COUNTY_STYLES.default);
-};
+export const getCountyStyle = (state: CountyVisualState): CSSProperties => {
+  const { isHovered, isSelected, isCompared, isInRegion, isFilteredOut, fill } = state;
+  const style: CSSProperties = { ...COUNTY_STYLES.default };
 
-/**
- * Sets hover styles for a county path
- * @param county - SVG path element
- */
-export const setHoverCountyStyles = (county: SVGElement): void => {
-  applyStylesToElement(county, COUNTY_STYLES.hover);
-};
+  // Fill layer
+  if (fill) {
+    style.fill = fill;
+  } else if (isSelected) {
+    style.fill = COUNTY_STYLES.selected.fill;
+  } else if (isHovered) {
+    style.fill = COUNTY_STYLES.hover.fill;
+  } else if (isCompared) {
+    style.fill = COUNTY_STYLES.compared.fill;
+  } else if (isInRegion) {
+    style.fill = COUNTY_STYLES.region.fill;
+  }
 
-/**
- * Sets selected styles for a county path
- * @param county - SVG path element
- */
-export const setSelectedCountyStyles = (county: SVGElement): void => {
-  applyStylesToElement(county, COUNTY_STYLES.selected);
-};
+  // Outline layer
+  if (isSelected) {
+    Object.assign(style, {
+      stroke: COUNTY_STYLES.selected.stroke,
+      strokeWidth: COUNTY_STYLES.selected.strokeWidth,
+      filter: COUNTY_STYLES.selected.filter
+    });
+  } else if (isHovered) {
+    Object.assign(style, {
+      stroke: COUNTY_STYLES.hover.stroke,
+      strokeWidth: COUNTY_STYLES.hover.strokeWidth
+    });
+  } else if (isCompared) {
+    Object.assign(style, {
+      stroke: COUNTY_STYLES.compared.stroke,
+      strokeWidth: COUNTY_STYLES.compared.strokeWidth,
+      strokeDasharray: COUNTY_STYLES.compared.strokeDasharray
+    });
+  } else if (isInRegion) {
+    Object.assign(style, {
+      stroke: COUNTY_STYLES.region.stroke,
+      strokeWidth: COUNTY_STYLES.region.strokeWidth
+    });
+  }
 
-/**
- * Resets all counties to default styles
- * @param counties - NodeList of county elements
- */
-export const resetAllCountiesToDefault = (counties: NodeListOf<Element>): void => {
-  counties.forEach((county) => {
-    setDefaultCountyStyles(county as SVGElement);
-  });
-};
+  // Hover layer
+  if (isHovered) {
+    style.filter = fill
+      ? `brightness(1.1) ${COUNTY_STYLES.hover.filter}`
+      : COUNTY_STYLES.hover.filter;
+  }
 
-/**
- * Removes all styling from an element
- * @param element - SVG element to reset
- */
-export const removeAllStyles = (element: SVGElement): void => {
-  element.style.cssText = '';
-}; 
\ No newline at end of file
+  // Filter layer
+  if (isFilteredOut && !isHovered && !isSelected) {
+    style.opacity = COUNTY_STYLES.filteredOut.opacity;
+  }
+
+  return style;
+};
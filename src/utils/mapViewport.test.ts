@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { MapViewBox } from '@/types';
+import {
+  MAX_MAP_ZOOM,
+  clampViewBox,
+  clientToMapPoint,
+  easeInOutCubic,
+  getCountyViewBox,
+  interpolateViewBox,
+  zoomViewBox
+} from '@/utils/mapViewport';
+
+/**
+ * Full map view box
+ */
+const EXTENT: MapViewBox = { x: 0, y: 0, width: 1000, height: 800 };
+
+/**
+ * Bounding rectangle of an SVG element drawn at the given size
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @returns Bounding rectangle offset from the page origin
+ */
+const getRect = (width: number, height: number): DOMRect => ({
+  left: 10,
+  top: 20,
+  width,
+  height
+}) as DOMRect;
+
+/**
+ * Position of a point relative to a view box
+ * @param viewBox - View box
+ * @param point - Point in SVG user units
+ * @returns Position from 0 to 1 on each axis
+ */
+const getRelativePosition = (viewBox: MapViewBox, point: { x: number; y: number }) => ({
+  x: (point.x - viewBox.x) / viewBox.width,
+  y: (point.y - viewBox.y) / viewBox.height
+});
+
+describe('clampViewBox', () => {
+  it('limits zooming out to the full map', () => {
+    expect(clampViewBox({ x: -500, y: -400, width: 2000, height: 1600 }, EXTENT)).toEqual(EXTENT);
+  });
+
+  it('limits zooming in to MAX_MAP_ZOOM', () => {
+    const viewBox = clampViewBox({ x: 495, y: 396, width: 10, height: 8 }, EXTENT);
+
+    expect(viewBox.width).toBeCloseTo(EXTENT.width / MAX_MAP_ZOOM);
+    expect(viewBox.height).toBeCloseTo(EXTENT.height / MAX_MAP_ZOOM);
+    // The center is kept
+    expect(viewBox.x + viewBox.width / 2).toBeCloseTo(500);
+    expect(viewBox.y + viewBox.height / 2).toBeCloseTo(400);
+  });
+
+  it('keeps the view box inside the map when panning past an edge', () => {
+    expect(clampViewBox({ x: -300, y: 700, width: 500, height: 400 }, EXTENT)).toEqual({ x: 0, y: 400, width: 500, height: 400 });
+    expect(clampViewBox({ x: 900, y: -50, width: 500, height: 400 }, EXTENT)).toEqual({ x: 500, y: 0, width: 500, height: 400 });
+  });
+
+  it('leaves a view box within the limits unchanged', () => {
+    const viewBox = { x: 100, y: 200, width: 500, height: 400 };
+
+    expect(clampViewBox(viewBox, EXTENT)).toEqual(viewBox);
+  });
+});
+
+describe('zoomViewBox', () => {
+  it('keeps the focal point fixed on screen', () => {
+    const viewBox = { x: 100, y: 100, width: 600, height: 480 };
+    const focus = { x: 250, y: 460 };
+
+    const zoomedIn = zoomViewBox(viewBox, 1.5, focus);
+    const zoomedOut = zoomViewBox(viewBox, 0.5, focus);
+
+    expect(zoomedIn.width).toBeCloseTo(400);
+    expect(zoomedOut.width).toBeCloseTo(1200);
+    expect(getRelativePosition(zoomedIn, focus).x).toBeCloseTo(getRelativePosition(viewBox, focus).x);
+    expect(getRelativePosition(zoomedIn, focus).y).toBeCloseTo(getRelativePosition(viewBox, focus).y);
+    expect(getRelativePosition(zoomedOut, focus).x).toBeCloseTo(getRelativePosition(viewBox, focus).x);
+  });
+
+  it('returns to the full map when zoomed out and clamped', () => {
+    const zoomedIn = zoomViewBox(EXTENT, 4, { x: 120, y: 700 });
+
+    expect(clampViewBox(zoomViewBox(zoomedIn, 1 / 8, { x: 120, y: 700 }), EXTENT)).toEqual(EXTENT);
+  });
+});
+
+describe('clientToMapPoint', () => {
+  it('maps screen pixels to map units', () => {
+    const point = clientToMapPoint(10 + 250, 20 + 100, getRect(500, 400), EXTENT);
+
+    expect(point).toEqual({ x: 500, y: 200 });
+  });
+
+  it('accounts for letterboxing when the aspect ratios differ', () => {
+    // 1000 × 800 drawn into 1000 × 1000 pixels leaves 100 px bands above and below
+    const rect = getRect(1000, 1000);
+
+    expect(clientToMapPoint(10, 20 + 100, rect, EXTENT)).toEqual({ x: 0, y: 0 });
+    expect(clientToMapPoint(10 + 1000, 20 + 900, rect, EXTENT)).toEqual({ x: 1000, y: 800 });
+  });
+});
+
+describe('getCountyViewBox', () => {
+  it('frames the county with the map aspect ratio', () => {
+    const viewBox = getCountyViewBox({ x: 400, y: 300, width: 100, height: 100 }, EXTENT);
+
+    expect(viewBox.width / viewBox.height).toBeCloseTo(EXTENT.width / EXTENT.height);
+    expect(viewBox.x + viewBox.width / 2).toBeCloseTo(450);
+    expect(viewBox.y + viewBox.height / 2).toBeCloseTo(350);
+    expect(viewBox.height).toBeGreaterThan(100);
+  });
+
+  it('does not zoom in too far on tiny counties', () => {
+    const viewBox = getCountyViewBox({ x: 500, y: 400, width: 1, height: 1 }, EXTENT);
+
+    expect(viewBox.width).toBeCloseTo(EXTENT.width * 0.12);
+  });
+});
+
+describe('view box animation', () => {
+  it('interpolates between view boxes', () => {
+    const to = { x: 100, y: 200, width: 500, height: 400 };
+
+    expect(interpolateViewBox(EXTENT, to, 0)).toEqual(EXTENT);
+    expect(interpolateViewBox(EXTENT, to, 1)).toEqual(to);
+    expect(interpolateViewBox(EXTENT, to, 0.5)).toEqual({ x: 50, y: 100, width: 750, height: 600 });
+  });
+
+  it('eases from 0 to 1', () => {
+    expect(easeInOutCubic(0)).toBe(0);
+    expect(easeInOutCubic(0.5)).toBe(0.5);
+    expect(easeInOutCubic(1)).toBe(1);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Map viewport utilities
+ * 
+ * Pure view box math for panning and zooming the county map
+ */
+
+import { MapViewBox } from '@/types';
+
+/**
+ * Largest zoom factor relative to the full map
+ */
+export const MAX_MAP_ZOOM = 20;
+
+/**
+ * Zoom factor of one zoom-in/zoom-out button press
+ */
+export const ZOOM_STEP = 1.5;
+
+/**
+ * Smallest view box used when zooming to a county, as a share of the full map width
+ * Keeps tiny counties in context instead of filling the screen
+ */
+const MIN_COUNTY_VIEW_SHARE = 0.12;
+
+/**
+ * Padding around a county when zooming to it, as a share of the county size
+ */
+const COUNTY_VIEW_PADDING = 0.6;
+
+/**
+ * Keeps a view box within the zoom limits and the map extent
+ * @param viewBox - Requested view box
+ * @param extent - Full map view box
+ * @returns View box no larger than the map, no smaller than MAX_MAP_ZOOM allows, centered inside the map
+ */
+export const clampViewBox = (viewBox: MapViewBox, extent: MapViewBox): MapViewBox => {
+  const scale = Math.min(
+    Math.max(viewBox.width / extent.width, 1 / MAX_MAP_ZOOM),
+    1
+  );
+  const width = extent.width * scale;
+  const height = extent.height * scale;
+  const centerX = Math.min(Math.max(viewBox.x + viewBox.width / 2, extent.x + width / 2), extent.x + extent.width - width / 2);
+  const centerY = Math.min(Math.max(viewBox.y + viewBox.height / 2, extent.y + height / 2), extent.y + extent.height - height / 2);
+
+  return { x: centerX - width / 2, y: centerY - height / 2, width, height };
+};
+
+/**
+ * Converts a screen point to map coordinates
+ * Accounts for the letterboxing of preserveAspectRatio="xMidYMid meet"
+ * @param clientX - Screen x coordinate
+ * @param clientY - Screen y coordinate
+ * @param rect - Bounding rectangle of the SVG element
+ * @param viewBox - Current view box
+ * @returns Point in SVG user units
+ */
+export const clientToMapPoint = (
+  clientX: number,
+  clientY: number,
+  rect: DOMRect,
+  viewBox: MapViewBox
+): { x: number; y: number } => {
+  const unitsPerPixel = getUnitsPerPixel(rect, viewBox);
+  const offsetX = (rect.width - viewBox.width / unitsPerPixel) / 2;
+  const offsetY = (rect.height - viewBox.height / unitsPerPixel) / 2;
+
+  return {
+    x: viewBox.x + (clientX - rect.left - offsetX) * unitsPerPixel,
+    y: viewBox.y + (clientY - rect.top - offsetY) * unitsPerPixel
+  };
+};
+
+/**
+ * Gets how many SVG user units one screen pixel covers
+ * @param rect - Bounding rectangle of the SVG element
+ * @param viewBox - Current view box
+ * @returns User units per pixel
+ */
+export const getUnitsPerPixel = (rect: DOMRect, viewBox: MapViewBox): number => {
+  return Math.max(viewBox.width / rect.width, viewBox.height / rect.height);
+};
+
+/**
+ * Zooms a view box around a focal point
+ * @param viewBox - Current view box
+ * @param factor - Zoom factor (above 1 zooms in)
+ * @param focus - Point in SVG user units that stays in place
+ * @returns Zoomed view box (not clamped)
+ */
+export const zoomViewBox = (
+  viewBox: MapViewBox,
+  factor: number,
+  focus: { x: number; y: number }
+): MapViewBox => {
+  const width = viewBox.width / factor;
+  const height = viewBox.height / factor;
+
+  return {
+    x: focus.x - (focus.x - viewBox.x) / factor,
+    y: focus.y - (focus.y - viewBox.y) / factor,
+    width,
+    height
+  };
+};
+
+/**
+ * Builds the view box that frames a county
+ * @param bbox - Bounding box of the county
+ * @param extent - Full map view box
+ * @returns Padded view box with the map's aspect ratio
+ */
+export const getCountyViewBox = (bbox: MapViewBox, extent: MapViewBox): MapViewBox => {
+  const aspectRatio = extent.width / extent.height;
+  const paddedWidth = bbox.width * (1 + COUNTY_VIEW_PADDING * 2);
+  const paddedHeight = bbox.height * (1 + COUNTY_VIEW_PADDING * 2);
+  const width = Math.max(paddedWidth, paddedHeight * aspectRatio, extent.width * MIN_COUNTY_VIEW_SHARE);
+  const height = width / aspectRatio;
+
+  return clampViewBox({
+    x: bbox.x + bbox.width / 2 - width / 2,
+    y: bbox.y + bbox.height / 2 - height / 2,
+    width,
+    height
+  }, extent);
+};
+
+/**
+ * Interpolates between two view boxes
+ * @param from - Starting view box
+ * @param to - Target view box
+ * @param progress - Eased progress from 0 to 1
+ * @returns Intermediate view box
+ */
+export const interpolateViewBox = (from: MapViewBox, to: MapViewBox, progress: number): MapViewBox => {
+  return {
+    x: from.x + (to.x - from.x) * progress,
+    y: from.y + (to.y - from.y) * progress,
+    width: from.width + (to.width - from.width) * progress,
+    height: from.height + (to.height - from.height) * progress
+  };
+};
+
+/**
+ * Cubic ease-in-out curve for view box animations
+ * @param t - Linear progress from 0 to 1
+ * @returns Eased progress
+ */
+export const easeInOutCubic = (t: number): number => {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+};
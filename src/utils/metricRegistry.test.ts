@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { CountyMarginsOfError, MetricKey } from '@/types';
+import { getCountyLandArea } from '@/utils/derivedIndicators';
+import { METRICS, deriveMetrics, resolveMetrics } from '@/utils/metricRegistry';
+
+/**
+ * Census estimates of a county, every census metric set
+ */
+const ESTIMATES: Partial<Record<MetricKey, number | null>> = {
+  population: 100000,
+  population25Plus: 60000,
+  bachelorsDegreePop: 15000,
+  medianHouseholdIncome: 65000,
+  medianHomeValue: 250000,
+  ownerOccupiedHousing: 30000,
+  renterOccupiedHousing: 10000,
+  commutingWorkers: 40000,
+  aggregateTravelTime: 1000000
+};
+
+describe('resolveMetrics', () => {
+  it('resolves bundled and derived metrics', () => {
+    const { values } = resolveMetrics('453', ESTIMATES, {});
+    const landArea = getCountyLandArea('453')!;
+
+    expect(values.landArea).toBe(landArea);
+    expect(values.bachelorsShare).toBe(25);
+    expect(values.ownerOccupancyRate).toBe(75);
+    expect(values.meanTravelTime).toBe(25);
+    expect(values.populationDensity).toBeCloseTo(100000 / landArea);
+  });
+
+  it('leaves the bundled and derived metrics of an unknown county not available', () => {
+    const { values } = resolveMetrics('999', ESTIMATES, {});
+
+    expect(values.landArea).toBeNull();
+    expect(values.populationDensity).toBeNull();
+  });
+
+  it('derives margins of error from the input margins', () => {
+    const { marginsOfError } = resolveMetrics('453', ESTIMATES, {
+      population: null,
+      aggregateTravelTime: 30000,
+      commutingWorkers: 1000
+    });
+
+    // A controlled population total has no sampling error, and neither has its density
+    expect(marginsOfError.populationDensity).toBeNull();
+    expect(marginsOfError.meanTravelTime).toBeCloseTo(Math.sqrt(30000 ** 2 + 25 ** 2 * 1000 ** 2) / 40000);
+  });
+
+  it('leaves a derived margin not available when an input margin is not available', () => {
+    const { marginsOfError } = resolveMetrics('453', ESTIMATES, {
+      population: 800,
+      bachelorsDegreePop: 900,
+      ownerOccupiedHousing: 400,
+      aggregateTravelTime: 30000
+    });
+
+    expect(marginsOfError).not.toHaveProperty('bachelorsShare');
+    expect(marginsOfError).not.toHaveProperty('ownerOccupancyRate');
+    expect(marginsOfError).not.toHaveProperty('meanTravelTime');
+    expect(marginsOfError.populationDensity).toBeGreaterThan(0);
+  });
+
+  it('counts controlled input margins as no sampling error', () => {
+    const { marginsOfError } = resolveMetrics('453', ESTIMATES, {
+      bachelorsDegreePop: 900,
+      population25Plus: null
+    });
+
+    // p = 0.25, sqrt(900² - 0.25² × 0²) / 60000 as a percentage
+    expect(marginsOfError.bachelorsShare).toBeCloseTo(900 / 60000 * 100);
+  });
+
+  it('does not mutate the estimates or margins passed in', () => {
+    const margins: CountyMarginsOfError = { population: 500 };
+    resolveMetrics('453', ESTIMATES, margins);
+
+    expect(margins).toEqual({ population: 500 });
+    expect(ESTIMATES.bachelorsShare).toBeUndefined();
+  });
+});
+
+describe('deriveMetrics', () => {
+  /**
+   * Every metric value resolved for Travis County, with overrides
+   */
+  const getValues = (overrides: Partial<Record<MetricKey, number | null>>): Record<MetricKey, number | null> => {
+    return resolveMetrics('453', { ...ESTIMATES, ...overrides }, {}).values;
+  };
+
+  it('treats an empty denominator as not available', () => {
+    const values = getValues({ population25Plus: 0, ownerOccupiedHousing: 0, renterOccupiedHousing: 0, commutingWorkers: 0 });
+    const marginsOfError: CountyMarginsOfError = { bachelorsShare: 1, ownerOccupancyRate: 1, meanTravelTime: 1 };
+    deriveMetrics(values, marginsOfError);
+
+    expect(values.bachelorsShare).toBeNull();
+    expect(values.ownerOccupancyRate).toBeNull();
+    expect(values.meanTravelTime).toBeNull();
+    expect(marginsOfError).toEqual({});
+  });
+
+  it('leaves a derived metric not available when an input is not available', () => {
+    const values = getValues({ bachelorsDegreePop: null });
+    const marginsOfError: CountyMarginsOfError = { bachelorsShare: 1 };
+    deriveMetrics(values, marginsOfError);
+
+    expect(values.bachelorsShare).toBeNull();
+    expect(marginsOfError.bachelorsShare).toBeUndefined();
+  });
+
+  it('fills in every derived metric', () => {
+    const values = getValues({});
+    const derivedKeys = METRICS.filter(({ source }) => source.type === 'derived').map(({ key }) => key);
+
+    derivedKeys.forEach(key => expect(values[key]).not.toBeNull());
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Metric registry
+ * 
+ * Single source of truth for county metrics: Census variable, label, unit,
+ * format, category and derivation. The registry drives the Census request,
+ * response parsing, the CountyInfo shape and the side panel, choropleth and
+ * comparison views. Adding a metric means adding its key to MetricKey and an
+ * entry here.
+ */
+
+import { CountyMarginsOfError, MetricCategory, MetricDefinition, MetricKey, MetricView } from '@/types';
+import {
+  getCountyLandArea,
+  getInputMargins,
+  getProportionMargin,
+  getRatioMargin,
+  getSumMargin,
+  safeDivide,
+  safePercent
+} from '@/utils/derivedIndicators';
+import { formatMetricValue } from '@/utils/formatters';
+
+/**
+ * Every county metric, in display order
+ */
+const METRIC_REGISTRY: Record<MetricKey, Omit<MetricDefinition, 'key'>> = {
+  population: {
+    label: 'Total Population',
+    unit: 'people',
+    format: 'number',
+    category: 'population',
+    source: { type: 'census', code: 'B01001_001', aggregation: 'sum' },
+    views: ['panel', 'map', 'compare']
+  },
+  population25Plus: {
+    label: 'Population 25 and Over',
+    unit: 'people',
+    format: 'number',
+    category: 'education',
+    source: { type: 'census', code: 'B15003_001', aggregation: 'sum' },
+    views: ['panel']
+  },
+  bachelorsDegreePop: {
+    label: "Bachelor's Degree",
+    unit: 'people',
+    format: 'number',
+    category: 'education',
+    source: { type: 'census', code: 'B15003_022', aggregation: 'sum' },
+    views: ['panel', 'map', 'compare']
+  },
+  bachelorsShare: {
+    label: "Bachelor's Degree Share (25+)",
+    unit: '%',
+    format: 'percent',
+    category: 'education',
+    source: {
+      type: 'derived',
+      formula: "Bachelor's degree holders ÷ population 25 and over (B15003_022E ÷ B15003_001E)",
+      inputs: ['bachelorsDegreePop', 'population25Plus'],
+      derive: (values) => safePercent(values.bachelorsDegreePop, values.population25Plus),
+      deriveMargin: (values, margins) => {
+        const inputMargins = getInputMargins(margins, 'bachelorsDegreePop', 'population25Plus');
+        if (!inputMargins) return undefined;
+        const [bachelorsMargin, populationMargin] = inputMargins;
+        return getProportionMargin(values.bachelorsDegreePop, values.population25Plus, bachelorsMargin, populationMargin) * 100;
+      }
+    },
+    views: ['panel', 'map', 'compare']
+  },
+  medianHouseholdIncome: {
+    label: 'Median Household Income',
+    unit: 'USD',
+    format: 'currency',
+    category: 'income',
+    source: { type: 'census', code: 'B19013_001', aggregation: 'populationWeighted' },
+    views: ['panel', 'map', 'compare']
+  },
+  medianHomeValue: {
+    label: 'Median Home Value',
+    unit: 'USD',
+    format: 'currency',
+    category: 'housing',
+    source: { type: 'census', code: 'B25077_001', aggregation: 'populationWeighted' },
+    views: ['panel', 'map', 'compare']
+  },
+  ownerOccupiedHousing: {
+    label: 'Owner Occupied Housing',
+    unit: 'units',
+    format: 'number',
+    category: 'housing',
+    source: { type: 'census', code: 'B25003_002', aggregation: 'sum' },
+    views: ['panel', 'map', 'compare']
+  },
+  renterOccupiedHousing: {
+    label: 'Renter Occupied Housing',
+    unit: 'units',
+    format: 'number',
+    category: 'housing',
+    source: { type: 'census', code: 'B25003_003', aggregation: 'sum' },
+    views: ['panel', 'map', 'compare']
+  },
+  ownerOccupancyRate: {
+    label: 'Owner-Occupancy Rate',
+    unit: '%',
+    format: 'percent',
+    category: 'housing',
+    source: {
+      type: 'derived',
+      formula: 'Owner-occupied units ÷ (owner-occupied + renter-occupied units) (B25003_002E ÷ (B25003_002E + B25003_003E))',
+      inputs: ['ownerOccupiedHousing', 'renterOccupiedHousing'],
+      derive: (values) => safePercent(
+        values.ownerOccupiedHousing,
+        values.ownerOccupiedHousing + values.renterOccupiedHousing
+      ),
+      deriveMargin: (values, margins) => {
+        const inputMargins = getInputMargins(margins, 'ownerOccupiedHousing', 'renterOccupiedHousing');
+        if (!inputMargins) return undefined;
+        const [ownerMargin, renterMargin] = inputMargins;
+        return getProportionMargin(
+          values.ownerOccupiedHousing,
+          values.ownerOccupiedHousing + values.renterOccupiedHousing,
+          ownerMargin,
+          getSumMargin(ownerMargin, renterMargin)
+        ) * 100;
+      }
+    },
+    views: ['panel', 'map', 'compare']
+  },
+  meanTravelTime: {
+    label: 'Mean Travel Time to Work',
+    unit: 'min',
+    format: 'minutes',
+    category: 'commute',
+    source: {
+      type: 'derived',
+      formula: 'Aggregate travel time to work ÷ workers who did not work from home (B08013_001E ÷ B08303_001E)',
+      inputs: ['aggregateTravelTime', 'commutingWorkers'],
+      derive: (values) => safeDivide(values.aggregateTravelTime, values.commutingWorkers),
+      deriveMargin: (values, margins) => {
+        const inputMargins = getInputMargins(margins, 'aggregateTravelTime', 'commutingWorkers');
+        if (!inputMargins) return undefined;
+        const [travelTimeMargin, workersMargin] = inputMargins;
+        return getRatioMargin(values.aggregateTravelTime, values.commutingWorkers, travelTimeMargin, workersMargin);
+      }
+    },
+    views: ['panel', 'map', 'compare']
+  },
+  commutingWorkers: {
+    label: 'Commuting Workers',
+    unit: 'workers',
+    format: 'number',
+    category: 'commute',
+    source: { type: 'census', code: 'B08303_001', aggregation: 'sum' },
+    views: ['panel', 'compare']
+  },
+  aggregateTravelTime: {
+    label: 'Aggregate Travel Time to Work',
+    unit: 'min',
+    format: 'number',
+    category: 'commute',
+    source: { type: 'census', code: 'B08013_001', aggregation: 'sum' },
+    views: []
+  },
+  landArea: {
+    label: 'Land Area',
+    unit: 'sq mi',
+    format: 'number',
+    category: 'geography',
+    source: {
+      type: 'bundled',
+      description: 'Census Bureau land area (ALAND, 2010 TIGER/Line), excluding water',
+      resolve: getCountyLandArea,
+      aggregation: 'sum'
+    },
+    views: ['panel']
+  },
+  populationDensity: {
+    label: 'Population Density',
+    unit: 'people / sq mi',
+    format: 'density',
+    category: 'geography',
+    source: {
+      type: 'derived',
+      formula: 'Total population ÷ land area in sq mi (B01001_001E ÷ ALAND)',
+      inputs: ['population', 'landArea'],
+      derive: (values) => safeDivide(values.population, values.landArea),
+      // Land area has no sampling error, so a controlled or unavailable population margin carries over
+      deriveMargin: (values, margins) => margins.population == null
+        ? margins.population
+        : safeDivide(margins.population, values.landArea)
+    },
+    views: ['panel', 'map', 'compare']
+  }
+};
+
+/**
+ * Every county metric with its key, in display order
+ */
+export const METRICS: MetricDefinition[] = (Object.keys(METRIC_REGISTRY) as MetricKey[]).map(key => ({
+  key,
+  ...METRIC_REGISTRY[key]
+}));
+
+/**
+ * Side panel sections, in display order
+ */
+export const METRIC_CATEGORIES: { key: MetricCategory; label: string }[] = [
+  { key: 'population', label: 'Population' },
+  { key: 'income', label: 'Income' },
+  { key: 'education', label: 'Education' },
+  { key: 'housing', label: 'Housing' },
+  { key: 'commute', label: 'Commute to Work' },
+  { key: 'geography', label: 'Land & Density' }
+];
+
+/**
+ * Travel-time buckets of table B08303, in minutes, with their estimate variables
+ */
+export const COMMUTE_BUCKETS = [
+  { label: 'Less than 5', code: 'B08303_002' },
+  { label: '5 to 9', code: 'B08303_003' },
+  { label: '10 to 14', code: 'B08303_004' },
+  { label: '15 to 19', code: 'B08303_005' },
+  { label: '20 to 24', code: 'B08303_006' },
+  { label: '25 to 29', code: 'B08303_007' },
+  { label: '30 to 34', code: 'B08303_008' },
+  { label: '35 to 39', code: 'B08303_009' },
+  { label: '40 to 44', code: 'B08303_010' },
+  { label: '45 to 59', code: 'B08303_011' },
+  { label: '60 to 89', code: 'B08303_012' },
+  { label: '90 or more', code: 'B08303_013' }
+] as const;
+
+/**
+ * Finds a metric definition by key
+ * @param key - Metric key
+ * @returns Metric definition
+ */
+export const getMetricDefinition = (key: MetricKey): MetricDefinition => {
+  return { key, ...METRIC_REGISTRY[key] };
+};
+
+/**
+ * Lists the metrics shown in a view
+ * @param view - Side panel, map pickers or comparison table
+ * @returns Metric definitions in display order
+ */
+export const getMetricsForView = (view: MetricView): MetricDefinition[] => {
+  return METRICS.filter(metric => metric.views.includes(view));
+};
+
+/**
+ * Lists the side panel metrics of a category
+ * @param category - Panel section
+ * @returns Metric definitions in display order
+ */
+export const getPanelMetricsByCategory = (category: MetricCategory): MetricDefinition[] => {
+  return getMetricsForView('panel').filter(metric => metric.category === category);
+};
+
+/**
+ * Lists the metrics read from Census estimate variables
+ * @returns Metric keys with their variable codes, in registry order
+ */
+export const getCensusMetrics = (): { key: MetricKey; code: string }[] => {
+  return METRICS.flatMap(({ key, source }) => source.type === 'census' ? [{ key, code: source.code }] : []);
+};
+
+/**
+ * Computes the derived metrics from the other metrics, in registry order
+ * Earlier derived metrics may feed later ones; a derived metric is not available when any of its inputs is not, or when its denominator is 0
+ * @param values - Metric values; derived entries are filled in
+ * @param marginsOfError - Margins of error; derived entries are filled in
+ */
+export const deriveMetrics = (
+  values: Record<MetricKey, number | null>,
+  marginsOfError: CountyMarginsOfError
+): void => {
+  METRICS.forEach(({ key, source }) => {
+    if (source.type !== 'derived') return;
+
+    if (source.inputs.some(input => values[input] === null)) {
+      values[key] = null;
+      delete marginsOfError[key];
+      return;
+    }
+
+    const inputValues = values as Record<MetricKey, number>;
+    const value = source.derive(inputValues);
+    values[key] = value;
+    // An empty denominator (e.g. no workers) leaves the metric not available
+    if (value === null) {
+      delete marginsOfError[key];
+      return;
+    }
+    const margin = source.deriveMargin(inputValues, marginsOfError);
+    if (margin === undefined) {
+      delete marginsOfError[key];
+    } else {
+      marginsOfError[key] = margin;
+    }
+  });
+};
+
+/**
+ * Fills in bundled and derived metrics from the Census estimates of a county
+ * @param countyFips - 3-digit county FIPS code (e.g. "201"), used to look up bundled values
+ * @param estimates - Census estimates keyed by metric, null when not available
+ * @param margins - Margins of error of the estimates
+ * @returns Every metric value, and margins including the derived metrics
+ */
+export const resolveMetrics = (
+  countyFips: string,
+  estimates: Partial<Record<MetricKey, number | null>>,
+  margins: CountyMarginsOfError
+): { values: Record<MetricKey, number | null>; marginsOfError: CountyMarginsOfError } => {
+  const values = { ...estimates } as Record<MetricKey, number | null>;
+  const marginsOfError: CountyMarginsOfError = { ...margins };
+
+  METRICS.forEach(({ key, source }) => {
+    if (source.type === 'bundled') {
+      values[key] = source.resolve(countyFips);
+    }
+  });
+
+  deriveMetrics(values, marginsOfError);
+
+  return { values, marginsOfError };
+};
+
+/**
+ * Formats a metric value with the metric's formatter
+ * @param key - Metric key
+ * @param value - Value to format, or null when not available
+ * @returns Formatted string
+ */
+export const formatMetric = (key: MetricKey, value: number | null): string => {
+  return formatMetricValue(value, METRIC_REGISTRY[key].format);
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { buildCounty } from '@/test/countyFixtures';
+import { computeMetricRanking, computeStatewideRankings } from '@/utils/ranking';
+
+
+describe('computeMetricRanking', () => {
+  it('ranks the highest value first', () => {
+    const values = [10, 40, 20, 30];
+
+    expect(computeMetricRanking(40, values)).toMatchObject({ rank: 1, total: 4, percentile: 87.5 });
+    expect(computeMetricRanking(10, values)).toMatchObject({ rank: 4, total: 4, percentile: 12.5 });
+  });
+
+  it('gives tied values the same rank and counts ties as half', () => {
+    const values = [10, 20, 20, 30];
+
+    expect(computeMetricRanking(20, values)).toMatchObject({ rank: 2, percentile: 50 });
+  });
+
+  it('compares the value with the median', () => {
+    expect(computeMetricRanking(30, [10, 20, 30])).toMatchObject({ median: 20, percentFromMedian: 50 });
+    expect(computeMetricRanking(15, [10, 20, 30, 40])).toMatchObject({ median: 25, percentFromMedian: -40 });
+  });
+
+  it('leaves the difference from a zero median out', () => {
+    expect(computeMetricRanking(5, [0, 0, 5])?.percentFromMedian).toBeNull();
+  });
+
+  it('returns null without values', () => {
+    expect(computeMetricRanking(5, [])).toBeNull();
+  });
+});
+
+describe('computeStatewideRankings', () => {
+  const counties = [
+    buildCounty('001', { population: 1000, medianHouseholdIncome: 50000 }),
+    buildCounty('001', { population: 3000, medianHouseholdIncome: null }),
+    buildCounty('001', { population: 2000, medianHouseholdIncome: 70000 })
+  ];
+
+  it('ranks only among counties with a value', () => {
+    const rankings = computeStatewideRankings(counties[2], counties);
+
+    expect(rankings.population).toMatchObject({ rank: 2, total: 3 });
+    expect(rankings.medianHouseholdIncome).toMatchObject({ rank: 1, total: 2 });
+  });
+
+  it('omits metrics the county has no value for', () => {
+    const rankings = computeStatewideRankings(counties[1], counties);
+
+    expect(rankings.population).toMatchObject({ rank: 1 });
+    expect(rankings).not.toHaveProperty('medianHouseholdIncome');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Ranking utilities
+ * 
+ * Places a county's metrics among every Texas county, so values can be read
+ * against the rest of the state
+ */
+
+import { CountyInfo, MetricKey, MetricRanking } from '@/types';
+import { getMetricsForView } from '@/utils/metricRegistry';
+
+/**
+ * Computes the median of sorted values
+ * @param sorted - Values sorted in ascending order
+ * @returns Median, averaging the middle pair for an even count
+ */
+const getMedian = (sorted: number[]): number => {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Ranks a value among a set of values
+ * @param value - County value
+ * @param values - Values of every county with data, including this one
+ * @returns Rank, percentile and comparison with the median, or null without values
+ */
+export const computeMetricRanking = (value: number, values: number[]): MetricRanking | null => {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const lower = sorted.filter(other => other < value).length;
+  const higher = sorted.filter(other => other > value).length;
+  const equal = sorted.length - lower - higher;
+  const median = getMedian(sorted);
+
+  return {
+    rank: higher + 1,
+    total: sorted.length,
+    percentile: ((lower + equal / 2) / sorted.length) * 100,
+    median,
+    percentFromMedian: median !== 0 ? ((value - median) / Math.abs(median)) * 100 : null
+  };
+};
+
+/**
+ * Ranks every side panel metric of a county among all counties
+ * @param county - County to rank
+ * @param counties - Data of every Texas county
+ * @returns Rankings keyed by metric; metrics the county has no value for are omitted
+ */
+export const computeStatewideRankings = (
+  county: CountyInfo,
+  counties: CountyInfo[]
+): Partial<Record<MetricKey, MetricRanking>> => {
+  const rankings: Partial<Record<MetricKey, MetricRanking>> = {};
+
+  getMetricsForView('panel').forEach(({ key }) => {
+    const value = county[key];
+    if (value === null) return;
+
+    const values = counties
+      .map(other => other[key])
+      .filter((other): other is number => other !== null && Number.isFinite(other));
+    const ranking = computeMetricRanking(value, values);
+    if (ranking) {
+      rankings[key] = ranking;
+    }
+  });
+
+  return rankings;
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { getAvailableCounties, getCountyFips } from '@/apis/countyInfoAPIs';
+import { COUNTY_REGION_CROSSWALK, TEXAS_REGIONS } from '@/data/texasRegions';
+import { buildCounty } from '@/test/countyFixtures';
+import { MetricKey } from '@/types';
+import { getSumMargin } from '@/utils/derivedIndicators';
+import { aggregateRegion, getRegionById, getRegionCountyNames } from '@/utils/regions';
+
+
+/**
+ * Census estimates shared by the test counties
+ */
+const ESTIMATES: Partial<Record<MetricKey, number | null>> = {
+  population25Plus: 1000,
+  bachelorsDegreePop: 250,
+  medianHomeValue: 200000,
+  ownerOccupiedHousing: 600,
+  renterOccupiedHousing: 400,
+  commutingWorkers: 800,
+  aggregateTravelTime: 16000
+};
+
+const VICTORIA_MSA = getRegionById('msa-victoria')!;
+
+describe('region membership', () => {
+  it('places every county in one council of governments and one comptroller region', () => {
+    getAvailableCounties().forEach(countyName => {
+      const regions = COUNTY_REGION_CROSSWALK[getCountyFips(countyName)];
+
+      expect(regions?.cog, countyName).toMatch(/^cog-/);
+      expect(regions?.comptroller, countyName).toMatch(/^comptroller-/);
+    });
+  });
+
+  it('only refers to defined regions', () => {
+    const regionIds = new Set(TEXAS_REGIONS.map(({ id }) => id));
+
+    Object.values(COUNTY_REGION_CROSSWALK).forEach(regions => {
+      Object.values(regions).forEach(regionId => expect(regionIds).toContain(regionId));
+    });
+  });
+
+  it('lists the member counties of a region', () => {
+    expect(getRegionCountyNames(VICTORIA_MSA)).toEqual(['Goliad', 'Victoria']);
+    expect(getRegionCountyNames(getRegionById('cog-coastal-bend')!)).toContain('McMullen');
+  });
+});
+
+describe('aggregateRegion', () => {
+  const goliad = buildCounty('175', { ...ESTIMATES, population: 1000, medianHouseholdIncome: 50000 }, {
+    population: null,
+    ownerOccupiedHousing: 30,
+    renterOccupiedHousing: 40
+  });
+  const victoria = buildCounty('469', { ...ESTIMATES, population: 3000, medianHouseholdIncome: 70000 }, {
+    population: null,
+    ownerOccupiedHousing: 90,
+    renterOccupiedHousing: 120
+  });
+
+  it('returns null when no member county has data', () => {
+    expect(aggregateRegion(VICTORIA_MSA, {})).toBeNull();
+  });
+
+  it('aggregates the members with data and lists the missing ones', () => {
+    const summary = aggregateRegion(VICTORIA_MSA, { '48469': victoria })!;
+
+    expect(summary.countyNames).toEqual(['Goliad', 'Victoria']);
+    expect(summary.missingCountyNames).toEqual(['Goliad']);
+    expect(summary.values.population).toBe(3000);
+    expect(summary.values.medianHouseholdIncome).toBe(70000);
+    expect(summary.values.landArea).toBeCloseTo(victoria.landArea!);
+  });
+
+  it('sums totals and combines their margins', () => {
+    const summary = aggregateRegion(VICTORIA_MSA, { '48175': goliad, '48469': victoria })!;
+
+    expect(summary.missingCountyNames).toEqual([]);
+    expect(summary.values.population).toBe(4000);
+    expect(summary.values.ownerOccupiedHousing).toBe(1200);
+    expect(summary.values.landArea).toBeCloseTo(goliad.landArea! + victoria.landArea!);
+    expect(summary.marginsOfError.population).toBeNull();
+    expect(summary.marginsOfError.ownerOccupiedHousing).toBeCloseTo(getSumMargin(30, 90));
+    expect('commutingWorkers' in summary.marginsOfError).toBe(false);
+  });
+
+  it('weights medians by population', () => {
+    const summary = aggregateRegion(VICTORIA_MSA, { '48175': goliad, '48469': victoria })!;
+
+    expect(summary.values.medianHouseholdIncome).toBe(65000);
+    expect(summary.values.medianHomeValue).toBe(200000);
+  });
+
+  it('recomputes derived metrics from the aggregates', () => {
+    const summary = aggregateRegion(VICTORIA_MSA, { '48175': goliad, '48469': victoria })!;
+
+    expect(summary.values.ownerOccupancyRate).toBe(60);
+    expect(summary.values.meanTravelTime).toBe(20);
+    expect(summary.values.populationDensity).toBeCloseTo(4000 / summary.values.landArea!);
+  });
+
+  it('leaves a metric not available when a member has no value', () => {
+    const summary = aggregateRegion(VICTORIA_MSA, {
+      '48175': { ...goliad, medianHouseholdIncome: null },
+      '48469': victoria
+    })!;
+
+    expect(summary.values.medianHouseholdIncome).toBeNull();
+    expect(summary.values.population).toBe(4000);
+  });
+});
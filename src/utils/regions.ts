@@ -0,0 +1,137 @@
+/**
+ * Region utilities
+ *
+ * Looks up region membership from the bundled crosswalk and aggregates
+ * county data into region totals
+ */
+
+import { getCountyNameByFips } from '@/apis/countyInfoAPIs';
+import { COUNTY_REGION_CROSSWALK, TEXAS_REGIONS } from '@/data/texasRegions';
+import { CountyInfo, CountyMarginsOfError, MetricKey, RegionDefinition, RegionSummary, RegionType } from '@/types';
+import { getSumMargin } from '@/utils/derivedIndicators';
+import { deriveMetrics, METRICS } from '@/utils/metricRegistry';
+
+/**
+ * Region type labels, in picker order
+ */
+export const REGION_TYPE_LABELS: Record<RegionType, string> = {
+  msa: 'Metro areas (MSAs)',
+  cog: 'Councils of governments',
+  comptroller: 'Comptroller economic regions'
+};
+
+/**
+ * Lists the regions of a type
+ * @param type - Region type
+ * @returns Regions sorted by name
+ */
+export const getRegionsByType = (type: RegionType): RegionDefinition[] => {
+  return TEXAS_REGIONS
+    .filter(region => region.type === type)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Finds a region by id
+ * @param regionId - Region id (e.g. "msa-austin")
+ * @returns Region definition or null if unknown
+ */
+export const getRegionById = (regionId: string): RegionDefinition | null => {
+  return TEXAS_REGIONS.find(region => region.id === regionId) ?? null;
+};
+
+/**
+ * Lists the member counties of a region
+ * @param region - Region definition
+ * @returns 3-digit county FIPS codes of the members
+ */
+export const getRegionCountyFips = (region: RegionDefinition): string[] => {
+  return Object.keys(COUNTY_REGION_CROSSWALK)
+    .filter(countyFips => COUNTY_REGION_CROSSWALK[countyFips][region.type] === region.id);
+};
+
+/**
+ * Lists the names of the member counties of a region
+ * @param region - Region definition
+ * @returns County names sorted alphabetically (e.g. ["Bastrop", "Caldwell", ...])
+ */
+export const getRegionCountyNames = (region: RegionDefinition): string[] => {
+  return getRegionCountyFips(region)
+    .map(countyFips => getCountyNameByFips(countyFips))
+    .filter((countyName): countyName is string => countyName !== null)
+    .sort();
+};
+
+/**
+ * Aggregates the data of a region's member counties
+ * Members without data are left out and listed, since some releases skip small counties
+ * (1-year estimates only cover counties of 65,000 people or more)
+ *
+ * - Counts and totals are summed, with margins of error combined as the root of the summed squares
+ * - Medians are averaged weighted by population (an approximation; they have no margin of error)
+ * - Derived metrics are recomputed from the aggregates
+ *
+ * @param region - Region definition
+ * @param countiesByFips - County data keyed by 5-digit FIPS code
+ * @returns Region summary, or null when no member county has data
+ */
+export const aggregateRegion = (
+  region: RegionDefinition,
+  countiesByFips: Record<string, CountyInfo>
+): RegionSummary | null => {
+  const memberFips = getRegionCountyFips(region);
+  const members = memberFips
+    .map(countyFips => countiesByFips[`48${countyFips}`])
+    .filter((county): county is CountyInfo => county !== undefined);
+  if (members.length === 0) return null;
+
+  const missingCountyNames = memberFips
+    .filter(countyFips => !countiesByFips[`48${countyFips}`])
+    .map(countyFips => getCountyNameByFips(countyFips))
+    .filter((countyName): countyName is string => countyName !== null)
+    .sort();
+
+  const values = {} as Record<MetricKey, number | null>;
+  const marginsOfError: CountyMarginsOfError = {};
+
+  METRICS.forEach(({ key, source }) => {
+    if (source.type === 'derived') return;
+
+    const countyValues = members.map(county => county[key]);
+    if (countyValues.some(value => value === null)) {
+      values[key] = null;
+      return;
+    }
+
+    if (source.aggregation === 'sum') {
+      values[key] = (countyValues as number[]).reduce((total, value) => total + value, 0);
+      const countyMargins = members.map(county => county.marginsOfError[key]);
+      if (countyMargins.every(margin => margin !== undefined)) {
+        // Controlled estimates (null margin) have no sampling error
+        const sampledMargins = countyMargins.filter((margin): margin is number => margin !== null);
+        marginsOfError[key] = sampledMargins.length > 0 ? getSumMargin(...sampledMargins) : null;
+      }
+      return;
+    }
+
+    const weights = members.map(county => county.population);
+    if (weights.some(weight => weight === null)) {
+      values[key] = null;
+      return;
+    }
+    const totalWeight = (weights as number[]).reduce((total, weight) => total + weight, 0);
+    values[key] = totalWeight > 0
+      ? (countyValues as number[]).reduce((total, value, index) => total + value * weights[index]!, 0) / totalWeight
+      : null;
+  });
+
+  deriveMetrics(values, marginsOfError);
+
+  return {
+    region,
+    countyNames: getRegionCountyNames(region),
+    missingCountyNames,
+    values,
+    marginsOfError
+  };
+};
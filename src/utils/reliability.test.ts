@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { ACS_MOE_Z_SCORE, CV_CAUTION_THRESHOLD, getCoefficientOfVariation, isUnreliableEstimate } from '@/utils/reliability';
+
+/**
+ * Margin of error giving an estimate exactly the caution threshold CV
+ */
+const THRESHOLD_MARGIN = CV_CAUTION_THRESHOLD * ACS_MOE_Z_SCORE * 1000;
+
+describe('getCoefficientOfVariation', () => {
+  it('converts the 90% margin to a standard error relative to the estimate', () => {
+    expect(getCoefficientOfVariation(1000, 164.5)).toBeCloseTo(0.1);
+  });
+
+  it('returns null without a margin or a positive estimate', () => {
+    expect(getCoefficientOfVariation(1000, null)).toBeNull();
+    expect(getCoefficientOfVariation(1000, undefined)).toBeNull();
+    expect(getCoefficientOfVariation(0, 10)).toBeNull();
+  });
+});
+
+describe('isUnreliableEstimate', () => {
+  it('flags estimates above the CV threshold only', () => {
+    expect(isUnreliableEstimate(1000, THRESHOLD_MARGIN - 1)).toBe(false);
+    expect(isUnreliableEstimate(1000, THRESHOLD_MARGIN)).toBe(false);
+    expect(isUnreliableEstimate(1000, THRESHOLD_MARGIN + 1)).toBe(true);
+  });
+
+  it('does not flag estimates without sampling error or without a margin', () => {
+    expect(isUnreliableEstimate(1000, null)).toBe(false);
+    expect(isUnreliableEstimate(1000, undefined)).toBe(false);
+  });
+});
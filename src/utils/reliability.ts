@@ -0,0 +1,45 @@
+/**
+ * Estimate reliability utilities
+ * 
+ * ACS margins of error are published at the 90% confidence level. The coefficient
+ * of variation (CV) relates the standard error to the estimate:
+ * CV = (MOE / 1.645) / estimate
+ */
+
+/**
+ * Z-score of the 90% confidence level used by published ACS margins of error
+ */
+export const ACS_MOE_Z_SCORE = 1.645;
+
+/**
+ * CV above which an estimate is flagged "use with caution"
+ */
+export const CV_CAUTION_THRESHOLD = 0.3;
+
+/**
+ * Computes the coefficient of variation of an estimate
+ * @param estimate - Estimate value
+ * @param marginOfError - 90% margin of error, or null/undefined when not available
+ * @returns CV as a fraction, or null when it can't be computed
+ */
+export const getCoefficientOfVariation = (
+  estimate: number,
+  marginOfError: number | null | undefined
+): number | null => {
+  if (marginOfError == null || estimate <= 0) return null;
+  return marginOfError / ACS_MOE_Z_SCORE / estimate;
+};
+
+/**
+ * Checks whether an estimate should be used with caution
+ * @param estimate - Estimate value
+ * @param marginOfError - 90% margin of error
+ * @returns True if the CV exceeds CV_CAUTION_THRESHOLD
+ */
+export const isUnreliableEstimate = (
+  estimate: number,
+  marginOfError: number | null | undefined
+): boolean => {
+  const cv = getCoefficientOfVariation(estimate, marginOfError);
+  return cv !== null && cv > CV_CAUTION_THRESHOLD;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { buildCounty } from '@/test/countyFixtures';
+import { CountyTrendPoint } from '@/types';
+import { computeTrendChange, getTrendValues, getTrendYears } from '@/utils/trends';
+
+describe('getTrendYears', () => {
+  it('lists the releases of the dataset up to the vintage, oldest first', () => {
+    const years = getTrendYears({ year: 2022, dataset: 'acs5' });
+
+    expect(years[0]).toBeLessThan(years[1]);
+    expect(years[years.length - 1]).toBe(2022);
+    expect(years).toContain(2020);
+  });
+
+  it('skips years without a release', () => {
+    const years = getTrendYears({ year: 2022, dataset: 'acs1' });
+
+    expect(years).not.toContain(2020);
+    expect(years.slice(-2)).toEqual([2021, 2022]);
+  });
+});
+
+describe('getTrendValues', () => {
+  const points: CountyTrendPoint[] = [
+    { year: 2018, data: buildCounty('453', { population: 1200000, medianHouseholdIncome: 70000 }) },
+    { year: 2019, data: null },
+    { year: 2020, data: buildCounty('453', { population: 1250000, medianHouseholdIncome: null }) },
+    { year: 2021, data: buildCounty('453', { population: 1290000, medianHouseholdIncome: 80000 }) }
+  ];
+
+  it('skips years without data for the county', () => {
+    expect(getTrendValues(points, 'population')).toEqual([
+      { year: 2018, value: 1200000 },
+      { year: 2020, value: 1250000 },
+      { year: 2021, value: 1290000 }
+    ]);
+  });
+
+  it('skips years where the metric is not available', () => {
+    expect(getTrendValues(points, 'medianHouseholdIncome').map(({ year }) => year)).toEqual([2018, 2021]);
+  });
+});
+
+describe('computeTrendChange', () => {
+  it('compares the first and last years with data', () => {
+    expect(computeTrendChange([
+      { year: 2018, value: 80 },
+      { year: 2020, value: 90 },
+      { year: 2022, value: 100 }
+    ])).toEqual({ startYear: 2018, endYear: 2022, absolute: 20, percent: 25 });
+  });
+
+  it('needs two years with data', () => {
+    expect(computeTrendChange([])).toBeNull();
+    expect(computeTrendChange([{ year: 2022, value: 100 }])).toBeNull();
+  });
+
+  it('leaves the percent change from zero out', () => {
+    expect(computeTrendChange([{ year: 2018, value: 0 }, { year: 2022, value: 5 }])?.percent).toBeNull();
+  });
+});
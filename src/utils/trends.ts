@@ -0,0 +1,56 @@
+/**
+ * Trend utilities
+ * 
+ * Provides helpers for multi-year county metric trends
+ */
+
+import { AcsVintage, CountyTrendPoint, NumericCountyField, TrendChange } from '@/types';
+import { getAvailableAcsYears } from '@/utils/acsVintage';
+
+/**
+ * Get the release years for a trend ending at a vintage, oldest first
+ * @param vintage - Selected ACS vintage (last year of the trend)
+ * @returns Release years of the same dataset up to the vintage year
+ */
+export const getTrendYears = (vintage: AcsVintage): number[] => {
+  return getAvailableAcsYears(vintage.dataset)
+    .filter(year => year <= vintage.year)
+    .reverse();
+};
+
+/**
+ * Extracts the yearly values of a metric, skipping years without data
+ * @param points - Trend points ordered by year
+ * @param metric - CountyInfo field
+ * @returns Year/value pairs
+ */
+export const getTrendValues = (
+  points: CountyTrendPoint[],
+  metric: NumericCountyField
+): { year: number; value: number }[] => {
+  return points
+    .flatMap(point => {
+      const value = point.data?.[metric];
+      return typeof value === 'number' && Number.isFinite(value) ? [{ year: point.year, value }] : [];
+    });
+};
+
+/**
+ * Computes the change of a metric between the first and last year with data
+ * @param values - Year/value pairs ordered by year
+ * @returns Absolute and percent change, or null with fewer than two values
+ */
+export const computeTrendChange = (values: { year: number; value: number }[]): TrendChange | null => {
+  if (values.length < 2) return null;
+
+  const first = values[0];
+  const last = values[values.length - 1];
+  const absolute = last.value - first.value;
+
+  return {
+    startYear: first.year,
+    endYear: last.year,
+    absolute,
+    percent: first.value !== 0 ? (absolute / Math.abs(first.value)) * 100 : null
+  };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ACS_VINTAGE } from '@/utils/acsVintage';
+import { MAX_COMPARED_COUNTIES } from '@/utils/comparison';
+import { MapUrlState, buildMapUrlQuery, parseMapUrlState } from '@/utils/urlState';
+
+/**
+ * Map view state with every field at its default
+ */
+const DEFAULT_STATE: MapUrlState = {
+  selectedCounty: null,
+  isPanelVisible: false,
+  metric: null,
+  comparedCounties: [],
+  vintage: DEFAULT_ACS_VINTAGE
+};
+
+describe('map URL state', () => {
+  it('round-trips a full view', () => {
+    const state: MapUrlState = {
+      selectedCounty: 'El Paso',
+      isPanelVisible: false,
+      metric: 'medianHouseholdIncome',
+      comparedCounties: ['Travis', 'Harris'],
+      vintage: { year: 2021, dataset: 'acs1' }
+    };
+
+    expect(parseMapUrlState(buildMapUrlQuery(state))).toEqual(state);
+  });
+
+  it('leaves defaults out of the query', () => {
+    expect(buildMapUrlQuery(DEFAULT_STATE)).toBe('');
+    expect(buildMapUrlQuery({ ...DEFAULT_STATE, selectedCounty: 'Travis', isPanelVisible: true })).toBe('?county=Travis');
+    expect(parseMapUrlState('')).toEqual(DEFAULT_STATE);
+  });
+
+  it('resolves county names to their canonical spelling', () => {
+    const state = parseMapUrlState('?county=la%20salle&compare=DEWITT,bexar');
+
+    expect(state.selectedCounty).toBe('La Salle');
+    expect(state.isPanelVisible).toBe(true);
+    expect(state.comparedCounties).toEqual(['DeWitt', 'Bexar']);
+  });
+
+  it('ignores unknown values', () => {
+    const state = parseMapUrlState('?county=Atlantis&metric=shoeSize&compare=Atlantis,Travis&year=1990&dataset=acs5');
+
+    expect(state).toEqual({ ...DEFAULT_STATE, comparedCounties: ['Travis'] });
+  });
+
+  it('drops duplicate compared counties and caps the list', () => {
+    const state = parseMapUrlState('?compare=Travis,travis,Harris,Dallas,Bexar,Tarrant,Collin');
+
+    expect(state.comparedCounties).toEqual(['Travis', 'Harris', 'Dallas', 'Bexar'].slice(0, MAX_COMPARED_COUNTIES));
+  });
+});
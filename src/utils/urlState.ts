@@ -0,0 +1,107 @@
+/**
+ * URL state utilities
+ * 
+ * Serializes the shareable map view (selection, panel, metric, comparison, vintage)
+ * to and from the URL query string
+ */
+
+import { getAvailableCounties } from '@/apis/countyInfoAPIs';
+import { AcsVintage, NumericCountyField } from '@/types';
+import { DEFAULT_ACS_VINTAGE, getAcsVintageKey, parseAcsVintage } from '@/utils/acsVintage';
+import { getChoroplethMetric } from '@/utils/choropleth';
+import { MAX_COMPARED_COUNTIES } from '@/utils/comparison';
+import { normalizeCountyName } from '@/utils/countyUtils';
+
+/**
+ * Map view state kept in the URL
+ */
+export interface MapUrlState {
+  selectedCounty: string | null;
+  isPanelVisible: boolean;
+  metric: NumericCountyField | null;
+  comparedCounties: string[];
+  vintage: AcsVintage;
+}
+
+/**
+ * Query parameter names
+ */
+const URL_PARAMS = {
+  county: 'county',
+  panel: 'panel',
+  metric: 'metric',
+  compare: 'compare',
+  year: 'year',
+  dataset: 'dataset'
+} as const;
+
+/**
+ * Resolves a county name from the URL to its canonical spelling
+ * @param countyName - County name as written in the URL (any case)
+ * @returns Canonical county name, or null if not a Texas county
+ */
+const resolveCountyName = (countyName: string): string | null => {
+  const normalizedName = normalizeCountyName(countyName);
+  return getAvailableCounties().find(name => normalizeCountyName(name) === normalizedName) ?? null;
+};
+
+/**
+ * Parses map view state from a query string
+ * Unknown counties, metrics and vintages are ignored
+ * @param search - Query string (e.g. window.location.search)
+ * @returns Map view state
+ */
+export const parseMapUrlState = (search: string): MapUrlState => {
+  const params = new URLSearchParams(search);
+
+  const countyParam = params.get(URL_PARAMS.county);
+  const selectedCounty = countyParam ? resolveCountyName(countyParam) : null;
+
+  const metricParam = params.get(URL_PARAMS.metric);
+  const metric = metricParam ? getChoroplethMetric(metricParam as NumericCountyField)?.key ?? null : null;
+
+  const comparedCounties = (params.get(URL_PARAMS.compare) ?? '')
+    .split(',')
+    .map(countyName => resolveCountyName(countyName))
+    .filter((countyName): countyName is string => countyName !== null)
+    .filter((countyName, index, list) => list.indexOf(countyName) === index)
+    .slice(0, MAX_COMPARED_COUNTIES);
+
+  return {
+    selectedCounty,
+    isPanelVisible: selectedCounty !== null && params.get(URL_PARAMS.panel) !== 'closed',
+    metric,
+    comparedCounties,
+    vintage: parseAcsVintage(params.get(URL_PARAMS.year), params.get(URL_PARAMS.dataset)) ?? DEFAULT_ACS_VINTAGE
+  };
+};
+
+/**
+ * Builds the query string for map view state
+ * Default values are left out so plain links stay short
+ * @param state - Map view state
+ * @returns Query string including the leading "?", or "" when everything is default
+ */
+export const buildMapUrlQuery = (state: MapUrlState): string => {
+  const params = new URLSearchParams();
+
+  if (state.selectedCounty) {
+    params.set(URL_PARAMS.county, state.selectedCounty);
+    if (!state.isPanelVisible) {
+      params.set(URL_PARAMS.panel, 'closed');
+    }
+  }
+  if (state.metric) {
+    params.set(URL_PARAMS.metric, state.metric);
+  }
+  if (state.comparedCounties.length > 0) {
+    params.set(URL_PARAMS.compare, state.comparedCounties.join(','));
+  }
+  if (getAcsVintageKey(state.vintage) !== getAcsVintageKey(DEFAULT_ACS_VINTAGE)) {
+    params.set(URL_PARAMS.year, String(state.vintage.year));
+    params.set(URL_PARAMS.dataset, state.vintage.dataset);
+  }
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};